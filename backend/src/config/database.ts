@@ -1,10 +1,18 @@
 import mongoose from 'mongoose';
+import { config } from '../env.js';
 
 export const connectDB = async (): Promise<void> => {
   const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/single-digit-lottery';
 
   try {
     await mongoose.connect(mongoUri);
+    // One-off migration after an upgrade that changed indexes (e.g. round numbers became
+    // unique per channel): drop indexes the schemas no longer declare and build the new ones
+    if (config.syncIndexes) {
+      // eslint-disable-next-line no-console
+      console.log('Syncing MongoDB indexes with the schemas...');
+      await mongoose.connection.syncIndexes();
+    }
     // eslint-disable-next-line no-console
     console.log('MongoDB connected successfully');
   } catch (error) {
@@ -0,0 +1,240 @@
+import { NextFunction, Request, Response } from 'express';
+import { PayoutQueueService } from '../services/payout-queue.service.js';
+import { GameService } from '../services/game.service.js';
+import { SubscriptionService } from '../services/subscription.service.js';
+import { ReconciliationService } from '../services/reconciliation.service.js';
+import { UnmatchedTransferService } from '../services/unmatched-transfer.service.js';
+import { IBet, IPayoutJob, IUnmatchedTransfer } from '../models/game.model.js';
+import { config } from '../env.js';
+import { CoinUtils } from '../utils/coin.js';
+
+const PAYOUT_JOB_STATUSES: IPayoutJob['status'][] = ['queued', 'processing', 'done', 'dead'];
+type StuckRefundStatus = Exclude<IBet['refundStatus'], 'none' | 'confirmed'>;
+const STUCK_REFUND_STATUSES: StuckRefundStatus[] = ['pending', 'sent', 'failed'];
+const UNMATCHED_TRANSFER_STATUSES: IUnmatchedTransfer['status'][] = [
+  'pending',
+  'refunding',
+  'attached',
+  'refunded',
+  'written_off',
+];
+
+// Errors from resolving an unmatched transfer: unknown ids are 404, the rest 400
+function unmatchedErrorStatus(message: string): number {
+  return message === 'Unmatched transfer not found' || message === 'Bet not found' ? 404 : 400;
+}
+
+export class AdminController {
+  // Only requests carrying the configured X-Admin-Key may use the admin routes
+  static requireAdmin(req: Request, res: Response, next: NextFunction): void {
+    if (!config.adminApiKey) {
+      res.status(403).json({ success: false, error: 'Admin API is disabled' });
+      return;
+    }
+    if (req.header('x-admin-key') !== config.adminApiKey) {
+      res.status(401).json({ success: false, error: 'Unauthorized: Invalid admin key' });
+      return;
+    }
+    next();
+  }
+
+  // List payout jobs, optionally filtered by status (e.g. ?status=dead for the dead-letter queue)
+  static async listPayoutJobs(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as IPayoutJob['status'] | undefined;
+      if (status !== undefined && !PAYOUT_JOB_STATUSES.includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid status. Must be one of: ${PAYOUT_JOB_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      const jobs = await PayoutQueueService.list(status);
+      res.json({ success: true, data: jobs });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  }
+
+  // Requeue a dead-lettered payout job
+  static async requeuePayoutJob(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await PayoutQueueService.requeue(req.params.jobId as string);
+      res.json({ success: true, data: job });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = message === 'Payout job not found' ? 404 : 400;
+      res.status(status).json({ success: false, error: message });
+    }
+  }
+
+  // List refunds that have not been confirmed, optionally filtered by status
+  static async listStuckRefunds(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as StuckRefundStatus | undefined;
+      if (status !== undefined && !STUCK_REFUND_STATUSES.includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid status. Must be one of: ${STUCK_REFUND_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      const bets = await GameService.getStuckRefunds(status);
+      res.json({ success: true, data: bets });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  }
+
+  // Retry a refund that ran out of attempts
+  static async retryRefund(req: Request, res: Response): Promise<void> {
+    try {
+      const bet = await GameService.retryRefund(req.params.betId as string);
+      res.json({ success: true, data: bet });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = message === 'Bet not found' ? 404 : 400;
+      res.status(status).json({ success: false, error: message });
+    }
+  }
+
+  // Cancel any subscription (e.g. one without a cancel token) - unplaced rounds are refunded
+  static async cancelSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const { reason } = req.body as { reason?: string };
+      const subscription = await SubscriptionService.cancel(
+        req.params.subscriptionId as string,
+        reason || 'Cancelled by operator'
+      );
+      res.json({ success: true, data: subscription });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = message === 'Subscription not found' ? 404 : 400;
+      res.status(status).json({ success: false, error: message });
+    }
+  }
+
+  // List subscription refunds that have not been confirmed, optionally filtered by status
+  static async listStuckSubscriptionRefunds(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as StuckRefundStatus | undefined;
+      if (status !== undefined && !STUCK_REFUND_STATUSES.includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid status. Must be one of: ${STUCK_REFUND_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      const subscriptions = await SubscriptionService.getStuckRefunds(status);
+      res.json({ success: true, data: subscriptions });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  }
+
+  // Retry a subscription refund that ran out of attempts
+  static async retrySubscriptionRefund(req: Request, res: Response): Promise<void> {
+    try {
+      const subscription = await SubscriptionService.retryRefund(
+        req.params.subscriptionId as string
+      );
+      res.json({ success: true, data: subscription });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = message === 'Subscription not found' ? 404 : 400;
+      res.status(status).json({ success: false, error: message });
+    }
+  }
+
+  // Compare the wallet balance with what it owes (pools, pending payouts/refunds, commission)
+  static async getReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const coin = req.query.coin as string | undefined;
+      if (coin !== undefined && !CoinUtils.all().some((c) => c.symbol === coin)) {
+        res.status(400).json({ success: false, error: `Unknown coin: ${coin}` });
+        return;
+      }
+
+      const report = await ReconciliationService.run(coin);
+      res.json({ success: true, data: report });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  }
+
+  // List unmatched inbound transfers (?status=pending for the inbox)
+  static async listUnmatchedTransfers(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as IUnmatchedTransfer['status'] | undefined;
+      if (status !== undefined && !UNMATCHED_TRANSFER_STATUSES.includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid status. Must be one of: ${UNMATCHED_TRANSFER_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      const transfers = await UnmatchedTransferService.list(status);
+      res.json({ success: true, data: transfers });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  }
+
+  // Book an unmatched transfer as a bet's payment
+  static async attachUnmatchedTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      const { betId, note } = req.body;
+      if (!betId || typeof betId !== 'string') {
+        res.status(400).json({ success: false, error: 'betId is required' });
+        return;
+      }
+
+      const transfer = await UnmatchedTransferService.attach(req.params.id as string, betId, note);
+      res.json({ success: true, data: transfer });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(unmatchedErrorStatus(message)).json({ success: false, error: message });
+    }
+  }
+
+  // Send an unmatched transfer back (to its sender unless a nametag is given)
+  static async refundUnmatchedTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      const nametag = typeof req.body?.nametag === 'string' ? req.body.nametag : undefined;
+      const transfer = await UnmatchedTransferService.refund(req.params.id as string, nametag);
+      if (transfer.status !== 'refunded') {
+        res.status(500).json({
+          success: false,
+          error: `Refund failed: ${transfer.lastError}`,
+          data: transfer,
+        });
+        return;
+      }
+      res.json({ success: true, data: transfer });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(unmatchedErrorStatus(message)).json({ success: false, error: message });
+    }
+  }
+
+  // Keep an unmatched transfer as commission
+  static async writeOffUnmatchedTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      const note = typeof req.body?.note === 'string' ? req.body.note : undefined;
+      const transfer = await UnmatchedTransferService.writeOff(req.params.id as string, note);
+      res.json({ success: true, data: transfer });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(unmatchedErrorStatus(message)).json({ success: false, error: message });
+    }
+  }
+}
@@ -1,10 +1,49 @@
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
 import { GameService } from '../services/game.service.js';
-import { sphereService } from '../services/index.js';
+import { SubscriptionService } from '../services/subscription.service.js';
+import { playWallet, sphereService } from '../services/index.js';
 import { IBetItem } from '../models/game.model.js';
 import { config } from '../env.js';
+import { GameType, GameTypeUtils } from '../utils/game-type.js';
+import { ChannelUtils } from '../utils/channel.js';
+import { CoinUtils } from '../utils/coin.js';
+
+// Channel of a /api/game/:channel/... request (unscoped routes use the default channel)
+function channelOf(req: Request): string {
+  return (req.params.channel as string | undefined) ?? ChannelUtils.getDefault().name;
+}
+
+// Whether a requested coin symbol is configured (omitted = the default coin)
+function isKnownCoin(coin: string | undefined): boolean {
+  return coin === undefined || CoinUtils.all().some((c) => c.symbol === coin);
+}
 
 export class GameController {
+  // Reject /api/game/:channel/... requests for channels that are not configured
+  static resolveChannel(req: Request, res: Response, next: NextFunction): void {
+    const channel = req.params.channel as string;
+    if (!ChannelUtils.all().some((c) => c.name === channel)) {
+      res.status(404).json({ success: false, error: `Unknown channel: ${channel}` });
+      return;
+    }
+    next();
+  }
+
+  // List configured channels with the coin each is played in (the first one also serves the
+  // unscoped routes)
+  static async getChannels(_req: Request, res: Response): Promise<void> {
+    try {
+      const channels = ChannelUtils.all().map((c, i) => {
+        const { coinId, decimals } = CoinUtils.get(c.coin);
+        return { ...c, coinId, decimals, isDefault: i === 0 };
+      });
+      res.json({ success: true, data: channels });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  }
+
   // Validate nametag exists on Nostr
   static async validateNametag(req: Request, res: Response): Promise<void> {
     try {
@@ -28,14 +67,18 @@ export class GameController {
     }
   }
   // Get current round info with duration for timer
-  static async getCurrentRound(_req: Request, res: Response): Promise<void> {
+  static async getCurrentRound(req: Request, res: Response): Promise<void> {
     try {
-      const round = await GameService.getCurrentRound();
+      const channel = ChannelUtils.get(channelOf(req));
+      const round = await GameService.getCurrentRound(channel.name);
       res.json({
         success: true,
         data: {
           ...round.toObject(),
-          roundDurationSeconds: config.roundDurationSeconds,
+          coin: CoinUtils.symbol(round.coinId),
+          roundDurationSeconds: channel.roundDurationSeconds,
+          minBet: channel.minBet,
+          playMode: config.mockMode,
         },
       });
     } catch (error) {
@@ -45,9 +88,9 @@ export class GameController {
   }
 
   // Get previous round with winning number
-  static async getPreviousRound(_req: Request, res: Response): Promise<void> {
+  static async getPreviousRound(req: Request, res: Response): Promise<void> {
     try {
-      const round = await GameService.getPreviousRound();
+      const round = await GameService.getPreviousRound(channelOf(req));
       res.json({ success: true, data: round });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -58,9 +101,13 @@ export class GameController {
   // Place bets - returns invoice for payment
   static async placeBets(req: Request, res: Response): Promise<void> {
     try {
-      const { userNametag, bets } = req.body as {
+      const { userNametag, bets, clientSeed, roundNumber, coin } = req.body as {
         userNametag: string;
         bets: IBetItem[];
+        clientSeed?: string;
+        roundNumber?: number;
+        // Optional coin symbol - must be the one the channel is played in
+        coin?: string;
       };
 
       if (!userNametag || !bets) {
@@ -70,8 +117,15 @@ export class GameController {
         });
         return;
       }
+      ChannelUtils.checkCoin(ChannelUtils.get(channelOf(req)), coin);
 
-      const result = await GameService.placeBets(userNametag, bets);
+      const result = await GameService.placeBets(
+        userNametag,
+        bets,
+        clientSeed,
+        channelOf(req),
+        roundNumber
+      );
       res.json({ success: true, data: result });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -79,13 +133,140 @@ export class GameController {
     }
   }
 
+  // Subscribe to auto-bets - returns invoice for all rounds
+  static async subscribe(req: Request, res: Response): Promise<void> {
+    try {
+      const { userNametag, bets, rounds, coin } = req.body as {
+        userNametag: string;
+        bets: IBetItem[];
+        rounds: number;
+        coin?: string;
+      };
+
+      if (!userNametag || !bets || rounds === undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'Missing required fields: userNametag, bets, rounds',
+        });
+        return;
+      }
+      ChannelUtils.checkCoin(ChannelUtils.get(channelOf(req)), coin);
+
+      const result = await SubscriptionService.subscribe(userNametag, bets, rounds, channelOf(req));
+      res.json({ success: true, data: result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(400).json({ success: false, error: message });
+    }
+  }
+
+  // Get user subscriptions
+  static async getUserSubscriptions(req: Request, res: Response): Promise<void> {
+    try {
+      const userNametag = req.params.userNametag as string;
+      const subscriptions = await SubscriptionService.getUserSubscriptions(userNametag);
+      res.json({ success: true, data: subscriptions });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  }
+
+  // Cancel a subscription with the token returned when subscribing - unplaced rounds are refunded
+  static async cancelSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const subscriptionId = req.params.subscriptionId as string;
+      const { cancelToken } = req.body as { cancelToken?: string };
+
+      if (typeof cancelToken !== 'string' || !cancelToken) {
+        res.status(400).json({ success: false, error: 'Missing required field: cancelToken' });
+        return;
+      }
+
+      const subscription = await SubscriptionService.cancelWithToken(subscriptionId, cancelToken);
+      res.json({ success: true, data: subscription });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = message === 'Subscription not found' ? 404 : 400;
+      res.status(status).json({ success: false, error: message });
+    }
+  }
+
+  // Get a player's play-money balance (free-play mode only)
+  static async getPlayBalance(req: Request, res: Response): Promise<void> {
+    try {
+      if (!playWallet) {
+        res.status(404).json({ success: false, error: 'Free-play mode is not enabled' });
+        return;
+      }
+
+      const nametag = req.params.nametag as string;
+      const balance = await playWallet.getPlayerBalance(nametag);
+      res.json({ success: true, data: { nametag, balance } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  }
+
+  // Reset a player's play-money balance to the starting grant (free-play mode only)
+  static async topUpPlayBalance(req: Request, res: Response): Promise<void> {
+    try {
+      if (!playWallet) {
+        res.status(404).json({ success: false, error: 'Free-play mode is not enabled' });
+        return;
+      }
+
+      const nametag = req.params.nametag as string;
+      const balance = await playWallet.topUp(nametag);
+      res.json({ success: true, data: { nametag, balance } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(400).json({ success: false, error: message });
+    }
+  }
+
   // Get round history
   static async getRoundHistory(req: Request, res: Response): Promise<void> {
     try {
       const limitParam = req.query.limit;
       const limit = typeof limitParam === 'string' ? parseInt(limitParam, 10) : 10;
-      const rounds = await GameService.getRoundHistory(limit);
-      res.json({ success: true, data: rounds });
+      const rounds = await GameService.getRoundHistory(limit, channelOf(req));
+      res.json({
+        success: true,
+        data: rounds.map((round) => ({
+          ...round.toObject(),
+          coin: CoinUtils.symbol(round.coinId),
+        })),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  }
+
+  // Get winning digit distribution statistics
+  static async getDrawStats(req: Request, res: Response): Promise<void> {
+    try {
+      const limitParam = req.query.limit;
+      const limit = typeof limitParam === 'string' ? parseInt(limitParam, 10) : undefined;
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        res.status(400).json({ success: false, error: 'Limit must be a positive integer' });
+        return;
+      }
+
+      const gameType = req.query.gameType;
+      if (gameType !== undefined && !GameTypeUtils.isGameType(gameType)) {
+        res.status(400).json({ success: false, error: `Unknown game type: ${gameType}` });
+        return;
+      }
+
+      const stats = await GameService.getDrawStats(
+        gameType as GameType | undefined,
+        limit,
+        channelOf(req)
+      );
+      res.json({ success: true, data: stats });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       res.status(500).json({ success: false, error: message });
@@ -119,6 +300,7 @@ export class GameController {
 
         return {
           ...betObj,
+          coin: CoinUtils.symbol(betObj.coinId),
           won,
         };
       });
@@ -142,6 +324,43 @@ export class GameController {
     }
   }
 
+  // Get provably fair verification data for a drawn round
+  static async getRoundVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const roundId = req.params.roundId as string;
+      const verification = await GameService.getRoundVerification(roundId);
+
+      if (!verification) {
+        res.status(404).json({ success: false, error: 'Round not found' });
+        return;
+      }
+
+      res.json({ success: true, data: verification });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(400).json({ success: false, error: message });
+    }
+  }
+
+  // Get Merkle inclusion proof for a bet in a closed round
+  static async getBetInclusionProof(req: Request, res: Response): Promise<void> {
+    try {
+      const roundId = req.params.roundId as string;
+      const invoiceId = req.params.invoiceId as string;
+      const proof = await GameService.getBetInclusionProof(roundId, invoiceId);
+
+      if (!proof) {
+        res.status(404).json({ success: false, error: 'Round or bet not found' });
+        return;
+      }
+
+      res.json({ success: true, data: proof });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(400).json({ success: false, error: message });
+    }
+  }
+
   // Get user bets in current round
   static async getUserBetsInCurrentRound(req: Request, res: Response): Promise<void> {
     try {
@@ -150,7 +369,7 @@ export class GameController {
         res.status(400).json({ success: false, error: 'Nametag is required' });
         return;
       }
-      const bets = await GameService.getUserBetsInCurrentRound(nametag);
+      const bets = await GameService.getUserBetsInCurrentRound(nametag, channelOf(req));
       res.json({ success: true, data: bets });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -158,10 +377,16 @@ export class GameController {
     }
   }
 
-  // Get commission balance
-  static async getCommissionBalance(_req: Request, res: Response): Promise<void> {
+  // Get commission balance of a coin (?coin=SYMBOL, default coin if omitted)
+  static async getCommissionBalance(req: Request, res: Response): Promise<void> {
     try {
-      const balance = await GameService.getCommissionBalance();
+      const coin = req.query.coin as string | undefined;
+      if (!isKnownCoin(coin)) {
+        res.status(400).json({ success: false, error: `Unknown coin: ${coin}` });
+        return;
+      }
+
+      const balance = await GameService.getCommissionBalance(coin);
       res.json({ success: true, data: balance });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -173,7 +398,11 @@ export class GameController {
   static async withdrawCommission(req: Request, res: Response): Promise<void> {
     try {
       // Verify developer nametag from request matches config
-      const { nametag, amount } = req.body as { nametag: string; amount?: number };
+      const { nametag, amount, coin } = req.body as {
+        nametag: string;
+        amount?: number;
+        coin?: string;
+      };
 
       if (!nametag) {
         res.status(400).json({ success: false, error: 'Developer nametag required' });
@@ -185,7 +414,12 @@ export class GameController {
         return;
       }
 
-      const result = await GameService.withdrawCommission(amount);
+      if (!isKnownCoin(coin)) {
+        res.status(400).json({ success: false, error: `Unknown coin: ${coin}` });
+        return;
+      }
+
+      const result = await GameService.withdrawCommission(amount, coin);
 
       if (result.success) {
         res.json({ success: true, data: result });
@@ -5,8 +5,13 @@ dotenv.config();
 export const config = {
   port: parseInt(process.env.PORT || '3000', 10),
   mongodbUri: process.env.MONGODB_URI || 'mongodb://localhost:27017/single-digit-lottery',
+  // Drop and rebuild indexes to match the schemas on startup (run once after an upgrade)
+  syncIndexes: process.env.SYNC_INDEXES === 'true',
   nodeEnv: process.env.NODE_ENV || 'development',
   mockMode: process.env.MOCK_MODE === 'true',
+  // Free-play mode: bets are paid from play-money balances instead of the Sphere wallet
+  playStartingBalance: parseFloat(process.env.PLAY_STARTING_BALANCE || '1000'),
+  playHouseBankroll: parseFloat(process.env.PLAY_HOUSE_BANKROLL || '1000000'),
 
   // Agent
   agentNametag: process.env.AGENT_NAMETAG || 'lotterybet',
@@ -22,13 +27,82 @@ export const config = {
 
   // Payment
   coinId: process.env.COIN_ID || '455ad8720656b08e8dbd5bac1f3c73eeea5431565f6c1c3af742b1aa12d41d89',
+  // Accepted coins: SYMBOL:coinId[:decimals],... (empty = COIN_ID as UCT with 18 decimals).
+  // The first coin is the default; a channel names the coin its rounds are played in
+  coins: process.env.COINS || '',
   paymentTimeoutSeconds: parseInt(process.env.PAYMENT_TIMEOUT_SECONDS || '120', 10),
+  // How long a payment request is still matched after its invoice expires, so a late transfer
+  // reaches its bet (and is refunded) instead of being treated as unmatched
+  latePaymentGraceSeconds: parseInt(process.env.LATE_PAYMENT_GRACE_SECONDS || '86400', 10),
+  // Underpaid transfers: topup (hold them until the invoice is paid in full) | refund
+  underpaymentPolicy: process.env.UNDERPAYMENT_POLICY || 'topup',
+  // Transfers that match no pending payment: hold (keep for manual review) | refund (send
+  // back to the sender when their nametag is known)
+  unmatchedTransferPolicy: process.env.UNMATCHED_TRANSFER_POLICY || 'hold',
+  // How often unpaid bets past their invoice expiry are marked expired
+  invoiceSweepIntervalSeconds: parseInt(process.env.INVOICE_SWEEP_INTERVAL_SECONDS || '30', 10),
 
   // Round
   roundDurationSeconds: parseInt(process.env.ROUND_DURATION_SECONDS || '3600', 10),
+  // Smallest amount per bet item (at least 1)
+  minBet: parseFloat(process.env.MIN_BET || '1'),
+  // Stake limits (0 = no limit): largest bet item, largest total per player per round and
+  // largest percentage of the pool on one number (enforced once the pool reaches digitShareMinPool)
+  maxBetAmount: parseFloat(process.env.MAX_BET_AMOUNT || '0'),
+  maxUserStakePerRound: parseFloat(process.env.MAX_USER_STAKE_PER_ROUND || '0'),
+  maxDigitPoolShare: parseFloat(process.env.MAX_DIGIT_POOL_SHARE || '0'),
+  digitShareMinPool: parseFloat(process.env.DIGIT_SHARE_MIN_POOL || '100'),
+  // Concurrent round streams: name:durationSeconds[:houseFeePercent[:minBet[:coin]]],...
+  // (empty = one "default" channel with the settings above, played in the default coin).
+  // A channel is played in exactly one coin - configure a channel per coin to offer several.
+  channels: process.env.CHANNELS || '',
+  // How far ahead a bet can be pre-booked for a future round number
+  prebookMaxRoundsAhead: parseInt(process.env.PREBOOK_MAX_ROUNDS_AHEAD || '24', 10),
+  // Paid pre-booked bets still unbound after this long are refunded
+  prebookHorizonSeconds: parseInt(process.env.PREBOOK_HORIZON_SECONDS || '604800', 10),
+  // Most rounds a single auto-bet subscription can prepay
+  maxSubscriptionRounds: parseInt(process.env.MAX_SUBSCRIPTION_ROUNDS || '100', 10),
+  // Game type for new rounds: pick-1 | pick-2 | pick-3
+  gameType: process.env.GAME_TYPE || 'pick-1',
+
+  // Randomness source for draws: local | commit-reveal | seeded | beacon
+  randomnessSource: process.env.RANDOMNESS_SOURCE || 'commit-reveal',
+  randomnessSeed: process.env.RANDOMNESS_SEED || 'single-digit-lottery',
+  randomnessBeaconUrl: process.env.RANDOMNESS_BEACON_URL || '',
+
+  // Settlement for new rounds: pari-mutuel (shared pool) | fixed-odds (house pays a multiplier)
+  settlementMode: process.env.SETTLEMENT_MODE || 'pari-mutuel',
+  // Fixed-odds payout multiplier (0 = game type default: 9x / 90x / 900x)
+  fixedOddsMultiplier: parseFloat(process.env.FIXED_ODDS_MULTIPLIER || '0'),
+
+  // Payout retries: delay doubles from the base after each failed attempt (capped at the max),
+  // and a job is dead-lettered after the maximum number of attempts
+  payoutMaxAttempts: parseInt(process.env.PAYOUT_MAX_ATTEMPTS || '5', 10),
+  payoutRetryBaseSeconds: parseInt(process.env.PAYOUT_RETRY_BASE_SECONDS || '30', 10),
+  payoutRetryMaxSeconds: parseInt(process.env.PAYOUT_RETRY_MAX_SECONDS || '3600', 10),
+  payoutQueueIntervalSeconds: parseInt(process.env.PAYOUT_QUEUE_INTERVAL_SECONDS || '15', 10),
+  // Failed refunds are retried on the same backoff schedule, up to this many attempts
+  refundMaxAttempts: parseInt(process.env.REFUND_MAX_ATTEMPTS || '5', 10),
+  // Wallet reconciliation: how often to compare the wallet balance with its liabilities
+  // (0 = only on demand), and how far apart they may be before drift is flagged
+  reconciliationIntervalSeconds: parseInt(
+    process.env.RECONCILIATION_INTERVAL_SECONDS || '3600',
+    10
+  ),
+  reconciliationTolerance: parseFloat(process.env.RECONCILIATION_TOLERANCE || '0.0001'),
+  // Operator API key for /api/admin (admin routes are disabled when empty)
+  adminApiKey: process.env.ADMIN_API_KEY || '',
 
   // House fee (percentage of winning pool retained by developers)
   houseFeePercent: parseFloat(process.env.HOUSE_FEE_PERCENT || '5'),
+
+  // Jackpot rollover: a pari-mutuel pool nobody wins carries into the next round
+  // instead of going to commission
+  jackpotRollover: process.env.JACKPOT_ROLLOVER === 'true',
+  // Largest jackpot carried forward (0 = no cap), anything above goes to commission
+  jackpotCap: parseFloat(process.env.JACKPOT_CAP || '0'),
+  // Percentage of a rolled-over pool still kept as house fee
+  jackpotFeePercent: parseFloat(process.env.JACKPOT_FEE_PERCENT || '0'),
   developerNametag: process.env.DEVELOPER_NAMETAG || '',
 
   // Data
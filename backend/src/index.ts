@@ -6,6 +6,7 @@ import cors from 'cors';
 import helmet from 'helmet';
 import { connectDB } from './config/database.js';
 import gameRoutes from './routes/game.routes.js';
+import adminRoutes from './routes/admin.routes.js';
 import { initializeServices } from './services/index.js';
 
 const app: Application = express();
@@ -30,6 +31,7 @@ app.use((req, _res, next) => {
 
 // Routes
 app.use('/api/game', gameRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Health check (both paths for flexibility)
 app.get('/health', (_req, res) => {
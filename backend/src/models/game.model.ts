@@ -1,23 +1,48 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { GameType, GAME_TYPES, DEFAULT_GAME_TYPE, MAX_WINNING_NUMBER } from '../utils/game-type.js';
+import { BetType, BET_TYPES } from '../utils/bet-type.js';
 
-// Single bet within a round
+// Single bet within a round: either one picked number (digit: 0-9, 0-99 or 0-999 by game type)
+// or a group bet (odd, even, low, high, set) covering the numbers listed in digits
 export interface IBetItem {
-  digit: number;
+  betType?: BetType;
+  digit?: number;
+  digits?: number[];
   amount: number;
 }
 
 // Bet document - one per user per round (can contain multiple digit bets)
+// Pre-booked bets name a future roundNumber and have no roundId until that round opens
 export interface IBet extends Document {
-  roundId: mongoose.Types.ObjectId;
+  roundId: mongoose.Types.ObjectId | null;
   roundNumber: number;
+  // Channel of a pre-booked bet (null for bets placed in the open round)
+  channel: string | null;
   userNametag: string;
   bets: IBetItem[];
   totalAmount: number;
+  // Coin the bet is paid and paid out in (null for bets from before coins, i.e. the default one)
+  coinId: string | null;
   invoiceId: string;
+  // Auto-bet subscription that placed this bet (null = paid individually)
+  subscriptionId: mongoose.Types.ObjectId | null;
+  clientSeed: string | null;
   paymentStatus: 'pending' | 'paid' | 'expired' | 'failed' | 'refunded';
+  // When the invoice stops accepting payment, and when the sweeper marked it expired
+  expiresAt: Date | null;
+  expiredAt: Date | null;
+  // Underpaid transfers held towards the invoice until it is paid in full
+  receivedAmount: number;
   paymentTxId: string | null;
   refundTxId: string | null;
   refundReason: string | null;
+  // Refund lifecycle: pending (waiting to be sent or retried), sent (transfer in flight),
+  // confirmed, failed (gave up after config.refundMaxAttempts)
+  refundStatus: 'none' | 'pending' | 'sent' | 'confirmed' | 'failed';
+  refundAmount: number;
+  refundAttempts: number;
+  refundNextAttemptAt: Date | null;
+  refundLastError: string | null;
   winnings: number;
   payoutStatus: 'none' | 'pending' | 'sent' | 'confirmed' | 'failed';
   payoutTxId: string | null;
@@ -27,11 +52,22 @@ export interface IBet extends Document {
 
 const betItemSchema = new Schema<IBetItem>(
   {
+    betType: {
+      type: String,
+      enum: BET_TYPES,
+      default: 'number',
+    },
     digit: {
       type: Number,
-      required: true,
+      required: function (this: IBetItem): boolean {
+        return !this.betType || this.betType === 'number';
+      },
       min: 0,
-      max: 9,
+      max: MAX_WINNING_NUMBER,
+    },
+    digits: {
+      type: [{ type: Number, min: 0, max: MAX_WINNING_NUMBER }],
+      default: undefined,
     },
     amount: {
       type: Number,
@@ -47,7 +83,10 @@ const betSchema = new Schema<IBet>(
     roundId: {
       type: Schema.Types.ObjectId,
       ref: 'Round',
-      required: true,
+      required: function (this: IBet): boolean {
+        return this.channel === null || this.channel === undefined;
+      },
+      default: null,
       index: true,
     },
     roundNumber: {
@@ -55,6 +94,14 @@ const betSchema = new Schema<IBet>(
       required: true,
       index: true,
     },
+    channel: {
+      type: String,
+      default: null,
+    },
+    coinId: {
+      type: String,
+      default: null,
+    },
     userNametag: {
       type: String,
       required: true,
@@ -75,11 +122,34 @@ const betSchema = new Schema<IBet>(
       required: true,
       unique: true,
     },
+    subscriptionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Subscription',
+      default: null,
+      index: true,
+    },
+    clientSeed: {
+      type: String,
+      default: null,
+      maxlength: 64,
+    },
     paymentStatus: {
       type: String,
       enum: ['pending', 'paid', 'expired', 'failed', 'refunded'],
       default: 'pending',
     },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+    expiredAt: {
+      type: Date,
+      default: null,
+    },
+    receivedAmount: {
+      type: Number,
+      default: 0,
+    },
     paymentTxId: {
       type: String,
       default: null,
@@ -92,6 +162,27 @@ const betSchema = new Schema<IBet>(
       type: String,
       default: null,
     },
+    refundStatus: {
+      type: String,
+      enum: ['none', 'pending', 'sent', 'confirmed', 'failed'],
+      default: 'none',
+    },
+    refundAmount: {
+      type: Number,
+      default: 0,
+    },
+    refundAttempts: {
+      type: Number,
+      default: 0,
+    },
+    refundNextAttemptAt: {
+      type: Date,
+      default: null,
+    },
+    refundLastError: {
+      type: String,
+      default: null,
+    },
     winnings: {
       type: Number,
       default: 0,
@@ -113,38 +204,98 @@ const betSchema = new Schema<IBet>(
 
 // Compound index for finding user bets in a round
 betSchema.index({ roundId: 1, userNametag: 1 });
+// Unbound pre-booked bets are looked up by channel and target round when a round opens
+betSchema.index({ channel: 1, roundNumber: 1, roundId: 1 });
+// Unpaid bets are swept once their invoice expires
+betSchema.index({ paymentStatus: 1, expiresAt: 1 });
+// Pending refunds are retried once their backoff has elapsed
+betSchema.index({ refundStatus: 1, refundNextAttemptAt: 1 });
 
 // Round document
 export interface IRound extends Document {
+  // Channel the round belongs to (null for rounds from before channels, i.e. the default one)
+  channel: string | null;
+  // Coin of the round's pool (null for rounds from before coins, i.e. the default one)
+  coinId: string | null;
   roundNumber: number;
   status: 'open' | 'closed' | 'drawing' | 'paying' | 'completed';
+  gameType: GameType;
+  // Settlement rules that applied when the round ran (multiplier only for fixed-odds)
+  settlementMode: 'pari-mutuel' | 'fixed-odds';
+  payoutMultiplier: number | null;
+  // Channel house fee when the round opened (null = HOUSE_FEE_PERCENT)
+  houseFeePercent: number | null;
   winningDigit: number | null;
   totalPool: number;
   totalPayout: number;
   houseFee: number;
+  // Jackpot carried into this round (part of totalPool) and the round it came from
+  jackpot: number;
+  jackpotSourceRound: number | null;
+  // Unwon pool this round carried forward, and the round that received it
+  jackpotRolledOver: number;
+  jackpotClaimedBy: number | null;
   startTime: Date;
   endTime: Date | null;
   drawTime: Date | null;
+  // Provably fair commit-reveal (seed hidden until the round is drawn)
+  serverSeed: string | null;
+  serverSeedHash: string | null;
+  betsDigest: string | null;
+  clientSeedsDigest: string | null;
+  fairnessVersion: number | null;
+  // Merkle root over the paid bets, frozen at close
+  betsMerkleRoot: string | null;
+  // Randomness source that produced winningDigit, with its audit data
+  randomnessSource: 'local' | 'commit-reveal' | 'seeded' | 'beacon' | null;
+  randomnessProof: Record<string, unknown> | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
 const roundSchema = new Schema<IRound>(
   {
+    channel: {
+      type: String,
+      default: null,
+    },
+    coinId: {
+      type: String,
+      default: null,
+    },
     roundNumber: {
       type: Number,
       required: true,
-      unique: true,
     },
     status: {
       type: String,
       enum: ['open', 'closed', 'drawing', 'paying', 'completed'],
       default: 'open',
     },
+    gameType: {
+      type: String,
+      enum: Object.keys(GAME_TYPES),
+      default: DEFAULT_GAME_TYPE,
+    },
+    settlementMode: {
+      type: String,
+      enum: ['pari-mutuel', 'fixed-odds'],
+      default: 'pari-mutuel',
+    },
+    payoutMultiplier: {
+      type: Number,
+      min: 1,
+      default: null,
+    },
+    houseFeePercent: {
+      type: Number,
+      min: 0,
+      default: null,
+    },
     winningDigit: {
       type: Number,
       min: 0,
-      max: 9,
+      max: MAX_WINNING_NUMBER,
       default: null,
     },
     totalPool: {
@@ -159,6 +310,22 @@ const roundSchema = new Schema<IRound>(
       type: Number,
       default: 0,
     },
+    jackpot: {
+      type: Number,
+      default: 0,
+    },
+    jackpotSourceRound: {
+      type: Number,
+      default: null,
+    },
+    jackpotRolledOver: {
+      type: Number,
+      default: 0,
+    },
+    jackpotClaimedBy: {
+      type: Number,
+      default: null,
+    },
     startTime: {
       type: Date,
       default: Date.now,
@@ -171,22 +338,67 @@ const roundSchema = new Schema<IRound>(
       type: Date,
       default: null,
     },
+    serverSeed: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    serverSeedHash: {
+      type: String,
+      default: null,
+    },
+    betsDigest: {
+      type: String,
+      default: null,
+    },
+    clientSeedsDigest: {
+      type: String,
+      default: null,
+    },
+    betsMerkleRoot: {
+      type: String,
+      default: null,
+    },
+    fairnessVersion: {
+      type: Number,
+      default: null,
+    },
+    randomnessSource: {
+      type: String,
+      enum: ['local', 'commit-reveal', 'seeded', 'beacon', null],
+      default: null,
+    },
+    randomnessProof: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
-// Commission tracking for developer withdrawals
+// Round numbers count up per channel
+roundSchema.index({ channel: 1, roundNumber: 1 }, { unique: true });
+
+// Commission tracking for developer withdrawals, one document per coin
 export interface ICommission extends Document {
+  // null for commission from before coins, i.e. the default one
+  coinId: string | null;
   totalAccumulated: number;
   totalWithdrawn: number;
   lastWithdrawalAt: Date | null;
+  // Idempotency key of the withdrawal being sent, until its transfer is booked or has failed
+  pendingWithdrawal: string | null;
   updatedAt: Date;
 }
 
 const commissionSchema = new Schema<ICommission>(
   {
+    coinId: {
+      type: String,
+      default: null,
+    },
     totalAccumulated: {
       type: Number,
       default: 0,
@@ -199,22 +411,378 @@ const commissionSchema = new Schema<ICommission>(
       type: Date,
       default: null,
     },
+    pendingWithdrawal: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Auto-bet subscription: one payment covers the same bet pattern in the next N rounds
+// of a channel. Bets are placed as each round opens; cancelling refunds unplaced rounds.
+export interface ISubscription extends Document {
+  userNametag: string;
+  channel: string;
+  // Coin of the channel when the subscription was paid
+  coinId: string | null;
+  bets: IBetItem[];
+  rounds: number;
+  roundsPlaced: number;
+  placedRoundIds: mongoose.Types.ObjectId[];
+  amountPerRound: number;
+  totalAmount: number;
+  invoiceId: string;
+  status: 'pending' | 'active' | 'completed' | 'cancelled';
+  paymentTxId: string | null;
+  // Amount sent back (unplaced rounds, or a payment that arrived after cancelling), tracked
+  // through the same refund lifecycle as a bet's
+  refundedAmount: number;
+  refundTxId: string | null;
+  refundReason: string | null;
+  refundStatus: 'none' | 'pending' | 'sent' | 'confirmed' | 'failed';
+  refundAttempts: number;
+  refundNextAttemptAt: Date | null;
+  refundLastError: string | null;
+  cancelReason: string | null;
+  // SHA-256 of the token returned to the subscriber, which a player's cancellation must present
+  // (null for subscriptions from before tokens - only an operator can cancel those)
+  cancelTokenHash: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const subscriptionSchema = new Schema<ISubscription>(
+  {
+    userNametag: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    channel: {
+      type: String,
+      required: true,
+    },
+    coinId: {
+      type: String,
+      default: null,
+    },
+    bets: {
+      type: [betItemSchema],
+      required: true,
+      validate: [(v: IBetItem[]): boolean => v.length > 0, 'At least one bet required'],
+    },
+    rounds: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    roundsPlaced: {
+      type: Number,
+      default: 0,
+    },
+    placedRoundIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Round' }],
+      default: [],
+    },
+    amountPerRound: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    totalAmount: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    invoiceId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'active', 'completed', 'cancelled'],
+      default: 'pending',
+    },
+    paymentTxId: {
+      type: String,
+      default: null,
+    },
+    refundedAmount: {
+      type: Number,
+      default: 0,
+    },
+    refundTxId: {
+      type: String,
+      default: null,
+    },
+    refundReason: {
+      type: String,
+      default: null,
+    },
+    refundStatus: {
+      type: String,
+      enum: ['none', 'pending', 'sent', 'confirmed', 'failed'],
+      default: 'none',
+    },
+    refundAttempts: {
+      type: Number,
+      default: 0,
+    },
+    refundNextAttemptAt: {
+      type: Date,
+      default: null,
+    },
+    refundLastError: {
+      type: String,
+      default: null,
+    },
+    cancelReason: {
+      type: String,
+      default: null,
+    },
+    cancelTokenHash: {
+      type: String,
+      default: null,
+      select: false,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+// Active subscriptions of a channel are scanned whenever a round opens
+subscriptionSchema.index({ channel: 1, status: 1 });
+// Pending refunds are retried once their backoff has elapsed
+subscriptionSchema.index({ refundStatus: 1, refundNextAttemptAt: 1 });
+
+// Play-money balance used instead of the Sphere wallet in free-play (MOCK_MODE) mode.
+// The agent nametag's account is the house bankroll.
+export interface IPlayAccount extends Document {
+  nametag: string;
+  balance: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const playAccountSchema = new Schema<IPlayAccount>(
+  {
+    nametag: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    balance: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Outstanding Sphere payment request, kept so invoices survive a backend restart.
+// Removed when the payment is matched or rejected, or once the late-payment grace window after
+// its expiry is over (TTL index on retainUntil).
+export interface IPaymentRequest extends Document {
+  requestId: string;
+  invoiceId: string;
+  userNametag: string;
+  // Payer's pubkey, used to tell whose transfer is whose
+  userPubkey: string | null;
+  amount: number;
+  // Coin the request asks for (null = default coin)
+  coinId: string | null;
+  // Underpaid transfers kept towards this request so far
+  receivedAmount: number;
+  receivedAmounts: number[];
+  // Invoice deadline; transfers arriving after it are still matched (and refunded) until
+  // retainUntil
+  expiresAt: Date;
+  retainUntil: Date | null;
+  confirmed: boolean;
+  // Transfer a 'paid' response named; the request is kept until that transfer arrives
+  paidTransferId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const paymentRequestSchema = new Schema<IPaymentRequest>(
+  {
+    requestId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    invoiceId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    userNametag: {
+      type: String,
+      required: true,
+    },
+    userPubkey: {
+      type: String,
+      default: null,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+    coinId: {
+      type: String,
+      default: null,
+    },
+    receivedAmount: {
+      type: Number,
+      default: 0,
+    },
+    receivedAmounts: {
+      type: [Number],
+      default: [],
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    retainUntil: {
+      type: Date,
+      default: null,
+    },
+    confirmed: {
+      type: Boolean,
+      default: false,
+    },
+    paidTransferId: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// MongoDB drops requests once their grace window is over
+paymentRequestSchema.index({ retainUntil: 1 }, { expireAfterSeconds: 0 });
+
+// Payout job: one per winning bet. Failed transfers are retried with exponential backoff;
+// after the maximum attempts the job is dead-lettered until an operator requeues it.
+export interface IPayoutJob extends Document {
+  betId: mongoose.Types.ObjectId;
+  roundId: mongoose.Types.ObjectId;
+  userNametag: string;
+  amount: number;
+  // Coin of the winning bet, which the payout is sent in
+  coinId: string | null;
+  status: 'queued' | 'processing' | 'done' | 'dead';
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+  txId: string | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const payoutJobSchema = new Schema<IPayoutJob>(
+  {
+    betId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bet',
+      required: true,
+      unique: true,
+    },
+    roundId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Round',
+      required: true,
+      index: true,
+    },
+    userNametag: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+    coinId: {
+      type: String,
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'processing', 'done', 'dead'],
+      default: 'queued',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    txId: {
+      type: String,
+      default: null,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// The worker picks up queued jobs whose next attempt is due
+payoutJobSchema.index({ status: 1, nextAttemptAt: 1 });
+
 // Payment log for tracking all incoming and outgoing payments
+// overpayment_change: excess over an invoice sent back; partial_payment: an underpaid transfer
+// (kept towards the invoice or refunded); underpayment_refund: an underpaid transfer sent back
+// unmatched_transfer: a transfer that matched no pending payment; unmatched_refund: one sent back;
+// unmatched_attached / unmatched_write_off: one booked to a bet / to commission by an operator
+export const PAYMENT_PURPOSES = [
+  'bet_payment',
+  'payout',
+  'refund',
+  'commission_withdrawal',
+  'overpayment_change',
+  'partial_payment',
+  'underpayment_refund',
+  'unmatched_transfer',
+  'unmatched_refund',
+  'unmatched_attached',
+  'unmatched_write_off',
+] as const;
+export type PaymentPurpose = (typeof PAYMENT_PURPOSES)[number];
+
 export interface IPaymentLog extends Document {
   type: 'incoming' | 'outgoing';
   amount: number;
+  // Coin of the transfer (null for logs from before coins, i.e. the default one)
+  coinId: string | null;
   fromNametag: string | null;
   toNametag: string | null;
   txId: string;
   relatedBetId: mongoose.Types.ObjectId | null;
   relatedRoundId: mongoose.Types.ObjectId | null;
-  purpose: 'bet_payment' | 'payout' | 'refund' | 'commission_withdrawal';
+  purpose: PaymentPurpose;
   status: 'pending' | 'confirmed' | 'failed';
   metadata: Record<string, unknown>;
   createdAt: Date;
@@ -233,6 +801,10 @@ const paymentLogSchema = new Schema<IPaymentLog>(
       type: Number,
       required: true,
     },
+    coinId: {
+      type: String,
+      default: null,
+    },
     fromNametag: {
       type: String,
       default: null,
@@ -260,7 +832,7 @@ const paymentLogSchema = new Schema<IPaymentLog>(
     },
     purpose: {
       type: String,
-      enum: ['bet_payment', 'payout', 'refund', 'commission_withdrawal'],
+      enum: PAYMENT_PURPOSES,
       required: true,
       index: true,
     },
@@ -283,7 +855,191 @@ const paymentLogSchema = new Schema<IPaymentLog>(
 paymentLogSchema.index({ createdAt: -1 });
 paymentLogSchema.index({ type: 1, createdAt: -1 });
 
+// Outgoing transfer keyed by a stable idempotency key (e.g. payout:<betId>). The record is
+// written before tokens are sent, so after a crash it tells whether a transfer was attempted:
+// sending = outcome unknown, sent/confirmed = tokens left the wallet, failed = safe to resend.
+export interface IOutgoingTransfer extends Document {
+  idempotencyKey: string;
+  toNametag: string;
+  amount: number;
+  coinId: string | null;
+  purpose: PaymentPurpose;
+  status: 'sending' | 'sent' | 'confirmed' | 'failed';
+  attempts: number;
+  transferId: string | null;
+  transactionCount: number;
+  sentAmounts: number[];
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const outgoingTransferSchema = new Schema<IOutgoingTransfer>(
+  {
+    idempotencyKey: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    toNametag: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+    coinId: {
+      type: String,
+      default: null,
+    },
+    purpose: {
+      type: String,
+      enum: PAYMENT_PURPOSES,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['sending', 'sent', 'confirmed', 'failed'],
+      default: 'sending',
+      index: true,
+    },
+    attempts: {
+      type: Number,
+      default: 1,
+    },
+    transferId: {
+      type: String,
+      default: null,
+    },
+    transactionCount: {
+      type: Number,
+      default: 0,
+    },
+    sentAmounts: {
+      type: [Number],
+      default: [],
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Inbound transfer that matched no pending payment request - held for review or refunded
+// to the sender (UNMATCHED_TRANSFER_POLICY). Operators resolve held ones by attaching them
+// to a bet, refunding them or writing them off to commission.
+export interface IUnmatchedTransfer extends Document {
+  txId: string;
+  senderPubkey: string | null;
+  senderNametag: string | null;
+  amount: number;
+  coinId: string | null;
+  tokenCount: number;
+  receivedAmounts: number[];
+  memo: string | null;
+  // refunding: claimed for a refund that is being sent (back to pending if it fails)
+  status: 'pending' | 'refunding' | 'attached' | 'refunded' | 'written_off';
+  // Bet the transfer was attached to
+  betId: mongoose.Types.ObjectId | null;
+  refundTxId: string | null;
+  // Operator's note on the resolution
+  note: string | null;
+  lastError: string | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const unmatchedTransferSchema = new Schema<IUnmatchedTransfer>(
+  {
+    txId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    senderPubkey: {
+      type: String,
+      default: null,
+    },
+    senderNametag: {
+      type: String,
+      default: null,
+      index: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+    coinId: {
+      type: String,
+      default: null,
+    },
+    tokenCount: {
+      type: Number,
+      default: 1,
+    },
+    receivedAmounts: {
+      type: [Number],
+      default: [],
+    },
+    memo: {
+      type: String,
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'refunding', 'attached', 'refunded', 'written_off'],
+      default: 'pending',
+      index: true,
+    },
+    betId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bet',
+      default: null,
+    },
+    refundTxId: {
+      type: String,
+      default: null,
+    },
+    note: {
+      type: String,
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    resolvedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
 export const Bet = mongoose.model<IBet>('Bet', betSchema);
 export const Round = mongoose.model<IRound>('Round', roundSchema);
 export const Commission = mongoose.model<ICommission>('Commission', commissionSchema);
 export const PaymentLog = mongoose.model<IPaymentLog>('PaymentLog', paymentLogSchema);
+export const Subscription = mongoose.model<ISubscription>('Subscription', subscriptionSchema);
+export const PaymentRequest = mongoose.model<IPaymentRequest>(
+  'PaymentRequest',
+  paymentRequestSchema
+);
+export const PayoutJob = mongoose.model<IPayoutJob>('PayoutJob', payoutJobSchema);
+export const UnmatchedTransfer = mongoose.model<IUnmatchedTransfer>(
+  'UnmatchedTransfer',
+  unmatchedTransferSchema
+);
+export const OutgoingTransfer = mongoose.model<IOutgoingTransfer>(
+  'OutgoingTransfer',
+  outgoingTransferSchema
+);
+export const PlayAccount = mongoose.model<IPlayAccount>('PlayAccount', playAccountSchema);
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/admin.controller.js';
+
+const router = Router();
+
+// Every admin route requires the X-Admin-Key header
+router.use(AdminController.requireAdmin);
+
+// GET /api/admin/payouts?status=dead - List payout jobs (dead = dead-letter queue)
+router.get('/payouts', AdminController.listPayoutJobs);
+
+// POST /api/admin/payouts/:jobId/requeue - Retry a dead-lettered payout
+router.post('/payouts/:jobId/requeue', AdminController.requeuePayoutJob);
+
+// GET /api/admin/refunds?status=failed - List refunds that have not been confirmed
+router.get('/refunds', AdminController.listStuckRefunds);
+
+// POST /api/admin/refunds/:betId/retry - Retry a failed refund
+router.post('/refunds/:betId/retry', AdminController.retryRefund);
+
+// POST /api/admin/subscriptions/:subscriptionId/cancel - Cancel a subscription and refund unplaced rounds (body: { reason? })
+router.post('/subscriptions/:subscriptionId/cancel', AdminController.cancelSubscription);
+
+// GET /api/admin/subscription-refunds?status=failed - List subscription refunds that have not been confirmed
+router.get('/subscription-refunds', AdminController.listStuckSubscriptionRefunds);
+
+// POST /api/admin/subscription-refunds/:subscriptionId/retry - Retry a failed subscription refund
+router.post('/subscription-refunds/:subscriptionId/retry', AdminController.retrySubscriptionRefund);
+
+// GET /api/admin/reconciliation?coin=UCT - Wallet balance vs liabilities of a coin, with any drift flagged
+router.get('/reconciliation', AdminController.getReconciliation);
+
+// GET /api/admin/unmatched?status=pending - Inbound transfers that matched no invoice
+router.get('/unmatched', AdminController.listUnmatchedTransfers);
+
+// POST /api/admin/unmatched/:id/attach - Book a transfer as a bet's payment (body: { betId, note? })
+router.post('/unmatched/:id/attach', AdminController.attachUnmatchedTransfer);
+
+// POST /api/admin/unmatched/:id/refund - Send a transfer back (body: { nametag? })
+router.post('/unmatched/:id/refund', AdminController.refundUnmatchedTransfer);
+
+// POST /api/admin/unmatched/:id/write-off - Keep a transfer as commission (body: { note? })
+router.post('/unmatched/:id/write-off', AdminController.writeOffUnmatchedTransfer);
+
+export default router;
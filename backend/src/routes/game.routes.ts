@@ -3,34 +3,73 @@ import { GameController } from '../controllers/game.controller.js';
 
 const router = Router();
 
-// GET /api/game/round - Get current round
-router.get('/round', GameController.getCurrentRound);
+// Round and bet routes, mounted both unscoped (default channel) and under /:channel
+function addChannelRoutes(channelRouter: Router): void {
+  // GET /api/game[/:channel]/round - Get current round
+  channelRouter.get('/round', GameController.getCurrentRound);
 
-// GET /api/game/round/previous - Get previous round with winning number
-router.get('/round/previous', GameController.getPreviousRound);
+  // GET /api/game[/:channel]/round/previous - Get previous round with winning number
+  channelRouter.get('/round/previous', GameController.getPreviousRound);
 
-// GET /api/game/validate/:nametag - Validate nametag exists on Nostr
-router.get('/validate/:nametag', GameController.validateNametag);
+  // POST /api/game[/:channel]/bet - Place bets with optional clientSeed (payment request sent via Nostr)
+  // and optional coin, which must be the channel's (one coin per channel)
+  // and optional future roundNumber to pre-book
+  channelRouter.post('/bet', GameController.placeBets);
+
+  // POST /api/game[/:channel]/subscriptions - Prepay a bet pattern for the next N rounds
+  channelRouter.post('/subscriptions', GameController.subscribe);
+
+  // GET /api/game[/:channel]/round/current/bets/:nametag - Get user bets in current round
+  channelRouter.get('/round/current/bets/:nametag', GameController.getUserBetsInCurrentRound);
 
-// POST /api/game/bet - Place bets (payment request sent via Nostr)
-router.post('/bet', GameController.placeBets);
+  // GET /api/game[/:channel]/round/:roundId/bets - Get bets for a round
+  channelRouter.get('/round/:roundId/bets', GameController.getRoundBets);
 
-// GET /api/game/round/current/bets/:nametag - Get user bets in current round
-router.get('/round/current/bets/:nametag', GameController.getUserBetsInCurrentRound);
+  // GET /api/game[/:channel]/round/:roundId/verify - Get data to independently verify a round's draw
+  channelRouter.get('/round/:roundId/verify', GameController.getRoundVerification);
 
-// GET /api/game/round/:roundId/bets - Get bets for a round
-router.get('/round/:roundId/bets', GameController.getRoundBets);
+  // GET /api/game[/:channel]/round/:roundId/proof/:invoiceId - Get Merkle inclusion proof for a paid bet
+  channelRouter.get('/round/:roundId/proof/:invoiceId', GameController.getBetInclusionProof);
 
-// GET /api/game/history - Get round history
-router.get('/history', GameController.getRoundHistory);
+  // GET /api/game[/:channel]/history - Get round history
+  channelRouter.get('/history', GameController.getRoundHistory);
+
+  // GET /api/game[/:channel]/stats/draws - Get winning digit frequency, streaks and chi-square uniformity test
+  channelRouter.get('/stats/draws', GameController.getDrawStats);
+}
+
+addChannelRoutes(router);
+
+// GET /api/game/channels - List configured channels
+router.get('/channels', GameController.getChannels);
+
+// GET /api/game/validate/:nametag - Validate nametag exists on Nostr
+router.get('/validate/:nametag', GameController.validateNametag);
 
 // GET /api/game/bets/:userNametag - Get user bet history
 router.get('/bets/:userNametag', GameController.getUserBets);
 
-// GET /api/game/commission - Get commission balance
+// GET /api/game/subscriptions/:userNametag - Get user auto-bet subscriptions
+router.get('/subscriptions/:userNametag', GameController.getUserSubscriptions);
+
+// POST /api/game/subscriptions/:subscriptionId/cancel - Cancel and refund unplaced rounds (body: { cancelToken })
+router.post('/subscriptions/:subscriptionId/cancel', GameController.cancelSubscription);
+
+// GET /api/game/play/:nametag - Get play-money balance (free-play mode)
+router.get('/play/:nametag', GameController.getPlayBalance);
+
+// POST /api/game/play/:nametag/topup - Reset a low play-money balance (free-play mode)
+router.post('/play/:nametag/topup', GameController.topUpPlayBalance);
+
+// GET /api/game/commission?coin=UCT - Get commission balance of a coin
 router.get('/commission', GameController.getCommissionBalance);
 
-// POST /api/game/commission/withdraw - Withdraw commission (developer only)
+// POST /api/game/commission/withdraw - Withdraw commission of a coin (developer only)
 router.post('/commission/withdraw', GameController.withdrawCommission);
 
+// /api/game/:channel/... - Same round and bet routes scoped to a named channel
+const channelRouter = Router({ mergeParams: true });
+addChannelRoutes(channelRouter);
+router.use('/:channel', GameController.resolveChannel, channelRouter);
+
 export default router;
@@ -1,34 +1,81 @@
-import crypto from 'crypto';
 import mongoose from 'mongoose';
 import {
   Round,
   Bet,
   Commission,
   PaymentLog,
+  Subscription,
   IRound,
   IBet,
   IBetItem,
+  PaymentPurpose,
 } from '../models/game.model.js';
 import { sphereService } from './index.js';
+import { PayoutQueueService } from './payout-queue.service.js';
+import { TransferService } from './transfer.service.js';
+import type { TokenTransfer } from './sphere.service.js';
 import { config } from '../env.js';
+import {
+  FairnessUtils,
+  BetDigestEntry,
+  ClientSeedEntry,
+  MAX_CLIENT_SEED_LENGTH,
+} from '../utils/fairness.js';
+import { RandomnessService } from './randomness.service.js';
+import { MerkleUtils, MerkleBetEntry, MerkleProof } from '../utils/merkle.js';
+import { BetTypeUtils } from '../utils/bet-type.js';
+import { ChannelUtils } from '../utils/channel.js';
+import { CoinUtils } from '../utils/coin.js';
+import { LimitUtils } from '../utils/limits.js';
+import { CurrencyUtils } from '../utils/currency.js';
+import { StatsUtils, DrawStats } from '../utils/stats.js';
+import { GameType, GameTypeUtils, GAME_TYPES } from '../utils/game-type.js';
+
+export interface RoundVerification {
+  roundId: string;
+  roundNumber: number;
+  status: IRound['status'];
+  gameType: GameType;
+  winningDigit: number;
+  serverSeedHash: string | null;
+  serverSeed: string | null;
+  betsDigest: string | null;
+  clientSeedsDigest: string | null;
+  fairnessVersion: number | null;
+  randomnessSource: IRound['randomnessSource'];
+  randomnessProof: Record<string, unknown> | null;
+  bets: (BetDigestEntry & ClientSeedEntry)[];
+  verified: boolean;
+}
+
+export interface BetInclusionProof extends MerkleProof {
+  roundId: string;
+  roundNumber: number;
+  userNametag: string;
+  bets: MerkleBetEntry['bets'];
+  betsMerkleRoot: string;
+  verified: boolean;
+}
 
 export class GameService {
   // Log payment to database
-  private static async logPayment(params: {
+  static async logPayment(params: {
     type: 'incoming' | 'outgoing';
     amount: number;
+    coinId?: string | null;
     fromNametag?: string | null;
     toNametag?: string | null;
     txId: string;
     relatedBetId?: mongoose.Types.ObjectId | null;
     relatedRoundId?: mongoose.Types.ObjectId | null;
-    purpose: 'bet_payment' | 'payout' | 'refund' | 'commission_withdrawal';
+    purpose: PaymentPurpose;
     metadata?: Record<string, unknown>;
   }): Promise<void> {
     try {
       await PaymentLog.create({
         type: params.type,
         amount: params.amount,
+        coinId: params.coinId ?? CoinUtils.getDefault().coinId,
         fromNametag: params.fromNametag || null,
         toNametag: params.toNametag || null,
         txId: params.txId,
@@ -43,28 +90,75 @@ export class GameService {
       console.error('[GameService] Failed to log payment:', error);
     }
   }
-  // Generate cryptographically secure random digit
-  static generateWinningDigit(): number {
-    return crypto.randomInt(0, 10);
+
+  // Coin of a round, bet or subscription (records from before coins are in the default coin)
+  static coinIdOf(record: { coinId: string | null }): string {
+    return record.coinId ?? CoinUtils.getDefault().coinId;
+  }
+  // Settlement rules for a new round, taken from config and frozen on the round
+  private static resolveSettlement(
+    gameType: GameType
+  ): Pick<IRound, 'settlementMode' | 'payoutMultiplier'> {
+    if (config.settlementMode === 'pari-mutuel') {
+      return { settlementMode: 'pari-mutuel', payoutMultiplier: null };
+    }
+    if (config.settlementMode === 'fixed-odds') {
+      return {
+        settlementMode: 'fixed-odds',
+        payoutMultiplier:
+          config.fixedOddsMultiplier > 0
+            ? config.fixedOddsMultiplier
+            : GAME_TYPES[gameType].fixedOddsMultiplier,
+      };
+    }
+    throw new Error(`Unknown settlement mode: ${config.settlementMode}`);
+  }
+
+  // Query filter for a channel's rounds
+  // (rounds stored without a channel belong to the default channel)
+  static channelFilter(channel: string | null): { channel: string | { $nin: string[] } } {
+    const channels = ChannelUtils.all();
+    const name = ChannelUtils.get(channel).name;
+    if (name !== channels[0].name) {
+      return { channel: name };
+    }
+    return { channel: { $nin: channels.slice(1).map((c) => c.name) } };
   }
 
   // Create new round (handles race condition with duplicate key)
-  static async createRound(): Promise<IRound> {
-    const lastRound = await Round.findOne().sort({ roundNumber: -1 });
+  // The configured randomness source may publish a commitment (e.g. a seed hash) up front
+  static async createRound(channel: string = ChannelUtils.getDefault().name): Promise<IRound> {
+    const channelConfig = ChannelUtils.get(channel);
+    const filter = this.channelFilter(channelConfig.name);
+    const lastRound = await Round.findOne(filter).sort({ roundNumber: -1 });
     const roundNumber = lastRound ? lastRound.roundNumber + 1 : 1;
 
     try {
+      const gameType = GameTypeUtils.parse(config.gameType);
+      const commitment = RandomnessService.getConfiguredSource().commit(roundNumber);
       const round = new Round({
+        channel: channelConfig.name,
+        coinId: CoinUtils.get(channelConfig.coin).coinId,
         roundNumber,
         status: 'open',
+        gameType,
+        ...this.resolveSettlement(gameType),
+        houseFeePercent: channelConfig.houseFeePercent,
         startTime: new Date(),
+        ...commitment,
       });
 
-      return (await round.save()) as unknown as IRound;
+      await round.save();
+
+      // Pick up a jackpot rolled over by an earlier round
+      await this.claimJackpot(round);
+
+      // Re-read so the hidden serverSeed is not returned to callers
+      return (await Round.findById(round._id)) as IRound;
     } catch (error) {
       // Handle duplicate key error (race condition)
       if (error instanceof Error && 'code' in error && (error as { code: number }).code === 11000) {
-        const existingRound = await Round.findOne({ roundNumber });
+        const existingRound = await Round.findOne({ ...filter, roundNumber });
         if (existingRound) {
           return existingRound as IRound;
         }
@@ -73,51 +167,84 @@ export class GameService {
     }
   }
 
+  // Get a channel's open round, if any
+  static async findOpenRound(
+    channel: string = ChannelUtils.getDefault().name
+  ): Promise<IRound | null> {
+    return Round.findOne({ ...this.channelFilter(channel), status: 'open' });
+  }
+
   // Get current open round or create new one
-  static async getCurrentRound(): Promise<IRound> {
-    const round = await Round.findOne({ status: 'open' });
+  static async getCurrentRound(channel: string = ChannelUtils.getDefault().name): Promise<IRound> {
+    const round = await this.findOpenRound(channel);
 
     if (!round) {
-      return this.createRound();
+      return this.createRound(channel);
     }
 
     return round as IRound;
   }
 
   // Place bets - creates invoice and returns it for user to pay
+  // Optional clientSeed is player entropy mixed into the draw.
+  // A future roundNumber pre-books the bet: it is held until that round opens.
   static async placeBets(
     userNametag: string,
-    bets: IBetItem[]
+    bets: IBetItem[],
+    clientSeed?: string | null,
+    channel: string = ChannelUtils.getDefault().name,
+    roundNumber?: number
   ): Promise<{ bet: IBet; invoice: { invoiceId: string; amount: number } }> {
     // Validate bets
     if (!bets || bets.length === 0) {
       throw new Error('At least one bet required');
     }
 
-    for (const bet of bets) {
-      if (bet.digit < 0 || bet.digit > 9) {
-        throw new Error('Digit must be between 0 and 9');
-      }
-      if (bet.amount <= 0) {
-        throw new Error('Amount must be positive');
+    if (clientSeed !== undefined && clientSeed !== null) {
+      if (
+        typeof clientSeed !== 'string' ||
+        clientSeed.length === 0 ||
+        clientSeed.length > MAX_CLIENT_SEED_LENGTH
+      ) {
+        throw new Error(`Client seed must be 1-${MAX_CLIENT_SEED_LENGTH} characters`);
       }
     }
 
-    const round = await this.getCurrentRound();
+    const round = await this.getCurrentRound(channel);
 
     if (round.status !== 'open') {
       throw new Error('Round is not open for betting');
     }
 
+    const items = this.resolveBetItems(bets, round);
+
+    if (roundNumber !== undefined && roundNumber !== round.roundNumber) {
+      return this.prebookBets(userNametag, items, clientSeed ?? null, round, roundNumber);
+    }
+
+    const violation = await this.checkStakeLimits(round, userNametag, items, {
+      includePending: true,
+    });
+    if (violation) {
+      throw new Error(violation);
+    }
+
+    // Fixed-odds rounds: the agent wallet must cover the worst-case payout
+    if (round.settlementMode === 'fixed-odds') {
+      await this.checkBankrollExposure(round, items);
+    }
+
     // Calculate total amount
-    const totalAmount = bets.reduce((sum, bet) => sum + bet.amount, 0);
+    const totalAmount = items.reduce((sum, bet) => sum + bet.amount, 0);
 
     // Create invoice via Nostr (pass bets and roundNumber for validation)
     const invoice = await sphereService.createInvoice(
       userNametag,
       totalAmount,
-      bets,
-      round.roundNumber
+      items,
+      round.roundNumber,
+      undefined,
+      this.coinIdOf(round)
     );
 
     // Create bet record
@@ -125,10 +252,13 @@ export class GameService {
       roundId: round._id,
       roundNumber: round.roundNumber,
       userNametag,
-      bets,
+      bets: items,
       totalAmount,
+      coinId: this.coinIdOf(round),
       invoiceId: invoice.invoiceId,
+      clientSeed: clientSeed ?? null,
       paymentStatus: 'pending',
+      expiresAt: invoice.expiresAt,
     });
 
     await betRecord.save();
@@ -139,6 +269,295 @@ export class GameService {
     };
   }
 
+  // Book bets for a future round of the open round's channel (validated against the open round,
+  // re-validated when bound). The bet has no roundId until bindPrebookedBets() runs for its round.
+  private static async prebookBets(
+    userNametag: string,
+    items: IBetItem[],
+    clientSeed: string | null,
+    round: IRound,
+    roundNumber: number
+  ): Promise<{ bet: IBet; invoice: { invoiceId: string; amount: number } }> {
+    if (!Number.isInteger(roundNumber) || roundNumber < round.roundNumber) {
+      throw new Error(`Round #${roundNumber} is no longer open for betting`);
+    }
+    if (roundNumber > round.roundNumber + config.prebookMaxRoundsAhead) {
+      throw new Error(`Bets can be booked at most ${config.prebookMaxRoundsAhead} rounds ahead`);
+    }
+
+    const totalAmount = items.reduce((sum, bet) => sum + bet.amount, 0);
+    const invoice = await sphereService.createInvoice(
+      userNametag,
+      totalAmount,
+      items,
+      roundNumber,
+      undefined,
+      this.coinIdOf(round)
+    );
+
+    const betRecord = new Bet({
+      roundId: null,
+      roundNumber,
+      channel: ChannelUtils.get(round.channel).name,
+      userNametag,
+      bets: items,
+      totalAmount,
+      coinId: this.coinIdOf(round),
+      invoiceId: invoice.invoiceId,
+      clientSeed,
+      paymentStatus: 'pending',
+      expiresAt: invoice.expiresAt,
+    });
+
+    await betRecord.save();
+
+    return {
+      bet: betRecord as IBet,
+      invoice,
+    };
+  }
+
+  // Attach pre-booked bets to their round as it opens. Paid bets join the pool; bets that no
+  // longer fit the round (game type, coin, minimum bet or bankroll changed) are refunded.
+  static async bindPrebookedBets(round: IRound): Promise<number> {
+    if (round.status !== 'open') {
+      return 0;
+    }
+
+    const booked = await Bet.find({
+      roundId: null,
+      channel: ChannelUtils.get(round.channel).name,
+      roundNumber: round.roundNumber,
+      paymentStatus: { $in: ['pending', 'paid'] },
+    });
+
+    let bound = 0;
+    for (const bet of booked) {
+      let items: IBetItem[];
+      try {
+        if (this.coinIdOf(bet as IBet) !== this.coinIdOf(round)) {
+          throw new Error(`Channel is now played in ${CoinUtils.symbol(round.coinId)}`);
+        }
+        items = this.resolveBetItems(bet.bets.map(BetTypeUtils.toPlain), round);
+        if (bet.paymentStatus === 'paid') {
+          const violation = await this.checkStakeLimits(round, bet.userNametag, items, {
+            includePending: false,
+          });
+          if (violation) {
+            throw new Error(violation);
+          }
+          if (round.settlementMode === 'fixed-odds') {
+            await this.checkBankrollExposure(round, items);
+          }
+        }
+      } catch (error) {
+        if (bet.paymentStatus === 'paid') {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          await this.refundPrebookedBet(bet as IBet, `Round #${round.roundNumber}: ${message}`);
+        }
+        continue;
+      }
+
+      const claimed = await Bet.findOneAndUpdate(
+        { _id: bet._id, roundId: null, paymentStatus: { $in: ['pending', 'paid'] } },
+        { $set: { roundId: round._id, bets: items } },
+        { new: true }
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      if (claimed.paymentStatus === 'paid') {
+        await Round.findByIdAndUpdate(round._id, { $inc: { totalPool: claimed.totalAmount } });
+      }
+      bound++;
+    }
+
+    return bound;
+  }
+
+  // Refund paid pre-booked bets of a channel that can no longer be bound: their round number has
+  // already passed, or they have waited longer than the configured horizon
+  static async refundStalePrebookedBets(round: IRound): Promise<number> {
+    const horizon = new Date(Date.now() - config.prebookHorizonSeconds * 1000);
+    const stale = await Bet.find({
+      roundId: null,
+      channel: ChannelUtils.get(round.channel).name,
+      paymentStatus: 'paid',
+      $or: [{ roundNumber: { $lt: round.roundNumber } }, { createdAt: { $lt: horizon } }],
+    });
+
+    for (const bet of stale) {
+      const reason =
+        bet.roundNumber < round.roundNumber
+          ? `Round #${bet.roundNumber} was played without this booking`
+          : `Round #${bet.roundNumber} did not open within the booking horizon`;
+      await this.refundPrebookedBet(bet as IBet, reason);
+    }
+
+    return stale.length;
+  }
+
+  // Mark an unbound pre-booked bet refunded (once) and send the stake back
+  private static async refundPrebookedBet(bet: IBet, reason: string): Promise<void> {
+    const claimed = await Bet.findOneAndUpdate(
+      { _id: bet._id, roundId: null, paymentStatus: 'paid' },
+      { $set: { paymentStatus: 'refunded', refundReason: reason } },
+      { new: true }
+    );
+    if (claimed) {
+      await this.refundPayment(claimed as IBet, reason);
+    }
+  }
+
+  // Validate bet items against a round's channel minimum and game type.
+  // Picked numbers must fit the round's range, group bets resolve to the numbers they cover.
+  static resolveBetItems(bets: IBetItem[], round: IRound): IBetItem[] {
+    const { minBet } = ChannelUtils.get(round.channel);
+    const symbol = CoinUtils.symbol(round.coinId);
+    const limits = LimitUtils.fromConfig(symbol);
+    for (const bet of bets) {
+      if (bet.amount <= 0) {
+        throw new Error('Amount must be positive');
+      }
+      if (bet.amount < minBet) {
+        throw new Error(`Minimum bet is ${minBet} ${symbol}`);
+      }
+      const violation = LimitUtils.checkBetAmount(bet, limits);
+      if (violation) {
+        throw new Error(violation);
+      }
+    }
+
+    const range = GameTypeUtils.getRange(round.gameType);
+    return bets.map((bet) => {
+      const betType = BetTypeUtils.parse(bet.betType);
+      if (betType !== 'number') {
+        return {
+          betType,
+          digits: BetTypeUtils.resolveGroup(betType, range, bet.digits),
+          amount: bet.amount,
+        };
+      }
+
+      if (bet.digit === undefined || !GameTypeUtils.isValidNumber(bet.digit, round.gameType)) {
+        const label = round.gameType === 'pick-1' ? 'Digit' : 'Number';
+        throw new Error(
+          `${label} must be between ${GameTypeUtils.format(0, round.gameType)} and ${GameTypeUtils.format(range - 1, round.gameType)}`
+        );
+      }
+      return { betType, digit: bet.digit, amount: bet.amount };
+    });
+  }
+
+  // Filter for pending bets whose invoice can still be paid (bets from before expiresAt was
+  // recorded fall back to the payment timeout)
+  private static unexpiredPendingFilter(): mongoose.QueryFilter<IBet> {
+    const now = new Date();
+    return {
+      paymentStatus: 'pending',
+      $or: [
+        { expiresAt: { $gt: now } },
+        {
+          expiresAt: null,
+          createdAt: { $gte: new Date(now.getTime() - config.paymentTimeoutSeconds * 1000) },
+        },
+      ],
+    };
+  }
+
+  // Check a player's new bet items against the per-player and per-number limits of a round.
+  // Counts paid bets and, when placing, pending bets whose invoice has not expired yet.
+  static async checkStakeLimits(
+    round: IRound,
+    userNametag: string,
+    items: IBetItem[],
+    options: { includePending: boolean; excludeBetId?: mongoose.Types.ObjectId }
+  ): Promise<string | null> {
+    const bets = await Bet.find({
+      roundId: round._id,
+      ...(options.excludeBetId ? { _id: { $ne: options.excludeBetId } } : {}),
+      $or: options.includePending
+        ? [{ paymentStatus: 'paid' }, this.unexpiredPendingFilter()]
+        : [{ paymentStatus: 'paid' }],
+    });
+
+    return LimitUtils.checkRound(
+      {
+        userStake: bets
+          .filter((b) => b.userNametag === userNametag)
+          .reduce((sum, b) => sum + b.totalAmount, 0),
+        items: bets.flatMap((b) => b.bets),
+      },
+      items,
+      LimitUtils.fromConfig(CoinUtils.symbol(round.coinId))
+    );
+  }
+
+  // Worst-case fixed-odds payout of a round: the most a single winning number could pay.
+  // Counts paid bets, pending bets whose invoice has not expired yet and any extra bets.
+  static async getRoundExposure(round: IRound, extraBets: IBetItem[] = []): Promise<number> {
+    if (round.settlementMode !== 'fixed-odds' || !round.payoutMultiplier) {
+      return 0;
+    }
+
+    const bets = await Bet.find({
+      roundId: round._id,
+      $or: [{ paymentStatus: 'paid' }, this.unexpiredPendingFilter()],
+    });
+
+    // Liability per possible winning number (group stakes spread over the numbers they cover)
+    const liabilities = new Map<number, number>();
+    for (const item of [...bets.flatMap((b) => b.bets), ...extraBets]) {
+      const payout = (item.amount * round.payoutMultiplier) / BetTypeUtils.coverage(item);
+      for (const n of BetTypeUtils.coveredNumbers(item)) {
+        liabilities.set(n, (liabilities.get(n) ?? 0) + payout);
+      }
+    }
+
+    return Math.max(0, ...liabilities.values());
+  }
+
+  // Reject bets the agent wallet could not pay out if every unsettled fixed-odds round
+  // lands on its worst-case number, on top of winnings already owed to players.
+  // Each coin is its own bankroll.
+  static async checkBankrollExposure(round: IRound, bets: IBetItem[]): Promise<void> {
+    const coinId = this.coinIdOf(round);
+    const unsettledRounds = await Round.find({
+      ...CoinUtils.filter(coinId),
+      settlementMode: 'fixed-odds',
+      status: { $in: ['open', 'closed'] },
+    });
+
+    let exposure = 0;
+    for (const unsettled of unsettledRounds) {
+      const isCurrent = unsettled._id.toString() === round._id.toString();
+      exposure += await this.getRoundExposure(unsettled, isCurrent ? bets : []);
+    }
+
+    const owed = await Bet.aggregate([
+      {
+        $match: {
+          ...CoinUtils.filter(coinId),
+          winnings: { $gt: 0 },
+          payoutStatus: { $in: ['pending', 'sent', 'failed'] },
+        },
+      },
+      { $group: { _id: null, total: { $sum: '$winnings' } } },
+    ]);
+    const required = exposure + (owed[0]?.total || 0);
+    const bankroll = await sphereService.getBalance(coinId);
+
+    if (required > bankroll) {
+      const symbol = CoinUtils.symbol(coinId);
+      // eslint-disable-next-line no-console
+      console.log(
+        `[GameService] Bet rejected in round #${round.roundNumber}: worst-case ${required} ${symbol} exceeds bankroll ${bankroll} ${symbol}`
+      );
+      throw new Error('Bet exceeds house bankroll limit for this round');
+    }
+  }
+
   // Called when payment is confirmed (webhook or polling)
   static async confirmPayment(
     invoiceId: string,
@@ -160,90 +579,94 @@ export class GameService {
       return { bet: bet as IBet, accepted: false, refundReason: 'Already refunded' };
     }
 
+    // Everything received for the invoice, including partial transfers held so far.
+    // The final transfer is what remains after those; anything above the invoice is change.
+    const received = this.receivedTotal(bet as IBet, receivedAmounts);
+    const transferAmount = CurrencyUtils.round(received - bet.receivedAmount);
+
+    // Paid after the invoice expired (whether or not the sweeper got to it yet) - refund
+    if (
+      bet.paymentStatus === 'expired' ||
+      (bet.paymentStatus === 'pending' && bet.expiresAt && bet.expiresAt <= new Date())
+    ) {
+      bet.expiredAt = bet.expiredAt ?? new Date();
+      return this.rejectPayment(bet as IBet, txId, 'Invoice expired', tokenCount, receivedAmounts);
+    }
+
+    // Pre-booked bet: hold the payment until its round opens
+    if (!bet.roundId) {
+      const openRound = await this.findOpenRound(bet.channel ?? ChannelUtils.getDefault().name);
+      if (openRound && openRound.roundNumber === bet.roundNumber) {
+        // Its round opened while the invoice was unpaid - join it like a regular bet
+        bet.roundId = openRound._id as mongoose.Types.ObjectId;
+      } else if (!openRound || openRound.roundNumber < bet.roundNumber) {
+        bet.paymentStatus = 'paid';
+        bet.paymentTxId = txId;
+        bet.receivedAmount = received;
+        await bet.save();
+
+        await this.logPayment({
+          type: 'incoming',
+          amount: transferAmount,
+          coinId: this.coinIdOf(bet as IBet),
+          fromNametag: bet.userNametag,
+          toNametag: config.agentNametag,
+          txId,
+          relatedBetId: bet._id as mongoose.Types.ObjectId,
+          purpose: 'bet_payment',
+          metadata: {
+            roundNumber: bet.roundNumber,
+            bets: bet.bets,
+            prebooked: true,
+            tokenCount,
+            wasSplit: tokenCount > 1,
+            receivedAmounts: receivedAmounts.length > 0 ? receivedAmounts : [bet.totalAmount],
+            invoiceAmount: bet.totalAmount,
+          },
+        });
+
+        await this.refundChange(bet as IBet, txId, received);
+        return { bet: bet as IBet, accepted: true };
+      }
+    }
+
     // Check if round is still open
     const round = await Round.findById(bet.roundId);
 
     if (!round) {
-      // Round doesn't exist - refund
-      const reason = 'Round not found';
-      bet.paymentStatus = 'refunded';
-      bet.paymentTxId = txId;
-      bet.refundReason = reason;
-      await bet.save();
-
-      // Log rejected payment
-      await this.logPayment({
-        type: 'incoming',
-        amount: bet.totalAmount,
-        fromNametag: bet.userNametag,
-        toNametag: config.agentNametag,
-        txId,
-        relatedBetId: bet._id as mongoose.Types.ObjectId,
-        relatedRoundId: bet.roundId,
-        purpose: 'bet_payment',
-        metadata: {
-          roundNumber: bet.roundNumber,
-          bets: bet.bets,
-          tokenCount,
-          wasSplit: tokenCount > 1,
-          receivedAmounts: receivedAmounts.length > 0 ? receivedAmounts : [bet.totalAmount],
-          rejected: true,
-          refundReason: reason,
-        },
-      });
-
-      // Initiate refund
-      await this.refundPayment(bet, reason);
-      return { bet: bet as IBet, accepted: false, refundReason: reason };
+      // Round doesn't exist (or a pre-booked bet was paid after its round) - refund
+      const reason = bet.roundId
+        ? 'Round not found'
+        : `Round #${bet.roundNumber} has already been played`;
+      return this.rejectPayment(bet as IBet, txId, reason, tokenCount, receivedAmounts);
     }
 
     if (round.status !== 'open') {
       // Round is closed - refund
       const reason = `Round #${round.roundNumber} is ${round.status}`;
-      bet.paymentStatus = 'refunded';
-      bet.paymentTxId = txId;
-      bet.refundReason = reason;
-      await bet.save();
-
-      // Log rejected payment
-      await this.logPayment({
-        type: 'incoming',
-        amount: bet.totalAmount,
-        fromNametag: bet.userNametag,
-        toNametag: config.agentNametag,
-        txId,
-        relatedBetId: bet._id as mongoose.Types.ObjectId,
-        relatedRoundId: bet.roundId,
-        purpose: 'bet_payment',
-        metadata: {
-          roundNumber: round.roundNumber,
-          bets: bet.bets,
-          tokenCount,
-          wasSplit: tokenCount > 1,
-          receivedAmounts: receivedAmounts.length > 0 ? receivedAmounts : [bet.totalAmount],
-          rejected: true,
-          refundReason: reason,
-        },
-      });
+      return this.rejectPayment(bet as IBet, txId, reason, tokenCount, receivedAmounts);
+    }
 
-      // Initiate refund
-      await this.refundPayment(bet, reason);
-      return {
-        bet: bet as IBet,
-        accepted: false,
-        refundReason: reason,
-      };
+    // Stake limits may have been reached by bets paid since this one was placed - refund
+    const violation = await this.checkStakeLimits(round as IRound, bet.userNametag, bet.bets, {
+      includePending: false,
+      excludeBetId: bet._id as mongoose.Types.ObjectId,
+    });
+    if (violation) {
+      return this.rejectPayment(bet as IBet, txId, violation, tokenCount, receivedAmounts);
     }
 
     // Round is open - accept payment
     bet.paymentStatus = 'paid';
     bet.paymentTxId = txId;
+    bet.receivedAmount = received;
     await bet.save();
 
     // Log incoming payment
     await this.logPayment({
       type: 'incoming',
-      amount: bet.totalAmount,
+      amount: transferAmount,
+      coinId: this.coinIdOf(bet),
       fromNametag: bet.userNametag,
       toNametag: config.agentNametag,
       txId,
@@ -256,43 +679,293 @@ export class GameService {
         tokenCount,
         wasSplit: tokenCount > 1,
         receivedAmounts: receivedAmounts.length > 0 ? receivedAmounts : [bet.totalAmount],
+        invoiceAmount: bet.totalAmount,
       },
     });
 
-    // Update round pool
-    await Round.findByIdAndUpdate(bet.roundId, {
-      $inc: { totalPool: bet.totalAmount },
-    });
+    // Update round pool
+    await Round.findByIdAndUpdate(bet.roundId, {
+      $inc: { totalPool: bet.totalAmount },
+    });
+
+    await this.refundChange(bet as IBet, txId, received);
+    return { bet: bet as IBet, accepted: true };
+  }
+
+  // Mark a payment rejected, log it and send it back
+  private static async rejectPayment(
+    bet: IBet,
+    txId: string,
+    reason: string,
+    tokenCount: number,
+    receivedAmounts: number[]
+  ): Promise<{ bet: IBet; accepted: boolean; refundReason: string }> {
+    // Send back everything received, partial transfers and any overpayment included
+    const received = this.receivedTotal(bet, receivedAmounts);
+    const transferAmount = CurrencyUtils.round(received - bet.receivedAmount);
+
+    bet.paymentStatus = 'refunded';
+    bet.paymentTxId = txId;
+    bet.refundReason = reason;
+    bet.receivedAmount = received;
+    await bet.save();
+
+    // Log rejected payment
+    await this.logPayment({
+      type: 'incoming',
+      amount: transferAmount,
+      coinId: this.coinIdOf(bet),
+      fromNametag: bet.userNametag,
+      toNametag: config.agentNametag,
+      txId,
+      relatedBetId: bet._id as mongoose.Types.ObjectId,
+      relatedRoundId: bet.roundId,
+      purpose: 'bet_payment',
+      metadata: {
+        roundNumber: bet.roundNumber,
+        bets: bet.bets,
+        tokenCount,
+        wasSplit: tokenCount > 1,
+        receivedAmounts: receivedAmounts.length > 0 ? receivedAmounts : [bet.totalAmount],
+        rejected: true,
+        refundReason: reason,
+      },
+    });
+
+    // Initiate refund
+    await this.refundPayment(bet, reason, received);
+    return { bet, accepted: false, refundReason: reason };
+  }
+
+  // Total received for a bet's invoice: the confirmed transfer's tokens (which include held
+  // partial transfers) or, when the wallet did not report them, the invoice amount
+  private static receivedTotal(bet: IBet, receivedAmounts: number[]): number {
+    if (receivedAmounts.length === 0) {
+      return bet.totalAmount;
+    }
+    return CurrencyUtils.round(receivedAmounts.reduce((sum, amount) => sum + amount, 0));
+  }
+
+  // Send back what was paid above the invoice amount
+  private static async refundChange(bet: IBet, txId: string, received: number): Promise<void> {
+    const change = CurrencyUtils.round(received - bet.totalAmount);
+    if (change <= 0) {
+      return;
+    }
+
+    try {
+      // eslint-disable-next-line no-console
+      console.log(
+        `[GameService] Overpayment of ${change} ${CoinUtils.symbol(bet.coinId)} on invoice ${bet.invoiceId}, returning change to @${bet.userNametag}`
+      );
+
+      const transfer = await TransferService.send(
+        `overpayment-change:${bet._id}`,
+        'overpayment_change',
+        bet.userNametag,
+        change,
+        this.coinIdOf(bet)
+      );
+
+      await this.logPayment({
+        type: 'outgoing',
+        amount: change,
+        coinId: this.coinIdOf(bet),
+        fromNametag: config.agentNametag,
+        toNametag: bet.userNametag,
+        txId: transfer.transferId,
+        relatedBetId: bet._id as mongoose.Types.ObjectId,
+        relatedRoundId: bet.roundId,
+        purpose: 'overpayment_change',
+        metadata: {
+          paymentTxId: txId,
+          invoiceAmount: bet.totalAmount,
+          receivedAmount: received,
+          transactionCount: transfer.transactionCount,
+          sentAmounts: transfer.sentAmounts,
+        },
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`[GameService] Change refund failed:`, error);
+    }
+  }
+
+  // Handle a transfer that covers only part of an invoice. Under the topup policy it is held
+  // towards an unpaid bet (returns true); otherwise it is refunded in full (returns false).
+  // Subscriptions are always refunded - they are only activated by a complete payment.
+  static async recordPartialPayment(
+    invoiceId: string,
+    txId: string,
+    amount: number,
+    tokenCount = 1,
+    receivedAmounts: number[] = []
+  ): Promise<boolean> {
+    const bet = await Bet.findOne({ invoiceId });
+    const owner = bet ?? (await Subscription.findOne({ invoiceId }));
+    if (!owner) {
+      throw new Error('Bet not found');
+    }
+
+    const invoiceAmount = owner.totalAmount;
+    const coinId = this.coinIdOf(owner);
+    const symbol = CoinUtils.symbol(coinId);
+    const held =
+      bet && config.underpaymentPolicy === 'topup'
+        ? await Bet.findOneAndUpdate(
+            { _id: bet._id, paymentStatus: 'pending' },
+            { $inc: { receivedAmount: amount } },
+            { new: true }
+          )
+        : null;
+    const kept = held !== null;
+    const heldAmount = held ? held.receivedAmount : 0;
+
+    await this.logPayment({
+      type: 'incoming',
+      amount,
+      coinId,
+      fromNametag: owner.userNametag,
+      toNametag: config.agentNametag,
+      txId,
+      relatedBetId: bet ? (bet._id as mongoose.Types.ObjectId) : null,
+      relatedRoundId: bet?.roundId ?? null,
+      purpose: 'partial_payment',
+      metadata: {
+        invoiceId,
+        invoiceAmount,
+        kept,
+        heldAmount,
+        tokenCount,
+        receivedAmounts: receivedAmounts.length > 0 ? receivedAmounts : [amount],
+      },
+    });
+
+    if (kept) {
+      // eslint-disable-next-line no-console
+      console.log(
+        `[GameService] Holding partial payment of ${amount} ${symbol} on invoice ${invoiceId} (${heldAmount}/${invoiceAmount})`
+      );
+      return true;
+    }
+
+    try {
+      // eslint-disable-next-line no-console
+      console.log(
+        `[GameService] Refunding underpayment of ${amount} ${symbol} to @${owner.userNametag} (invoice ${invoiceId})`
+      );
+
+      const transfer = await TransferService.send(
+        `underpayment-refund:${txId}`,
+        'underpayment_refund',
+        owner.userNametag,
+        amount,
+        coinId
+      );
+
+      await this.logPayment({
+        type: 'outgoing',
+        amount,
+        coinId,
+        fromNametag: config.agentNametag,
+        toNametag: owner.userNametag,
+        txId: transfer.transferId,
+        relatedBetId: bet ? (bet._id as mongoose.Types.ObjectId) : null,
+        relatedRoundId: bet?.roundId ?? null,
+        purpose: 'underpayment_refund',
+        metadata: {
+          invoiceId,
+          invoiceAmount,
+          paymentTxId: txId,
+          transactionCount: transfer.transactionCount,
+          sentAmounts: transfer.sentAmounts,
+        },
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`[GameService] Underpayment refund failed:`, error);
+    }
+    return false;
+  }
+
+  // Refund payment to user (the bet amount unless more or less was received). The refund is
+  // recorded as pending first, so a transfer that fails is retried by retryRefunds.
+  private static async refundPayment(
+    bet: IBet,
+    reason: string,
+    amount: number = bet.totalAmount
+  ): Promise<void> {
+    if (bet.refundStatus !== 'none') {
+      return;
+    }
 
-    return { bet: bet as IBet, accepted: true };
+    bet.refundStatus = 'pending';
+    bet.refundAmount = amount;
+    bet.refundReason = bet.refundReason ?? reason;
+    bet.refundAttempts = 0;
+    bet.refundNextAttemptAt = new Date();
+    await bet.save();
+
+    await this.sendRefund(bet);
   }
 
-  // Refund payment to user
-  private static async refundPayment(bet: IBet, reason: string): Promise<void> {
+  // Send a pending refund. The bet is claimed first so a refund is never sent twice; a failed
+  // transfer goes back to pending with backoff, or to failed after config.refundMaxAttempts.
+  // Returns the resulting refund status (null if another worker had already claimed it).
+  private static async sendRefund(bet: IBet): Promise<IBet['refundStatus'] | null> {
+    const claimed = await Bet.findOneAndUpdate(
+      { _id: bet._id, refundStatus: 'pending' },
+      { $set: { refundStatus: 'sent' }, $inc: { refundAttempts: 1 } },
+      { new: true }
+    );
+    if (!claimed) {
+      return null;
+    }
+
+    const reason = claimed.refundReason ?? 'Refund';
     try {
       // eslint-disable-next-line no-console
       console.log(
-        `[GameService] Refunding ${bet.totalAmount} UCT to @${bet.userNametag}: ${reason}`
+        `[GameService] Refunding ${claimed.refundAmount} ${CoinUtils.symbol(claimed.coinId)} to @${claimed.userNametag}: ${reason}`
       );
 
-      const transfer = await sphereService.sendTokens(bet.userNametag, bet.totalAmount);
+      const transfer = await TransferService.send(
+        this.refundKey(claimed as IBet),
+        'refund',
+        claimed.userNametag,
+        claimed.refundAmount,
+        this.coinIdOf(claimed as IBet)
+      );
+      await Bet.updateOne(
+        { _id: claimed._id },
+        {
+          $set: {
+            refundStatus: 'confirmed',
+            refundTxId: transfer.transferId,
+            refundNextAttemptAt: null,
+            refundLastError: null,
+          },
+        }
+      );
+      bet.refundStatus = 'confirmed';
       bet.refundTxId = transfer.transferId;
-      await bet.save();
 
       // Log outgoing refund
       await this.logPayment({
         type: 'outgoing',
-        amount: bet.totalAmount,
+        amount: claimed.refundAmount,
+        coinId: this.coinIdOf(claimed as IBet),
         fromNametag: config.agentNametag,
-        toNametag: bet.userNametag,
+        toNametag: claimed.userNametag,
         txId: transfer.transferId,
-        relatedBetId: bet._id as mongoose.Types.ObjectId,
-        relatedRoundId: bet.roundId,
+        relatedBetId: claimed._id as mongoose.Types.ObjectId,
+        relatedRoundId: claimed.roundId,
         purpose: 'refund',
         metadata: {
           reason,
-          roundNumber: bet.roundNumber,
-          originalBets: bet.bets,
+          roundNumber: claimed.roundNumber,
+          originalBets: claimed.bets,
+          attempts: claimed.refundAttempts,
           transactionCount: transfer.transactionCount,
           wasSplit: transfer.transactionCount > 1,
           sentAmounts: transfer.sentAmounts,
@@ -301,10 +974,221 @@ export class GameService {
 
       // eslint-disable-next-line no-console
       console.log(`[GameService] Refund sent: ${transfer.transferId}`);
+      return bet.refundStatus;
     } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const failed = claimed.refundAttempts >= config.refundMaxAttempts;
+
       // eslint-disable-next-line no-console
-      console.error(`[GameService] Refund failed:`, error);
+      console.error(
+        `[GameService] Refund failed (attempt ${claimed.refundAttempts}/${config.refundMaxAttempts}):`,
+        error
+      );
+
+      await Bet.updateOne(
+        { _id: claimed._id },
+        {
+          $set: failed
+            ? { refundStatus: 'failed', refundNextAttemptAt: null, refundLastError: message }
+            : {
+                refundStatus: 'pending',
+                refundNextAttemptAt: new Date(
+                  Date.now() + PayoutQueueService.backoffMs(claimed.refundAttempts)
+                ),
+                refundLastError: message,
+              },
+        }
+      );
+      bet.refundStatus = failed ? 'failed' : 'pending';
+      return bet.refundStatus;
+    }
+  }
+
+  // Retry pending refunds whose backoff has elapsed
+  static async retryRefunds(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+    const due = await Bet.find({
+      refundStatus: 'pending',
+      refundNextAttemptAt: { $lte: now },
+    }).sort({ refundNextAttemptAt: 1 });
+
+    let sent = 0;
+    let failed = 0;
+    for (const bet of due) {
+      const status = await this.sendRefund(bet as IBet);
+      if (status === 'confirmed') {
+        sent++;
+      } else if (status !== null) {
+        failed++;
+      }
+    }
+    return { sent, failed };
+  }
+
+  // Refunds that have not been confirmed (pending, in flight or failed), oldest first
+  static async getStuckRefunds(
+    status?: Exclude<IBet['refundStatus'], 'none' | 'confirmed'>,
+    limit = 100
+  ): Promise<IBet[]> {
+    return Bet.find({ refundStatus: status ?? { $in: ['pending', 'sent', 'failed'] } })
+      .sort({ updatedAt: 1 })
+      .limit(limit);
+  }
+
+  // Give a failed refund a fresh set of attempts and send it right away. A refund whose
+  // outcome was unknown is released for resending - retry only once the wallet shows it
+  // never went out.
+  static async retryRefund(betId: string): Promise<IBet> {
+    if (!mongoose.Types.ObjectId.isValid(betId)) {
+      throw new Error('Bet not found');
+    }
+
+    const bet = await Bet.findOneAndUpdate(
+      { _id: betId, refundStatus: 'failed' },
+      { $set: { refundStatus: 'pending', refundAttempts: 0, refundNextAttemptAt: new Date() } },
+      { new: true }
+    );
+
+    if (!bet) {
+      const existing = await Bet.findById(betId);
+      if (!existing) {
+        throw new Error('Bet not found');
+      }
+      throw new Error(`Refund is ${existing.refundStatus}, only failed refunds can be retried`);
+    }
+
+    // The operator has checked that an in-doubt refund never went out
+    await TransferService.release(this.refundKey(bet as IBet));
+    await this.sendRefund(bet as IBet);
+    return (await Bet.findById(betId)) as IBet;
+  }
+
+  // Settle refunds that were being sent when the process stopped, before anything is resent.
+  // As with payouts, the refund's outgoing transfer record (checked against the wallet history
+  // if it was left in sending) decides whether it went out.
+  static async recoverInterruptedRefunds(): Promise<{
+    confirmed: number;
+    requeued: number;
+    inDoubt: number;
+  }> {
+    const bets = await Bet.find({ refundStatus: 'sent' });
+    let confirmed = 0;
+    let requeued = 0;
+    let inDoubt = 0;
+
+    for (const bet of bets) {
+      const record = await TransferService.resolve(this.refundKey(bet as IBet));
+
+      if (record && (record.status === 'sent' || record.status === 'confirmed')) {
+        await Bet.updateOne(
+          { _id: bet._id },
+          {
+            $set: {
+              refundStatus: 'confirmed',
+              refundTxId: record.transferId,
+              refundNextAttemptAt: null,
+              refundLastError: null,
+            },
+          }
+        );
+        if (
+          !(await PaymentLog.exists({
+            txId: record.transferId,
+            purpose: 'refund',
+            relatedBetId: bet._id,
+          }))
+        ) {
+          await this.logPayment({
+            type: 'outgoing',
+            amount: record.amount,
+            coinId: this.coinIdOf(bet as IBet),
+            fromNametag: config.agentNametag,
+            toNametag: bet.userNametag,
+            txId: record.transferId!,
+            relatedBetId: bet._id as mongoose.Types.ObjectId,
+            relatedRoundId: bet.roundId,
+            purpose: 'refund',
+            metadata: {
+              reason: bet.refundReason,
+              roundNumber: bet.roundNumber,
+              originalBets: bet.bets,
+              attempts: bet.refundAttempts,
+              transactionCount: record.transactionCount,
+              wasSplit: record.transactionCount > 1,
+              sentAmounts: record.sentAmounts,
+              recovered: true,
+            },
+          });
+        }
+        confirmed++;
+      } else if (!record || record.status === 'failed') {
+        await Bet.updateOne(
+          { _id: bet._id },
+          { $set: { refundStatus: 'pending', refundNextAttemptAt: new Date() } }
+        );
+        requeued++;
+      } else {
+        await Bet.updateOne(
+          { _id: bet._id },
+          {
+            $set: {
+              refundStatus: 'failed',
+              refundNextAttemptAt: null,
+              refundLastError:
+                'Refund outcome unknown after a restart - check the wallet before retrying',
+            },
+          }
+        );
+        inDoubt++;
+      }
+    }
+
+    return { confirmed, requeued, inDoubt };
+  }
+
+  private static refundKey(bet: IBet): string {
+    return `refund:${bet._id}`;
+  }
+
+  // Mark unpaid bets whose invoice has expired as expired, releasing the stake limits and
+  // fixed-odds exposure they held. Partial payments held towards them are refunded.
+  // Returns the number of bets expired.
+  static async expireUnpaidBets(now: Date = new Date()): Promise<number> {
+    const lapsed: mongoose.QueryFilter<IBet> = {
+      paymentStatus: 'pending',
+      $or: [
+        { expiresAt: { $lte: now } },
+        {
+          expiresAt: null,
+          createdAt: { $lt: new Date(now.getTime() - config.paymentTimeoutSeconds * 1000) },
+        },
+      ],
+    };
+
+    // Bets holding partial payments are expired one by one so each refund is sent once
+    let expired = 0;
+    const partiallyPaid = await Bet.find({ ...lapsed, receivedAmount: { $gt: 0 } });
+    for (const bet of partiallyPaid) {
+      const claimed = await Bet.findOneAndUpdate(
+        { _id: bet._id, paymentStatus: 'pending' },
+        { $set: { paymentStatus: 'expired', expiredAt: now } },
+        { new: true }
+      );
+      if (claimed) {
+        expired++;
+        await this.refundPayment(
+          claimed as IBet,
+          'Invoice expired before it was paid in full',
+          claimed.receivedAmount
+        );
+      }
     }
+
+    const result = await Bet.updateMany(
+      { ...lapsed, receivedAmount: { $not: { $gt: 0 } } },
+      { $set: { paymentStatus: 'expired', expiredAt: now } }
+    );
+
+    return expired + result.modifiedCount;
   }
 
   // Close round - stop accepting bets
@@ -320,12 +1204,28 @@ export class GameService {
       throw new Error('Round not found or not open');
     }
 
+    // Freeze the paid bet set and players' client seeds - both digests are inputs to the draw
+    const paidBets = await Bet.find({ roundId: round._id, paymentStatus: 'paid' });
+    round.betsDigest = FairnessUtils.computeBetsDigest(paidBets);
+    round.clientSeedsDigest = FairnessUtils.computeClientSeedsDigest(paidBets);
+    round.betsMerkleRoot = MerkleUtils.computeRoot(paidBets);
+    await round.save();
+
     return round as IRound;
   }
 
-  // Draw winning number
+  // Draw winning number using the round's randomness source
   static async drawWinner(roundId: string): Promise<IRound> {
-    const winningDigit = this.generateWinningDigit();
+    const closedRound = await Round.findOne({ _id: roundId, status: 'closed' }).select(
+      '+serverSeed'
+    );
+
+    if (!closedRound) {
+      throw new Error('Round not found or not closed');
+    }
+
+    const source = RandomnessService.resolveForRound(closedRound);
+    const { digit: winningDigit, proof } = await source.draw(closedRound as IRound);
 
     // Use atomic update to prevent race conditions
     const round = await Round.findOneAndUpdate(
@@ -335,6 +1235,8 @@ export class GameService {
           status: 'drawing',
           winningDigit,
           drawTime: new Date(),
+          randomnessSource: source.name,
+          randomnessProof: proof,
         },
       },
       { new: true }
@@ -353,109 +1255,287 @@ export class GameService {
     return round as IRound;
   }
 
-  // Calculate winnings using pari-mutuel logic (pool-based)
+  // Calculate winnings under the round's settlement mode
+  // (pari-mutuel pool by default, fixed odds when the round ran with a multiplier)
   static async calculateWinnings(round: IRound): Promise<void> {
     const bets = await Bet.find({
       roundId: round._id,
       paymentStatus: 'paid',
     });
 
-    if (bets.length === 0) {
+    // A jackpot still rolls on when nobody bet on it
+    if (bets.length === 0 && round.jackpot === 0) {
       // eslint-disable-next-line no-console
       console.log(`[GameService] No paid bets in round #${round.roundNumber}`);
       return;
     }
 
-    // Calculate total bets on the winning digit
-    let totalWinningBets = 0;
-    for (const bet of bets) {
+    if (round.settlementMode === 'fixed-odds') {
+      await this.calculateFixedOddsWinnings(round, bets);
+      return;
+    }
+
+    // Round to 4 decimal places (0.0001)
+    const round4 = (n: number): number => Math.round(n * 10000) / 10000;
+    const winningNumber = round.winningDigit!;
+    const range = GameTypeUtils.getRange(round.gameType);
+    const symbol = CoinUtils.symbol(round.coinId);
+
+    // Single-number bets and group bets settle in separate pools. In the group pool a
+    // winning stake claims stake x (range / numbers covered), so narrower groups earn more.
+    // A jackpot carried in from an earlier round joins the single-number pool.
+    const pools: Record<'number' | 'group', { total: number; claims: number[] }> = {
+      number: { total: round.jackpot, claims: new Array<number>(bets.length).fill(0) },
+      group: { total: 0, claims: new Array<number>(bets.length).fill(0) },
+    };
+
+    bets.forEach((bet, i) => {
       for (const betItem of bet.bets) {
-        if (betItem.digit === round.winningDigit) {
-          totalWinningBets += betItem.amount;
+        const isGroup = BetTypeUtils.isGroup(betItem);
+        const pool = isGroup ? pools.group : pools.number;
+        pool.total += betItem.amount;
+        if (BetTypeUtils.covers(betItem, winningNumber)) {
+          pool.claims[i] += isGroup
+            ? (betItem.amount * range) / BetTypeUtils.coverage(betItem)
+            : betItem.amount;
         }
       }
-    }
+    });
 
     // eslint-disable-next-line no-console
     console.log(
-      `[GameService] Pool: ${round.totalPool} UCT, Winning digit: ${round.winningDigit}, Bets on winner: ${totalWinningBets} UCT`
+      `[GameService] Pool: ${round.totalPool} ${symbol}, Winning number: ${GameTypeUtils.format(winningNumber, round.gameType)} (${round.gameType})`
     );
 
-    if (totalWinningBets === 0) {
-      // No winners - entire pool goes to house fee
-      const houseFee = round.totalPool;
-      await this.addCommission(houseFee);
+    const houseFeePercent = round.houseFeePercent ?? config.houseFeePercent;
+    const payouts = new Array<number>(bets.length).fill(0);
+    let totalCommission = 0;
+    let unclaimed = 0;
+    // Part of the unclaimed amount that is the jackpot carried in (its fee was already taken)
+    let unclaimedJackpot = 0;
+
+    for (const [name, pool] of Object.entries(pools)) {
+      const poolTotal = round4(pool.total);
+      if (poolTotal === 0) {
+        continue;
+      }
+
+      const totalClaims = pool.claims.reduce((sum, claim) => sum + claim, 0);
+      if (totalClaims === 0) {
+        // No winners - entire pool goes to the house or rolls over (below)
+        unclaimed = round4(unclaimed + poolTotal);
+        if (name === 'number') {
+          unclaimedJackpot = round.jackpot;
+        }
 
-      round.houseFee = houseFee;
-      await round.save();
+        // eslint-disable-next-line no-console
+        console.log(`[GameService] No ${name} winners - ${poolTotal} ${symbol} unclaimed`);
+        continue;
+      }
+
+      // House fee from the pool's new stakes - a jackpot carried in was charged when it rolled
+      // over and is paid out untaxed. Winners share the rest proportionally to their claims.
+      const carried = name === 'number' ? round.jackpot : 0;
+      const houseFee = round4(((poolTotal - carried) * houseFeePercent) / 100);
+      const poolAfterFee = round4(poolTotal - houseFee);
+
+      let poolPayout = 0;
+      pool.claims.forEach((claim, i) => {
+        if (claim > 0) {
+          const share = round4((claim / totalClaims) * poolAfterFee);
+          payouts[i] = round4(payouts[i] + share);
+          poolPayout = round4(poolPayout + share);
+        }
+      });
+
+      // Any remainder from rounding goes to commission
+      const remainder = round4(poolAfterFee - poolPayout);
+      totalCommission = round4(totalCommission + houseFee + remainder);
 
       // eslint-disable-next-line no-console
-      console.log(`[GameService] No winners - ${houseFee} UCT added to commission`);
-      return;
+      console.log(
+        `[GameService] ${name} pool: ${poolTotal} ${symbol}, House fee: ${houseFee} ${symbol} (${houseFeePercent}%), Payout: ${poolPayout} ${symbol}, Remainder: ${remainder} ${symbol}`
+      );
     }
 
-    // Round to 4 decimal places (0.0001)
-    const round4 = (n: number) => Math.round(n * 10000) / 10000;
+    let totalPayout = 0;
+
+    for (const [i, bet] of bets.entries()) {
+      if (payouts[i] > 0) {
+        bet.winnings = payouts[i];
+        bet.payoutStatus = 'pending';
+        await bet.save();
+
+        totalPayout = round4(totalPayout + payouts[i]);
+
+        // eslint-disable-next-line no-console
+        console.log(
+          `[GameService] @${bet.userNametag} wins ${payouts[i]} ${symbol} on ${GameTypeUtils.format(winningNumber, round.gameType)}`
+        );
+      }
+    }
 
-    // Calculate house fee from ENTIRE pool
-    const houseFeePercent = config.houseFeePercent;
-    const houseFee = round4((round.totalPool * houseFeePercent) / 100);
-    const poolAfterFee = round4(round.totalPool - houseFee);
+    const rollover = this.splitUnclaimedPool(unclaimed, unclaimedJackpot);
+    totalCommission = round4(totalCommission + rollover.commission);
 
     // eslint-disable-next-line no-console
     console.log(
-      `[GameService] Pool: ${round.totalPool} UCT, House fee: ${houseFee} UCT (${houseFeePercent}%), Pool after fee: ${poolAfterFee} UCT`
+      `[GameService] Total payout: ${totalPayout} ${symbol}, Commission: ${totalCommission} ${symbol}, Rolled over: ${rollover.carried} ${symbol}`
     );
 
-    // Distribute winnings: proportional share of pool after fee
+    // Add commission (fees, remainders and swept pools without winners)
+    await this.addCommission(totalCommission, this.coinIdOf(round));
+
+    round.houseFee = totalCommission;
+    round.totalPayout = totalPayout;
+    round.jackpotRolledOver = rollover.carried;
+    await round.save();
+
+    // The next round may already be open (a bet placed during the draw opens it)
+    if (rollover.carried > 0) {
+      const nextRound = await Round.findOne({
+        ...this.channelFilter(round.channel),
+        ...CoinUtils.filter(this.coinIdOf(round)),
+        status: 'open',
+        roundNumber: { $gt: round.roundNumber },
+      });
+      if (nextRound) {
+        await this.claimJackpot(nextRound as IRound);
+      }
+    }
+  }
+
+  // Split a pool nobody won into commission and a jackpot carried forward.
+  // Without rollover the house takes it all; with rollover the configured fee
+  // and anything above the cap still go to commission. The fee is taken from new
+  // stakes only - a jackpot rolling on again is not charged a second time.
+  private static splitUnclaimedPool(
+    amount: number,
+    jackpot = 0
+  ): { commission: number; carried: number } {
+    // Round to 4 decimal places (0.0001)
+    const round4 = (n: number): number => Math.round(n * 10000) / 10000;
+
+    if (!config.jackpotRollover || amount <= 0) {
+      return { commission: amount, carried: 0 };
+    }
+
+    const fee = round4(((amount - jackpot) * config.jackpotFeePercent) / 100);
+    let carried = round4(amount - fee);
+    if (config.jackpotCap > 0) {
+      carried = Math.min(carried, config.jackpotCap);
+    }
+
+    return { commission: round4(amount - carried), carried };
+  }
+
+  // Credit unclaimed rollovers of earlier rounds in the same coin to an open pari-mutuel round.
+  // Each source round is claimed atomically so its jackpot is paid in only once.
+  private static async claimJackpot(target: IRound): Promise<void> {
+    if (target.settlementMode === 'fixed-odds') {
+      return;
+    }
+
+    for (;;) {
+      const source = await Round.findOneAndUpdate(
+        {
+          ...this.channelFilter(target.channel),
+          ...CoinUtils.filter(this.coinIdOf(target)),
+          roundNumber: { $lt: target.roundNumber },
+          jackpotRolledOver: { $gt: 0 },
+          jackpotClaimedBy: null,
+        },
+        { $set: { jackpotClaimedBy: target.roundNumber } },
+        { sort: { roundNumber: 1 }, new: true }
+      );
+
+      if (!source) {
+        return;
+      }
+
+      const credited = await Round.updateOne(
+        { _id: target._id, status: 'open' },
+        {
+          $inc: { totalPool: source.jackpotRolledOver, jackpot: source.jackpotRolledOver },
+          $set: { jackpotSourceRound: source.roundNumber },
+        }
+      );
+
+      if (credited.modifiedCount === 0) {
+        // Target closed in the meantime - leave the jackpot for the next round
+        await Round.updateOne({ _id: source._id }, { $set: { jackpotClaimedBy: null } });
+        return;
+      }
+
+      // eslint-disable-next-line no-console
+      console.log(
+        `[GameService] Jackpot of ${source.jackpotRolledOver} ${CoinUtils.symbol(source.coinId)} from round #${source.roundNumber} rolled into round #${target.roundNumber}`
+      );
+    }
+  }
+
+  // Fixed odds: a winning stake pays stake x multiplier. The house keeps the pool minus
+  // payouts, or covers the shortfall from its bankroll (negative commission).
+  private static async calculateFixedOddsWinnings(round: IRound, bets: IBet[]): Promise<void> {
+    // Round to 4 decimal places (0.0001)
+    const round4 = (n: number): number => Math.round(n * 10000) / 10000;
+    const multiplier = round.payoutMultiplier ?? GAME_TYPES[round.gameType].fixedOddsMultiplier;
+    const symbol = CoinUtils.symbol(round.coinId);
+
     let totalPayout = 0;
 
     for (const bet of bets) {
+      // Group bets pay the multiplier spread over the numbers they cover (odd pays 9x / 5 in pick-1)
       let userWinningBet = 0;
+      let winnings = 0;
 
       for (const betItem of bet.bets) {
-        if (betItem.digit === round.winningDigit) {
+        if (BetTypeUtils.covers(betItem, round.winningDigit!)) {
           userWinningBet += betItem.amount;
+          winnings += (betItem.amount * multiplier) / BetTypeUtils.coverage(betItem);
         }
       }
 
       if (userWinningBet > 0) {
-        // User gets: proportional share of pool after fee (rounded to 0.0001)
-        const winnings = round4((userWinningBet / totalWinningBets) * poolAfterFee);
+        winnings = round4(winnings);
 
         bet.winnings = winnings;
         bet.payoutStatus = 'pending';
         await bet.save();
 
-        totalPayout += winnings;
+        totalPayout = round4(totalPayout + winnings);
 
         // eslint-disable-next-line no-console
         console.log(
-          `[GameService] @${bet.userNametag} bet ${userWinningBet} on ${round.winningDigit}, wins ${winnings} UCT`
+          `[GameService] @${bet.userNametag} bet ${userWinningBet} covering ${GameTypeUtils.format(round.winningDigit!, round.gameType)} at ${multiplier}x, wins ${winnings} ${symbol}`
         );
       }
     }
 
-    // Any remainder from rounding goes to commission
-    const remainder = round4(poolAfterFee - totalPayout);
-    const totalCommission = round4(houseFee + remainder);
+    const houseResult = round4(round.totalPool - totalPayout);
 
     // eslint-disable-next-line no-console
     console.log(
-      `[GameService] Total payout: ${totalPayout} UCT, Remainder: ${remainder} UCT, Commission: ${totalCommission} UCT`
+      `[GameService] Fixed odds ${multiplier}x - Pool: ${round.totalPool} ${symbol}, Total payout: ${totalPayout} ${symbol}, House result: ${houseResult} ${symbol}`
     );
 
-    // Add commission (fee + remainder)
-    await this.addCommission(totalCommission);
+    await this.addCommission(houseResult, this.coinIdOf(round));
 
-    round.houseFee = totalCommission;
+    round.houseFee = houseResult;
     round.totalPayout = totalPayout;
     await round.save();
   }
 
-  // Add commission to accumulated total
-  private static async addCommission(amount: number): Promise<void> {
-    await Commission.findOneAndUpdate({}, { $inc: { totalAccumulated: amount } }, { upsert: true });
+  // Add commission to a coin's accumulated total
+  static async addCommission(
+    amount: number,
+    coinId: string = CoinUtils.getDefault().coinId
+  ): Promise<void> {
+    await Commission.findOneAndUpdate(
+      CoinUtils.filter(coinId),
+      { $inc: { totalAccumulated: amount } },
+      { upsert: true }
+    );
   }
 
   // Process payouts (called by cron job)
@@ -465,91 +1545,157 @@ export class GameService {
       throw new Error('Round not found');
     }
 
-    const bets = await Bet.find({
-      roundId,
-      winnings: { $gt: 0 },
-      payoutStatus: 'pending',
-    });
-
-    let processed = 0;
-    let failed = 0;
+    // Payouts go through the durable queue; failures are retried by the payout worker
+    await PayoutQueueService.enqueueRound(round as IRound);
+    return PayoutQueueService.processDue(round._id as mongoose.Types.ObjectId);
+  }
 
-    for (const bet of bets) {
-      try {
-        bet.payoutStatus = 'sent';
-        await bet.save();
+  // Get previous completed round (with winning digit and revealed seed)
+  static async getPreviousRound(
+    channel: string = ChannelUtils.getDefault().name
+  ): Promise<IRound | null> {
+    return Round.findOne({ ...this.channelFilter(channel), status: 'completed' })
+      .sort({ roundNumber: -1 })
+      .select('+serverSeed');
+  }
 
-        const transfer = await sphereService.sendTokens(bet.userNametag, bet.winnings);
+  // Get round history (completed rounds include the revealed seed)
+  static async getRoundHistory(
+    limit = 10,
+    channel: string = ChannelUtils.getDefault().name
+  ): Promise<IRound[]> {
+    return Round.find({ ...this.channelFilter(channel), status: 'completed' })
+      .sort({ roundNumber: -1 })
+      .limit(limit)
+      .select('+serverSeed');
+  }
 
-        bet.payoutTxId = transfer.transferId;
-        bet.payoutStatus = 'confirmed';
-        await bet.save();
+  // Get winning number statistics over a channel's completed rounds of one game type
+  // (by default the one the channel plays - its latest round's; latest `limit` rounds if given)
+  static async getDrawStats(
+    gameType?: GameType,
+    limit?: number,
+    channel: string = ChannelUtils.getDefault().name
+  ): Promise<DrawStats> {
+    if (!gameType) {
+      const latest = await Round.findOne(this.channelFilter(channel))
+        .sort({ roundNumber: -1 })
+        .select('gameType');
+      gameType = latest?.gameType ?? GameTypeUtils.parse(config.gameType);
+    }
 
-        // Find the winning bet details
-        const winningBetItem = bet.bets.find((b) => b.digit === round.winningDigit);
+    // Rounds from before game types existed have no gameType and count as pick-1
+    const otherTypes = (Object.keys(GAME_TYPES) as GameType[]).filter((t) => t !== gameType);
+    const query = Round.find({
+      ...this.channelFilter(channel),
+      status: 'completed',
+      winningDigit: { $ne: null },
+      gameType: gameType === 'pick-1' ? { $nin: otherTypes } : gameType,
+    })
+      .sort({ roundNumber: -1 })
+      .select('roundNumber winningDigit');
+    if (limit !== undefined) {
+      query.limit(limit);
+    }
 
-        // Log outgoing payout
-        await this.logPayment({
-          type: 'outgoing',
-          amount: bet.winnings,
-          fromNametag: config.agentNametag,
-          toNametag: bet.userNametag,
-          txId: transfer.transferId,
-          relatedBetId: bet._id as mongoose.Types.ObjectId,
-          relatedRoundId: bet.roundId,
-          purpose: 'payout',
-          metadata: {
-            roundNumber: bet.roundNumber,
-            winningDigit: round.winningDigit,
-            betOnWinningDigit: winningBetItem?.amount || 0,
-            totalBetAmount: bet.totalAmount,
-            userBets: bet.bets,
-            transactionCount: transfer.transactionCount,
-            wasSplit: transfer.transactionCount > 1,
-            sentAmounts: transfer.sentAmounts,
-          },
-        });
+    const rounds = await query;
+    return StatsUtils.computeDrawStats(
+      rounds.map((r) => ({ roundNumber: r.roundNumber, winningDigit: r.winningDigit! })),
+      GameTypeUtils.getRange(gameType)
+    );
+  }
 
-        processed++;
-      } catch (error) {
-        // eslint-disable-next-line no-console
-        console.error(`[GameService] Payout failed for @${bet.userNametag}:`, error);
-        bet.payoutStatus = 'failed';
-        await bet.save();
-        failed++;
-      }
+  // Get everything needed to independently recompute a drawn round's winning digit
+  static async getRoundVerification(roundId: string): Promise<RoundVerification | null> {
+    const round = await Round.findById(roundId).select('+serverSeed');
+    if (!round) {
+      return null;
     }
 
-    // Update round if all payouts done
-    const pendingPayouts = await Bet.countDocuments({
-      roundId,
-      winnings: { $gt: 0 },
-      payoutStatus: { $in: ['pending', 'sent'] },
-    });
-
-    if (pendingPayouts === 0) {
-      const totalPayout = await Bet.aggregate([
-        { $match: { roundId: new (await import('mongoose')).Types.ObjectId(roundId) } },
-        { $group: { _id: null, total: { $sum: '$winnings' } } },
-      ]);
+    if (round.winningDigit === null || !['drawing', 'paying', 'completed'].includes(round.status)) {
+      throw new Error('Round has not been drawn yet');
+    }
 
-      await Round.findByIdAndUpdate(roundId, {
-        status: 'completed',
-        totalPayout: totalPayout[0]?.total || 0,
+    const paidBets = await Bet.find({ roundId: round._id, paymentStatus: 'paid' });
+    const bets = paidBets.map((b) => ({
+      invoiceId: b.invoiceId,
+      userNametag: b.userNametag,
+      bets: b.bets.map((item) => BetTypeUtils.toPlain(item)),
+      clientSeed: b.clientSeed ?? null,
+    }));
+
+    let verified = false;
+    if (round.serverSeed && round.serverSeedHash && round.fairnessVersion !== null) {
+      const recomputed = FairnessUtils.deriveWinningDigit({
+        serverSeed: round.serverSeed,
+        roundNumber: round.roundNumber,
+        betsDigest: round.betsDigest,
+        clientSeedsDigest: round.clientSeedsDigest,
+        version: round.fairnessVersion,
+        range: GameTypeUtils.getRange(round.gameType),
       });
+      verified =
+        FairnessUtils.verifySeed(round.serverSeed, round.serverSeedHash) &&
+        (round.fairnessVersion < 2 || FairnessUtils.computeBetsDigest(bets) === round.betsDigest) &&
+        (round.fairnessVersion < 3 ||
+          FairnessUtils.computeClientSeedsDigest(bets) === round.clientSeedsDigest) &&
+        recomputed === round.winningDigit;
     }
 
-    return { processed, failed };
+    return {
+      roundId: round._id.toString(),
+      roundNumber: round.roundNumber,
+      status: round.status,
+      gameType: round.gameType,
+      winningDigit: round.winningDigit,
+      serverSeedHash: round.serverSeedHash,
+      serverSeed: round.serverSeed,
+      betsDigest: round.betsDigest,
+      clientSeedsDigest: round.clientSeedsDigest,
+      fairnessVersion: round.fairnessVersion,
+      randomnessSource: round.randomnessSource,
+      randomnessProof: round.randomnessProof,
+      bets,
+      verified,
+    };
   }
 
-  // Get previous completed round (with winning digit)
-  static async getPreviousRound(): Promise<IRound | null> {
-    return Round.findOne({ status: 'completed' }).sort({ roundNumber: -1 });
-  }
+  // Get a Merkle inclusion proof for one paid bet of a closed round
+  static async getBetInclusionProof(
+    roundId: string,
+    invoiceId: string
+  ): Promise<BetInclusionProof | null> {
+    const round = await Round.findById(roundId);
+    if (!round) {
+      return null;
+    }
+
+    if (!round.betsMerkleRoot) {
+      throw new Error('Round has no bet commitment yet');
+    }
+
+    const paidBets = await Bet.find({ roundId: round._id, paymentStatus: 'paid' });
+    const entries: MerkleBetEntry[] = paidBets.map((b) => ({
+      invoiceId: b.invoiceId,
+      userNametag: b.userNametag,
+      bets: b.bets.map((item) => BetTypeUtils.toPlain(item)),
+    }));
+
+    const proof = MerkleUtils.getProof(entries, invoiceId);
+    if (!proof) {
+      return null;
+    }
 
-  // Get round history
-  static async getRoundHistory(limit = 10): Promise<IRound[]> {
-    return Round.find({ status: 'completed' }).sort({ roundNumber: -1 }).limit(limit);
+    const entry = entries.find((e) => e.invoiceId === invoiceId)!;
+    return {
+      ...proof,
+      roundId: round._id.toString(),
+      roundNumber: round.roundNumber,
+      userNametag: entry.userNametag,
+      bets: entry.bets,
+      betsMerkleRoot: round.betsMerkleRoot,
+      verified: MerkleUtils.verifyProof(proof.leaf, proof.siblings, round.betsMerkleRoot),
+    };
   }
 
   // Get user bets
@@ -563,8 +1709,11 @@ export class GameService {
   }
 
   // Get user bets in current round
-  static async getUserBetsInCurrentRound(userNametag: string): Promise<IBet[]> {
-    const round = await this.getCurrentRound();
+  static async getUserBetsInCurrentRound(
+    userNametag: string,
+    channel: string = ChannelUtils.getDefault().name
+  ): Promise<IBet[]> {
+    const round = await this.getCurrentRound(channel);
     return Bet.find({
       roundId: round._id,
       userNametag,
@@ -572,27 +1721,34 @@ export class GameService {
     }).sort({ createdAt: -1 });
   }
 
-  // Get commission balance
-  static async getCommissionBalance(): Promise<{
+  // Get a coin's commission balance (by symbol, default coin if omitted)
+  static async getCommissionBalance(coin?: string | null): Promise<{
+    coin: string;
     totalAccumulated: number;
     totalWithdrawn: number;
     available: number;
   }> {
-    const commission = await Commission.findOne();
+    const { symbol, coinId } = CoinUtils.get(coin);
+    const commission = await Commission.findOne(CoinUtils.filter(coinId));
     if (!commission) {
-      return { totalAccumulated: 0, totalWithdrawn: 0, available: 0 };
+      return { coin: symbol, totalAccumulated: 0, totalWithdrawn: 0, available: 0 };
     }
 
     return {
+      coin: symbol,
       totalAccumulated: commission.totalAccumulated,
       totalWithdrawn: commission.totalWithdrawn,
       available: commission.totalAccumulated - commission.totalWithdrawn,
     };
   }
 
-  // Withdraw commission to developer nametag
+  // Withdraw a coin's commission to developer nametag. Each withdrawal is sent under its own
+  // idempotency key, recorded on the commission before sending: a withdrawal that went out but
+  // was never booked (the process stopped in between) is booked before a new one starts, and
+  // one that failed is dropped, so the next attempt may ask for any amount.
   static async withdrawCommission(
-    amount?: number
+    amount?: number,
+    coin?: string | null
   ): Promise<{ success: boolean; amount: number; txId?: string; error?: string }> {
     const developerNametag = config.developerNametag;
 
@@ -600,7 +1756,16 @@ export class GameService {
       return { success: false, amount: 0, error: 'Developer nametag not configured' };
     }
 
-    const balance = await this.getCommissionBalance();
+    const { symbol, coinId } = CoinUtils.get(coin);
+    if (!(await this.settleCommissionWithdrawal(coinId))) {
+      return {
+        success: false,
+        amount: 0,
+        error: 'The previous withdrawal is in progress or its outcome is unknown',
+      };
+    }
+
+    const balance = await this.getCommissionBalance(symbol);
 
     if (balance.available <= 0) {
       return { success: false, amount: 0, error: 'No commission available for withdrawal' };
@@ -613,37 +1778,29 @@ export class GameService {
       return { success: false, amount: 0, error: 'Invalid withdrawal amount' };
     }
 
+    // Claim the commission so concurrent withdrawals never overlap
+    const key = `commission-withdrawal:${symbol}:${new mongoose.Types.ObjectId().toString()}`;
+    const claimed = await Commission.findOneAndUpdate(
+      { ...CoinUtils.filter(coinId), pendingWithdrawal: null },
+      { $set: { pendingWithdrawal: key } },
+      { new: true }
+    );
+    if (!claimed) {
+      return { success: false, amount: 0, error: 'Another withdrawal is in progress' };
+    }
+
     try {
       // eslint-disable-next-line no-console
-      console.log(`[GameService] Withdrawing ${withdrawAmount} UCT to @${developerNametag}`);
-
-      const transfer = await sphereService.sendTokens(developerNametag, withdrawAmount);
-
-      // Update commission record
-      await Commission.findOneAndUpdate(
-        {},
-        {
-          $inc: { totalWithdrawn: withdrawAmount },
-          lastWithdrawalAt: new Date(),
-        }
+      console.log(`[GameService] Withdrawing ${withdrawAmount} ${symbol} to @${developerNametag}`);
+
+      const transfer = await TransferService.send(
+        key,
+        'commission_withdrawal',
+        developerNametag,
+        withdrawAmount,
+        coinId
       );
-
-      // Log outgoing commission withdrawal
-      await this.logPayment({
-        type: 'outgoing',
-        amount: withdrawAmount,
-        fromNametag: config.agentNametag,
-        toNametag: developerNametag,
-        txId: transfer.transferId,
-        purpose: 'commission_withdrawal',
-        metadata: {
-          previousBalance: balance.available,
-          remainingBalance: balance.available - withdrawAmount,
-          transactionCount: transfer.transactionCount,
-          wasSplit: transfer.transactionCount > 1,
-          sentAmounts: transfer.sentAmounts,
-        },
-      });
+      await this.bookCommissionWithdrawal(coinId, key, transfer);
 
       // eslint-disable-next-line no-console
       console.log(`[GameService] Commission withdrawal successful: ${transfer.transferId}`);
@@ -653,7 +1810,71 @@ export class GameService {
       const message = error instanceof Error ? error.message : 'Unknown error';
       // eslint-disable-next-line no-console
       console.error(`[GameService] Commission withdrawal failed:`, error);
+      await this.settleCommissionWithdrawal(coinId);
       return { success: false, amount: 0, error: message };
     }
   }
+
+  // Resolve the withdrawal recorded on a coin's commission: book it if its transfer went out,
+  // drop it if it failed or never started. Returns false while its outcome is unknown.
+  private static async settleCommissionWithdrawal(coinId: string): Promise<boolean> {
+    const commission = await Commission.findOne(CoinUtils.filter(coinId));
+    const key = commission?.pendingWithdrawal;
+    if (!key) {
+      return true;
+    }
+
+    const record = await TransferService.findSettled(key);
+    if (record && (record.status === 'sent' || record.status === 'confirmed')) {
+      await this.bookCommissionWithdrawal(coinId, key, TransferService.toTokenTransfer(record));
+      return true;
+    }
+    if (!record || record.status === 'failed') {
+      await Commission.updateOne(
+        { _id: commission._id, pendingWithdrawal: key },
+        { $set: { pendingWithdrawal: null } }
+      );
+      return true;
+    }
+    return false;
+  }
+
+  // Count a sent withdrawal against the commission (once) and log it
+  private static async bookCommissionWithdrawal(
+    coinId: string,
+    key: string,
+    transfer: TokenTransfer
+  ): Promise<void> {
+    const commission = await Commission.findOneAndUpdate(
+      { ...CoinUtils.filter(coinId), pendingWithdrawal: key },
+      {
+        $inc: { totalWithdrawn: transfer.amount },
+        $set: { pendingWithdrawal: null, lastWithdrawalAt: new Date() },
+      }
+    );
+    if (!commission) {
+      return;
+    }
+
+    // Log outgoing commission withdrawal
+    const previousBalance = CurrencyUtils.round(
+      commission.totalAccumulated - commission.totalWithdrawn
+    );
+    await this.logPayment({
+      type: 'outgoing',
+      amount: transfer.amount,
+      coinId,
+      fromNametag: config.agentNametag,
+      toNametag: transfer.toNametag,
+      txId: transfer.transferId,
+      purpose: 'commission_withdrawal',
+      metadata: {
+        previousBalance,
+        remainingBalance: CurrencyUtils.round(previousBalance - transfer.amount),
+        transactionCount: transfer.transactionCount,
+        wasSplit: transfer.transactionCount > 1,
+        sentAmounts: transfer.sentAmounts,
+      },
+    });
+  }
 }
@@ -1,9 +1,20 @@
 import { config } from '../env.js';
-import { SphereService, SphereConfig } from './sphere.service.js';
+import { SphereService, SphereConfig, WalletService } from './sphere.service.js';
+import { PlayWalletService } from './play-wallet.service.js';
 import { RoundScheduler } from './round-scheduler.service.js';
+import { InvoiceSweeper } from './invoice-sweeper.service.js';
+import { PayoutWorker } from './payout-worker.service.js';
+import { ReconciliationWorker } from './reconciliation-worker.service.js';
+import { ChannelUtils } from '../utils/channel.js';
+import { CoinUtils } from '../utils/coin.js';
 
-// eslint-disable-next-line no-console
-console.log(`[Config] ROUND_DURATION: ${config.roundDurationSeconds}s`);
+const channels = ChannelUtils.all();
+for (const channel of channels) {
+  // eslint-disable-next-line no-console
+  console.log(
+    `[Config] Channel "${channel.name}": ${channel.roundDurationSeconds}s rounds, ${channel.houseFeePercent}% fee, min bet ${channel.minBet} ${channel.coin}`
+  );
+}
 
 const sphereConfig: SphereConfig = {
   network: 'testnet',
@@ -13,14 +24,31 @@ const sphereConfig: SphereConfig = {
   mnemonic: config.agentMnemonic || undefined,
   aggregatorApiKey: config.aggregatorApiKey,
   trustBasePath: config.trustBasePath,
-  coinId: config.coinId,
+  coinId: CoinUtils.getDefault().coinId,
   paymentTimeoutSeconds: config.paymentTimeoutSeconds,
+  latePaymentGraceSeconds: config.latePaymentGraceSeconds,
   debug: config.nodeEnv === 'development',
 };
 
+// Free-play mode swaps the Sphere wallet for play-money balances
+export const playWallet = config.mockMode
+  ? new PlayWalletService({
+      nametag: config.agentNametag,
+      startingBalance: config.playStartingBalance,
+      houseBankroll: config.playHouseBankroll,
+      paymentTimeoutSeconds: config.paymentTimeoutSeconds,
+    })
+  : null;
+
 // Create service instances
-export const sphereService = new SphereService(sphereConfig);
-export const roundScheduler = new RoundScheduler(config.roundDurationSeconds);
+export const sphereService: WalletService = playWallet ?? new SphereService(sphereConfig);
+// One scheduler (and timer) per channel
+export const roundSchedulers = new Map(
+  channels.map((c) => [c.name, new RoundScheduler(c.roundDurationSeconds, c.name)])
+);
+export const invoiceSweeper = new InvoiceSweeper(config.invoiceSweepIntervalSeconds);
+export const payoutWorker = new PayoutWorker(config.payoutQueueIntervalSeconds);
+export const reconciliationWorker = new ReconciliationWorker(config.reconciliationIntervalSeconds);
 
 // Initialize services
 export async function initializeServices(): Promise<void> {
@@ -31,13 +59,28 @@ export async function initializeServices(): Promise<void> {
     const { invoiceId, txId, tokenCount, totalAmount, receivedAmounts } = paymentInfo;
     // eslint-disable-next-line no-console
     console.log(
-      `[Services] Payment received: ${totalAmount} UCT (${tokenCount} token${tokenCount > 1 ? 's' : ''}: ${receivedAmounts.join(' + ')}), invoice: ${invoiceId}`
+      `[Services] Payment received: ${totalAmount} (${tokenCount} token${tokenCount > 1 ? 's' : ''}: ${receivedAmounts.join(' + ')}), invoice: ${invoiceId}`
     );
 
     // Dynamically import to avoid circular dependency
     const { GameService } = await import('./game.service.js');
+    const { SubscriptionService } = await import('./subscription.service.js');
 
     try {
+      // Prepaid auto-bet subscriptions have their own invoices
+      const subscriptionResult = await SubscriptionService.confirmPayment(
+        invoiceId,
+        txId,
+        receivedAmounts
+      );
+      if (subscriptionResult) {
+        // eslint-disable-next-line no-console
+        console.log(
+          `[Services] Subscription payment ${subscriptionResult.accepted ? 'accepted' : 'rejected'} for invoice: ${invoiceId}`
+        );
+        return;
+      }
+
       const result = await GameService.confirmPayment(invoiceId, txId, tokenCount, receivedAmounts);
 
       if (result.accepted) {
@@ -55,8 +98,73 @@ export async function initializeServices(): Promise<void> {
     }
   });
 
-  // Start round scheduler
-  await roundScheduler.start();
+  // Transfers smaller than the invoice are held as a top-up or refunded (UNDERPAYMENT_POLICY)
+  sphereService.setPartialPaymentCallback(async (paymentInfo) => {
+    const { invoiceId, txId, tokenCount, amount, receivedAmounts } = paymentInfo;
+    const { GameService } = await import('./game.service.js');
+
+    try {
+      return await GameService.recordPartialPayment(
+        invoiceId,
+        txId,
+        amount,
+        tokenCount,
+        receivedAmounts
+      );
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`[Services] Failed to process partial payment:`, error);
+      return false;
+    }
+  });
+
+  // Transfers from nobody we are waiting on are kept for review or refunded (UNMATCHED_TRANSFER_POLICY)
+  sphereService.setUnmatchedTransferCallback(async (transferInfo) => {
+    const { UnmatchedTransferService } = await import('./unmatched-transfer.service.js');
+
+    try {
+      await UnmatchedTransferService.record(transferInfo);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`[Services] Failed to record unmatched transfer:`, error);
+    }
+  });
+
+  // Settle payouts and refunds interrupted by a restart before anything new is sent
+  const { PayoutQueueService } = await import('./payout-queue.service.js');
+  const { GameService } = await import('./game.service.js');
+  const { SubscriptionService } = await import('./subscription.service.js');
+  const payouts = await PayoutQueueService.recoverInterrupted();
+  const refunds = await GameService.recoverInterruptedRefunds();
+  const subscriptionRefunds = await SubscriptionService.recoverInterruptedRefunds();
+  const refundsInDoubt = refunds.inDoubt + subscriptionRefunds.inDoubt;
+  if (payouts.inDoubt > 0 || refundsInDoubt > 0) {
+    // eslint-disable-next-line no-console
+    console.warn(
+      `[Services] ${payouts.inDoubt} payout(s) and ${refundsInDoubt} refund(s) were interrupted mid-transfer - check the wallet before requeueing them`
+    );
+  }
+
+  // Start round schedulers
+  for (const scheduler of roundSchedulers.values()) {
+    await scheduler.start();
+  }
+
+  // Expire unpaid bets whose invoice has lapsed
+  await invoiceSweeper.start();
+
+  // Retry failed payouts with backoff
+  await payoutWorker.start();
+
+  // Check the wallet balance against what it owes (first run catches drift left by a crash)
+  await reconciliationWorker.start();
 }
 
-export { SphereService, RoundScheduler };
+export {
+  SphereService,
+  PlayWalletService,
+  RoundScheduler,
+  InvoiceSweeper,
+  PayoutWorker,
+  ReconciliationWorker,
+};
@@ -0,0 +1,51 @@
+import { GameService } from './game.service.js';
+
+// Periodically finalizes unpaid bets whose invoice has expired (see GameService.expireUnpaidBets)
+export class InvoiceSweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMs: number;
+  private running = false;
+
+  constructor(intervalSeconds: number) {
+    this.intervalMs = intervalSeconds * 1000;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    // eslint-disable-next-line no-console
+    console.log(`[InvoiceSweeper] Sweeping expired invoices every ${this.intervalMs / 1000}s`);
+
+    await this.sweep();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.running = false;
+    // eslint-disable-next-line no-console
+    console.log('[InvoiceSweeper] Stopped');
+  }
+
+  private async sweep(): Promise<void> {
+    if (!this.running) return;
+
+    try {
+      const expired = await GameService.expireUnpaidBets();
+      if (expired > 0) {
+        // eslint-disable-next-line no-console
+        console.log(`[InvoiceSweeper] Expired ${expired} unpaid bet${expired > 1 ? 's' : ''}`);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('[InvoiceSweeper] Error expiring unpaid bets:', error);
+    }
+
+    if (this.running) {
+      this.timer = setTimeout(() => void this.sweep(), this.intervalMs);
+    }
+  }
+}
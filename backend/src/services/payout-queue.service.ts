@@ -0,0 +1,361 @@
+import mongoose from 'mongoose';
+import {
+  Bet,
+  PaymentLog,
+  PayoutJob,
+  Round,
+  IBet,
+  IPayoutJob,
+  IRound,
+} from '../models/game.model.js';
+import { GameService } from './game.service.js';
+import { TransferService } from './transfer.service.js';
+import type { TokenTransfer } from './sphere.service.js';
+import { config } from '../env.js';
+import { BetTypeUtils } from '../utils/bet-type.js';
+
+// Durable payout queue: every winning bet gets a PayoutJob. Failed transfers are retried with
+// exponential backoff and dead-lettered after config.payoutMaxAttempts; a round is completed
+// once all of its jobs are done (it stays paying while an operator has dead ones to requeue).
+export class PayoutQueueService {
+  // Create a job for each winning bet of a round that is still waiting to be paid
+  static async enqueueRound(round: IRound): Promise<number> {
+    const bets = await Bet.find({
+      roundId: round._id,
+      winnings: { $gt: 0 },
+      payoutStatus: 'pending',
+    });
+
+    let queued = 0;
+    for (const bet of bets) {
+      const result = await PayoutJob.updateOne(
+        { betId: bet._id },
+        {
+          $setOnInsert: {
+            roundId: round._id,
+            userNametag: bet.userNametag,
+            amount: bet.winnings,
+            coinId: GameService.coinIdOf(bet as IBet),
+            status: 'queued',
+            attempts: 0,
+            nextAttemptAt: new Date(),
+          },
+        },
+        { upsert: true }
+      );
+      queued += result.upsertedCount;
+    }
+
+    return queued;
+  }
+
+  // Enqueue the winning bets of every round still paying out - a round can be left in
+  // 'paying' without jobs when the process stopped between the draw and enqueueRound.
+  // Rounds with nothing left to pay are completed.
+  static async enqueuePaying(): Promise<number> {
+    const rounds = await Round.find({ status: 'paying' });
+
+    let queued = 0;
+    for (const round of rounds) {
+      queued += await this.enqueueRound(round as IRound);
+      await this.completeRoundIfSettled(round._id.toString());
+    }
+
+    return queued;
+  }
+
+  // Attempt every job that is due (optionally only one round's)
+  static async processDue(
+    roundId?: mongoose.Types.ObjectId
+  ): Promise<{ processed: number; failed: number }> {
+    const now = new Date();
+    const jobs = await PayoutJob.find({
+      status: 'queued',
+      nextAttemptAt: { $lte: now },
+      ...(roundId ? { roundId } : {}),
+    }).sort({ nextAttemptAt: 1 });
+
+    let processed = 0;
+    let failed = 0;
+    const roundIds = new Set<string>(roundId ? [roundId.toString()] : []);
+
+    for (const job of jobs) {
+      roundIds.add(job.roundId.toString());
+      const outcome = await this.attempt(job as IPayoutJob);
+      if (outcome === 'done') {
+        processed++;
+      } else if (outcome !== 'skipped') {
+        failed++;
+      }
+    }
+
+    for (const id of roundIds) {
+      await this.completeRoundIfSettled(id);
+    }
+
+    return { processed, failed };
+  }
+
+  // Send one job's payout; failures are rescheduled or dead-lettered
+  private static async attempt(job: IPayoutJob): Promise<'done' | 'retrying' | 'dead' | 'skipped'> {
+    // Claim the job so concurrent workers never send it twice
+    const claimed = await PayoutJob.findOneAndUpdate(
+      { _id: job._id, status: 'queued' },
+      { $set: { status: 'processing' }, $inc: { attempts: 1 } },
+      { new: true }
+    );
+    if (!claimed) {
+      return 'skipped';
+    }
+
+    const bet = await Bet.findById(claimed.betId);
+    const round = await Round.findById(claimed.roundId);
+    if (!bet || !round) {
+      await PayoutJob.updateOne(
+        { _id: claimed._id },
+        { $set: { status: 'dead', lastError: 'Bet or round not found' } }
+      );
+      return 'dead';
+    }
+
+    try {
+      bet.payoutStatus = 'sent';
+      await bet.save();
+
+      // Keyed by bet, so a payout that already went out is never sent a second time.
+      // Winnings are paid in the coin that was bet.
+      const transfer = await TransferService.send(
+        this.transferKey(claimed),
+        'payout',
+        bet.userNametag,
+        claimed.amount,
+        GameService.coinIdOf(bet as IBet)
+      );
+
+      await this.complete(claimed as IPayoutJob, bet as IBet, round as IRound, transfer);
+      return 'done';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const dead = claimed.attempts >= config.payoutMaxAttempts;
+
+      // eslint-disable-next-line no-console
+      console.error(
+        `[PayoutQueue] Payout to @${bet.userNametag} failed (attempt ${claimed.attempts}/${config.payoutMaxAttempts}):`,
+        error
+      );
+
+      await PayoutJob.updateOne(
+        { _id: claimed._id },
+        {
+          $set: dead
+            ? { status: 'dead', lastError: message }
+            : {
+                status: 'queued',
+                lastError: message,
+                nextAttemptAt: new Date(Date.now() + this.backoffMs(claimed.attempts)),
+              },
+        }
+      );
+
+      bet.payoutStatus = dead ? 'failed' : 'pending';
+      await bet.save();
+
+      return dead ? 'dead' : 'retrying';
+    }
+  }
+
+  // Record a sent payout on the bet, the job and the payment log
+  private static async complete(
+    job: IPayoutJob,
+    bet: IBet,
+    round: IRound,
+    transfer: TokenTransfer
+  ): Promise<void> {
+    bet.payoutTxId = transfer.transferId;
+    bet.payoutStatus = 'confirmed';
+    await bet.save();
+
+    await PayoutJob.updateOne(
+      { _id: job._id },
+      {
+        $set: {
+          status: 'done',
+          txId: transfer.transferId,
+          lastError: null,
+          completedAt: new Date(),
+        },
+      }
+    );
+
+    // Already logged before an interruption
+    if (
+      await PaymentLog.exists({
+        txId: transfer.transferId,
+        purpose: 'payout',
+        relatedBetId: bet._id,
+      })
+    ) {
+      return;
+    }
+
+    // Stake on bet items covering the winning number
+    const betOnWinningDigit = bet.bets
+      .filter((b) => BetTypeUtils.covers(b, round.winningDigit!))
+      .reduce((sum, b) => sum + b.amount, 0);
+
+    // Log outgoing payout
+    await GameService.logPayment({
+      type: 'outgoing',
+      amount: job.amount,
+      coinId: GameService.coinIdOf(bet),
+      fromNametag: config.agentNametag,
+      toNametag: bet.userNametag,
+      txId: transfer.transferId,
+      relatedBetId: bet._id as mongoose.Types.ObjectId,
+      relatedRoundId: bet.roundId,
+      purpose: 'payout',
+      metadata: {
+        roundNumber: bet.roundNumber,
+        winningDigit: round.winningDigit,
+        betOnWinningDigit,
+        totalBetAmount: bet.totalAmount,
+        userBets: bet.bets,
+        attempts: job.attempts,
+        transactionCount: transfer.transactionCount,
+        wasSplit: transfer.transactionCount > 1,
+        sentAmounts: transfer.sentAmounts,
+      },
+    });
+  }
+
+  // Settle jobs that were mid-attempt when the process stopped, before anything is resent.
+  // The job's outgoing transfer record decides, once one left in sending has been checked
+  // against the wallet history: sent -> the job is completed without sending again; failed or
+  // never started -> back in the queue; still sending (the history could not be read) -> the
+  // outcome is unknown, so the job is dead-lettered for an operator to check the wallet.
+  static async recoverInterrupted(): Promise<{
+    completed: number;
+    requeued: number;
+    inDoubt: number;
+  }> {
+    const jobs = await PayoutJob.find({ status: 'processing' });
+    let completed = 0;
+    let requeued = 0;
+    let inDoubt = 0;
+    const roundIds = new Set<string>();
+
+    for (const job of jobs) {
+      roundIds.add(job.roundId.toString());
+      const record = await TransferService.resolve(this.transferKey(job as IPayoutJob));
+      const bet = await Bet.findById(job.betId);
+      const round = await Round.findById(job.roundId);
+
+      if (record && (record.status === 'sent' || record.status === 'confirmed') && bet && round) {
+        await this.complete(
+          job as IPayoutJob,
+          bet as IBet,
+          round as IRound,
+          TransferService.toTokenTransfer(record)
+        );
+        completed++;
+      } else if (!record || record.status === 'failed') {
+        await PayoutJob.updateOne(
+          { _id: job._id },
+          { $set: { status: 'queued', nextAttemptAt: new Date() } }
+        );
+        await Bet.updateOne({ _id: job.betId }, { $set: { payoutStatus: 'pending' } });
+        requeued++;
+      } else {
+        await PayoutJob.updateOne(
+          { _id: job._id },
+          {
+            $set: {
+              status: 'dead',
+              lastError:
+                'Payout outcome unknown after a restart - check the wallet before requeueing',
+            },
+          }
+        );
+        await Bet.updateOne({ _id: job.betId }, { $set: { payoutStatus: 'failed' } });
+        inDoubt++;
+      }
+    }
+
+    for (const id of roundIds) {
+      await this.completeRoundIfSettled(id);
+    }
+
+    return { completed, requeued, inDoubt };
+  }
+
+  private static transferKey(job: IPayoutJob): string {
+    return `payout:${job.betId.toString()}`;
+  }
+
+  // Delay before the next attempt: base, 2x base, 4x base, ... capped at the maximum
+  static backoffMs(attempts: number): number {
+    const seconds = Math.min(
+      config.payoutRetryBaseSeconds * 2 ** Math.max(0, attempts - 1),
+      config.payoutRetryMaxSeconds
+    );
+    return seconds * 1000;
+  }
+
+  // Complete a round once all of its payout jobs are done - a dead-lettered one still owes a
+  // winner, so the round stays paying until it is requeued and paid
+  static async completeRoundIfSettled(roundId: string): Promise<boolean> {
+    const unfinished = await PayoutJob.countDocuments({
+      roundId,
+      status: { $in: ['queued', 'processing', 'dead'] },
+    });
+    if (unfinished > 0) {
+      return false;
+    }
+
+    const totalPayout = await Bet.aggregate([
+      { $match: { roundId: new mongoose.Types.ObjectId(roundId) } },
+      { $group: { _id: null, total: { $sum: '$winnings' } } },
+    ]);
+
+    await Round.findByIdAndUpdate(roundId, {
+      status: 'completed',
+      totalPayout: totalPayout[0]?.total || 0,
+    });
+    return true;
+  }
+
+  // Put a dead-lettered job back in the queue with a fresh set of attempts. A transfer whose
+  // outcome was unknown is released for resending - requeue only once the wallet shows it
+  // never went out.
+  static async requeue(jobId: string): Promise<IPayoutJob> {
+    if (!mongoose.Types.ObjectId.isValid(jobId)) {
+      throw new Error('Payout job not found');
+    }
+
+    const job = await PayoutJob.findOneAndUpdate(
+      { _id: jobId, status: 'dead' },
+      { $set: { status: 'queued', attempts: 0, nextAttemptAt: new Date(), lastError: null } },
+      { new: true }
+    );
+
+    if (!job) {
+      const existing = await PayoutJob.findById(jobId);
+      if (!existing) {
+        throw new Error('Payout job not found');
+      }
+      throw new Error(`Payout job is ${existing.status}, only dead jobs can be requeued`);
+    }
+
+    await TransferService.release(this.transferKey(job as IPayoutJob));
+    await Bet.updateOne({ _id: job.betId }, { $set: { payoutStatus: 'pending' } });
+
+    return job as IPayoutJob;
+  }
+
+  // Jobs by status, oldest first
+  static async list(status?: IPayoutJob['status'], limit = 100): Promise<IPayoutJob[]> {
+    return PayoutJob.find(status ? { status } : {})
+      .sort({ createdAt: 1 })
+      .limit(limit);
+  }
+}
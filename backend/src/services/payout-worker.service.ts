@@ -0,0 +1,75 @@
+import { PayoutQueueService } from './payout-queue.service.js';
+import { GameService } from './game.service.js';
+import { SubscriptionService } from './subscription.service.js';
+
+// Periodically retries payout jobs and refunds whose backoff has elapsed (see PayoutQueueService,
+// GameService.retryRefunds and SubscriptionService.retryRefunds). Each run, the first one at
+// startup included, also queues the payouts of rounds left paying without jobs.
+export class PayoutWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMs: number;
+  private running = false;
+
+  constructor(intervalSeconds: number) {
+    this.intervalMs = intervalSeconds * 1000;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    // eslint-disable-next-line no-console
+    console.log(`[PayoutWorker] Retrying due payouts and refunds every ${this.intervalMs / 1000}s`);
+
+    await this.run();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.running = false;
+    // eslint-disable-next-line no-console
+    console.log('[PayoutWorker] Stopped');
+  }
+
+  private async run(): Promise<void> {
+    if (!this.running) return;
+
+    try {
+      const queued = await PayoutQueueService.enqueuePaying();
+      if (queued > 0) {
+        // eslint-disable-next-line no-console
+        console.log(`[PayoutWorker] Queued ${queued} payout(s) of rounds left paying`);
+      }
+
+      const { processed, failed } = await PayoutQueueService.processDue();
+      if (processed > 0 || failed > 0) {
+        // eslint-disable-next-line no-console
+        console.log(`[PayoutWorker] Payouts: ${processed} sent, ${failed} failed`);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('[PayoutWorker] Error processing payout queue:', error);
+    }
+
+    try {
+      const bets = await GameService.retryRefunds();
+      const subscriptions = await SubscriptionService.retryRefunds();
+      const sent = bets.sent + subscriptions.sent;
+      const failed = bets.failed + subscriptions.failed;
+      if (sent > 0 || failed > 0) {
+        // eslint-disable-next-line no-console
+        console.log(`[PayoutWorker] Refunds: ${sent} sent, ${failed} failed`);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('[PayoutWorker] Error retrying refunds:', error);
+    }
+
+    if (this.running) {
+      this.timer = setTimeout(() => void this.run(), this.intervalMs);
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { randomUUID } from 'crypto';
+import { Bet, IPlayAccount, PlayAccount, Subscription } from '../models/game.model.js';
+import type {
+  BetDetail,
+  Invoice,
+  PaymentConfirmedCallback,
+  PartialPaymentCallback,
+  TokenTransfer,
+  UnmatchedTransferCallback,
+  WalletService,
+} from './sphere.service.js';
+
+export interface PlayWalletConfig {
+  // House account (the agent nametag) - pays out winnings and receives stakes
+  nametag: string;
+  startingBalance: number;
+  houseBankroll: number;
+  paymentTimeoutSeconds: number;
+}
+
+// How often and how long to wait for the bet or subscription of an invoice to be stored
+const SETTLE_RETRY_MS = 100;
+const SETTLE_ATTEMPTS = 50;
+
+// Free-play wallet: stands in for SphereService when MOCK_MODE is on. Balances are play money
+// kept in MongoDB; invoices are paid instantly from the player's balance and payouts credit it,
+// so GameService runs exactly as with real coins. Play money has no coin: every channel plays
+// from the same balance, whatever coin it is configured with.
+export class PlayWalletService implements WalletService {
+  private config: PlayWalletConfig;
+  private onPaymentConfirmed: PaymentConfirmedCallback | null = null;
+
+  constructor(config: PlayWalletConfig) {
+    this.config = config;
+  }
+
+  setPaymentConfirmedCallback(callback: PaymentConfirmedCallback): void {
+    this.onPaymentConfirmed = callback;
+  }
+
+  // Play invoices are always paid in full, so there are never partial payments to report
+  setPartialPaymentCallback(_callback: PartialPaymentCallback): void {}
+
+  // Play money only moves through invoices, so no transfer ever arrives unannounced
+  setUnmatchedTransferCallback(_callback: UnmatchedTransferCallback): void {}
+
+  async initialize(): Promise<void> {
+    await this.ensureAccount(this.config.nametag, this.config.houseBankroll);
+
+    // eslint-disable-next-line no-console
+    console.log(
+      `[PlayWallet] Free-play mode: house @${this.config.nametag} balance ${await this.getBalance()} (play money)`
+    );
+  }
+
+  // Every nametag can play - the account is opened with the starting balance
+  async validateNametag(
+    nametag: string
+  ): Promise<{ valid: boolean; pubkey?: string; error?: string }> {
+    await this.ensureAccount(nametag, this.config.startingBalance);
+    return { valid: true, pubkey: `play:${nametag}` };
+  }
+
+  // Debit the stake right away; the payment is confirmed once the bet has been stored
+  async createInvoice(
+    userNametag: string,
+    amount: number,
+    _bets: BetDetail[],
+    _roundNumber: number,
+    _memo?: string
+  ): Promise<Invoice> {
+    await this.ensureAccount(userNametag, this.config.startingBalance);
+
+    const debited = await PlayAccount.findOneAndUpdate(
+      { nametag: userNametag, balance: { $gte: amount } },
+      { $inc: { balance: -amount } },
+      { new: true }
+    );
+    if (!debited) {
+      throw new Error(`Insufficient play balance: ${amount} needed`);
+    }
+    await PlayAccount.updateOne({ nametag: this.config.nametag }, { $inc: { balance: amount } });
+
+    const invoiceId = `play-${randomUUID()}`;
+    const now = new Date();
+
+    setTimeout(() => void this.settle(invoiceId, userNametag, amount), 0);
+
+    return {
+      invoiceId,
+      amount,
+      recipientNametag: this.config.nametag,
+      status: 'pending',
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.config.paymentTimeoutSeconds * 1000),
+    };
+  }
+
+  // Move play money from the house to a player
+  async sendTokens(toNametag: string, amount: number): Promise<TokenTransfer> {
+    await this.ensureAccount(toNametag, this.config.startingBalance);
+
+    await PlayAccount.updateOne({ nametag: this.config.nametag }, { $inc: { balance: -amount } });
+    await PlayAccount.updateOne({ nametag: toNametag }, { $inc: { balance: amount } });
+
+    // eslint-disable-next-line no-console
+    console.log(`[PlayWallet] Credited ${amount} to @${toNametag}`);
+
+    return {
+      transferId: `play-${randomUUID()}`,
+      toNametag,
+      amount,
+      status: 'confirmed',
+      createdAt: new Date(),
+      transactionCount: 1,
+      sentAmounts: [amount],
+    };
+  }
+
+  // Play transfers keep no history, so one interrupted by a restart stays in doubt
+  async findSentTransfer(_memo: string): Promise<{ transferId: string } | null> {
+    throw new Error('The play wallet keeps no transfer history');
+  }
+
+  // House play balance
+  async getBalance(): Promise<number> {
+    const house = await PlayAccount.findOne({ nametag: this.config.nametag });
+    return house?.balance ?? 0;
+  }
+
+  getNametag(): string {
+    return this.config.nametag;
+  }
+
+  // A player's play balance (opens the account on first use)
+  async getPlayerBalance(nametag: string): Promise<number> {
+    const account = await this.ensureAccount(nametag, this.config.startingBalance);
+    return account.balance;
+  }
+
+  // Top a player back up to the starting balance once they have run low
+  async topUp(nametag: string): Promise<number> {
+    await this.ensureAccount(nametag, this.config.startingBalance);
+    const account = await PlayAccount.findOneAndUpdate(
+      { nametag, balance: { $lt: this.config.startingBalance } },
+      { $set: { balance: this.config.startingBalance } },
+      { new: true }
+    );
+    if (!account) {
+      throw new Error(`Top-up is only available below ${this.config.startingBalance}`);
+    }
+    return account.balance;
+  }
+
+  private async ensureAccount(nametag: string, openingBalance: number): Promise<IPlayAccount> {
+    const account = await PlayAccount.findOneAndUpdate(
+      { nametag },
+      { $setOnInsert: { balance: openingBalance } },
+      { upsert: true, new: true }
+    );
+    return account!;
+  }
+
+  // Confirm the payment once the bet or subscription for the invoice exists;
+  // return the stake if it never shows up (e.g. the bet could not be saved)
+  private async settle(invoiceId: string, userNametag: string, amount: number): Promise<void> {
+    try {
+      for (let attempt = 0; attempt < SETTLE_ATTEMPTS; attempt++) {
+        const tracked =
+          (await Bet.exists({ invoiceId })) || (await Subscription.exists({ invoiceId }));
+        if (tracked) {
+          this.onPaymentConfirmed?.({
+            invoiceId,
+            txId: `play-tx-${invoiceId}`,
+            tokenCount: 1,
+            totalAmount: amount,
+            receivedAmounts: [amount],
+          });
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, SETTLE_RETRY_MS));
+      }
+
+      // eslint-disable-next-line no-console
+      console.warn(`[PlayWallet] No bet stored for invoice ${invoiceId}, returning the stake`);
+      await this.sendTokens(userNametag, amount);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`[PlayWallet] Failed to settle invoice ${invoiceId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import { IRound } from '../models/game.model.js';
+import { config } from '../env.js';
+import { FairnessUtils, FAIRNESS_VERSION } from '../utils/fairness.js';
+import { GameTypeUtils } from '../utils/game-type.js';
+
+export type RandomnessSourceName = 'local' | 'commit-reveal' | 'seeded' | 'beacon';
+
+// Fields published on a round when it opens
+export interface RandomnessCommitment {
+  serverSeed: string | null;
+  serverSeedHash: string | null;
+  fairnessVersion: number | null;
+}
+
+// Result of a draw, with whatever the source needs for a later audit
+export interface RandomnessDraw {
+  digit: number;
+  proof: Record<string, unknown> | null;
+}
+
+export interface RandomnessSource {
+  readonly name: RandomnessSourceName;
+  commit(roundNumber: number): RandomnessCommitment;
+  draw(round: IRound): Promise<RandomnessDraw>;
+}
+
+const NO_COMMITMENT: RandomnessCommitment = {
+  serverSeed: null,
+  serverSeedHash: null,
+  fairnessVersion: null,
+};
+
+// Cryptographically secure random digit, nothing published in advance
+export class LocalRandomnessSource implements RandomnessSource {
+  readonly name = 'local' as const;
+
+  commit(): RandomnessCommitment {
+    return { ...NO_COMMITMENT };
+  }
+
+  async draw(round: IRound): Promise<RandomnessDraw> {
+    return { digit: crypto.randomInt(0, GameTypeUtils.getRange(round.gameType)), proof: null };
+  }
+}
+
+// Publishes sha256(serverSeed) at open, reveals the seed and derives the digit at draw
+export class CommitRevealRandomnessSource implements RandomnessSource {
+  readonly name = 'commit-reveal' as const;
+
+  commit(): RandomnessCommitment {
+    const serverSeed = FairnessUtils.generateServerSeed();
+    return {
+      serverSeed,
+      serverSeedHash: FairnessUtils.hashSeed(serverSeed),
+      fairnessVersion: FAIRNESS_VERSION,
+    };
+  }
+
+  async draw(round: IRound): Promise<RandomnessDraw> {
+    if (!round.serverSeed) {
+      throw new Error(`Round #${round.roundNumber} has no committed server seed`);
+    }
+
+    const digit = FairnessUtils.deriveWinningDigit({
+      serverSeed: round.serverSeed,
+      roundNumber: round.roundNumber,
+      betsDigest: round.betsDigest,
+      clientSeedsDigest: round.clientSeedsDigest,
+      version: round.fairnessVersion ?? FAIRNESS_VERSION,
+      range: GameTypeUtils.getRange(round.gameType),
+    });
+
+    return { digit, proof: null };
+  }
+}
+
+// Deterministic digits from a fixed seed - for tests and local reproduction only.
+// HMAC-SHA256(seed, "channel:roundNumber"), so channels sharing round numbers draw
+// independently (rounds from before channels use the round number alone).
+export class SeededRandomnessSource implements RandomnessSource {
+  readonly name = 'seeded' as const;
+  private seed: string;
+
+  constructor(seed: string) {
+    this.seed = seed;
+  }
+
+  commit(): RandomnessCommitment {
+    return { ...NO_COMMITMENT };
+  }
+
+  async draw(round: IRound): Promise<RandomnessDraw> {
+    const message = round.channel
+      ? `${round.channel}:${round.roundNumber}`
+      : round.roundNumber.toString();
+    const digest = crypto.createHmac('sha256', this.seed).update(message).digest('hex');
+    return {
+      digit: FairnessUtils.digestToOutcome(digest, GameTypeUtils.getRange(round.gameType)),
+      proof: { seedHash: FairnessUtils.hashSeed(this.seed) },
+    };
+  }
+}
+
+// Public randomness value from a beacon round
+export interface BeaconValue {
+  beaconRound: string;
+  randomness: string;
+}
+
+export interface BeaconClient {
+  readonly name: string;
+  getRandomness(): Promise<BeaconValue>;
+}
+
+// drand-style HTTP beacon: GET {url}/public/latest -> { round, randomness }
+export class HttpBeaconClient implements BeaconClient {
+  readonly name: string;
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url.replace(/\/+$/, '');
+    this.name = this.url;
+  }
+
+  async getRandomness(): Promise<BeaconValue> {
+    const response = await fetch(`${this.url}/public/latest`);
+    if (!response.ok) {
+      throw new Error(`Beacon request failed: ${response.status}`);
+    }
+
+    const body = (await response.json()) as { round?: number | string; randomness?: string };
+    if (body.round === undefined || !body.randomness) {
+      throw new Error('Beacon response missing round or randomness');
+    }
+
+    return { beaconRound: body.round.toString(), randomness: body.randomness };
+  }
+}
+
+// Local stand-in for an external beacon (no network) - random bytes per request
+export class LocalBeaconClient implements BeaconClient {
+  readonly name = 'local-beacon';
+  private counter = 0;
+
+  async getRandomness(): Promise<BeaconValue> {
+    this.counter++;
+    return {
+      beaconRound: `local-${Date.now()}-${this.counter}`,
+      randomness: crypto.randomBytes(32).toString('hex'),
+    };
+  }
+}
+
+// Derives the digit from sha256(randomness:roundNumber) of the beacon value fetched at draw time
+export class BeaconRandomnessSource implements RandomnessSource {
+  readonly name = 'beacon' as const;
+  private client: BeaconClient;
+
+  constructor(client: BeaconClient) {
+    this.client = client;
+  }
+
+  commit(): RandomnessCommitment {
+    return { ...NO_COMMITMENT };
+  }
+
+  async draw(round: IRound): Promise<RandomnessDraw> {
+    const value = await this.client.getRandomness();
+    const digest = crypto
+      .createHash('sha256')
+      .update(`${value.randomness}:${round.roundNumber}`)
+      .digest('hex');
+
+    return {
+      digit: FairnessUtils.digestToOutcome(digest, GameTypeUtils.getRange(round.gameType)),
+      proof: {
+        beacon: this.client.name,
+        beaconRound: value.beaconRound,
+        randomness: value.randomness,
+      },
+    };
+  }
+}
+
+export class RandomnessService {
+  private static configured: RandomnessSource | null = null;
+
+  // Build a source by name using the current config
+  static create(name: RandomnessSourceName): RandomnessSource {
+    switch (name) {
+      case 'local':
+        return new LocalRandomnessSource();
+      case 'commit-reveal':
+        return new CommitRevealRandomnessSource();
+      case 'seeded':
+        return new SeededRandomnessSource(config.randomnessSeed);
+      case 'beacon':
+        return new BeaconRandomnessSource(
+          config.randomnessBeaconUrl
+            ? new HttpBeaconClient(config.randomnessBeaconUrl)
+            : new LocalBeaconClient()
+        );
+      default:
+        throw new Error(`Unknown randomness source: ${name}`);
+    }
+  }
+
+  // Source selected via RANDOMNESS_SOURCE
+  static getConfiguredSource(): RandomnessSource {
+    if (!this.configured) {
+      this.configured = this.create(config.randomnessSource as RandomnessSourceName);
+    }
+    return this.configured;
+  }
+
+  // Override the configured source (null resets to config)
+  static setConfiguredSource(source: RandomnessSource | null): void {
+    this.configured = source;
+  }
+
+  // Source that must draw a given round. A published commitment is always honoured,
+  // and commit-reveal falls back to local when the round opened without one.
+  static resolveForRound(round: Pick<IRound, 'serverSeed'>): RandomnessSource {
+    if (round.serverSeed) {
+      return new CommitRevealRandomnessSource();
+    }
+
+    const source = this.getConfiguredSource();
+    return source.name === 'commit-reveal' ? new LocalRandomnessSource() : source;
+  }
+}
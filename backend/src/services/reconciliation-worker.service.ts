@@ -0,0 +1,66 @@
+import { ReconciliationService } from './reconciliation.service.js';
+import { CoinUtils } from '../utils/coin.js';
+
+// Periodically reconciles the wallet balance of every coin and logs any drift
+// (see ReconciliationService)
+export class ReconciliationWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMs: number;
+  private running = false;
+
+  constructor(intervalSeconds: number) {
+    this.intervalMs = intervalSeconds * 1000;
+  }
+
+  async start(): Promise<void> {
+    if (this.running || this.intervalMs <= 0) return;
+    this.running = true;
+
+    // eslint-disable-next-line no-console
+    console.log(`[Reconciliation] Checking the wallet balance every ${this.intervalMs / 1000}s`);
+
+    await this.run();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.running = false;
+    // eslint-disable-next-line no-console
+    console.log('[Reconciliation] Stopped');
+  }
+
+  private async run(): Promise<void> {
+    if (!this.running) return;
+
+    for (const { symbol } of CoinUtils.all()) {
+      try {
+        const report = await ReconciliationService.run(symbol);
+        if (report.status === 'ok' && report.warnings.length === 0) {
+          // eslint-disable-next-line no-console
+          console.log(
+            `[Reconciliation] Wallet ${report.walletBalance} ${symbol} matches liabilities ${report.liabilities.total} ${symbol}`
+          );
+        } else {
+          // eslint-disable-next-line no-console
+          console.warn(
+            `[Reconciliation] Wallet ${report.walletBalance} ${symbol} vs liabilities ${report.liabilities.total} ${symbol} (${report.status}, drift ${report.drift})`
+          );
+          for (const warning of report.warnings) {
+            // eslint-disable-next-line no-console
+            console.warn(`[Reconciliation] ${warning}`);
+          }
+        }
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(`[Reconciliation] Error reconciling the ${symbol} wallet:`, error);
+      }
+    }
+
+    if (this.running) {
+      this.timer = setTimeout(() => void this.run(), this.intervalMs);
+    }
+  }
+}
@@ -0,0 +1,262 @@
+import mongoose from 'mongoose';
+import {
+  Bet,
+  Commission,
+  OutgoingTransfer,
+  PaymentLog,
+  PayoutJob,
+  Round,
+  Subscription,
+  UnmatchedTransfer,
+  IBet,
+  IRound,
+} from '../models/game.model.js';
+import { sphereService } from './index.js';
+import { config } from '../env.js';
+import { CurrencyUtils } from '../utils/currency.js';
+import { CoinUtils } from '../utils/coin.js';
+
+// What the wallet owes in one coin, by source. Every amount is what the agent wallet must
+// still hold of that coin.
+export interface ReconciliationLiabilities {
+  // Stakes of rounds that have not been settled yet (open, closed or drawing)
+  openPools: number;
+  // Paid pre-booked bets not yet bound to a round
+  prebookedStakes: number;
+  // Prepaid subscription rounds not yet placed
+  subscriptionFunds: number;
+  // Partial payments held towards unpaid invoices
+  heldPartialPayments: number;
+  // Transfers that matched no invoice and have not been resolved yet
+  unmatchedTransfers: number;
+  // Jackpots rolled over but not yet claimed by a later round
+  unclaimedJackpots: number;
+  // Winnings not yet confirmed as paid (pending, in flight or failed)
+  pendingPayouts: number;
+  // Refunds not yet confirmed as sent (pending, in flight or failed)
+  pendingRefunds: number;
+  // Commission accumulated and not withdrawn
+  commissionAvailable: number;
+  total: number;
+}
+
+export interface ReconciliationReport {
+  checkedAt: Date;
+  // Symbol of the coin reconciled
+  coin: string;
+  walletBalance: number;
+  liabilities: ReconciliationLiabilities;
+  // Transfers that were started but never recorded as done - after a crash these may already
+  // have left the wallet while still being counted as liabilities
+  inFlight: { payouts: number; refunds: number; payoutJobs: number; transfers: number };
+  // Totals recorded in PaymentLog (house bankroll deposits are not logged, so net can differ
+  // from the wallet balance)
+  ledger: { incoming: number; outgoing: number; net: number };
+  // Wallet balance minus liabilities: negative means the wallet cannot cover what it owes
+  drift: number;
+  status: 'ok' | 'surplus' | 'shortfall';
+  warnings: string[];
+}
+
+// Compares the agent wallet's balance of a coin with what the database says it should hold
+export class ReconciliationService {
+  // Reconcile one coin (by symbol, default coin if omitted)
+  static async run(coin?: string | null): Promise<ReconciliationReport> {
+    const { symbol, coinId } = CoinUtils.get(coin);
+    const inCoin = CoinUtils.filter(coinId);
+    const [
+      openPools,
+      prebookedStakes,
+      subscriptionFunds,
+      heldPartialPayments,
+      unmatchedTransfers,
+      unclaimedJackpots,
+      pendingPayouts,
+      pendingRefunds,
+      commissionAvailable,
+    ] = await Promise.all([
+      this.sumRounds({ ...inCoin, status: { $in: ['open', 'closed', 'drawing'] } }, '$totalPool'),
+      this.sumBets({ ...inCoin, roundId: null, paymentStatus: 'paid' }, '$totalAmount'),
+      this.unplacedSubscriptionFunds(coinId),
+      this.sumBets(
+        { ...inCoin, paymentStatus: 'pending', receivedAmount: { $gt: 0 } },
+        '$receivedAmount'
+      ),
+      this.unresolvedUnmatchedTransfers(coinId),
+      this.sumRounds(
+        { ...inCoin, jackpotRolledOver: { $gt: 0 }, jackpotClaimedBy: null },
+        '$jackpotRolledOver'
+      ),
+      this.sumBets(
+        { ...inCoin, winnings: { $gt: 0 }, payoutStatus: { $in: ['pending', 'sent', 'failed'] } },
+        '$winnings'
+      ),
+      this.unsentRefunds(coinId, ['pending', 'sent', 'failed']),
+      this.commissionAvailable(coinId),
+    ]);
+
+    const liabilities: ReconciliationLiabilities = {
+      openPools,
+      prebookedStakes,
+      subscriptionFunds,
+      heldPartialPayments,
+      unmatchedTransfers,
+      unclaimedJackpots,
+      pendingPayouts,
+      pendingRefunds,
+      commissionAvailable,
+      total: CurrencyUtils.round(
+        openPools +
+          prebookedStakes +
+          subscriptionFunds +
+          heldPartialPayments +
+          unmatchedTransfers +
+          unclaimedJackpots +
+          pendingPayouts +
+          pendingRefunds +
+          commissionAvailable
+      ),
+    };
+
+    const [sentPayouts, sentRefunds, processingJobs, transfersInDoubt, ledger, walletBalance] =
+      await Promise.all([
+        this.sumBets({ ...inCoin, winnings: { $gt: 0 }, payoutStatus: 'sent' }, '$winnings'),
+        this.unsentRefunds(coinId, ['sent']),
+        PayoutJob.countDocuments({ ...inCoin, status: 'processing' }),
+        OutgoingTransfer.countDocuments({ ...inCoin, status: 'sending' }),
+        this.ledgerTotals(coinId),
+        sphereService.getBalance(coinId),
+      ]);
+
+    const drift = CurrencyUtils.round(walletBalance - liabilities.total);
+    const status =
+      drift < -config.reconciliationTolerance
+        ? 'shortfall'
+        : drift > config.reconciliationTolerance
+          ? 'surplus'
+          : 'ok';
+
+    const warnings: string[] = [];
+    if (status === 'shortfall') {
+      warnings.push(`Wallet holds ${-drift} ${symbol} less than its liabilities`);
+    }
+    if (sentPayouts > 0 || processingJobs > 0) {
+      warnings.push(
+        `Payouts of ${sentPayouts} ${symbol} (${processingJobs} job${processingJobs === 1 ? '' : 's'}) were started but never confirmed - check whether they reached the players`
+      );
+    }
+    if (transfersInDoubt > 0) {
+      warnings.push(
+        `${transfersInDoubt} outgoing transfer${transfersInDoubt === 1 ? '' : 's'} never recorded an outcome - check the wallet before resending`
+      );
+    }
+    if (sentRefunds > 0) {
+      warnings.push(
+        `Refunds of ${sentRefunds} ${symbol} were started but never confirmed - check whether they reached the players`
+      );
+    }
+
+    return {
+      checkedAt: new Date(),
+      coin: symbol,
+      walletBalance,
+      liabilities,
+      inFlight: {
+        payouts: sentPayouts,
+        refunds: sentRefunds,
+        payoutJobs: processingJobs,
+        transfers: transfersInDoubt,
+      },
+      ledger,
+      drift,
+      status,
+      warnings,
+    };
+  }
+
+  private static async sumBets(match: mongoose.QueryFilter<IBet>, field: string): Promise<number> {
+    const result = await Bet.aggregate([
+      { $match: match },
+      { $group: { _id: null, total: { $sum: field } } },
+    ]);
+    return CurrencyUtils.round(result[0]?.total || 0);
+  }
+
+  private static async sumRounds(
+    match: mongoose.QueryFilter<IRound>,
+    field: string
+  ): Promise<number> {
+    const result = await Round.aggregate([
+      { $match: match },
+      { $group: { _id: null, total: { $sum: field } } },
+    ]);
+    return CurrencyUtils.round(result[0]?.total || 0);
+  }
+
+  // Active subscriptions still hold the stake of every round they have not placed yet
+  private static async unplacedSubscriptionFunds(coinId: string): Promise<number> {
+    const result = await Subscription.aggregate([
+      { $match: { ...CoinUtils.filter(coinId), status: 'active' } },
+      {
+        $group: {
+          _id: null,
+          total: {
+            $sum: {
+              $multiply: [{ $subtract: ['$rounds', '$roundsPlaced'] }, '$amountPerRound'],
+            },
+          },
+        },
+      },
+    ]);
+    return CurrencyUtils.round(result[0]?.total || 0);
+  }
+
+  // Refunds of bets and subscriptions in the given states
+  private static async unsentRefunds(
+    coinId: string,
+    statuses: IBet['refundStatus'][]
+  ): Promise<number> {
+    const inCoin = CoinUtils.filter(coinId);
+    const [bets, subscriptions] = await Promise.all([
+      this.sumBets({ ...inCoin, refundStatus: { $in: statuses } }, '$refundAmount'),
+      Subscription.aggregate([
+        { $match: { ...inCoin, refundStatus: { $in: statuses } } },
+        { $group: { _id: null, total: { $sum: '$refundedAmount' } } },
+      ]),
+    ]);
+    return CurrencyUtils.round(bets + (subscriptions[0]?.total || 0));
+  }
+
+  private static async unresolvedUnmatchedTransfers(coinId: string): Promise<number> {
+    const result = await UnmatchedTransfer.aggregate([
+      { $match: { ...CoinUtils.filter(coinId), status: { $in: ['pending', 'refunding'] } } },
+      { $group: { _id: null, total: { $sum: '$amount' } } },
+    ]);
+    return CurrencyUtils.round(result[0]?.total || 0);
+  }
+
+  private static async commissionAvailable(coinId: string): Promise<number> {
+    const commission = await Commission.findOne(CoinUtils.filter(coinId));
+    if (!commission) {
+      return 0;
+    }
+    return CurrencyUtils.round(commission.totalAccumulated - commission.totalWithdrawn);
+  }
+
+  private static async ledgerTotals(coinId: string): Promise<{
+    incoming: number;
+    outgoing: number;
+    net: number;
+  }> {
+    // A transfer can be logged more than once (an unmatched transfer attached to a bet is logged
+    // again as its payment), so each txId counts once per direction
+    const result = await PaymentLog.aggregate([
+      { $match: CoinUtils.filter(coinId) },
+      { $group: { _id: { type: '$type', txId: '$txId' }, amount: { $max: '$amount' } } },
+      { $group: { _id: '$_id.type', total: { $sum: '$amount' } } },
+    ]);
+    const incoming = CurrencyUtils.round(result.find((r) => r._id === 'incoming')?.total || 0);
+    const outgoing = CurrencyUtils.round(result.find((r) => r._id === 'outgoing')?.total || 0);
+    return { incoming, outgoing, net: CurrencyUtils.round(incoming - outgoing) };
+  }
+}
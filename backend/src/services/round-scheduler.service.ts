@@ -1,13 +1,17 @@
 import { GameService } from './game.service.js';
-import { Round } from '../models/game.model.js';
+import { SubscriptionService } from './subscription.service.js';
+import { ChannelUtils } from '../utils/channel.js';
 
+// Drives one channel's round stream: one timer that closes, draws and pays each round
 export class RoundScheduler {
   private timer: NodeJS.Timeout | null = null;
   private roundDurationMs: number;
+  private channel: string;
   private running = false;
 
-  constructor(roundDurationSeconds: number) {
+  constructor(roundDurationSeconds: number, channel: string = ChannelUtils.getDefault().name) {
     this.roundDurationMs = roundDurationSeconds * 1000;
+    this.channel = channel;
   }
 
   async start(): Promise<void> {
@@ -15,7 +19,9 @@ export class RoundScheduler {
     this.running = true;
 
     // eslint-disable-next-line no-console
-    console.log(`[RoundScheduler] Starting with ${this.roundDurationMs / 1000}s rounds`);
+    console.log(
+      `[RoundScheduler] Starting channel "${this.channel}" with ${this.roundDurationMs / 1000}s rounds`
+    );
 
     await this.scheduleNextRound();
   }
@@ -27,7 +33,7 @@ export class RoundScheduler {
     }
     this.running = false;
     // eslint-disable-next-line no-console
-    console.log('[RoundScheduler] Stopped');
+    console.log(`[RoundScheduler] Stopped channel "${this.channel}"`);
   }
 
   private async scheduleNextRound(): Promise<void> {
@@ -39,7 +45,37 @@ export class RoundScheduler {
       this.timer = null;
     }
 
-    const round = await GameService.getCurrentRound();
+    const round = await GameService.getCurrentRound(this.channel);
+
+    // Pre-booked bets for this round number are bound to it, stale bookings refunded
+    try {
+      const bound = await GameService.bindPrebookedBets(round);
+      const refunded = await GameService.refundStalePrebookedBets(round);
+      if (bound > 0 || refunded > 0) {
+        // eslint-disable-next-line no-console
+        console.log(
+          `[RoundScheduler] Round #${round.roundNumber}: ${bound} pre-booked bets bound, ${refunded} refunded`
+        );
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('[RoundScheduler] Error binding pre-booked bets:', error);
+    }
+
+    // Auto-bet subscriptions join each round as it opens
+    try {
+      const placed = await SubscriptionService.placeForRound(round);
+      if (placed > 0) {
+        // eslint-disable-next-line no-console
+        console.log(
+          `[RoundScheduler] Placed ${placed} subscription bet${placed > 1 ? 's' : ''} in round #${round.roundNumber}`
+        );
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('[RoundScheduler] Error placing subscription bets:', error);
+    }
+
     const roundStartTime = new Date(round.startTime).getTime();
     const now = Date.now();
     const elapsed = now - roundStartTime;
@@ -47,7 +83,7 @@ export class RoundScheduler {
 
     // eslint-disable-next-line no-console
     console.log(
-      `[RoundScheduler] Round #${round.roundNumber} ends in ${Math.round(remaining / 1000)}s`
+      `[RoundScheduler] ${this.channel} round #${round.roundNumber} ends in ${Math.round(remaining / 1000)}s`
     );
 
     this.timer = setTimeout(async () => {
@@ -60,12 +96,12 @@ export class RoundScheduler {
 
     try {
       // Get current open round
-      const round = await Round.findOne({ status: 'open' });
+      const round = await GameService.findOpenRound(this.channel);
 
       if (!round) {
         // eslint-disable-next-line no-console
-        console.log('[RoundScheduler] No open round found, creating new one');
-        await GameService.createRound();
+        console.log(`[RoundScheduler] No open ${this.channel} round found, creating new one`);
+        await GameService.createRound(this.channel);
         await this.scheduleNextRound();
         return;
       }
@@ -124,6 +160,10 @@ export class RoundScheduler {
     return this.roundDurationMs;
   }
 
+  getChannel(): string {
+    return this.channel;
+  }
+
   isRunning(): boolean {
     return this.running;
   }
@@ -1,7 +1,11 @@
-import { Sphere, toSmallestUnit, toHumanReadable } from '@unicitylabs/sphere-sdk';
+import { Sphere } from '@unicitylabs/sphere-sdk';
 import { createNodeProviders } from '@unicitylabs/sphere-sdk/impl/nodejs';
 import type { PaymentRequestResult, TransferResult } from '@unicitylabs/sphere-sdk';
 import type { NetworkType } from '@unicitylabs/sphere-sdk';
+import { BetSelection, BetTypeUtils } from '../utils/bet-type.js';
+import { PaymentRequest } from '../models/game.model.js';
+import { CurrencyUtils } from '../utils/currency.js';
+import { CoinConfig, CoinUtils } from '../utils/coin.js';
 
 export interface SphereConfig {
   dataDir: string;
@@ -11,8 +15,12 @@ export interface SphereConfig {
   network?: NetworkType;
   aggregatorApiKey?: string;
   trustBasePath?: string;
+  // Default coin (invoices, transfers and balances in other coins name theirs)
   coinId: string;
   paymentTimeoutSeconds: number;
+  // How long a request is still matched after its invoice expires, so a late transfer reaches
+  // its bet (which refunds it) instead of being reported as unmatched
+  latePaymentGraceSeconds: number;
   debug?: boolean;
 }
 
@@ -25,10 +33,7 @@ export interface Invoice {
   expiresAt: Date;
 }
 
-export interface BetDetail {
-  digit: number;
-  amount: number;
-}
+export type BetDetail = BetSelection;
 
 export interface TokenTransfer {
   transferId: string;
@@ -50,14 +55,65 @@ export interface PaymentInfo {
 
 export type PaymentConfirmedCallback = (paymentInfo: PaymentInfo) => void;
 
+// A transfer that covers only part of an invoice
+export interface PartialPaymentInfo {
+  invoiceId: string;
+  txId: string;
+  tokenCount: number;
+  amount: number;
+  receivedAmounts: number[];
+}
+
+// Resolves true when the partial payment is held towards the invoice, false when refunded
+export type PartialPaymentCallback = (paymentInfo: PartialPaymentInfo) => Promise<boolean>;
+
+// A transfer that matched none of the sender's pending payment requests
+export interface UnmatchedTransferInfo {
+  txId: string;
+  senderPubkey: string | null;
+  senderNametag: string | null;
+  amount: number;
+  coinId: string;
+  tokenCount: number;
+  receivedAmounts: number[];
+  memo: string | null;
+}
+
+export type UnmatchedTransferCallback = (transferInfo: UnmatchedTransferInfo) => Promise<void>;
+
+// Wallet operations the game relies on (implemented by SphereService and, in free-play mode,
+// by PlayWalletService)
+export type WalletService = Pick<
+  SphereService,
+  | 'initialize'
+  | 'setPaymentConfirmedCallback'
+  | 'setPartialPaymentCallback'
+  | 'setUnmatchedTransferCallback'
+  | 'validateNametag'
+  | 'createInvoice'
+  | 'sendTokens'
+  | 'findSentTransfer'
+  | 'getBalance'
+  | 'getNametag'
+>;
+
 interface PendingPayment {
   requestId: string;
   invoiceId: string;
   userNametag: string;
+  userPubkey: string | null;
   amount: number;
+  coinId: string;
+  // Partial transfers held towards this request
+  receivedAmount: number;
+  receivedAmounts: number[];
   createdAt: number;
+  // Invoice deadline, and when the request is forgotten (late transfers are matched until then)
   expiresAt: number;
+  retainUntil: number;
   confirmed: boolean;
+  // Set when a 'paid' response confirmed the request before its transfer arrived
+  paidTransferId: string | null;
 }
 
 export class SphereService {
@@ -65,6 +121,8 @@ export class SphereService {
   private config: SphereConfig;
   private connected = false;
   private onPaymentConfirmed: PaymentConfirmedCallback | null = null;
+  private onPartialPayment: PartialPaymentCallback | null = null;
+  private onUnmatchedTransfer: UnmatchedTransferCallback | null = null;
   private pendingPayments: Map<string, PendingPayment> = new Map();
   private paymentRequestUnsubscribe: (() => void) | null = null;
 
@@ -76,6 +134,14 @@ export class SphereService {
     this.onPaymentConfirmed = callback;
   }
 
+  setPartialPaymentCallback(callback: PartialPaymentCallback): void {
+    this.onPartialPayment = callback;
+  }
+
+  setUnmatchedTransferCallback(callback: UnmatchedTransferCallback): void {
+    this.onUnmatchedTransfer = callback;
+  }
+
   async initialize(): Promise<void> {
     if (this.connected) return;
 
@@ -144,9 +210,12 @@ export class SphereService {
       );
     }
 
+    // Restore payment requests that were still outstanding when the backend stopped
+    await this.loadPendingPayments();
+
     // Subscribe to incoming transfers
     sphere.on('transfer:incoming', (transfer) => {
-      this.handleIncomingTransfer(transfer);
+      void this.handleIncomingTransfer(transfer);
     });
 
     // Subscribe to payment request responses
@@ -162,80 +231,252 @@ export class SphereService {
     console.log(`[SphereService] Address: ${sphere.identity?.address?.slice(0, 20)}...`);
   }
 
+  // Match an incoming transfer to one of its sender's pending payment requests. The sender is
+  // identified by pubkey or nametag; an invoice reference in the memo picks the request, and
+  // otherwise the amount breaks ties: a transfer that pays the rest of a request (exactly, or
+  // failing that with change to spare) confirms it, a smaller one is a partial payment.
+  // Requests past their invoice deadline still match during the grace window - the bet then
+  // refunds the late payment. A transfer behind a request already confirmed by a 'paid' response
+  // is dropped. Transfers from nobody we are waiting on are reported as unmatched.
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private handleIncomingTransfer(transfer: any): void {
+  private async handleIncomingTransfer(transfer: any): Promise<void> {
     // eslint-disable-next-line no-console
     console.log(`[SphereService] Incoming transfer: ${transfer.id}`);
     // eslint-disable-next-line no-console
     console.log(`[SphereService] Pending payments count:`, this.pendingPayments.size);
 
-    // Try to match with pending payment
-    // eslint-disable-next-line no-console
-    console.log(
-      `[SphereService] Pending payment requestIds:`,
-      Array.from(this.pendingPayments.keys())
+    // A transfer is in the coin of its first token; tokens of any other coin are not counted
+    const allTokens: Array<{ coinId: string; amount: bigint }> = (transfer.tokens || []).map(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (token: any) => this.parseToken(token)
     );
-    for (const [requestId, pending] of this.pendingPayments) {
-      if (pending.confirmed) continue;
+    const coin: CoinConfig | undefined = CoinUtils.byId(allTokens[0]?.coinId ?? this.config.coinId);
+    if (!coin) {
+      // eslint-disable-next-line no-console
+      console.warn(
+        `[SphereService] Ignoring transfer ${transfer.id} in unconfigured coin ${allTokens[0].coinId}`
+      );
+      return;
+    }
+    const tokens = allTokens.filter((token) => token.coinId === coin.coinId);
+    if (tokens.length < allTokens.length) {
+      // eslint-disable-next-line no-console
+      console.warn(
+        `[SphereService] Transfer ${transfer.id} mixes coins - only its ${coin.symbol} tokens are counted`
+      );
+    }
 
-      // Check if expired
-      if (Date.now() > pending.expiresAt) {
-        this.pendingPayments.delete(requestId);
+    let totalAmount = 0n;
+    const receivedAmounts: number[] = [];
+    for (const token of tokens) {
+      const amount = this.toAmount(token.amount, coin);
+      // eslint-disable-next-line no-console
+      console.log(
+        `[SphereService] Token amount: ${token.amount.toString()} (${amount} ${coin.symbol})`
+      );
+      totalAmount += token.amount;
+      receivedAmounts.push(amount);
+    }
+
+    // Who sent it, and which invoice it says it pays (when the sender's wallet passed it on)
+    const senderPubkey: string | null = transfer.senderPubkey || null;
+    const senderNametag: string | null = transfer.senderNametag
+      ? String(transfer.senderNametag).replace(/^@/, '')
+      : null;
+    const memo: string | null = transfer.memo || null;
+
+    // The sender's outstanding requests, unexpired ones first, then oldest first, and those a
+    // 'paid' response already confirmed whose transfer is still to come
+    const now = Date.now();
+    const candidates: PendingPayment[] = [];
+    const paid: PendingPayment[] = [];
+    for (const [requestId, pending] of this.pendingPayments) {
+      // Past the late-payment grace window
+      if (now > pending.retainUntil) {
+        this.removePendingPayment(requestId);
         continue;
       }
+      if (
+        pending.coinId === coin.coinId &&
+        this.isFromPayer(pending, senderPubkey, senderNametag)
+      ) {
+        (pending.confirmed ? paid : candidates).push(pending);
+      }
+    }
+    const lapsed = (pending: PendingPayment): number => (now > pending.expiresAt ? 1 : 0);
+    candidates.sort((a, b) => lapsed(a) - lapsed(b) || a.createdAt - b.createdAt);
 
-      // Match by checking if the transfer amount matches
-      const tokens = transfer.tokens || [];
-      let totalAmount = 0n;
-      const receivedAmounts: number[] = [];
+    const referenced = memo
+      ? candidates.find((p) => memo.includes(p.invoiceId) || memo.includes(p.requestId))
+      : undefined;
 
-      for (const token of tokens) {
-        // Amount may be in format "coinId,amount" or just "amount"
-        let amountStr = token.amount || '0';
-        if (typeof amountStr === 'string' && amountStr.includes(',')) {
-          // eslint-disable-next-line no-console
-          console.log(`[SphereService] Parsing amount from coinId,amount format: ${amountStr}`);
-          amountStr = amountStr.split(',')[1] || '0';
-        }
-        const amount = BigInt(amountStr);
-        // eslint-disable-next-line no-console
-        console.log(
-          `[SphereService] Token amount: ${amount.toString()} (${toHumanReadable(amount.toString())} UCT)`
-        );
-        totalAmount += amount;
-        receivedAmounts.push(parseFloat(toHumanReadable(amount.toString())));
-      }
+    const tolerance = CurrencyUtils.toSmallestUnit('0.0001', coin.decimals);
+    const remaining = (pending: PendingPayment): bigint =>
+      CurrencyUtils.toSmallestUnit(pending.amount, coin.decimals) -
+      CurrencyUtils.toSmallestUnit(pending.receivedAmount, coin.decimals);
 
-      const expectedAmount = toSmallestUnit(pending.amount.toString());
+    const sender = senderNametag ? `@${senderNametag}` : (senderPubkey ?? 'unknown sender');
+    // eslint-disable-next-line no-console
+    console.log(
+      `[SphereService] Matching received=${totalAmount.toString()} ${coin.symbol} from ${sender} against ${candidates.length} pending payment(s)`
+    );
+
+    const diff = (pending: PendingPayment): bigint => totalAmount - remaining(pending);
+
+    // The bet was confirmed when the wallet reported the request paid - this is its transfer,
+    // which must not be booked again (or refunded as unmatched)
+    const settled =
+      paid.find((p) => p.paidTransferId === transfer.id) ??
+      (memo
+        ? paid.find((p) => memo.includes(p.invoiceId) || memo.includes(p.requestId))
+        : undefined) ??
+      paid.find((p) => diff(p) >= -tolerance && diff(p) <= tolerance);
+    if (settled) {
       // eslint-disable-next-line no-console
       console.log(
-        `[SphereService] Matching: received=${totalAmount.toString()} vs expected=${expectedAmount} (pending.amount=${pending.amount} UCT)`
+        `[SphereService] Transfer ${transfer.id} pays invoice ${settled.invoiceId}, already confirmed by its payment request response`
       );
-      const tolerance = BigInt(1e14); // 0.0001 UCT tolerance
+      this.removePendingPayment(settled.requestId);
+      return;
+    }
 
-      if (totalAmount >= BigInt(expectedAmount) - tolerance) {
-        pending.confirmed = true;
+    const byAmount = referenced ? [referenced] : candidates;
+    const match =
+      byAmount.find((p) => diff(p) >= -tolerance && diff(p) <= tolerance) ??
+      byAmount.find((p) => diff(p) > tolerance);
 
-        // eslint-disable-next-line no-console
-        console.log(`[SphereService] Payment confirmed for invoice ${pending.invoiceId}`);
-
-        if (this.onPaymentConfirmed) {
-          this.onPaymentConfirmed({
-            invoiceId: pending.invoiceId,
-            txId: transfer.id,
-            tokenCount: tokens.length,
-            totalAmount: pending.amount,
-            receivedAmounts,
-          });
-        }
+    if (match) {
+      match.confirmed = true;
 
-        this.pendingPayments.delete(requestId);
-        return;
+      // eslint-disable-next-line no-console
+      console.log(
+        `[SphereService] Payment ${lapsed(match) ? 'received late' : 'confirmed'} for invoice ${match.invoiceId}`
+      );
+
+      const allAmounts = [...match.receivedAmounts, ...receivedAmounts];
+      if (this.onPaymentConfirmed) {
+        this.onPaymentConfirmed({
+          invoiceId: match.invoiceId,
+          txId: transfer.id,
+          tokenCount: allAmounts.length,
+          totalAmount: match.amount,
+          receivedAmounts: allAmounts,
+        });
+      }
+
+      this.removePendingPayment(match.requestId);
+      return;
+    }
+
+    // Less than the invoice needs - attribute it to the referenced or the sender's oldest one
+    const partial = referenced ?? candidates[0];
+    if (partial && totalAmount > 0n && this.onPartialPayment) {
+      const amount = this.toAmount(totalAmount, coin);
+      // eslint-disable-next-line no-console
+      console.log(
+        `[SphereService] Partial payment of ${amount} ${coin.symbol} towards invoice ${partial.invoiceId}`
+      );
+
+      try {
+        const kept = await this.onPartialPayment({
+          invoiceId: partial.invoiceId,
+          txId: transfer.id,
+          tokenCount: tokens.length,
+          amount,
+          receivedAmounts,
+        });
+        if (kept) {
+          partial.receivedAmount += amount;
+          partial.receivedAmounts.push(...receivedAmounts);
+          await PaymentRequest.updateOne(
+            { requestId: partial.requestId },
+            {
+              $inc: { receivedAmount: amount },
+              $push: { receivedAmounts: { $each: receivedAmounts } },
+            }
+          );
+        }
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(`[SphereService] Failed to process partial payment:`, error);
       }
+      return;
     }
 
     // eslint-disable-next-line no-console
     console.log('[SphereService] Transfer did not match any pending payment');
+
+    if (totalAmount > 0n && this.onUnmatchedTransfer) {
+      try {
+        await this.onUnmatchedTransfer({
+          txId: transfer.id,
+          senderPubkey,
+          senderNametag,
+          amount: this.toAmount(totalAmount, coin),
+          coinId: coin.coinId,
+          tokenCount: tokens.length,
+          receivedAmounts,
+          memo,
+        });
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(`[SphereService] Failed to record unmatched transfer:`, error);
+      }
+    }
+  }
+
+  // Coin and smallest-unit amount of a received token. The amount may be in the format
+  // "coinId,amount" or just "amount" (then in the token's coinId, or the default coin).
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private parseToken(token: any): { coinId: string; amount: bigint } {
+    let amountStr = token.amount || '0';
+    let coinId: string = token.coinId || this.config.coinId;
+    if (typeof amountStr === 'string' && amountStr.includes(',')) {
+      // eslint-disable-next-line no-console
+      console.log(`[SphereService] Parsing amount from coinId,amount format: ${amountStr}`);
+      [coinId, amountStr] = amountStr.split(',');
+    }
+    return { coinId: coinId.toLowerCase(), amount: BigInt(amountStr || '0') };
+  }
+
+  // Human-readable amount of smallest units of a coin
+  private toAmount(amount: bigint | string, coin: CoinConfig): number {
+    return parseFloat(CurrencyUtils.toHumanReadable(amount, coin.decimals));
+  }
+
+  // Configured coin by id (the default coin when none is given)
+  private coin(coinId: string = this.config.coinId): CoinConfig {
+    const coin = CoinUtils.byId(coinId);
+    if (!coin) {
+      throw new Error(`Unknown coin: ${coinId}`);
+    }
+    return coin;
+  }
+
+  // Whether a transfer's sender is the player a payment request was sent to: the same pubkey,
+  // or failing that the same nametag (a pubkey may be reported in another encoding)
+  private isFromPayer(
+    pending: PendingPayment,
+    senderPubkey: string | null,
+    senderNametag: string | null
+  ): boolean {
+    if (
+      senderPubkey &&
+      pending.userPubkey &&
+      this.normalizePubkey(senderPubkey) === this.normalizePubkey(pending.userPubkey)
+    ) {
+      return true;
+    }
+    return (
+      senderNametag !== null && senderNametag.toLowerCase() === pending.userNametag.toLowerCase()
+    );
+  }
+
+  // A pubkey in comparable form: lowercase hex without a 0x prefix, and x-only (a compressed
+  // key's 02/03 parity byte dropped)
+  private normalizePubkey(pubkey: string): string {
+    const hex = pubkey.trim().toLowerCase().replace(/^0x/, '');
+    return /^0[23][0-9a-f]{64}$/.test(hex) ? hex.slice(2) : hex;
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -284,7 +525,13 @@ export class SphereService {
     );
 
     if (response.responseType === 'paid' && response.transferId) {
+      if (pending.confirmed) {
+        // eslint-disable-next-line no-console
+        console.log(`[SphereService] Payment already confirmed: ${pending.invoiceId}`);
+        return;
+      }
       pending.confirmed = true;
+      pending.paidTransferId = response.transferId;
       // eslint-disable-next-line no-console
       console.log(`[SphereService] Payment PAID! transferId=${response.transferId}`);
 
@@ -292,23 +539,90 @@ export class SphereService {
         this.onPaymentConfirmed({
           invoiceId: pending.invoiceId,
           txId: response.transferId,
-          tokenCount: 1,
+          tokenCount: pending.receivedAmounts.length + 1,
           totalAmount: pending.amount,
-          receivedAmounts: [pending.amount],
+          // The wallet pays whatever the held partial transfers left open
+          receivedAmounts: [
+            ...pending.receivedAmounts,
+            CurrencyUtils.round(pending.amount - pending.receivedAmount),
+          ],
         });
       }
 
-      this.pendingPayments.delete(matchedKey);
+      // Kept until the transfer itself arrives (or the grace window ends), so that it is not
+      // taken for an unmatched one
+      PaymentRequest.updateOne(
+        { requestId: pending.requestId },
+        { confirmed: true, paidTransferId: response.transferId }
+      ).catch((error) => {
+        // eslint-disable-next-line no-console
+        console.error(`[SphereService] Failed to save payment request ${matchedKey}:`, error);
+      });
     } else if (response.responseType === 'rejected') {
       // eslint-disable-next-line no-console
       console.log(`[SphereService] Payment request rejected: ${pending.invoiceId}`);
-      this.pendingPayments.delete(matchedKey);
+      this.removePendingPayment(matchedKey);
     } else {
       // eslint-disable-next-line no-console
       console.log(`[SphereService] Unhandled response type: ${response.responseType}`);
     }
   }
 
+  // Rehydrate payment requests still within their grace window from MongoDB, including those
+  // confirmed by a 'paid' response whose transfer has not arrived yet
+  private async loadPendingPayments(): Promise<void> {
+    const now = new Date();
+    const stored = await PaymentRequest.find({
+      $or: [{ retainUntil: { $gt: now } }, { retainUntil: null, expiresAt: { $gt: now } }],
+    });
+    for (const request of stored) {
+      const pending: PendingPayment = {
+        requestId: request.requestId,
+        invoiceId: request.invoiceId,
+        userNametag: request.userNametag,
+        userPubkey: request.userPubkey,
+        amount: request.amount,
+        coinId: request.coinId ?? this.config.coinId,
+        receivedAmount: request.receivedAmount,
+        receivedAmounts: [...request.receivedAmounts],
+        createdAt: request.createdAt.getTime(),
+        expiresAt: request.expiresAt.getTime(),
+        retainUntil: (request.retainUntil ?? request.expiresAt).getTime(),
+        confirmed: request.confirmed,
+        paidTransferId: request.paidTransferId,
+      };
+      this.pendingPayments.set(pending.requestId, pending);
+      this.scheduleExpiry(pending);
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(`[SphereService] Restored ${stored.length} pending payment request(s)`);
+  }
+
+  // Forget a payment request once it is confirmed, rejected or past its grace window
+  private removePendingPayment(requestId: string): void {
+    this.pendingPayments.delete(requestId);
+    PaymentRequest.deleteOne({ requestId }).catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error(`[SphereService] Failed to remove payment request ${requestId}:`, error);
+    });
+  }
+
+  // Drop a request still held once the late-payment grace window after its expiry is over
+  private scheduleExpiry(pending: PendingPayment): void {
+    setTimeout(
+      () => {
+        const p = this.pendingPayments.get(pending.requestId);
+        if (p) {
+          this.removePendingPayment(pending.requestId);
+          // eslint-disable-next-line no-console
+          console.log(`[SphereService] Payment request expired: ${pending.invoiceId}`);
+        }
+      },
+      Math.max(0, pending.retainUntil - Date.now())
+    );
+  }
+
   async resolvePubkey(nametag: string): Promise<string | null> {
     if (!this.sphere) {
       throw new Error('Sphere not initialized');
@@ -369,11 +683,14 @@ export class SphereService {
     userNametag: string,
     amount: number,
     bets: BetDetail[],
-    roundNumber: number
+    roundNumber: number,
+    memo?: string,
+    coinId: string = this.config.coinId
   ): Promise<Invoice> {
     if (!this.sphere) {
       throw new Error('Sphere not initialized');
     }
+    const coin = this.coin(coinId);
 
     let recipientNametag = this.sphere.getNametag() || this.config.nametag;
     // Remove @ prefix if present - payment request should send nametag without @
@@ -383,7 +700,7 @@ export class SphereService {
 
     // eslint-disable-next-line no-console
     console.log(
-      `[SphereService] Creating invoice for @${userNametag}, amount: ${amount}, round #${roundNumber}`
+      `[SphereService] Creating invoice for @${userNametag}, amount: ${amount} ${coin.symbol}, round #${roundNumber}`
     );
     // eslint-disable-next-line no-console
     console.log(`[SphereService] recipientNametag for payment request: "${recipientNametag}"`);
@@ -397,17 +714,17 @@ export class SphereService {
     }
 
     // Format bet details for message
-    const betsStr = bets.map((b) => `#${b.digit}:${b.amount}`).join(', ');
-    const amountWithDecimals = toSmallestUnit(amount.toString()).toString();
+    const betsStr = bets.map((b) => `${BetTypeUtils.label(b)}:${b.amount}`).join(', ');
+    const amountWithDecimals = CurrencyUtils.toSmallestUnit(amount, coin.decimals).toString();
 
     // Send payment request via SDK
     const result: PaymentRequestResult = await this.sphere.payments.sendPaymentRequest(
       `@${userNametag}`,
       {
         amount: amountWithDecimals,
-        coinId: this.config.coinId,
+        coinId: coin.coinId,
         recipientNametag,
-        message: `Lottery Round #${roundNumber} - Bets: ${betsStr}`,
+        message: memo ?? `Lottery Round #${roundNumber} - Bets: ${betsStr}`,
       }
     );
 
@@ -428,33 +745,42 @@ export class SphereService {
     console.log(`[SphereService]   invoiceId: ${invoiceId}`);
 
     // Track pending payment
+    const expiresAt = Date.now() + this.config.paymentTimeoutSeconds * 1000;
     const pending: PendingPayment = {
       requestId,
       invoiceId,
       userNametag,
+      userPubkey,
       amount,
+      coinId: coin.coinId,
+      receivedAmount: 0,
+      receivedAmounts: [],
       createdAt: Date.now(),
-      expiresAt: Date.now() + this.config.paymentTimeoutSeconds * 1000,
+      expiresAt,
+      retainUntil: expiresAt + this.config.latePaymentGraceSeconds * 1000,
       confirmed: false,
+      paidTransferId: null,
     };
 
     this.pendingPayments.set(requestId, pending);
+    await PaymentRequest.create({
+      requestId,
+      invoiceId,
+      userNametag,
+      userPubkey,
+      amount,
+      coinId: coin.coinId,
+      expiresAt: new Date(pending.expiresAt),
+      retainUntil: new Date(pending.retainUntil),
+    });
     // eslint-disable-next-line no-console
     console.log(
-      `[SphereService] Added pending payment: requestId=${requestId}, amount=${amount} UCT, expires in ${this.config.paymentTimeoutSeconds}s`
+      `[SphereService] Added pending payment: requestId=${requestId}, amount=${amount} ${coin.symbol}, expires in ${this.config.paymentTimeoutSeconds}s`
     );
     // eslint-disable-next-line no-console
     console.log(`[SphereService] Total pending payments: ${this.pendingPayments.size}`);
 
-    // Set up timeout cleanup
-    setTimeout(() => {
-      const p = this.pendingPayments.get(requestId);
-      if (p && !p.confirmed) {
-        this.pendingPayments.delete(requestId);
-        // eslint-disable-next-line no-console
-        console.log(`[SphereService] Payment request expired: ${invoiceId}`);
-      }
-    }, this.config.paymentTimeoutSeconds * 1000);
+    this.scheduleExpiry(pending);
 
     return {
       invoiceId,
@@ -462,25 +788,34 @@ export class SphereService {
       recipientNametag,
       status: 'pending',
       createdAt: new Date(),
-      expiresAt: new Date(Date.now() + this.config.paymentTimeoutSeconds * 1000),
+      expiresAt: new Date(expiresAt),
     };
   }
 
-  async sendTokens(toNametag: string, amount: number): Promise<TokenTransfer> {
+  // The memo (the caller's idempotency key) travels with the transfer and is kept in the
+  // wallet history, where findSentTransfer looks it up
+  async sendTokens(
+    toNametag: string,
+    amount: number,
+    coinId: string = this.config.coinId,
+    memo?: string
+  ): Promise<TokenTransfer> {
     if (!this.sphere) {
       throw new Error('Sphere not initialized');
     }
+    const coin = this.coin(coinId);
 
     // eslint-disable-next-line no-console
-    console.log(`[SphereService] Sending ${amount} UCT to @${toNametag}...`);
+    console.log(`[SphereService] Sending ${amount} ${coin.symbol} to @${toNametag}...`);
 
-    const amountWithDecimals = toSmallestUnit(amount.toString()).toString();
+    const amountWithDecimals = CurrencyUtils.toSmallestUnit(amount, coin.decimals).toString();
 
     try {
       const result: TransferResult = await this.sphere.payments.send({
-        coinId: this.config.coinId,
+        coinId: coin.coinId,
         amount: amountWithDecimals,
         recipient: `@${toNametag}`,
+        memo,
       });
 
       // eslint-disable-next-line no-console
@@ -493,7 +828,7 @@ export class SphereService {
         status: result.status === 'completed' ? 'confirmed' : 'sent',
         createdAt: new Date(),
         transactionCount: result.tokens.length,
-        sentAmounts: result.tokens.map((t) => parseFloat(toHumanReadable(t.amount))),
+        sentAmounts: result.tokens.map((t) => this.toAmount(t.amount, coin)),
       };
     } catch (error) {
       // eslint-disable-next-line no-console
@@ -502,6 +837,34 @@ export class SphereService {
     }
   }
 
+  // A transfer this wallet sent with the given memo, from its history (null if it never went
+  // out). Throws when the history cannot be read.
+  async findSentTransfer(memo: string): Promise<{ transferId: string } | null> {
+    if (!this.sphere) {
+      throw new Error('Sphere not initialized');
+    }
+
+    const history = await this.sphere.payments.getHistory();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const entry = history.find((e: any) => e.type === 'SENT' && e.memo === memo);
+    return entry ? { transferId: entry.transferId ?? entry.id } : null;
+  }
+
+  // Confirmed balance of a lottery coin held by the agent wallet (human-readable units)
+  async getBalance(coinId: string = this.config.coinId): Promise<number> {
+    if (!this.sphere) {
+      throw new Error('Sphere not initialized');
+    }
+    const coin = this.coin(coinId);
+
+    const assets = this.sphere.payments.getBalance(coin.coinId);
+    const confirmed = assets
+      .filter((asset) => asset.coinId === coin.coinId)
+      .reduce((sum, asset) => sum + BigInt(asset.confirmedAmount), 0n);
+
+    return this.toAmount(confirmed, coin);
+  }
+
   getNametag(): string {
     return this.sphere?.getNametag() || this.config.nametag;
   }
@@ -0,0 +1,638 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import {
+  Bet,
+  PaymentLog,
+  Round,
+  Subscription,
+  IBetItem,
+  IRound,
+  ISubscription,
+} from '../models/game.model.js';
+import { GameService } from './game.service.js';
+import { PayoutQueueService } from './payout-queue.service.js';
+import { TransferService } from './transfer.service.js';
+import { sphereService } from './index.js';
+import { config } from '../env.js';
+import { BetTypeUtils } from '../utils/bet-type.js';
+import { ChannelUtils } from '../utils/channel.js';
+import { CoinUtils } from '../utils/coin.js';
+import { CurrencyUtils } from '../utils/currency.js';
+
+// Auto-bet subscriptions: a player prepays a bet pattern for the next N rounds of a channel
+// and a paid Bet is created in each round as it opens (see RoundScheduler)
+export class SubscriptionService {
+  // Create a subscription - returns invoice for the whole prepaid amount, and the token the
+  // subscriber cancels it with (only its hash is stored, so it is returned just this once)
+  static async subscribe(
+    userNametag: string,
+    bets: IBetItem[],
+    rounds: number,
+    channel: string = ChannelUtils.getDefault().name
+  ): Promise<{
+    subscription: ISubscription;
+    invoice: { invoiceId: string; amount: number };
+    cancelToken: string;
+  }> {
+    if (!bets || bets.length === 0) {
+      throw new Error('At least one bet required');
+    }
+
+    if (!Number.isInteger(rounds) || rounds < 1 || rounds > config.maxSubscriptionRounds) {
+      throw new Error(`Rounds must be between 1 and ${config.maxSubscriptionRounds}`);
+    }
+
+    // Validate the pattern against the round it will start in
+    const round = await GameService.getCurrentRound(channel);
+    const items = GameService.resolveBetItems(bets, round);
+
+    const amountPerRound = items.reduce((sum, bet) => sum + bet.amount, 0);
+    const totalAmount = amountPerRound * rounds;
+
+    const betsStr = items.map((b) => `${BetTypeUtils.label(b)}:${b.amount}`).join(', ');
+    const invoice = await sphereService.createInvoice(
+      userNametag,
+      totalAmount,
+      items,
+      round.roundNumber,
+      `Lottery auto-bet x${rounds} rounds from #${round.roundNumber} - Bets: ${betsStr}`,
+      GameService.coinIdOf(round)
+    );
+
+    const cancelToken = crypto.randomBytes(32).toString('hex');
+    const subscription = new Subscription({
+      userNametag,
+      channel: ChannelUtils.get(channel).name,
+      coinId: GameService.coinIdOf(round),
+      bets: items,
+      rounds,
+      amountPerRound,
+      totalAmount,
+      invoiceId: invoice.invoiceId,
+      status: 'pending',
+      cancelTokenHash: this.hashCancelToken(cancelToken),
+    });
+
+    await subscription.save();
+
+    // The hash stays out of responses, like any read of the subscription
+    subscription.set('cancelTokenHash', undefined);
+    return { subscription: subscription as ISubscription, invoice, cancelToken };
+  }
+
+  // Called when a payment arrives - returns null if the invoice is not a subscription's.
+  // Anything received above the invoice amount is sent back as change.
+  static async confirmPayment(
+    invoiceId: string,
+    txId: string,
+    receivedAmounts: number[] = []
+  ): Promise<{ subscription: ISubscription; accepted: boolean; refundReason?: string } | null> {
+    const subscription = await Subscription.findOneAndUpdate(
+      { invoiceId, status: 'pending' },
+      { $set: { status: 'active', paymentTxId: txId } },
+      { new: true }
+    );
+
+    if (!subscription) {
+      const existing = await Subscription.findOne({ invoiceId });
+      if (!existing) {
+        return null;
+      }
+
+      // Cancelled before it was paid - send the payment back
+      if (existing.status === 'cancelled' && !existing.paymentTxId) {
+        existing.paymentTxId = txId;
+        await existing.save();
+        await this.refund(
+          existing as ISubscription,
+          this.receivedTotal(existing as ISubscription, receivedAmounts),
+          'Subscription cancelled before payment'
+        );
+        return {
+          subscription: existing as ISubscription,
+          accepted: false,
+          refundReason: 'Subscription cancelled before payment',
+        };
+      }
+
+      return { subscription: existing as ISubscription, accepted: existing.status !== 'cancelled' };
+    }
+
+    const received = this.receivedTotal(subscription as ISubscription, receivedAmounts);
+    await GameService.logPayment({
+      type: 'incoming',
+      amount: received,
+      coinId: GameService.coinIdOf(subscription),
+      fromNametag: subscription.userNametag,
+      toNametag: config.agentNametag,
+      txId,
+      purpose: 'bet_payment',
+      metadata: {
+        subscriptionId: subscription._id.toString(),
+        channel: subscription.channel,
+        rounds: subscription.rounds,
+        bets: subscription.bets,
+        receivedAmounts: receivedAmounts.length > 0 ? receivedAmounts : [subscription.totalAmount],
+        invoiceAmount: subscription.totalAmount,
+      },
+    });
+
+    // Start with the round that is open right now
+    const round = await GameService.findOpenRound(subscription.channel);
+    if (round) {
+      await this.placeBet(subscription as ISubscription, round);
+    }
+
+    await this.refundChange(subscription as ISubscription, txId, received);
+
+    const current = await Subscription.findById(subscription._id);
+    return { subscription: (current ?? subscription) as ISubscription, accepted: true };
+  }
+
+  // Place the bets of every active subscription of a round's channel (idempotent per round)
+  static async placeForRound(round: IRound): Promise<number> {
+    if (round.status !== 'open') {
+      return 0;
+    }
+
+    const subscriptions = await Subscription.find({
+      channel: ChannelUtils.get(round.channel).name,
+      status: 'active',
+      placedRoundIds: { $ne: round._id },
+    });
+
+    let placed = 0;
+    for (const subscription of subscriptions) {
+      try {
+        if (await this.placeBet(subscription as ISubscription, round)) {
+          placed++;
+        }
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(
+          `[SubscriptionService] Failed to place subscription ${subscription._id} in round #${round.roundNumber}:`,
+          error
+        );
+      }
+    }
+
+    return placed;
+  }
+
+  // Create one round's paid bet for a subscription
+  private static async placeBet(subscription: ISubscription, round: IRound): Promise<boolean> {
+    // Re-validate: game type, coin or minimum bet may have changed since subscribing
+    let items: IBetItem[];
+    try {
+      if (GameService.coinIdOf(subscription) !== GameService.coinIdOf(round)) {
+        throw new Error(`Channel is now played in ${CoinUtils.symbol(round.coinId)}`);
+      }
+      items = GameService.resolveBetItems(subscription.bets.map(BetTypeUtils.toPlain), round);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.cancel(subscription._id.toString(), message);
+      return false;
+    }
+
+    // Skip this round if the player's stake or a number's pool share is at its limit
+    const violation = await GameService.checkStakeLimits(round, subscription.userNametag, items, {
+      includePending: false,
+    });
+    if (violation) {
+      // eslint-disable-next-line no-console
+      console.log(
+        `[SubscriptionService] Skipping subscription ${subscription._id} in round #${round.roundNumber}: ${violation}`
+      );
+      return false;
+    }
+
+    // Fixed-odds rounds: skip this round if the bankroll cannot cover it
+    if (round.settlementMode === 'fixed-odds') {
+      try {
+        await GameService.checkBankrollExposure(round, items);
+      } catch {
+        return false;
+      }
+    }
+
+    // Claim the round atomically so concurrent callers never place it twice
+    const claimed = await Subscription.findOneAndUpdate(
+      {
+        _id: subscription._id,
+        status: 'active',
+        placedRoundIds: { $ne: round._id },
+        $expr: { $lt: ['$roundsPlaced', '$rounds'] },
+      },
+      { $inc: { roundsPlaced: 1 }, $push: { placedRoundIds: round._id } },
+      { new: true }
+    );
+
+    if (!claimed) {
+      return false;
+    }
+
+    const bet = new Bet({
+      roundId: round._id,
+      roundNumber: round.roundNumber,
+      userNametag: claimed.userNametag,
+      bets: items,
+      totalAmount: claimed.amountPerRound,
+      coinId: GameService.coinIdOf(claimed as ISubscription),
+      invoiceId: `${claimed.invoiceId}:${round._id.toString()}`,
+      subscriptionId: claimed._id,
+      paymentStatus: 'paid',
+      paymentTxId: claimed.paymentTxId,
+    });
+
+    await bet.save();
+
+    await Round.findByIdAndUpdate(round._id, {
+      $inc: { totalPool: claimed.amountPerRound },
+    });
+
+    if (claimed.roundsPlaced >= claimed.rounds) {
+      await Subscription.updateOne(
+        { _id: claimed._id, status: 'active' },
+        { $set: { status: 'completed' } }
+      );
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(
+      `[SubscriptionService] Placed @${claimed.userNametag} subscription in round #${round.roundNumber} (${claimed.roundsPlaced}/${claimed.rounds})`
+    );
+
+    return true;
+  }
+
+  // Cancel a subscription for the player holding its cancel token (nametags are public, so
+  // naming the subscriber proves nothing). A wrong token reads as an unknown subscription.
+  static async cancelWithToken(
+    subscriptionId: string,
+    cancelToken: string
+  ): Promise<ISubscription> {
+    const owned =
+      mongoose.Types.ObjectId.isValid(subscriptionId) &&
+      (await Subscription.exists({
+        _id: subscriptionId,
+        cancelTokenHash: this.hashCancelToken(cancelToken),
+      }));
+    if (!owned) {
+      throw new Error('Subscription not found');
+    }
+
+    return this.cancel(subscriptionId);
+  }
+
+  // Cancel a subscription and refund the rounds that have not been placed yet
+  static async cancel(
+    subscriptionId: string,
+    reason = 'Cancelled by player'
+  ): Promise<ISubscription> {
+    if (!mongoose.Types.ObjectId.isValid(subscriptionId)) {
+      throw new Error('Subscription not found');
+    }
+
+    const subscription = await Subscription.findOneAndUpdate(
+      { _id: subscriptionId, status: { $in: ['pending', 'active'] } },
+      { $set: { status: 'cancelled', cancelReason: reason } },
+      { new: true }
+    );
+
+    if (!subscription) {
+      const existing = await Subscription.findById(subscriptionId);
+      if (!existing) {
+        throw new Error('Subscription not found');
+      }
+      throw new Error(`Subscription is already ${existing.status}`);
+    }
+
+    // Unpaid subscriptions have nothing to refund
+    const unused = subscription.paymentTxId
+      ? (subscription.rounds - subscription.roundsPlaced) * subscription.amountPerRound
+      : 0;
+    if (unused > 0) {
+      await this.refund(subscription as ISubscription, unused, reason);
+    }
+
+    return subscription as ISubscription;
+  }
+
+  private static hashCancelToken(cancelToken: string): string {
+    return crypto.createHash('sha256').update(cancelToken).digest('hex');
+  }
+
+  // Total received for a subscription's invoice: the transfer's tokens or, when the wallet did
+  // not report them, the invoice amount
+  private static receivedTotal(subscription: ISubscription, receivedAmounts: number[]): number {
+    if (receivedAmounts.length === 0) {
+      return subscription.totalAmount;
+    }
+    return CurrencyUtils.round(receivedAmounts.reduce((sum, amount) => sum + amount, 0));
+  }
+
+  // Send back what was paid above the invoice amount
+  private static async refundChange(
+    subscription: ISubscription,
+    txId: string,
+    received: number
+  ): Promise<void> {
+    const change = CurrencyUtils.round(received - subscription.totalAmount);
+    if (change <= 0) {
+      return;
+    }
+
+    try {
+      // eslint-disable-next-line no-console
+      console.log(
+        `[SubscriptionService] Overpayment of ${change} ${CoinUtils.symbol(subscription.coinId)} on invoice ${subscription.invoiceId}, returning change to @${subscription.userNametag}`
+      );
+
+      const transfer = await TransferService.send(
+        `subscription-change:${subscription._id}`,
+        'overpayment_change',
+        subscription.userNametag,
+        change,
+        GameService.coinIdOf(subscription)
+      );
+
+      await GameService.logPayment({
+        type: 'outgoing',
+        amount: change,
+        coinId: GameService.coinIdOf(subscription),
+        fromNametag: config.agentNametag,
+        toNametag: subscription.userNametag,
+        txId: transfer.transferId,
+        purpose: 'overpayment_change',
+        metadata: {
+          subscriptionId: subscription._id.toString(),
+          paymentTxId: txId,
+          invoiceAmount: subscription.totalAmount,
+          receivedAmount: received,
+          transactionCount: transfer.transactionCount,
+          sentAmounts: transfer.sentAmounts,
+        },
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`[SubscriptionService] Change refund failed:`, error);
+    }
+  }
+
+  // Send part of a subscription's payment back to the player (once). As with bets, the refund
+  // is recorded as pending first, so a transfer that fails is retried by retryRefunds.
+  private static async refund(
+    subscription: ISubscription,
+    amount: number,
+    reason: string
+  ): Promise<void> {
+    const recorded = await Subscription.findOneAndUpdate(
+      { _id: subscription._id, refundStatus: 'none' },
+      {
+        $set: {
+          refundStatus: 'pending',
+          refundedAmount: amount,
+          refundReason: reason,
+          refundAttempts: 0,
+          refundNextAttemptAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!recorded) {
+      return;
+    }
+
+    await this.sendRefund(recorded as ISubscription);
+  }
+
+  // Send a pending refund, claimed first so it is never sent twice; a failed transfer goes
+  // back to pending with backoff, or to failed after config.refundMaxAttempts. Returns the
+  // resulting refund status (null if another worker had already claimed it).
+  private static async sendRefund(
+    subscription: ISubscription
+  ): Promise<ISubscription['refundStatus'] | null> {
+    const claimed = await Subscription.findOneAndUpdate(
+      { _id: subscription._id, refundStatus: 'pending' },
+      { $set: { refundStatus: 'sent' }, $inc: { refundAttempts: 1 } },
+      { new: true }
+    );
+    if (!claimed) {
+      return null;
+    }
+
+    const reason = claimed.refundReason ?? 'Refund';
+    try {
+      // eslint-disable-next-line no-console
+      console.log(
+        `[SubscriptionService] Refunding ${claimed.refundedAmount} ${CoinUtils.symbol(claimed.coinId)} to @${claimed.userNametag}: ${reason}`
+      );
+
+      const transfer = await TransferService.send(
+        this.refundKey(claimed as ISubscription),
+        'refund',
+        claimed.userNametag,
+        claimed.refundedAmount,
+        GameService.coinIdOf(claimed as ISubscription)
+      );
+      await Subscription.updateOne(
+        { _id: claimed._id },
+        {
+          $set: {
+            refundStatus: 'confirmed',
+            refundTxId: transfer.transferId,
+            refundNextAttemptAt: null,
+            refundLastError: null,
+          },
+        }
+      );
+
+      await GameService.logPayment({
+        type: 'outgoing',
+        amount: claimed.refundedAmount,
+        coinId: GameService.coinIdOf(claimed as ISubscription),
+        fromNametag: config.agentNametag,
+        toNametag: claimed.userNametag,
+        txId: transfer.transferId,
+        purpose: 'refund',
+        metadata: {
+          reason,
+          subscriptionId: claimed._id.toString(),
+          roundsPlaced: claimed.roundsPlaced,
+          rounds: claimed.rounds,
+          attempts: claimed.refundAttempts,
+          transactionCount: transfer.transactionCount,
+          wasSplit: transfer.transactionCount > 1,
+          sentAmounts: transfer.sentAmounts,
+        },
+      });
+
+      // eslint-disable-next-line no-console
+      console.log(`[SubscriptionService] Refund sent: ${transfer.transferId}`);
+      return 'confirmed';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const failed = claimed.refundAttempts >= config.refundMaxAttempts;
+
+      // eslint-disable-next-line no-console
+      console.error(
+        `[SubscriptionService] Refund failed (attempt ${claimed.refundAttempts}/${config.refundMaxAttempts}):`,
+        error
+      );
+
+      await Subscription.updateOne(
+        { _id: claimed._id },
+        {
+          $set: failed
+            ? { refundStatus: 'failed', refundNextAttemptAt: null, refundLastError: message }
+            : {
+                refundStatus: 'pending',
+                refundNextAttemptAt: new Date(
+                  Date.now() + PayoutQueueService.backoffMs(claimed.refundAttempts)
+                ),
+                refundLastError: message,
+              },
+        }
+      );
+      return failed ? 'failed' : 'pending';
+    }
+  }
+
+  // Retry pending refunds whose backoff has elapsed
+  static async retryRefunds(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+    const due = await Subscription.find({
+      refundStatus: 'pending',
+      refundNextAttemptAt: { $lte: now },
+    }).sort({ refundNextAttemptAt: 1 });
+
+    let sent = 0;
+    let failed = 0;
+    for (const subscription of due) {
+      const status = await this.sendRefund(subscription as ISubscription);
+      if (status === 'confirmed') {
+        sent++;
+      } else if (status !== null) {
+        failed++;
+      }
+    }
+    return { sent, failed };
+  }
+
+  // Refunds that have not been confirmed (pending, in flight or failed), oldest first
+  static async getStuckRefunds(
+    status?: Exclude<ISubscription['refundStatus'], 'none' | 'confirmed'>,
+    limit = 100
+  ): Promise<ISubscription[]> {
+    return Subscription.find({ refundStatus: status ?? { $in: ['pending', 'sent', 'failed'] } })
+      .sort({ updatedAt: 1 })
+      .limit(limit);
+  }
+
+  // Give a failed refund a fresh set of attempts and send it right away (see
+  // GameService.retryRefund - an in-doubt refund is released for resending)
+  static async retryRefund(subscriptionId: string): Promise<ISubscription> {
+    if (!mongoose.Types.ObjectId.isValid(subscriptionId)) {
+      throw new Error('Subscription not found');
+    }
+
+    const subscription = await Subscription.findOneAndUpdate(
+      { _id: subscriptionId, refundStatus: 'failed' },
+      { $set: { refundStatus: 'pending', refundAttempts: 0, refundNextAttemptAt: new Date() } },
+      { new: true }
+    );
+
+    if (!subscription) {
+      const existing = await Subscription.findById(subscriptionId);
+      if (!existing) {
+        throw new Error('Subscription not found');
+      }
+      throw new Error(`Refund is ${existing.refundStatus}, only failed refunds can be retried`);
+    }
+
+    await TransferService.release(this.refundKey(subscription as ISubscription));
+    await this.sendRefund(subscription as ISubscription);
+    return (await Subscription.findById(subscriptionId)) as ISubscription;
+  }
+
+  // Settle refunds that were being sent when the process stopped, from their outgoing
+  // transfer records (see GameService.recoverInterruptedRefunds)
+  static async recoverInterruptedRefunds(): Promise<{
+    confirmed: number;
+    requeued: number;
+    inDoubt: number;
+  }> {
+    const subscriptions = await Subscription.find({ refundStatus: 'sent' });
+    let confirmed = 0;
+    let requeued = 0;
+    let inDoubt = 0;
+
+    for (const subscription of subscriptions) {
+      const record = await TransferService.resolve(this.refundKey(subscription as ISubscription));
+
+      if (record && (record.status === 'sent' || record.status === 'confirmed')) {
+        await Subscription.updateOne(
+          { _id: subscription._id },
+          {
+            $set: {
+              refundStatus: 'confirmed',
+              refundTxId: record.transferId,
+              refundNextAttemptAt: null,
+              refundLastError: null,
+            },
+          }
+        );
+        if (!(await PaymentLog.exists({ txId: record.transferId, purpose: 'refund' }))) {
+          await GameService.logPayment({
+            type: 'outgoing',
+            amount: record.amount,
+            coinId: GameService.coinIdOf(subscription as ISubscription),
+            fromNametag: config.agentNametag,
+            toNametag: subscription.userNametag,
+            txId: record.transferId!,
+            purpose: 'refund',
+            metadata: {
+              reason: subscription.refundReason,
+              subscriptionId: subscription._id.toString(),
+              attempts: subscription.refundAttempts,
+              transactionCount: record.transactionCount,
+              wasSplit: record.transactionCount > 1,
+              sentAmounts: record.sentAmounts,
+              recovered: true,
+            },
+          });
+        }
+        confirmed++;
+      } else if (!record || record.status === 'failed') {
+        await Subscription.updateOne(
+          { _id: subscription._id },
+          { $set: { refundStatus: 'pending', refundNextAttemptAt: new Date() } }
+        );
+        requeued++;
+      } else {
+        await Subscription.updateOne(
+          { _id: subscription._id },
+          {
+            $set: {
+              refundStatus: 'failed',
+              refundNextAttemptAt: null,
+              refundLastError:
+                'Refund outcome unknown after a restart - check the wallet before retrying',
+            },
+          }
+        );
+        inDoubt++;
+      }
+    }
+
+    return { confirmed, requeued, inDoubt };
+  }
+
+  private static refundKey(subscription: ISubscription): string {
+    return `subscription-refund:${subscription._id}`;
+  }
+
+  // Get a player's subscriptions, newest first
+  static async getUserSubscriptions(userNametag: string, limit = 20): Promise<ISubscription[]> {
+    return Subscription.find({ userNametag }).sort({ createdAt: -1 }).limit(limit);
+  }
+}
@@ -0,0 +1,177 @@
+import { OutgoingTransfer, IOutgoingTransfer, PaymentPurpose } from '../models/game.model.js';
+import { sphereService } from './index.js';
+import type { TokenTransfer } from './sphere.service.js';
+import { CoinUtils } from '../utils/coin.js';
+
+// Sends tokens under a stable idempotency key so a transfer is never paid twice. A key that
+// already went out returns the recorded transfer instead of sending again, and a key whose
+// outcome is unknown (the process stopped mid-send) is refused until it has been resolved.
+// The key is sent as the transfer memo, so the wallet history can tell whether it went out.
+// A failed send may have failed after the transfer was submitted, so it is not taken as
+// failed: the record stays in sending with the error, and the next send of the key checks
+// the wallet history before sending again.
+export class TransferService {
+  static async send(
+    idempotencyKey: string,
+    purpose: PaymentPurpose,
+    toNametag: string,
+    amount: number,
+    coinId: string = CoinUtils.getDefault().coinId
+  ): Promise<TokenTransfer> {
+    const existing = await this.findSettled(idempotencyKey);
+
+    if (
+      existing &&
+      (existing.toNametag !== toNametag ||
+        existing.amount !== amount ||
+        (existing.coinId ?? CoinUtils.getDefault().coinId) !== coinId)
+    ) {
+      throw new Error(`Idempotency key ${idempotencyKey} was already used for another transfer`);
+    }
+
+    if (existing && (existing.status === 'sent' || existing.status === 'confirmed')) {
+      // eslint-disable-next-line no-console
+      console.log(
+        `[TransferService] ${idempotencyKey} was already sent (${existing.transferId}), not sending again`
+      );
+      return this.toTokenTransfer(existing as IOutgoingTransfer);
+    }
+
+    const claimed = existing
+      ? await OutgoingTransfer.findOneAndUpdate(
+          { _id: existing._id, status: 'failed' },
+          { $set: { status: 'sending', lastError: null }, $inc: { attempts: 1 } },
+          { new: true }
+        )
+      : await this.create(idempotencyKey, purpose, toNametag, amount, coinId);
+    if (!claimed) {
+      throw new Error(`Transfer ${idempotencyKey} is in progress or its outcome is unknown`);
+    }
+
+    try {
+      const transfer = await sphereService.sendTokens(toNametag, amount, coinId, idempotencyKey);
+
+      await OutgoingTransfer.updateOne(
+        { _id: claimed._id },
+        {
+          $set: {
+            status: transfer.status === 'confirmed' ? 'confirmed' : 'sent',
+            transferId: transfer.transferId,
+            transactionCount: transfer.transactionCount,
+            sentAmounts: transfer.sentAmounts,
+          },
+        }
+      );
+
+      return transfer;
+    } catch (error) {
+      // Still sending (in doubt) - the error may have come after the transfer went out
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await OutgoingTransfer.updateOne({ _id: claimed._id }, { $set: { lastError: message } });
+      throw error;
+    }
+  }
+
+  static async find(idempotencyKey: string): Promise<IOutgoingTransfer | null> {
+    return OutgoingTransfer.findOne({ idempotencyKey });
+  }
+
+  // The record of a key, settled from the wallet history when its last attempt ended in an
+  // error (one still in flight has no error yet and is left alone)
+  static async findSettled(idempotencyKey: string): Promise<IOutgoingTransfer | null> {
+    const record = await OutgoingTransfer.findOne({ idempotencyKey });
+    if (record && record.status === 'sending' && record.lastError !== null) {
+      return this.resolve(idempotencyKey);
+    }
+    return record as IOutgoingTransfer | null;
+  }
+
+  // Settle a transfer left in sending by a restart or a failed send from the wallet history:
+  // found under its key -> sent, not found -> failed (safe to send again). It stays in doubt
+  // when the history cannot be read. Returns the record as it stands afterwards.
+  static async resolve(idempotencyKey: string): Promise<IOutgoingTransfer | null> {
+    const record = await OutgoingTransfer.findOne({ idempotencyKey });
+    if (!record || record.status !== 'sending') {
+      return record as IOutgoingTransfer | null;
+    }
+
+    let sent: { transferId: string } | null;
+    try {
+      sent = await sphereService.findSentTransfer(idempotencyKey);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`[TransferService] Could not check the wallet for ${idempotencyKey}:`, error);
+      return record as IOutgoingTransfer;
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(
+      `[TransferService] ${idempotencyKey} ${sent ? `went out (${sent.transferId})` : 'never left the wallet'}`
+    );
+
+    // The history does not tell how the amount was split into tokens
+    const resolved = await OutgoingTransfer.findOneAndUpdate(
+      { _id: record._id, status: 'sending' },
+      {
+        $set: sent
+          ? {
+              status: 'sent',
+              transferId: sent.transferId,
+              transactionCount: 1,
+              sentAmounts: [record.amount],
+            }
+          : {
+              status: 'failed',
+              lastError: record.lastError ?? 'Not found in the wallet history after a restart',
+            },
+      },
+      { new: true }
+    );
+    return (resolved ?? (await OutgoingTransfer.findById(record._id))) as IOutgoingTransfer | null;
+  }
+
+  // Allow a transfer whose outcome was unknown to be sent again. Only for operators who have
+  // checked the wallet and found that the tokens never left it.
+  static async release(idempotencyKey: string): Promise<boolean> {
+    const result = await OutgoingTransfer.updateOne(
+      { idempotencyKey, status: 'sending' },
+      { $set: { status: 'failed', lastError: 'Released for resend by an operator' } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  // Transfers started but never recorded as finished
+  static async inDoubt(): Promise<IOutgoingTransfer[]> {
+    return OutgoingTransfer.find({ status: 'sending' }).sort({ createdAt: 1 });
+  }
+
+  static toTokenTransfer(record: IOutgoingTransfer): TokenTransfer {
+    return {
+      transferId: record.transferId!,
+      toNametag: record.toNametag,
+      amount: record.amount,
+      status: record.status === 'confirmed' ? 'confirmed' : 'sent',
+      createdAt: record.createdAt,
+      transactionCount: record.transactionCount,
+      sentAmounts: record.sentAmounts,
+    };
+  }
+
+  // Record the key before sending; a duplicate key means another caller got there first
+  private static async create(
+    idempotencyKey: string,
+    purpose: PaymentPurpose,
+    toNametag: string,
+    amount: number,
+    coinId: string
+  ): Promise<IOutgoingTransfer | null> {
+    try {
+      return await OutgoingTransfer.create({ idempotencyKey, purpose, toNametag, amount, coinId });
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && (error as { code: number }).code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,308 @@
+import mongoose from 'mongoose';
+import {
+  Bet,
+  PaymentLog,
+  UnmatchedTransfer,
+  IBet,
+  IUnmatchedTransfer,
+  PaymentPurpose,
+} from '../models/game.model.js';
+import { GameService } from './game.service.js';
+import { TransferService } from './transfer.service.js';
+import type { UnmatchedTransferInfo } from './sphere.service.js';
+import { config } from '../env.js';
+import { CurrencyUtils } from '../utils/currency.js';
+import { CoinUtils } from '../utils/coin.js';
+
+// Inbound transfers that matched no pending payment request. Each is stored and logged; under
+// UNMATCHED_TRANSFER_POLICY=refund it is sent straight back when the sender's nametag is known,
+// otherwise it waits in the inbox until an operator attaches it to a bet, refunds it or writes
+// it off to commission. Every resolution is logged under the transfer's txId.
+
+// Incoming log purposes that book a transfer as (part of) a payment
+const BOOKED_PURPOSES: PaymentPurpose[] = ['bet_payment', 'partial_payment'];
+
+export class UnmatchedTransferService {
+  // Store a transfer and log it - or skip it (null) when a payment already books its txId,
+  // e.g. one that was matched after all or confirmed by its payment request response
+  static async record(info: UnmatchedTransferInfo): Promise<IUnmatchedTransfer | null> {
+    const existing = await UnmatchedTransfer.findOne({ txId: info.txId });
+    if (existing) {
+      return existing as IUnmatchedTransfer;
+    }
+    const booked = await this.bookedAs(info.txId);
+    if (booked) {
+      // eslint-disable-next-line no-console
+      console.log(`[UnmatchedTransfer] Skipping tx ${info.txId} - already booked as ${booked}`);
+      return null;
+    }
+
+    const stored = await UnmatchedTransfer.create({
+      txId: info.txId,
+      senderPubkey: info.senderPubkey,
+      senderNametag: info.senderNametag,
+      amount: info.amount,
+      coinId: info.coinId,
+      tokenCount: info.tokenCount,
+      receivedAmounts: info.receivedAmounts,
+      memo: info.memo,
+    });
+
+    await GameService.logPayment({
+      type: 'incoming',
+      amount: info.amount,
+      coinId: info.coinId,
+      fromNametag: info.senderNametag,
+      toNametag: config.agentNametag,
+      txId: info.txId,
+      purpose: 'unmatched_transfer',
+      metadata: {
+        senderPubkey: info.senderPubkey,
+        memo: info.memo,
+        tokenCount: info.tokenCount,
+        receivedAmounts: info.receivedAmounts,
+      },
+    });
+
+    // eslint-disable-next-line no-console
+    console.log(
+      `[UnmatchedTransfer] Stored ${info.amount} ${CoinUtils.symbol(info.coinId)} from ${info.senderNametag ? `@${info.senderNametag}` : 'an unknown sender'} (tx ${info.txId})`
+    );
+
+    if (config.unmatchedTransferPolicy === 'refund' && stored.senderNametag) {
+      return this.sendBack(stored as IUnmatchedTransfer, stored.senderNametag);
+    }
+
+    return stored as IUnmatchedTransfer;
+  }
+
+  // Book a held transfer as the payment of a bet. It goes through the regular payment flow,
+  // so a bet that can no longer be accepted is refunded to its player and one the transfer
+  // does not cover in full is treated as a partial payment.
+  static async attach(id: string, betId: string, note?: string): Promise<IUnmatchedTransfer> {
+    if (!mongoose.Types.ObjectId.isValid(betId)) {
+      throw new Error('Bet not found');
+    }
+    const bet = await Bet.findById(betId);
+    if (!bet) {
+      throw new Error('Bet not found');
+    }
+    if (bet.paymentStatus === 'paid' || bet.paymentStatus === 'refunded') {
+      throw new Error(`Bet is already ${bet.paymentStatus}`);
+    }
+    const pending = await this.find(id);
+    if (GameService.coinIdOf(pending) !== GameService.coinIdOf(bet as IBet)) {
+      throw new Error(
+        `Transfer is in ${CoinUtils.symbol(pending.coinId)}, the bet in ${CoinUtils.symbol(bet.coinId)}`
+      );
+    }
+
+    const transfer = await this.claim(id, 'attached', {
+      betId: bet._id,
+      note: note ?? null,
+    });
+
+    try {
+      await GameService.logPayment({
+        type: 'incoming',
+        amount: transfer.amount,
+        coinId: GameService.coinIdOf(transfer),
+        fromNametag: transfer.senderNametag,
+        toNametag: config.agentNametag,
+        txId: transfer.txId,
+        relatedBetId: bet._id as mongoose.Types.ObjectId,
+        relatedRoundId: bet.roundId,
+        purpose: 'unmatched_attached',
+        metadata: { invoiceId: bet.invoiceId, betOwner: bet.userNametag, note: note ?? null },
+      });
+
+      const outstanding = CurrencyUtils.round(bet.totalAmount - bet.receivedAmount);
+      if (transfer.amount < outstanding) {
+        await GameService.recordPartialPayment(
+          bet.invoiceId,
+          transfer.txId,
+          transfer.amount,
+          transfer.tokenCount,
+          transfer.receivedAmounts
+        );
+      } else {
+        // Partial transfers already held on the bet count towards it
+        const held = bet.receivedAmount > 0 ? [bet.receivedAmount] : [];
+        await GameService.confirmPayment(
+          bet.invoiceId,
+          transfer.txId,
+          held.length + transfer.tokenCount,
+          [...held, ...transfer.receivedAmounts]
+        );
+      }
+    } catch (error) {
+      // Not booked - back to the inbox
+      await UnmatchedTransfer.updateOne(
+        { _id: transfer._id },
+        { $set: { status: 'pending', betId: null, resolvedAt: null } }
+      );
+      throw error;
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(`[UnmatchedTransfer] Attached tx ${transfer.txId} to bet ${bet._id}`);
+    return (await UnmatchedTransfer.findById(transfer._id)) as IUnmatchedTransfer;
+  }
+
+  // Send a held transfer back - to its sender, or to the nametag an operator identified
+  static async refund(id: string, toNametag?: string): Promise<IUnmatchedTransfer> {
+    const transfer = await this.find(id);
+
+    const recipient = toNametag?.replace(/^@/, '') || transfer.senderNametag;
+    if (!recipient) {
+      throw new Error('Sender nametag unknown - a nametag to refund to is required');
+    }
+
+    return this.sendBack(transfer, recipient);
+  }
+
+  // Keep a held transfer as house commission in its coin
+  static async writeOff(id: string, note?: string): Promise<IUnmatchedTransfer> {
+    const transfer = await this.claim(id, 'written_off', { note: note ?? null });
+
+    await GameService.addCommission(transfer.amount, GameService.coinIdOf(transfer));
+    await GameService.logPayment({
+      type: 'incoming',
+      amount: transfer.amount,
+      coinId: GameService.coinIdOf(transfer),
+      fromNametag: transfer.senderNametag,
+      toNametag: config.agentNametag,
+      txId: transfer.txId,
+      purpose: 'unmatched_write_off',
+      metadata: { senderPubkey: transfer.senderPubkey, note: note ?? null },
+    });
+
+    // eslint-disable-next-line no-console
+    console.log(
+      `[UnmatchedTransfer] Wrote off ${transfer.amount} ${CoinUtils.symbol(transfer.coinId)} from tx ${transfer.txId} to commission`
+    );
+    return transfer;
+  }
+
+  // Transfers by status, oldest first
+  static async list(
+    status?: IUnmatchedTransfer['status'],
+    limit = 100
+  ): Promise<IUnmatchedTransfer[]> {
+    return UnmatchedTransfer.find(status ? { status } : {})
+      .sort({ createdAt: 1 })
+      .limit(limit);
+  }
+
+  private static async find(id: string): Promise<IUnmatchedTransfer> {
+    const transfer = mongoose.Types.ObjectId.isValid(id)
+      ? await UnmatchedTransfer.findById(id)
+      : null;
+    if (!transfer) {
+      throw new Error('Unmatched transfer not found');
+    }
+    return transfer as IUnmatchedTransfer;
+  }
+
+  // Purpose of the incoming log that books a transfer as a payment, if any
+  private static async bookedAs(txId: string): Promise<PaymentPurpose | null> {
+    const log = await PaymentLog.findOne({
+      txId,
+      type: 'incoming',
+      purpose: { $in: BOOKED_PURPOSES },
+    });
+    return log ? log.purpose : null;
+  }
+
+  // Resolve a held transfer exactly once
+  private static async claim(
+    id: string,
+    status: 'attached' | 'written_off',
+    fields: Partial<Pick<IUnmatchedTransfer, 'betId' | 'note'>>
+  ): Promise<IUnmatchedTransfer> {
+    const existing = await this.find(id);
+    const claimed = await UnmatchedTransfer.findOneAndUpdate(
+      { _id: existing._id, status: 'pending' },
+      { $set: { ...fields, status, resolvedAt: new Date() } },
+      { new: true }
+    );
+    if (!claimed) {
+      throw new Error(`Unmatched transfer is already ${existing.status}`);
+    }
+    return claimed as IUnmatchedTransfer;
+  }
+
+  // Claim a held transfer for refunding (so it is sent back once) unless a payment has booked
+  // it meanwhile, send it, then mark it refunded - or return it to the inbox with the error when the transfer fails
+  private static async sendBack(
+    pending: IUnmatchedTransfer,
+    toNametag: string
+  ): Promise<IUnmatchedTransfer> {
+    // Booked since it was stored - sending it back would refund a paid bet
+    const booked = await this.bookedAs(pending.txId);
+    if (booked) {
+      throw new Error(`Transfer ${pending.txId} is already booked as ${booked}`);
+    }
+
+    const transfer = await UnmatchedTransfer.findOneAndUpdate(
+      { _id: pending._id, status: 'pending' },
+      { $set: { status: 'refunding' } },
+      { new: true }
+    );
+    if (!transfer) {
+      const current = await this.find(pending._id.toString());
+      throw new Error(`Unmatched transfer is already ${current.status}`);
+    }
+
+    try {
+      const sent = await TransferService.send(
+        `unmatched-refund:${transfer.txId}`,
+        'unmatched_refund',
+        toNametag,
+        transfer.amount,
+        GameService.coinIdOf(transfer)
+      );
+
+      await UnmatchedTransfer.updateOne(
+        { _id: transfer._id, status: 'refunding' },
+        {
+          $set: {
+            status: 'refunded',
+            refundTxId: sent.transferId,
+            lastError: null,
+            resolvedAt: new Date(),
+          },
+        }
+      );
+
+      await GameService.logPayment({
+        type: 'outgoing',
+        amount: transfer.amount,
+        coinId: GameService.coinIdOf(transfer),
+        fromNametag: config.agentNametag,
+        toNametag,
+        txId: sent.transferId,
+        purpose: 'unmatched_refund',
+        metadata: {
+          unmatchedTxId: transfer.txId,
+          senderNametag: transfer.senderNametag,
+          transactionCount: sent.transactionCount,
+          sentAmounts: sent.sentAmounts,
+        },
+      });
+
+      // eslint-disable-next-line no-console
+      console.log(`[UnmatchedTransfer] Refunded tx ${transfer.txId} to @${toNametag}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      // eslint-disable-next-line no-console
+      console.error(`[UnmatchedTransfer] Refund of tx ${transfer.txId} failed:`, error);
+      await UnmatchedTransfer.updateOne(
+        { _id: transfer._id, status: 'refunding' },
+        { $set: { status: 'pending', lastError: message } }
+      );
+    }
+
+    return (await UnmatchedTransfer.findById(transfer._id)) as IUnmatchedTransfer;
+  }
+}
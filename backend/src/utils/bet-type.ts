@@ -0,0 +1,120 @@
+/**
+ * Bet Type Utilities
+ *
+ * A bet item either picks a single number ('number', the default) or covers a
+ * group of outcomes: odd, even, low (bottom half of the range), high (top half)
+ * or a custom set. Group bets are stored with the numbers they cover resolved
+ * against the round's range, so settlement only needs a membership check.
+ */
+
+export type BetType = 'number' | 'odd' | 'even' | 'low' | 'high' | 'set';
+
+export const BET_TYPES: BetType[] = ['number', 'odd', 'even', 'low', 'high', 'set'];
+
+// Bet item fields shared by stored bets, invoices and fairness digests
+export interface BetSelection {
+  betType?: BetType;
+  digit?: number;
+  digits?: number[];
+  amount: number;
+}
+
+const isGroup = (item: BetSelection): boolean => !!item.betType && item.betType !== 'number';
+
+export const BetTypeUtils = {
+  /**
+   * Validate a bet type name (missing means a single-number bet)
+   */
+  parse: (value: string | undefined): BetType => {
+    if (value === undefined) {
+      return 'number';
+    }
+    if (!BET_TYPES.includes(value as BetType)) {
+      throw new Error(`Unknown bet type: ${value}`);
+    }
+    return value as BetType;
+  },
+
+  isGroup,
+
+  /**
+   * Numbers covered by a group bet in a game with the given range
+   * e.g., odd in pick-1 -> [1, 3, 5, 7, 9], low in pick-2 -> [0..49]
+   */
+  resolveGroup: (betType: BetType, range: number, digits: number[] = []): number[] => {
+    const all = Array.from({ length: range }, (_, n) => n);
+    switch (betType) {
+      case 'odd':
+        return all.filter((n) => n % 2 === 1);
+      case 'even':
+        return all.filter((n) => n % 2 === 0);
+      case 'low':
+        return all.filter((n) => n < range / 2);
+      case 'high':
+        return all.filter((n) => n >= range / 2);
+      case 'set': {
+        const unique = [...new Set(digits)].sort((a, b) => a - b);
+        if (
+          unique.length < 2 ||
+          unique.length >= range ||
+          unique.some((n) => !Number.isInteger(n) || n < 0 || n >= range)
+        ) {
+          throw new Error(`Set must contain 2 to ${range - 1} distinct numbers in range`);
+        }
+        return unique;
+      }
+      default:
+        throw new Error(`Not a group bet type: ${betType}`);
+    }
+  },
+
+  /**
+   * Numbers a bet item wins on
+   */
+  coveredNumbers: (item: BetSelection): number[] => {
+    return isGroup(item) ? (item.digits ?? []) : [item.digit!];
+  },
+
+  /**
+   * How many outcomes a bet item covers (1 for a single number)
+   */
+  coverage: (item: BetSelection): number => {
+    return BetTypeUtils.coveredNumbers(item).length;
+  },
+
+  /**
+   * Whether a bet item wins on the given number
+   */
+  covers: (item: BetSelection, winningNumber: number): boolean => {
+    return BetTypeUtils.coveredNumbers(item).includes(winningNumber);
+  },
+
+  /**
+   * Canonical form used in digests and Merkle leaves.
+   * Single-number bets keep the original [digit, amount] so earlier commitments still verify.
+   */
+  canonical: (item: BetSelection): (string | number | number[])[] => {
+    return isGroup(item)
+      ? [item.betType!, item.digits ?? [], item.amount]
+      : [item.digit!, item.amount];
+  },
+
+  /**
+   * Plain bet item without schema defaults ({digit, amount} for single-number bets)
+   */
+  toPlain: (item: BetSelection): BetSelection => {
+    return isGroup(item)
+      ? { betType: item.betType, digits: [...(item.digits ?? [])], amount: item.amount }
+      : { digit: item.digit, amount: item.amount };
+  },
+
+  /**
+   * Short human-readable label, e.g. "#7", "odd", "set{1,2,3}"
+   */
+  label: (item: BetSelection): string => {
+    if (!isGroup(item)) {
+      return `#${item.digit}`;
+    }
+    return item.betType === 'set' ? `set{${(item.digits ?? []).join(',')}}` : item.betType!;
+  },
+};
@@ -0,0 +1,155 @@
+/**
+ * Channel Utilities
+ *
+ * A channel is an independent round stream with its own open round, round
+ * duration, house fee, minimum bet and coin, e.g. "quick" every 5 minutes next
+ * to "hourly". A channel is played in exactly one coin - to offer several coins,
+ * configure a channel per coin. Channels are configured as
+ * CHANNELS="name:durationSeconds[:houseFeePercent[:minBet[:coin]]],..."; without
+ * it a single "default" channel uses ROUND_DURATION_SECONDS, HOUSE_FEE_PERCENT,
+ * MIN_BET and the default coin. The first channel also serves the unscoped
+ * /api/game/... routes.
+ */
+
+import { config } from '../env.js';
+import { CoinUtils } from './coin.js';
+
+export interface ChannelConfig {
+  name: string;
+  roundDurationSeconds: number;
+  houseFeePercent: number;
+  minBet: number;
+  // Symbol of the coin the channel's rounds are played in
+  coin: string;
+}
+
+export const DEFAULT_CHANNEL_NAME = 'default';
+
+// Smallest minimum bet: bet items and bets are stored with amounts of at least 1
+const MIN_BET_FLOOR = 1;
+
+// Lowercase slug, at most 32 characters
+const CHANNEL_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+// First path segments of the unscoped routes, which a channel name would shadow
+const RESERVED_NAMES = [
+  'round',
+  'bet',
+  'bets',
+  'history',
+  'stats',
+  'validate',
+  'commission',
+  'channels',
+  'subscriptions',
+  'play',
+];
+
+export const ChannelUtils = {
+  /**
+   * Parse a channel list, e.g. "quick:300:5:1,hourly:3600::10:USDU"
+   * (omitted fee, minimum bet and coin fall back to the given defaults; a minimum
+   * bet is at least 1)
+   */
+  parse: (spec: string, defaults: Omit<ChannelConfig, 'name'>): ChannelConfig[] => {
+    if (!spec.trim()) {
+      if (!(defaults.minBet >= MIN_BET_FLOOR)) {
+        throw new Error(
+          `Invalid minimum bet: ${defaults.minBet} (must be at least ${MIN_BET_FLOOR})`
+        );
+      }
+      return [{ name: DEFAULT_CHANNEL_NAME, ...defaults }];
+    }
+
+    const channels = spec.split(',').map((entry): ChannelConfig => {
+      const [name, duration, fee, minBet, coin] = entry.trim().split(':');
+      if (!CHANNEL_NAME_PATTERN.test(name) || RESERVED_NAMES.includes(name)) {
+        throw new Error(`Invalid channel name: ${name}`);
+      }
+
+      const channel: ChannelConfig = {
+        name,
+        roundDurationSeconds: duration ? parseInt(duration, 10) : defaults.roundDurationSeconds,
+        houseFeePercent: fee ? parseFloat(fee) : defaults.houseFeePercent,
+        minBet: minBet ? parseFloat(minBet) : defaults.minBet,
+        coin: coin || defaults.coin,
+      };
+      if (
+        !(channel.roundDurationSeconds > 0) ||
+        !(channel.houseFeePercent >= 0 && channel.houseFeePercent < 100) ||
+        !(channel.minBet >= MIN_BET_FLOOR)
+      ) {
+        throw new Error(`Invalid channel settings: ${entry.trim()}`);
+      }
+      return channel;
+    });
+
+    const names = channels.map((c) => c.name);
+    const duplicate = names.find((n, i) => names.indexOf(n) !== i);
+    if (duplicate) {
+      throw new Error(`Duplicate channel: ${duplicate}`);
+    }
+
+    return channels;
+  },
+
+  /**
+   * Configured channels (first one is the default); every coin must be configured
+   */
+  all: (): ChannelConfig[] => {
+    const channels = ChannelUtils.parse(config.channels, {
+      roundDurationSeconds: config.roundDurationSeconds,
+      houseFeePercent: config.houseFeePercent,
+      minBet: config.minBet,
+      coin: CoinUtils.getDefault().symbol,
+    });
+    for (const channel of channels) {
+      CoinUtils.get(channel.coin);
+    }
+    return channels;
+  },
+
+  /**
+   * Channel serving the unscoped routes and rounds stored without a channel
+   */
+  getDefault: (): ChannelConfig => {
+    return ChannelUtils.all()[0];
+  },
+
+  /**
+   * Look up a channel by name (null = default channel)
+   */
+  get: (name: string | null | undefined): ChannelConfig => {
+    const channels = ChannelUtils.all();
+    if (name === null || name === undefined) {
+      return channels[0];
+    }
+
+    const channel = channels.find((c) => c.name === name);
+    if (!channel) {
+      throw new Error(`Unknown channel: ${name}`);
+    }
+    return channel;
+  },
+
+  /**
+   * Check that a bet in the given coin (symbol, omitted = the channel's own) fits a channel,
+   * pointing to the channels played in that coin when it does not
+   */
+  checkCoin: (channel: ChannelConfig, coin: string | undefined): void => {
+    if (coin === undefined || coin === channel.coin) {
+      return;
+    }
+
+    const others = ChannelUtils.all()
+      .filter((c) => c.coin === coin)
+      .map((c) => c.name);
+    throw new Error(
+      `Channel ${channel.name} is played in ${channel.coin} only - ${
+        others.length > 0
+          ? `bet in ${coin} on channel ${others.join(', ')}`
+          : `no channel is played in ${coin}`
+      }`
+    );
+  },
+};
@@ -0,0 +1,125 @@
+/**
+ * Coin Utilities
+ *
+ * Coins the lottery accepts, each with its own on-chain coin id, symbol and
+ * decimals. Coins are configured as COINS="SYMBOL:coinId:decimals,..."; without
+ * it the single COIN_ID coin is UCT with 18 decimals. The first coin is the
+ * default: channels that name no coin use it, and records stored without a
+ * coinId belong to it.
+ */
+
+import { config } from '../env.js';
+import { TOKEN_DECIMALS } from './currency.js';
+
+export interface CoinConfig {
+  symbol: string;
+  coinId: string;
+  decimals: number;
+}
+
+export const DEFAULT_COIN_SYMBOL = 'UCT';
+
+// Uppercase ticker, at most 12 characters
+const COIN_SYMBOL_PATTERN = /^[A-Z0-9]{1,12}$/;
+const COIN_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+export const CoinUtils = {
+  /**
+   * Parse a coin list, e.g. "UCT:455a...d89:18,USDU:8f0f...21c:6"
+   * (omitted decimals fall back to 18)
+   */
+  parse: (spec: string, defaultCoinId: string): CoinConfig[] => {
+    if (!spec.trim()) {
+      return [{ symbol: DEFAULT_COIN_SYMBOL, coinId: defaultCoinId, decimals: TOKEN_DECIMALS }];
+    }
+
+    const coins = spec.split(',').map((entry): CoinConfig => {
+      const [symbol, coinId, decimals] = entry.trim().split(':');
+      if (!COIN_SYMBOL_PATTERN.test(symbol)) {
+        throw new Error(`Invalid coin symbol: ${symbol}`);
+      }
+
+      const coin: CoinConfig = {
+        symbol,
+        coinId: (coinId ?? '').toLowerCase(),
+        decimals: decimals ? parseInt(decimals, 10) : TOKEN_DECIMALS,
+      };
+      if (
+        !COIN_ID_PATTERN.test(coin.coinId) ||
+        !(Number.isInteger(coin.decimals) && coin.decimals >= 0 && coin.decimals <= 36)
+      ) {
+        throw new Error(`Invalid coin settings: ${entry.trim()}`);
+      }
+      return coin;
+    });
+
+    for (const key of ['symbol', 'coinId'] as const) {
+      const values = coins.map((c) => c[key]);
+      const duplicate = values.find((v, i) => values.indexOf(v) !== i);
+      if (duplicate) {
+        throw new Error(`Duplicate coin: ${duplicate}`);
+      }
+    }
+
+    return coins;
+  },
+
+  /**
+   * Configured coins (first one is the default)
+   */
+  all: (): CoinConfig[] => {
+    return CoinUtils.parse(config.coins, config.coinId);
+  },
+
+  /**
+   * Coin of channels that name none and of records stored without a coinId
+   */
+  getDefault: (): CoinConfig => {
+    return CoinUtils.all()[0];
+  },
+
+  /**
+   * Look up a coin by symbol (null = default coin)
+   */
+  get: (symbol: string | null | undefined): CoinConfig => {
+    const coins = CoinUtils.all();
+    if (symbol === null || symbol === undefined) {
+      return coins[0];
+    }
+
+    const coin = coins.find((c) => c.symbol === symbol);
+    if (!coin) {
+      throw new Error(`Unknown coin: ${symbol}`);
+    }
+    return coin;
+  },
+
+  /**
+   * Look up a coin by its on-chain id (null = default coin, undefined if not configured)
+   */
+  byId: (coinId: string | null | undefined): CoinConfig | undefined => {
+    const coins = CoinUtils.all();
+    if (coinId === null || coinId === undefined) {
+      return coins[0];
+    }
+    return coins.find((c) => c.coinId === coinId.toLowerCase());
+  },
+
+  /**
+   * Symbol of a stored coinId, for messages (falls back to the raw id)
+   */
+  symbol: (coinId: string | null | undefined): string => {
+    return CoinUtils.byId(coinId)?.symbol ?? String(coinId);
+  },
+
+  /**
+   * Query filter for records in a coin
+   * (records stored without a coinId belong to the default coin)
+   */
+  filter: (coinId: string): { coinId: string | { $in: (string | null)[] } } => {
+    if (coinId !== CoinUtils.getDefault().coinId) {
+      return { coinId };
+    }
+    return { coinId: { $in: [coinId, null] } };
+  },
+};
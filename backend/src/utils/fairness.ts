@@ -0,0 +1,140 @@
+/**
+ * Provably Fair Utilities
+ *
+ * Commit-reveal scheme for drawing winning digits. A random server seed is
+ * generated when a round opens and only its SHA-256 hash is published. When
+ * the round is drawn the seed is revealed and the digit is derived from it
+ * deterministically, so anyone can check the result against the commitment.
+ */
+
+import crypto from 'crypto';
+import { BetSelection, BetTypeUtils } from './bet-type.js';
+
+// Derivation algorithm version stored on each round
+// v1: HMAC-SHA256(serverSeed, roundNumber)
+// v2: HMAC-SHA256(serverSeed, roundNumber:betsDigest)
+// v3: HMAC-SHA256(serverSeed, roundNumber:betsDigest:clientSeedsDigest)
+export const FAIRNESS_VERSION = 3;
+
+// Longest player-supplied client seed accepted with a bet
+export const MAX_CLIENT_SEED_LENGTH = 64;
+
+// Number of possible outcomes for a single digit draw
+export const DIGIT_RANGE = 10;
+
+// Everything needed to recompute a round's winning digit
+export interface FairnessInputs {
+  serverSeed: string;
+  roundNumber: number;
+  betsDigest: string | null;
+  clientSeedsDigest: string | null;
+  version: number;
+  // Number of possible outcomes (defaults to DIGIT_RANGE for pick-1 rounds)
+  range?: number;
+}
+
+// Paid bet as it enters the bet-set digest
+export interface BetDigestEntry {
+  invoiceId: string;
+  userNametag: string;
+  bets: BetSelection[];
+}
+
+// Player-contributed entropy mixed into the draw
+export interface ClientSeedEntry {
+  invoiceId: string;
+  clientSeed: string | null;
+}
+
+export const FairnessUtils = {
+  /**
+   * Generate a new random server seed (32 bytes, hex encoded)
+   */
+  generateServerSeed: (): string => {
+    return crypto.randomBytes(32).toString('hex');
+  },
+
+  /**
+   * Hash a server seed for publishing as a commitment
+   * e.g., sha256("ab12...") -> "9f86..."
+   */
+  hashSeed: (serverSeed: string): string => {
+    return crypto.createHash('sha256').update(serverSeed).digest('hex');
+  },
+
+  /**
+   * Check that a revealed seed matches its published commitment
+   */
+  verifySeed: (serverSeed: string, serverSeedHash: string): boolean => {
+    return FairnessUtils.hashSeed(serverSeed) === serverSeedHash.toLowerCase();
+  },
+
+  /**
+   * Map a hex digest to an unbiased integer in [0, range).
+   * Reads the digest as consecutive 32-bit big-endian words and rejects
+   * values above the largest multiple of range (rejection sampling).
+   */
+  digestToOutcome: (digestHex: string, range: number = DIGIT_RANGE): number => {
+    const limit = 2 ** 32 - (2 ** 32 % range);
+
+    for (let i = 0; i + 8 <= digestHex.length; i += 8) {
+      const value = parseInt(digestHex.slice(i, i + 8), 16);
+      if (value < limit) {
+        return value % range;
+      }
+    }
+
+    // Every word rejected (practically impossible) - rehash and try again
+    const next = crypto.createHash('sha256').update(digestHex).digest('hex');
+    return FairnessUtils.digestToOutcome(next, range);
+  },
+
+  /**
+   * Digest of the paid bet set at close.
+   * sha256(JSON of [invoiceId, userNametag, [[digit, amount], ...]] sorted by invoiceId)
+   * Group bets enter as [betType, digits, amount] instead of [digit, amount].
+   */
+  computeBetsDigest: (entries: BetDigestEntry[]): string => {
+    const canonical = [...entries]
+      .sort((a, b) => (a.invoiceId < b.invoiceId ? -1 : a.invoiceId > b.invoiceId ? 1 : 0))
+      .map((e) => [e.invoiceId, e.userNametag, e.bets.map((b) => BetTypeUtils.canonical(b))]);
+    return crypto.createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+  },
+
+  /**
+   * Digest of the client seeds of all paid bets at close.
+   * sha256(JSON of [invoiceId, clientSeed] sorted by invoiceId, bets without a seed skipped)
+   */
+  computeClientSeedsDigest: (entries: ClientSeedEntry[]): string => {
+    const canonical = entries
+      .filter((e) => !!e.clientSeed)
+      .sort((a, b) => (a.invoiceId < b.invoiceId ? -1 : a.invoiceId > b.invoiceId ? 1 : 0))
+      .map((e) => [e.invoiceId, e.clientSeed]);
+    return crypto.createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+  },
+
+  /**
+   * HMAC message for a given algorithm version
+   */
+  buildMessage: (inputs: Omit<FairnessInputs, 'serverSeed'>): string => {
+    if (inputs.version >= 3) {
+      return `${inputs.roundNumber}:${inputs.betsDigest ?? ''}:${inputs.clientSeedsDigest ?? ''}`;
+    }
+    if (inputs.version >= 2) {
+      return `${inputs.roundNumber}:${inputs.betsDigest ?? ''}`;
+    }
+    return inputs.roundNumber.toString();
+  },
+
+  /**
+   * Derive the winning digit for a round
+   * digit = digestToOutcome(HMAC-SHA256(key = serverSeed, message = buildMessage(inputs)))
+   */
+  deriveWinningDigit: (inputs: FairnessInputs): number => {
+    const digest = crypto
+      .createHmac('sha256', inputs.serverSeed)
+      .update(FairnessUtils.buildMessage(inputs))
+      .digest('hex');
+    return FairnessUtils.digestToOutcome(digest, inputs.range ?? DIGIT_RANGE);
+  },
+};
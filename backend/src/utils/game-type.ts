@@ -0,0 +1,64 @@
+/**
+ * Game Type Utilities
+ *
+ * A round's game type decides how many digits players pick:
+ * pick-1 (0-9), pick-2 (00-99) or pick-3 (000-999). Bet items and the
+ * winning number are stored as plain integers in [0, range).
+ * fixedOddsMultiplier is the default payout for fixed-odds rounds (90% of fair odds).
+ */
+
+export type GameType = 'pick-1' | 'pick-2' | 'pick-3';
+
+export const GAME_TYPES: Record<
+  GameType,
+  { digits: number; range: number; fixedOddsMultiplier: number }
+> = {
+  'pick-1': { digits: 1, range: 10, fixedOddsMultiplier: 9 },
+  'pick-2': { digits: 2, range: 100, fixedOddsMultiplier: 90 },
+  'pick-3': { digits: 3, range: 1000, fixedOddsMultiplier: 900 },
+};
+
+export const DEFAULT_GAME_TYPE: GameType = 'pick-1';
+
+// Largest winning number across all game types (for schema bounds)
+export const MAX_WINNING_NUMBER = GAME_TYPES['pick-3'].range - 1;
+
+export const GameTypeUtils = {
+  /**
+   * Whether a value names a game type (own keys only, so "toString" is not one)
+   */
+  isGameType: (value: unknown): value is GameType => {
+    return typeof value === 'string' && Object.hasOwn(GAME_TYPES, value);
+  },
+
+  /**
+   * Validate a configured game type name
+   */
+  parse: (value: string): GameType => {
+    if (!GameTypeUtils.isGameType(value)) {
+      throw new Error(`Unknown game type: ${value}`);
+    }
+    return value;
+  },
+
+  /**
+   * Number of possible outcomes (legacy rounds without a type are pick-1)
+   */
+  getRange: (gameType: GameType | null | undefined): number => {
+    return GAME_TYPES[gameType ?? DEFAULT_GAME_TYPE].range;
+  },
+
+  /**
+   * Whether a picked number is valid for the game type
+   */
+  isValidNumber: (value: number, gameType: GameType | null | undefined): boolean => {
+    return Number.isInteger(value) && value >= 0 && value < GameTypeUtils.getRange(gameType);
+  },
+
+  /**
+   * Zero-padded display form, e.g. 7 -> "07" for pick-2
+   */
+  format: (value: number, gameType: GameType | null | undefined): string => {
+    return value.toString().padStart(GAME_TYPES[gameType ?? DEFAULT_GAME_TYPE].digits, '0');
+  },
+};
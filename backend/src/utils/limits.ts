@@ -0,0 +1,101 @@
+/**
+ * Stake Limit Utilities
+ *
+ * Server-side betting limits, each disabled when set to 0:
+ * - maxBetAmount: largest stake on a single bet item
+ * - maxUserStakePerRound: largest total one player can stake in a round
+ * - maxDigitPoolShare: largest percentage of a round's staked pool that may ride on one number.
+ *   Group stakes count towards each covered number in proportion. The share is only enforced
+ *   once the pool reaches digitShareMinPool, so the first bets of a round are not rejected.
+ * Amounts are in the round's coin. Checks return the violated limit as a message (used as
+ * error and refund reason) or null.
+ */
+
+import { config } from '../env.js';
+import { BetSelection, BetTypeUtils } from './bet-type.js';
+import { DEFAULT_COIN_SYMBOL } from './coin.js';
+
+export interface StakeLimits {
+  maxBetAmount: number;
+  maxUserStakePerRound: number;
+  maxDigitPoolShare: number;
+  digitShareMinPool: number;
+  // Coin symbol used in messages (default UCT)
+  coin?: string;
+}
+
+// Stakes already in a round
+export interface RoundStakes {
+  // This player's total stake
+  userStake: number;
+  // Every bet item in the round (all players)
+  items: BetSelection[];
+}
+
+export const LimitUtils = {
+  /**
+   * Limits from the environment, for rounds in the given coin
+   */
+  fromConfig: (coin?: string): StakeLimits => ({
+    maxBetAmount: config.maxBetAmount,
+    maxUserStakePerRound: config.maxUserStakePerRound,
+    maxDigitPoolShare: config.maxDigitPoolShare,
+    digitShareMinPool: config.digitShareMinPool,
+    coin,
+  }),
+
+  /**
+   * Check a single bet item's stake
+   */
+  checkBetAmount: (item: BetSelection, limits: StakeLimits): string | null => {
+    if (limits.maxBetAmount > 0 && item.amount > limits.maxBetAmount) {
+      return `Maximum bet is ${limits.maxBetAmount} ${limits.coin ?? DEFAULT_COIN_SYMBOL}`;
+    }
+    return null;
+  },
+
+  /**
+   * Check a player's new bet items against the round's existing stakes
+   */
+  checkRound: (
+    existing: RoundStakes,
+    items: BetSelection[],
+    limits: StakeLimits
+  ): string | null => {
+    const stake = items.reduce((sum, item) => sum + item.amount, 0);
+    if (
+      limits.maxUserStakePerRound > 0 &&
+      existing.userStake + stake > limits.maxUserStakePerRound
+    ) {
+      return `Stake limit reached: at most ${limits.maxUserStakePerRound} ${limits.coin ?? DEFAULT_COIN_SYMBOL} per player per round`;
+    }
+
+    if (limits.maxDigitPoolShare <= 0) {
+      return null;
+    }
+
+    const all = [...existing.items, ...items];
+    const pool = all.reduce((sum, item) => sum + item.amount, 0);
+    if (pool < limits.digitShareMinPool) {
+      return null;
+    }
+
+    const perNumber = new Map<number, number>();
+    for (const item of all) {
+      const share = item.amount / BetTypeUtils.coverage(item);
+      for (const n of BetTypeUtils.coveredNumbers(item)) {
+        perNumber.set(n, (perNumber.get(n) ?? 0) + share);
+      }
+    }
+
+    // Only numbers this bet adds to can be pushed over the limit by it
+    const touched = [...new Set(items.flatMap(BetTypeUtils.coveredNumbers))].sort((a, b) => a - b);
+    for (const n of touched) {
+      if (((perNumber.get(n) ?? 0) / pool) * 100 > limits.maxDigitPoolShare) {
+        return `Digit limit reached: #${n} would hold more than ${limits.maxDigitPoolShare}% of the pool`;
+      }
+    }
+
+    return null;
+  },
+};
@@ -0,0 +1,132 @@
+/**
+ * Merkle Utilities
+ *
+ * Merkle commitment over a round's paid bets. Leaves are sorted by invoiceId,
+ * leaf and node hashes are domain separated (0x00 / 0x01 prefixes) and an odd
+ * node at the end of a level is promoted unchanged to the next level.
+ */
+
+import crypto from 'crypto';
+import { BetSelection, BetTypeUtils } from './bet-type.js';
+
+// Paid bet as it enters the Merkle tree
+export interface MerkleBetEntry {
+  invoiceId: string;
+  userNametag: string;
+  bets: BetSelection[];
+}
+
+export interface MerkleProofStep {
+  position: 'left' | 'right';
+  hash: string;
+}
+
+export interface MerkleProof {
+  invoiceId: string;
+  leaf: string;
+  index: number;
+  siblings: MerkleProofStep[];
+}
+
+const sha256 = (data: Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+const sortEntries = (entries: MerkleBetEntry[]): MerkleBetEntry[] =>
+  [...entries].sort((a, b) => (a.invoiceId < b.invoiceId ? -1 : a.invoiceId > b.invoiceId ? 1 : 0));
+
+export const MerkleUtils = {
+  /**
+   * Leaf hash: sha256(0x00 || JSON [invoiceId, userNametag, [[digit, amount], ...]])
+   * (group bets as [betType, digits, amount])
+   */
+  hashLeaf: (entry: MerkleBetEntry): string => {
+    const canonical = JSON.stringify([
+      entry.invoiceId,
+      entry.userNametag,
+      entry.bets.map((b) => BetTypeUtils.canonical(b)),
+    ]);
+    return sha256(Buffer.concat([Buffer.from([0x00]), Buffer.from(canonical)]));
+  },
+
+  /**
+   * Node hash: sha256(0x01 || left || right)
+   */
+  hashNode: (left: string, right: string): string => {
+    return sha256(
+      Buffer.concat([Buffer.from([0x01]), Buffer.from(left, 'hex'), Buffer.from(right, 'hex')])
+    );
+  },
+
+  /**
+   * All tree levels, leaves first and root last
+   */
+  buildLevels: (entries: MerkleBetEntry[]): string[][] => {
+    const levels: string[][] = [sortEntries(entries).map((e) => MerkleUtils.hashLeaf(e))];
+
+    while (levels[levels.length - 1].length > 1) {
+      const current = levels[levels.length - 1];
+      const next: string[] = [];
+      for (let i = 0; i < current.length; i += 2) {
+        next.push(
+          i + 1 < current.length ? MerkleUtils.hashNode(current[i], current[i + 1]) : current[i]
+        );
+      }
+      levels.push(next);
+    }
+
+    return levels;
+  },
+
+  /**
+   * Merkle root of a bet set (sha256 of empty input for an empty set)
+   */
+  computeRoot: (entries: MerkleBetEntry[]): string => {
+    if (entries.length === 0) {
+      return sha256(Buffer.alloc(0));
+    }
+    const levels = MerkleUtils.buildLevels(entries);
+    return levels[levels.length - 1][0];
+  },
+
+  /**
+   * Inclusion proof for one bet, or null if it is not in the set
+   */
+  getProof: (entries: MerkleBetEntry[], invoiceId: string): MerkleProof | null => {
+    const sorted = sortEntries(entries);
+    const index = sorted.findIndex((e) => e.invoiceId === invoiceId);
+    if (index === -1) {
+      return null;
+    }
+
+    const levels = MerkleUtils.buildLevels(sorted);
+    const siblings: MerkleProofStep[] = [];
+    let position = index;
+
+    for (let level = 0; level < levels.length - 1; level++) {
+      const nodes = levels[level];
+      const isRight = position % 2 === 1;
+      const siblingIndex = isRight ? position - 1 : position + 1;
+
+      // Promoted odd node has no sibling at this level
+      if (siblingIndex < nodes.length) {
+        siblings.push({ position: isRight ? 'left' : 'right', hash: nodes[siblingIndex] });
+      }
+      position = Math.floor(position / 2);
+    }
+
+    return { invoiceId, leaf: levels[0][index], index, siblings };
+  },
+
+  /**
+   * Recompute the root from a leaf and its proof
+   */
+  verifyProof: (leaf: string, siblings: MerkleProofStep[], root: string): boolean => {
+    const computed = siblings.reduce(
+      (hash, step) =>
+        step.position === 'left'
+          ? MerkleUtils.hashNode(step.hash, hash)
+          : MerkleUtils.hashNode(hash, step.hash),
+      leaf
+    );
+    return computed === root;
+  },
+};
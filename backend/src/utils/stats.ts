@@ -0,0 +1,127 @@
+/**
+ * Draw Statistics Utilities
+ *
+ * Aggregates winning numbers of completed rounds into per-number frequencies,
+ * streaks and a chi-square goodness-of-fit test against a uniform draw.
+ */
+
+import { DIGIT_RANGE } from './fairness.js';
+
+// Standard normal quantile for the 5% significance level (one-sided)
+const Z_95 = 1.6449;
+
+// Completed round as it enters the statistics (ordered by roundNumber ascending)
+export interface DrawRecord {
+  roundNumber: number;
+  winningDigit: number;
+}
+
+export interface DigitStats {
+  digit: number;
+  count: number;
+  frequency: number;
+  expectedCount: number;
+  lastSeenRound: number | null;
+  roundsSinceSeen: number | null;
+  longestStreak: number;
+}
+
+export interface DrawStreak {
+  digit: number;
+  length: number;
+  endRound: number;
+}
+
+export interface DrawStats {
+  totalDraws: number;
+  firstRound: number | null;
+  lastRound: number | null;
+  digits: DigitStats[];
+  currentStreak: DrawStreak | null;
+  longestStreak: DrawStreak | null;
+  chiSquare: {
+    statistic: number;
+    degreesOfFreedom: number;
+    criticalValue: number;
+    consistentWithUniform: boolean;
+  };
+}
+
+export const StatsUtils = {
+  /**
+   * Pearson chi-square statistic of observed counts against a uniform distribution
+   */
+  chiSquare: (counts: number[]): number => {
+    const total = counts.reduce((sum, c) => sum + c, 0);
+    if (total === 0) return 0;
+
+    const expected = total / counts.length;
+    return counts.reduce((sum, c) => sum + (c - expected) ** 2 / expected, 0);
+  },
+
+  /**
+   * Chi-square critical value at the 5% level (Wilson-Hilferty approximation)
+   * e.g., 9 degrees of freedom -> ~16.9
+   */
+  criticalValue: (degreesOfFreedom: number): number => {
+    const k = degreesOfFreedom;
+    return k * (1 - 2 / (9 * k) + Z_95 * Math.sqrt(2 / (9 * k))) ** 3;
+  },
+
+  /**
+   * Aggregate draws into per-digit and overall statistics
+   */
+  computeDrawStats: (draws: DrawRecord[], range: number = DIGIT_RANGE): DrawStats => {
+    const sorted = [...draws].sort((a, b) => a.roundNumber - b.roundNumber);
+    const totalDraws = sorted.length;
+    const lastRound = totalDraws > 0 ? sorted[totalDraws - 1].roundNumber : null;
+
+    const counts = new Array<number>(range).fill(0);
+    const lastSeen = new Array<number | null>(range).fill(null);
+    const longestPerDigit = new Array<number>(range).fill(0);
+
+    let current: DrawStreak | null = null;
+    let longest: DrawStreak | null = null;
+
+    for (const draw of sorted) {
+      counts[draw.winningDigit]++;
+      lastSeen[draw.winningDigit] = draw.roundNumber;
+
+      const length: number = current?.digit === draw.winningDigit ? current.length + 1 : 1;
+      current = { digit: draw.winningDigit, length, endRound: draw.roundNumber };
+
+      longestPerDigit[draw.winningDigit] = Math.max(longestPerDigit[draw.winningDigit], length);
+      if (!longest || length > longest.length) {
+        longest = { ...current };
+      }
+    }
+
+    const expectedCount = totalDraws / range;
+    const statistic = StatsUtils.chiSquare(counts);
+    const criticalValue = StatsUtils.criticalValue(range - 1);
+
+    return {
+      totalDraws,
+      firstRound: totalDraws > 0 ? sorted[0].roundNumber : null,
+      lastRound,
+      digits: counts.map((count, digit) => ({
+        digit,
+        count,
+        frequency: totalDraws > 0 ? count / totalDraws : 0,
+        expectedCount,
+        lastSeenRound: lastSeen[digit],
+        roundsSinceSeen:
+          lastSeen[digit] !== null && lastRound !== null ? lastRound - lastSeen[digit]! : null,
+        longestStreak: longestPerDigit[digit],
+      })),
+      currentStreak: current,
+      longestStreak: longest,
+      chiSquare: {
+        statistic,
+        degreesOfFreedom: range - 1,
+        criticalValue,
+        consistentWithUniform: statistic <= criticalValue,
+      },
+    };
+  },
+};
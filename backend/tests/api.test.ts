@@ -1,8 +1,9 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
 import request from 'supertest';
 import { Application } from 'express';
 import { createTestApp, connectTestDB, disconnectTestDB, clearTestDB } from './setup.js';
 import { vi } from 'vitest';
+import { config } from '../src/env.js';
 
 // Mock sphereService
 vi.mock('../src/services/index.js', () => ({
@@ -29,10 +30,8 @@ vi.mock('../src/services/index.js', () => ({
     initialize: vi.fn(),
     getNametag: vi.fn().mockReturnValue('test-agent'),
   },
-  roundScheduler: {
-    start: vi.fn(),
-    stop: vi.fn(),
-  },
+  roundSchedulers: new Map(),
+  playWallet: null,
   initializeServices: vi.fn(),
 }));
 
@@ -161,6 +160,17 @@ describe('API Integration Tests', () => {
       expect(res.body.success).toBe(false);
     });
 
+    it('should return 400 for a coin the channel is not played in', async () => {
+      const res = await request(app)
+        .post('/api/game/bet')
+        .send({ userNametag: 'player', bets: [{ digit: 5, amount: 100 }], coin: 'USDU' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe(
+        'Channel default is played in UCT only - no channel is played in USDU'
+      );
+    });
+
     it('should return 400 for empty bets array', async () => {
       const res = await request(app)
         .post('/api/game/bet')
@@ -283,6 +293,20 @@ describe('API Integration Tests', () => {
       expect(res.body.data[0].winningDigit).toBeLessThanOrEqual(9);
     });
 
+    it('should reveal server seed for completed rounds', async () => {
+      const roundRes = await request(app).get('/api/game/round');
+      expect(roundRes.body.data.serverSeedHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(roundRes.body.data.serverSeed).toBeUndefined();
+
+      await simulateRoundEnd(roundRes.body.data._id);
+
+      const res = await request(app).get('/api/game/history');
+
+      expect(res.body.data[0].serverSeed).toMatch(/^[0-9a-f]{64}$/);
+      expect(res.body.data[0].serverSeedHash).toBe(roundRes.body.data.serverSeedHash);
+      expect(res.body.data[0].fairnessVersion).toBe(3);
+    });
+
     it('should respect limit parameter', async () => {
       // Complete 3 rounds
       for (let i = 0; i < 3; i++) {
@@ -310,6 +334,399 @@ describe('API Integration Tests', () => {
     });
   });
 
+  // ==================== VERIFY ENDPOINT ====================
+  describe('GET /api/game/round/:roundId/verify', () => {
+    it('should return verification data for a completed round', async () => {
+      const roundRes = await request(app).get('/api/game/round');
+      await simulateRoundEnd(roundRes.body.data._id);
+
+      const res = await request(app).get(`/api/game/round/${roundRes.body.data._id}/verify`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.verified).toBe(true);
+      expect(res.body.data.serverSeed).toMatch(/^[0-9a-f]{64}$/);
+      expect(res.body.data.betsDigest).toMatch(/^[0-9a-f]{64}$/);
+      expect(res.body.data.fairnessVersion).toBe(3);
+    });
+
+    it('should expose client seeds mixed into the draw', async () => {
+      const roundRes = await request(app).get('/api/game/round');
+      const betRes = await request(app)
+        .post('/api/game/bet')
+        .send({ userNametag: 'alice', bets: [{ digit: 5, amount: 10 }], clientSeed: 'lucky' });
+      await simulateNostrPayment(betRes.body.data.invoice.invoiceId, 'tx-seed');
+      await simulateRoundEnd(roundRes.body.data._id);
+
+      const res = await request(app).get(`/api/game/round/${roundRes.body.data._id}/verify`);
+
+      expect(res.body.data.verified).toBe(true);
+      expect(res.body.data.bets[0].clientSeed).toBe('lucky');
+      expect(res.body.data.clientSeedsDigest).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should reject an open round', async () => {
+      const roundRes = await request(app).get('/api/game/round');
+
+      const res = await request(app).get(`/api/game/round/${roundRes.body.data._id}/verify`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Round has not been drawn yet');
+    });
+
+    it('should return 404 for unknown round', async () => {
+      const res = await request(app).get('/api/game/round/507f1f77bcf86cd799439011/verify');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  // ==================== INCLUSION PROOF ENDPOINT ====================
+  describe('GET /api/game/round/:roundId/proof/:invoiceId', () => {
+    it('should return a proof that verifies against the stored root', async () => {
+      const roundRes = await request(app).get('/api/game/round');
+      const invoiceIds: string[] = [];
+      for (const [i, nametag] of ['alice', 'bob', 'carol'].entries()) {
+        const betRes = await request(app)
+          .post('/api/game/bet')
+          .send({ userNametag: nametag, bets: [{ digit: i, amount: 10 }] });
+        await simulateNostrPayment(betRes.body.data.invoice.invoiceId, `tx-proof-${i}`);
+        invoiceIds.push(betRes.body.data.invoice.invoiceId);
+      }
+      await simulateRoundEnd(roundRes.body.data._id);
+
+      const res = await request(app).get(
+        `/api/game/round/${roundRes.body.data._id}/proof/${invoiceIds[1]}`
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.verified).toBe(true);
+      expect(res.body.data.userNametag).toBe('bob');
+      expect(res.body.data.bets).toEqual([{ digit: 1, amount: 10 }]);
+      expect(res.body.data.betsMerkleRoot).toMatch(/^[0-9a-f]{64}$/);
+      expect(res.body.data.siblings.length).toBeGreaterThan(0);
+    });
+
+    it('should reject an open round', async () => {
+      const roundRes = await request(app).get('/api/game/round');
+
+      const res = await request(app).get(`/api/game/round/${roundRes.body.data._id}/proof/inv-1`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Round has no bet commitment yet');
+    });
+
+    it('should return 404 for a bet not in the round', async () => {
+      const roundRes = await request(app).get('/api/game/round');
+      await simulateRoundEnd(roundRes.body.data._id);
+
+      const res = await request(app).get(
+        `/api/game/round/${roundRes.body.data._id}/proof/unknown-invoice`
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  // ==================== DRAW STATS ENDPOINT ====================
+  describe('GET /api/game/stats/draws', () => {
+    it('should aggregate winning digits of completed rounds', async () => {
+      const { GameService } = await import('../src/services/game.service.js');
+      for (let i = 0; i < 3; i++) {
+        const round = await GameService.getCurrentRound();
+        await simulateRoundEnd(round._id.toString());
+      }
+
+      const res = await request(app).get('/api/game/stats/draws');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.totalDraws).toBe(3);
+      expect(res.body.data.digits).toHaveLength(10);
+      expect(
+        res.body.data.digits.reduce((sum: number, d: { count: number }) => sum + d.count, 0)
+      ).toBe(3);
+      expect(res.body.data.chiSquare.degreesOfFreedom).toBe(9);
+    });
+
+    it('should limit to the latest rounds', async () => {
+      const { GameService } = await import('../src/services/game.service.js');
+      for (let i = 0; i < 3; i++) {
+        const round = await GameService.getCurrentRound();
+        await simulateRoundEnd(round._id.toString());
+      }
+
+      const res = await request(app).get('/api/game/stats/draws?limit=2');
+
+      expect(res.body.data.totalDraws).toBe(2);
+      expect(res.body.data.firstRound).toBe(2);
+    });
+
+    it('should reject an invalid limit', async () => {
+      const res = await request(app).get('/api/game/stats/draws?limit=0');
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject an unknown game type', async () => {
+      const res = await request(app).get('/api/game/stats/draws?gameType=pick-9');
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Unknown game type: pick-9');
+    });
+
+    it('should reject game type names inherited from Object.prototype', async () => {
+      const res = await request(app).get('/api/game/stats/draws?gameType=toString');
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Unknown game type: toString');
+    });
+
+    it('should report pick-2 statistics over 100 numbers', async () => {
+      const res = await request(app).get('/api/game/stats/draws?gameType=pick-2');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.digits).toHaveLength(100);
+      expect(res.body.data.totalDraws).toBe(0);
+    });
+  });
+
+  // ==================== CHANNEL ENDPOINTS ====================
+  describe('channel routes', () => {
+    beforeEach(() => {
+      config.channels = 'quick:300:2:5,hourly:3600';
+    });
+
+    afterEach(() => {
+      config.channels = '';
+    });
+
+    it('should list configured channels', async () => {
+      const res = await request(app).get('/api/game/channels');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.map((c: { name: string }) => c.name)).toEqual(['quick', 'hourly']);
+      expect(res.body.data[0].isDefault).toBe(true);
+      expect(res.body.data[0].minBet).toBe(5);
+    });
+
+    it('should serve an independent round per channel', async () => {
+      const quick = await request(app).get('/api/game/quick/round');
+      const hourly = await request(app).get('/api/game/hourly/round');
+
+      expect(quick.status).toBe(200);
+      expect(quick.body.data.channel).toBe('quick');
+      expect(quick.body.data.roundDurationSeconds).toBe(300);
+      expect(hourly.body.data.channel).toBe('hourly');
+      expect(hourly.body.data._id).not.toBe(quick.body.data._id);
+    });
+
+    it('should map unscoped routes to the first channel', async () => {
+      const res = await request(app).get('/api/game/round');
+
+      expect(res.body.data.channel).toBe('quick');
+    });
+
+    it('should place bets in the requested channel', async () => {
+      const res = await request(app)
+        .post('/api/game/hourly/bet')
+        .send({ userNametag: 'alice', bets: [{ digit: 1, amount: 2 }] });
+
+      expect(res.status).toBe(200);
+      const round = await request(app).get('/api/game/hourly/round');
+      expect(res.body.data.bet.roundId).toBe(round.body.data._id);
+    });
+
+    it('should enforce the channel minimum bet', async () => {
+      const res = await request(app)
+        .post('/api/game/quick/bet')
+        .send({ userNametag: 'alice', bets: [{ digit: 1, amount: 2 }] });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Minimum bet is 5 UCT');
+    });
+
+    it('should report draw statistics in the game type the channel plays', async () => {
+      const { GameService } = await import('../src/services/game.service.js');
+      config.gameType = 'pick-2';
+      try {
+        await GameService.getCurrentRound('hourly');
+      } finally {
+        config.gameType = 'pick-1';
+      }
+
+      const hourly = await request(app).get('/api/game/hourly/stats/draws');
+      const quick = await request(app).get('/api/game/quick/stats/draws');
+
+      expect(hourly.status).toBe(200);
+      expect(hourly.body.data.digits).toHaveLength(100);
+      expect(quick.body.data.digits).toHaveLength(10);
+    });
+
+    it('should return 404 for an unknown channel', async () => {
+      const res = await request(app).get('/api/game/weekly/round');
+
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Unknown channel: weekly');
+    });
+  });
+
+  // ==================== SUBSCRIPTION ENDPOINTS ====================
+  describe('subscription routes', () => {
+    it('should create a subscription invoice for all rounds', async () => {
+      const res = await request(app)
+        .post('/api/game/subscriptions')
+        .send({ userNametag: 'alice', bets: [{ digit: 4, amount: 10 }], rounds: 3 });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.invoice.amount).toBe(30);
+      expect(res.body.data.subscription.status).toBe('pending');
+    });
+
+    it('should require rounds', async () => {
+      const res = await request(app)
+        .post('/api/game/subscriptions')
+        .send({ userNametag: 'alice', bets: [{ digit: 4, amount: 10 }] });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should list and cancel user subscriptions', async () => {
+      const created = await request(app)
+        .post('/api/game/subscriptions')
+        .send({ userNametag: 'alice', bets: [{ digit: 4, amount: 10 }], rounds: 3 });
+      const id = created.body.data.subscription._id;
+
+      const list = await request(app).get('/api/game/subscriptions/alice');
+      expect(list.body.data).toHaveLength(1);
+
+      const res = await request(app)
+        .post(`/api/game/subscriptions/${id}/cancel`)
+        .send({ cancelToken: created.body.data.cancelToken });
+      expect(res.status).toBe(200);
+      expect(res.body.data.status).toBe('cancelled');
+    });
+
+    it('should not cancel a subscription by naming its subscriber', async () => {
+      const created = await request(app)
+        .post('/api/game/subscriptions')
+        .send({ userNametag: 'alice', bets: [{ digit: 4, amount: 10 }], rounds: 3 });
+      const id = created.body.data.subscription._id;
+
+      const unproven = await request(app)
+        .post(`/api/game/subscriptions/${id}/cancel`)
+        .send({ userNametag: 'alice' });
+      expect(unproven.status).toBe(400);
+      expect(unproven.body.error).toBe('Missing required field: cancelToken');
+
+      const wrong = await request(app)
+        .post(`/api/game/subscriptions/${id}/cancel`)
+        .send({ cancelToken: 'not-the-token' });
+      expect(wrong.status).toBe(404);
+    });
+
+    it('should return 404 when cancelling an unknown subscription', async () => {
+      const res = await request(app)
+        .post('/api/game/subscriptions/000000000000000000000000/cancel')
+        .send({ cancelToken: 'token' });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('play-money routes', () => {
+    it('should return 404 when free-play mode is off', async () => {
+      const balance = await request(app).get('/api/game/play/alice');
+      expect(balance.status).toBe(404);
+
+      const topUp = await request(app).post('/api/game/play/alice/topup');
+      expect(topUp.status).toBe(404);
+    });
+  });
+
+  describe('admin routes', () => {
+    afterEach(() => {
+      config.adminApiKey = '';
+    });
+
+    it('should be disabled without an admin key configured', async () => {
+      const res = await request(app).get('/api/admin/payouts');
+      expect(res.status).toBe(403);
+    });
+
+    it('should require the admin key header', async () => {
+      config.adminApiKey = 'secret';
+
+      const denied = await request(app).get('/api/admin/payouts').set('X-Admin-Key', 'wrong');
+      expect(denied.status).toBe(401);
+
+      const res = await request(app)
+        .get('/api/admin/payouts?status=dead')
+        .set('X-Admin-Key', 'secret');
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual([]);
+    });
+
+    it('should reject an invalid refund status filter', async () => {
+      config.adminApiKey = 'secret';
+
+      const res = await request(app)
+        .get('/api/admin/refunds?status=confirmed')
+        .set('X-Admin-Key', 'secret');
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 404 when requeuing an unknown payout job', async () => {
+      config.adminApiKey = 'secret';
+
+      const res = await request(app)
+        .post('/api/admin/payouts/000000000000000000000000/requeue')
+        .set('X-Admin-Key', 'secret');
+      expect(res.status).toBe(404);
+    });
+
+    it('should reject an invalid unmatched transfer status filter', async () => {
+      config.adminApiKey = 'secret';
+
+      const res = await request(app)
+        .get('/api/admin/unmatched?status=lost')
+        .set('X-Admin-Key', 'secret');
+      expect(res.status).toBe(400);
+    });
+
+    it('should require a bet when attaching an unmatched transfer', async () => {
+      config.adminApiKey = 'secret';
+
+      const res = await request(app)
+        .post('/api/admin/unmatched/000000000000000000000000/attach')
+        .set('X-Admin-Key', 'secret')
+        .send({});
+      expect(res.status).toBe(400);
+    });
+
+    it('should let an operator cancel any subscription', async () => {
+      config.adminApiKey = 'secret';
+      const created = await request(app)
+        .post('/api/game/subscriptions')
+        .send({ userNametag: 'alice', bets: [{ digit: 4, amount: 10 }], rounds: 3 });
+
+      const res = await request(app)
+        .post(`/api/admin/subscriptions/${created.body.data.subscription._id}/cancel`)
+        .set('X-Admin-Key', 'secret')
+        .send({ reason: 'Requested by support' });
+      expect(res.status).toBe(200);
+      expect(res.body.data.status).toBe('cancelled');
+      expect(res.body.data.cancelReason).toBe('Requested by support');
+    });
+
+    it('should return 404 when writing off an unknown unmatched transfer', async () => {
+      config.adminApiKey = 'secret';
+
+      const res = await request(app)
+        .post('/api/admin/unmatched/000000000000000000000000/write-off')
+        .set('X-Admin-Key', 'secret');
+      expect(res.status).toBe(404);
+    });
+  });
+
   // ==================== USER BETS ENDPOINT ====================
   describe('GET /api/game/bets/:userNametag', () => {
     it('should return bets for specific user', async () => {
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { BetTypeUtils } from '../src/utils/bet-type.js';
+
+describe('BetTypeUtils', () => {
+  describe('parse', () => {
+    it('should treat a missing bet type as a single-number bet', () => {
+      expect(BetTypeUtils.parse(undefined)).toBe('number');
+    });
+
+    it('should accept known bet types', () => {
+      expect(BetTypeUtils.parse('odd')).toBe('odd');
+      expect(BetTypeUtils.parse('set')).toBe('set');
+    });
+
+    it('should reject unknown bet types', () => {
+      expect(() => BetTypeUtils.parse('prime')).toThrow('Unknown bet type: prime');
+    });
+  });
+
+  describe('resolveGroup', () => {
+    it('should resolve odd and even digits', () => {
+      expect(BetTypeUtils.resolveGroup('odd', 10)).toEqual([1, 3, 5, 7, 9]);
+      expect(BetTypeUtils.resolveGroup('even', 10)).toEqual([0, 2, 4, 6, 8]);
+    });
+
+    it('should split the range into low and high halves', () => {
+      expect(BetTypeUtils.resolveGroup('low', 10)).toEqual([0, 1, 2, 3, 4]);
+      expect(BetTypeUtils.resolveGroup('high', 10)).toEqual([5, 6, 7, 8, 9]);
+      expect(BetTypeUtils.resolveGroup('low', 100)).toHaveLength(50);
+      expect(BetTypeUtils.resolveGroup('high', 100)[0]).toBe(50);
+    });
+
+    it('should sort and deduplicate custom sets', () => {
+      expect(BetTypeUtils.resolveGroup('set', 10, [7, 2, 7, 4])).toEqual([2, 4, 7]);
+    });
+
+    it('should reject sets that are too small, too large or out of range', () => {
+      const error = 'Set must contain 2 to 9 distinct numbers in range';
+      expect(() => BetTypeUtils.resolveGroup('set', 10, [3])).toThrow(error);
+      expect(() => BetTypeUtils.resolveGroup('set', 10, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9])).toThrow(
+        error
+      );
+      expect(() => BetTypeUtils.resolveGroup('set', 10, [1, 10])).toThrow(error);
+      expect(() => BetTypeUtils.resolveGroup('set', 10, [1, 2.5])).toThrow(error);
+    });
+  });
+
+  describe('covers', () => {
+    it('should match single-number bets on their digit', () => {
+      expect(BetTypeUtils.covers({ digit: 4, amount: 1 }, 4)).toBe(true);
+      expect(BetTypeUtils.covers({ betType: 'number', digit: 4, amount: 1 }, 5)).toBe(false);
+    });
+
+    it('should match group bets on any covered number', () => {
+      const item = { betType: 'set' as const, digits: [1, 2, 3], amount: 1 };
+      expect(BetTypeUtils.covers(item, 2)).toBe(true);
+      expect(BetTypeUtils.covers(item, 4)).toBe(false);
+      expect(BetTypeUtils.coverage(item)).toBe(3);
+    });
+  });
+
+  describe('canonical', () => {
+    it('should keep the original encoding for single-number bets', () => {
+      expect(BetTypeUtils.canonical({ betType: 'number', digit: 7, amount: 2 })).toEqual([7, 2]);
+    });
+
+    it('should include type and numbers for group bets', () => {
+      expect(
+        BetTypeUtils.canonical({ betType: 'low', digits: [0, 1, 2, 3, 4], amount: 5 })
+      ).toEqual(['low', [0, 1, 2, 3, 4], 5]);
+    });
+  });
+
+  describe('label', () => {
+    it('should label bets for invoice messages', () => {
+      expect(BetTypeUtils.label({ digit: 7, amount: 1 })).toBe('#7');
+      expect(BetTypeUtils.label({ betType: 'even', digits: [0, 2], amount: 1 })).toBe('even');
+      expect(BetTypeUtils.label({ betType: 'set', digits: [1, 2], amount: 1 })).toBe('set{1,2}');
+    });
+  });
+});
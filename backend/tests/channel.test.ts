@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ChannelUtils, DEFAULT_CHANNEL_NAME } from '../src/utils/channel.js';
+import { config } from '../src/env.js';
+
+const defaults = { roundDurationSeconds: 3600, houseFeePercent: 5, minBet: 1, coin: 'UCT' };
+
+describe('ChannelUtils', () => {
+  describe('parse', () => {
+    it('should fall back to a single default channel', () => {
+      expect(ChannelUtils.parse('', defaults)).toEqual([
+        { name: DEFAULT_CHANNEL_NAME, ...defaults },
+      ]);
+    });
+
+    it('should parse names, durations, fees and minimum bets', () => {
+      expect(ChannelUtils.parse('quick:300:2.5:1, hourly:3600::10', defaults)).toEqual([
+        { name: 'quick', roundDurationSeconds: 300, houseFeePercent: 2.5, minBet: 1, coin: 'UCT' },
+        { name: 'hourly', roundDurationSeconds: 3600, houseFeePercent: 5, minBet: 10, coin: 'UCT' },
+      ]);
+    });
+
+    it('should parse the coin of a channel', () => {
+      expect(ChannelUtils.parse('stable:600:::USDU', defaults)).toEqual([
+        { name: 'stable', roundDurationSeconds: 600, houseFeePercent: 5, minBet: 1, coin: 'USDU' },
+      ]);
+    });
+
+    it('should use defaults for omitted settings', () => {
+      expect(ChannelUtils.parse('daily', defaults)).toEqual([{ name: 'daily', ...defaults }]);
+    });
+
+    it('should reject invalid or reserved names', () => {
+      expect(() => ChannelUtils.parse('Quick:300', defaults)).toThrow(
+        'Invalid channel name: Quick'
+      );
+      expect(() => ChannelUtils.parse('round:300', defaults)).toThrow(
+        'Invalid channel name: round'
+      );
+    });
+
+    it('should reject invalid settings', () => {
+      expect(() => ChannelUtils.parse('quick:0', defaults)).toThrow(
+        'Invalid channel settings: quick:0'
+      );
+      expect(() => ChannelUtils.parse('quick:300:100', defaults)).toThrow(
+        'Invalid channel settings: quick:300:100'
+      );
+    });
+
+    it('should reject minimum bets below the smallest storable bet', () => {
+      expect(() => ChannelUtils.parse('quick:300:5:0.5', defaults)).toThrow(
+        'Invalid channel settings: quick:300:5:0.5'
+      );
+      expect(() => ChannelUtils.parse('', { ...defaults, minBet: 0.5 })).toThrow(
+        'Invalid minimum bet: 0.5 (must be at least 1)'
+      );
+    });
+
+    it('should reject duplicate channels', () => {
+      expect(() => ChannelUtils.parse('quick:300,quick:600', defaults)).toThrow(
+        'Duplicate channel: quick'
+      );
+    });
+  });
+
+  describe('get', () => {
+    afterEach(() => {
+      config.channels = '';
+      config.coins = '';
+    });
+
+    it('should resolve null to the first configured channel', () => {
+      config.channels = 'quick:300,hourly:3600';
+
+      expect(ChannelUtils.get(null).name).toBe('quick');
+      expect(ChannelUtils.getDefault().name).toBe('quick');
+      expect(ChannelUtils.get('hourly').roundDurationSeconds).toBe(3600);
+    });
+
+    it('should only accept bets in the coin a channel is played in', () => {
+      config.coins = `UCT:${'a'.repeat(64)}:18,USDU:${'b'.repeat(64)}:6`;
+      config.channels = 'quick:300,stable:600:::USDU,hourly:3600';
+      const quick = ChannelUtils.get('quick');
+
+      expect(() => ChannelUtils.checkCoin(quick, undefined)).not.toThrow();
+      expect(() => ChannelUtils.checkCoin(quick, 'UCT')).not.toThrow();
+      expect(() => ChannelUtils.checkCoin(quick, 'USDU')).toThrow(
+        'Channel quick is played in UCT only - bet in USDU on channel stable'
+      );
+      expect(() => ChannelUtils.checkCoin(ChannelUtils.get('stable'), 'UCT')).toThrow(
+        'Channel stable is played in USDU only - bet in UCT on channel quick, hourly'
+      );
+      expect(() => ChannelUtils.checkCoin(quick, 'EUR')).toThrow(
+        'Channel quick is played in UCT only - no channel is played in EUR'
+      );
+    });
+
+    it('should reject channels in coins that are not configured', () => {
+      config.channels = 'quick:300:::USDU';
+
+      expect(() => ChannelUtils.all()).toThrow('Unknown coin: USDU');
+
+      config.coins = `UCT:${'a'.repeat(64)}:18,USDU:${'b'.repeat(64)}:6`;
+      expect(ChannelUtils.get('quick').coin).toBe('USDU');
+    });
+
+    it('should reject unknown channels', () => {
+      expect(() => ChannelUtils.get('weekly')).toThrow('Unknown channel: weekly');
+    });
+  });
+});
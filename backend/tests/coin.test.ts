@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { CoinUtils, DEFAULT_COIN_SYMBOL } from '../src/utils/coin.js';
+import { config } from '../src/env.js';
+
+const UCT_ID = 'a'.repeat(64);
+const USDU_ID = 'b'.repeat(64);
+
+describe('CoinUtils', () => {
+  describe('parse', () => {
+    it('should fall back to a single default coin', () => {
+      expect(CoinUtils.parse('', UCT_ID)).toEqual([
+        { symbol: DEFAULT_COIN_SYMBOL, coinId: UCT_ID, decimals: 18 },
+      ]);
+    });
+
+    it('should parse symbols, coin ids and decimals', () => {
+      expect(CoinUtils.parse(`UCT:${UCT_ID}, USDU:${USDU_ID.toUpperCase()}:6`, UCT_ID)).toEqual([
+        { symbol: 'UCT', coinId: UCT_ID, decimals: 18 },
+        { symbol: 'USDU', coinId: USDU_ID, decimals: 6 },
+      ]);
+    });
+
+    it('should reject invalid symbols', () => {
+      expect(() => CoinUtils.parse(`usdu:${USDU_ID}`, UCT_ID)).toThrow('Invalid coin symbol: usdu');
+    });
+
+    it('should reject invalid settings', () => {
+      expect(() => CoinUtils.parse('USDU:abc', UCT_ID)).toThrow('Invalid coin settings: USDU:abc');
+      expect(() => CoinUtils.parse(`USDU:${USDU_ID}:40`, UCT_ID)).toThrow(
+        `Invalid coin settings: USDU:${USDU_ID}:40`
+      );
+    });
+
+    it('should reject duplicate coins', () => {
+      expect(() => CoinUtils.parse(`UCT:${UCT_ID},UCT:${USDU_ID}`, UCT_ID)).toThrow(
+        'Duplicate coin: UCT'
+      );
+      expect(() => CoinUtils.parse(`UCT:${UCT_ID},USDU:${UCT_ID}`, UCT_ID)).toThrow(
+        `Duplicate coin: ${UCT_ID}`
+      );
+    });
+  });
+
+  describe('lookups', () => {
+    afterEach(() => {
+      config.coins = '';
+    });
+
+    it('should treat the first coin as the default', () => {
+      config.coins = `USDU:${USDU_ID}:6,UCT:${UCT_ID}`;
+      expect(CoinUtils.getDefault().symbol).toBe('USDU');
+      expect(CoinUtils.get(null).symbol).toBe('USDU');
+      expect(CoinUtils.byId(null)?.symbol).toBe('USDU');
+    });
+
+    it('should look coins up by symbol and by id', () => {
+      config.coins = `UCT:${UCT_ID},USDU:${USDU_ID}:6`;
+      expect(CoinUtils.get('USDU')).toEqual({ symbol: 'USDU', coinId: USDU_ID, decimals: 6 });
+      expect(CoinUtils.byId(USDU_ID)?.symbol).toBe('USDU');
+      expect(CoinUtils.byId('c'.repeat(64))).toBeUndefined();
+      expect(CoinUtils.symbol(UCT_ID)).toBe('UCT');
+      expect(() => CoinUtils.get('EUR')).toThrow('Unknown coin: EUR');
+    });
+
+    it('should count records without a coin towards the default coin only', () => {
+      config.coins = `UCT:${UCT_ID},USDU:${USDU_ID}:6`;
+      expect(CoinUtils.filter(UCT_ID)).toEqual({ coinId: { $in: [UCT_ID, null] } });
+      expect(CoinUtils.filter(USDU_ID)).toEqual({ coinId: USDU_ID });
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { FairnessUtils, FAIRNESS_VERSION, DIGIT_RANGE } from '../src/utils/fairness.js';
+
+describe('FairnessUtils', () => {
+  describe('constants', () => {
+    it('should have FAIRNESS_VERSION 3', () => {
+      expect(FAIRNESS_VERSION).toBe(3);
+    });
+
+    it('should have DIGIT_RANGE 10', () => {
+      expect(DIGIT_RANGE).toBe(10);
+    });
+  });
+
+  describe('generateServerSeed', () => {
+    it('should generate 64 hex characters', () => {
+      const seed = FairnessUtils.generateServerSeed();
+      expect(seed).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should generate unique seeds', () => {
+      expect(FairnessUtils.generateServerSeed()).not.toBe(FairnessUtils.generateServerSeed());
+    });
+  });
+
+  describe('hashSeed / verifySeed', () => {
+    it('should hash with sha256', () => {
+      const expected = crypto.createHash('sha256').update('seed').digest('hex');
+      expect(FairnessUtils.hashSeed('seed')).toBe(expected);
+    });
+
+    it('should verify matching seed and hash', () => {
+      const seed = FairnessUtils.generateServerSeed();
+      expect(FairnessUtils.verifySeed(seed, FairnessUtils.hashSeed(seed))).toBe(true);
+    });
+
+    it('should reject a different seed', () => {
+      const hash = FairnessUtils.hashSeed(FairnessUtils.generateServerSeed());
+      expect(FairnessUtils.verifySeed(FairnessUtils.generateServerSeed(), hash)).toBe(false);
+    });
+  });
+
+  describe('digestToOutcome', () => {
+    it('should use the first 32-bit word when below the limit', () => {
+      // 0x0000000c = 12 -> 12 % 10 = 2
+      expect(FairnessUtils.digestToOutcome('0000000c' + '0'.repeat(56))).toBe(2);
+    });
+
+    it('should skip words above the rejection limit', () => {
+      // 0xffffffff is above 2^32 - (2^32 % 10), next word 0x00000007 -> 7
+      expect(FairnessUtils.digestToOutcome('ffffffff00000007' + '0'.repeat(48))).toBe(7);
+    });
+
+    it('should rehash when every word is rejected', () => {
+      const outcome = FairnessUtils.digestToOutcome('f'.repeat(64));
+      expect(outcome).toBeGreaterThanOrEqual(0);
+      expect(outcome).toBeLessThan(10);
+    });
+  });
+
+  describe('computeBetsDigest', () => {
+    const entries = [
+      { invoiceId: 'inv-b', userNametag: 'bob', bets: [{ digit: 3, amount: 10 }] },
+      {
+        invoiceId: 'inv-a',
+        userNametag: 'alice',
+        bets: [
+          { digit: 1, amount: 5 },
+          { digit: 7, amount: 2.5 },
+        ],
+      },
+    ];
+
+    it('should hash the canonical JSON sorted by invoiceId', () => {
+      const canonical = JSON.stringify([
+        [
+          'inv-a',
+          'alice',
+          [
+            [1, 5],
+            [7, 2.5],
+          ],
+        ],
+        ['inv-b', 'bob', [[3, 10]]],
+      ]);
+      const expected = crypto.createHash('sha256').update(canonical).digest('hex');
+      expect(FairnessUtils.computeBetsDigest(entries)).toBe(expected);
+    });
+
+    it('should not depend on input order', () => {
+      expect(FairnessUtils.computeBetsDigest([...entries].reverse())).toBe(
+        FairnessUtils.computeBetsDigest(entries)
+      );
+    });
+
+    it('should change when a bet is altered', () => {
+      const altered = [{ ...entries[0], bets: [{ digit: 4, amount: 10 }] }, entries[1]];
+      expect(FairnessUtils.computeBetsDigest(altered)).not.toBe(
+        FairnessUtils.computeBetsDigest(entries)
+      );
+    });
+
+    it('should hash an empty bet set', () => {
+      const expected = crypto.createHash('sha256').update('[]').digest('hex');
+      expect(FairnessUtils.computeBetsDigest([])).toBe(expected);
+    });
+
+    it('should encode group bets with their type and covered numbers', () => {
+      const group = [
+        {
+          invoiceId: 'inv-g',
+          userNametag: 'gina',
+          bets: [
+            { betType: 'odd' as const, digits: [1, 3, 5, 7, 9], amount: 4 },
+            { betType: 'number' as const, digit: 2, amount: 1 },
+          ],
+        },
+      ];
+      const canonical = JSON.stringify([
+        [
+          'inv-g',
+          'gina',
+          [
+            ['odd', [1, 3, 5, 7, 9], 4],
+            [2, 1],
+          ],
+        ],
+      ]);
+      const expected = crypto.createHash('sha256').update(canonical).digest('hex');
+      expect(FairnessUtils.computeBetsDigest(group)).toBe(expected);
+    });
+  });
+
+  describe('computeClientSeedsDigest', () => {
+    it('should hash seeds sorted by invoiceId and skip bets without one', () => {
+      const canonical = JSON.stringify([
+        ['inv-a', 'alpha'],
+        ['inv-c', 'gamma'],
+      ]);
+      const expected = crypto.createHash('sha256').update(canonical).digest('hex');
+      expect(
+        FairnessUtils.computeClientSeedsDigest([
+          { invoiceId: 'inv-c', clientSeed: 'gamma' },
+          { invoiceId: 'inv-b', clientSeed: null },
+          { invoiceId: 'inv-a', clientSeed: 'alpha' },
+        ])
+      ).toBe(expected);
+    });
+
+    it('should change when a seed changes', () => {
+      expect(
+        FairnessUtils.computeClientSeedsDigest([{ invoiceId: 'a', clientSeed: 'x' }])
+      ).not.toBe(FairnessUtils.computeClientSeedsDigest([{ invoiceId: 'a', clientSeed: 'y' }]));
+    });
+  });
+
+  describe('buildMessage', () => {
+    const base = { roundNumber: 7, betsDigest: 'abc', clientSeedsDigest: 'def' };
+
+    it('should use the round number for v1', () => {
+      expect(FairnessUtils.buildMessage({ ...base, version: 1 })).toBe('7');
+    });
+
+    it('should append the bets digest for v2', () => {
+      expect(FairnessUtils.buildMessage({ ...base, version: 2 })).toBe('7:abc');
+    });
+
+    it('should append the client seeds digest for v3', () => {
+      expect(FairnessUtils.buildMessage({ ...base, version: 3 })).toBe('7:abc:def');
+    });
+  });
+
+  describe('deriveWinningDigit', () => {
+    const inputs = {
+      serverSeed: 'a'.repeat(64),
+      roundNumber: 7,
+      betsDigest: 'abc',
+      clientSeedsDigest: 'def',
+      version: 3,
+    };
+
+    it('should be deterministic for the same inputs', () => {
+      expect(FairnessUtils.deriveWinningDigit(inputs)).toBe(
+        FairnessUtils.deriveWinningDigit({ ...inputs })
+      );
+    });
+
+    it('should match HMAC-SHA256 of the v1 message', () => {
+      const digest = crypto.createHmac('sha256', inputs.serverSeed).update('7').digest('hex');
+      expect(FairnessUtils.deriveWinningDigit({ ...inputs, version: 1 })).toBe(
+        FairnessUtils.digestToOutcome(digest, 10)
+      );
+    });
+
+    it('should match HMAC-SHA256 of the v2 message', () => {
+      const digest = crypto.createHmac('sha256', inputs.serverSeed).update('7:abc').digest('hex');
+      expect(FairnessUtils.deriveWinningDigit({ ...inputs, version: 2 })).toBe(
+        FairnessUtils.digestToOutcome(digest, 10)
+      );
+    });
+
+    it('should match HMAC-SHA256 of the v3 message', () => {
+      const digest = crypto
+        .createHmac('sha256', inputs.serverSeed)
+        .update('7:abc:def')
+        .digest('hex');
+      expect(FairnessUtils.deriveWinningDigit(inputs)).toBe(
+        FairnessUtils.digestToOutcome(digest, 10)
+      );
+    });
+
+    it('should use the given range for multi-digit games', () => {
+      const digest = crypto
+        .createHmac('sha256', inputs.serverSeed)
+        .update('7:abc:def')
+        .digest('hex');
+      expect(FairnessUtils.deriveWinningDigit({ ...inputs, range: 1000 })).toBe(
+        FairnessUtils.digestToOutcome(digest, 1000)
+      );
+    });
+
+    it('should always produce a digit between 0 and 9', () => {
+      for (let i = 0; i < 100; i++) {
+        const digit = FairnessUtils.deriveWinningDigit({
+          ...inputs,
+          serverSeed: FairnessUtils.generateServerSeed(),
+          roundNumber: i,
+        });
+        expect(Number.isInteger(digit)).toBe(true);
+        expect(digit).toBeGreaterThanOrEqual(0);
+        expect(digit).toBeLessThanOrEqual(9);
+      }
+    });
+  });
+});
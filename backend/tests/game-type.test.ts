@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { GameTypeUtils, GAME_TYPES, MAX_WINNING_NUMBER } from '../src/utils/game-type.js';
+
+describe('GameTypeUtils', () => {
+  describe('constants', () => {
+    it('should define pick-1, pick-2 and pick-3', () => {
+      expect(GAME_TYPES['pick-1']).toEqual({ digits: 1, range: 10, fixedOddsMultiplier: 9 });
+      expect(GAME_TYPES['pick-2']).toEqual({ digits: 2, range: 100, fixedOddsMultiplier: 90 });
+      expect(GAME_TYPES['pick-3']).toEqual({ digits: 3, range: 1000, fixedOddsMultiplier: 900 });
+      expect(MAX_WINNING_NUMBER).toBe(999);
+    });
+  });
+
+  describe('parse', () => {
+    it('should accept known game types', () => {
+      expect(GameTypeUtils.parse('pick-2')).toBe('pick-2');
+    });
+
+    it('should reject unknown game types', () => {
+      expect(() => GameTypeUtils.parse('pick-4')).toThrow('Unknown game type: pick-4');
+    });
+
+    it('should reject names inherited from Object.prototype', () => {
+      expect(() => GameTypeUtils.parse('toString')).toThrow('Unknown game type: toString');
+      expect(() => GameTypeUtils.parse('constructor')).toThrow('Unknown game type: constructor');
+      expect(() => GameTypeUtils.parse('__proto__')).toThrow('Unknown game type: __proto__');
+    });
+  });
+
+  describe('isGameType', () => {
+    it('should only accept own game type names', () => {
+      expect(GameTypeUtils.isGameType('pick-3')).toBe(true);
+      expect(GameTypeUtils.isGameType('hasOwnProperty')).toBe(false);
+      expect(GameTypeUtils.isGameType(['pick-1'])).toBe(false);
+    });
+  });
+
+  describe('getRange', () => {
+    it('should treat rounds without a game type as pick-1', () => {
+      expect(GameTypeUtils.getRange(null)).toBe(10);
+      expect(GameTypeUtils.getRange(undefined)).toBe(10);
+    });
+
+    it('should return the range of the game type', () => {
+      expect(GameTypeUtils.getRange('pick-3')).toBe(1000);
+    });
+  });
+
+  describe('isValidNumber', () => {
+    it('should accept numbers within the range', () => {
+      expect(GameTypeUtils.isValidNumber(0, 'pick-2')).toBe(true);
+      expect(GameTypeUtils.isValidNumber(99, 'pick-2')).toBe(true);
+    });
+
+    it('should reject numbers outside the range', () => {
+      expect(GameTypeUtils.isValidNumber(10, 'pick-1')).toBe(false);
+      expect(GameTypeUtils.isValidNumber(100, 'pick-2')).toBe(false);
+      expect(GameTypeUtils.isValidNumber(-1, 'pick-3')).toBe(false);
+    });
+
+    it('should reject non-integers', () => {
+      expect(GameTypeUtils.isValidNumber(1.5, 'pick-1')).toBe(false);
+    });
+  });
+
+  describe('format', () => {
+    it('should zero-pad to the number of digits', () => {
+      expect(GameTypeUtils.format(7, 'pick-1')).toBe('7');
+      expect(GameTypeUtils.format(7, 'pick-2')).toBe('07');
+      expect(GameTypeUtils.format(42, 'pick-3')).toBe('042');
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
 import mongoose from 'mongoose';
 import { vi } from 'vitest';
 
@@ -22,11 +22,28 @@ vi.mock('../src/services/index.js', () => ({
       transactionCount: 1,
       sentAmounts: [amount],
     })),
+    findSentTransfer: vi.fn().mockResolvedValue(null),
+    getBalance: vi.fn().mockResolvedValue(10000),
   },
 }));
 
 import { GameService } from '../src/services/game.service.js';
-import { Round, Bet } from '../src/models/game.model.js';
+import { sphereService } from '../src/services/index.js';
+import { Round, Bet, Commission, OutgoingTransfer } from '../src/models/game.model.js';
+import { FairnessUtils } from '../src/utils/fairness.js';
+import { MerkleUtils } from '../src/utils/merkle.js';
+import { RandomnessService, RandomnessSource } from '../src/services/randomness.service.js';
+import { config } from '../src/env.js';
+
+// Make the next draw land on a given digit
+function forceWinningDigit(digit: number): void {
+  const source: RandomnessSource = {
+    name: 'local',
+    commit: () => ({ serverSeed: null, serverSeedHash: null, fairnessVersion: null }),
+    draw: async () => ({ digit, proof: null }),
+  };
+  vi.spyOn(RandomnessService, 'resolveForRound').mockReturnValueOnce(source);
+}
 
 describe('GameService', () => {
   beforeAll(async () => {
@@ -43,17 +60,6 @@ describe('GameService', () => {
     await Bet.deleteMany({});
   });
 
-  describe('generateWinningDigit', () => {
-    it('should generate a digit between 0 and 9', () => {
-      for (let i = 0; i < 100; i++) {
-        const digit = GameService.generateWinningDigit();
-        expect(digit).toBeGreaterThanOrEqual(0);
-        expect(digit).toBeLessThanOrEqual(9);
-        expect(Number.isInteger(digit)).toBe(true);
-      }
-    });
-  });
-
   describe('createRound', () => {
     it('should create first round with number 1', async () => {
       const round = await GameService.createRound();
@@ -70,6 +76,17 @@ describe('GameService', () => {
 
       expect(round2.roundNumber).toBe(2);
     });
+
+    it('should commit to a server seed without revealing it', async () => {
+      const round = await GameService.createRound();
+
+      expect(round.serverSeedHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(round.fairnessVersion).toBe(3);
+      expect(round.serverSeed).toBeUndefined();
+
+      const stored = await Round.findById(round._id).select('+serverSeed');
+      expect(FairnessUtils.verifySeed(stored!.serverSeed!, round.serverSeedHash!)).toBe(true);
+    });
   });
 
   describe('getCurrentRound', () => {
@@ -148,6 +165,18 @@ describe('GameService', () => {
       );
     });
 
+    it('should store optional client seed', async () => {
+      const result = await GameService.placeBets('seeder', [{ digit: 1, amount: 10 }], 'my-seed');
+
+      expect(result.bet.clientSeed).toBe('my-seed');
+    });
+
+    it('should reject client seed that is too long', async () => {
+      await expect(
+        GameService.placeBets('seeder', [{ digit: 1, amount: 10 }], 'x'.repeat(65))
+      ).rejects.toThrow('Client seed must be 1-64 characters');
+    });
+
     it('should create new round when previous is closed', async () => {
       // Create and close first round
       const round1 = await GameService.createRound();
@@ -159,7 +188,7 @@ describe('GameService', () => {
       // Bet should be on a new round (round 2)
       const round2 = await GameService.getCurrentRound();
       expect(round2.roundNumber).toBe(2);
-      expect(result.bet.roundId.toString()).toBe(round2._id.toString());
+      expect(result.bet.roundId!.toString()).toBe(round2._id.toString());
     });
   });
 
@@ -237,6 +266,68 @@ describe('GameService', () => {
     });
   });
 
+  describe('getRoundVerification', () => {
+    it('should return null for unknown round', async () => {
+      const fakeId = new mongoose.Types.ObjectId().toString();
+      expect(await GameService.getRoundVerification(fakeId)).toBeNull();
+    });
+
+    it('should refuse rounds that have not been drawn', async () => {
+      const round = await GameService.createRound();
+      await expect(GameService.getRoundVerification(round._id.toString())).rejects.toThrow(
+        'Round has not been drawn yet'
+      );
+    });
+
+    it('should return verifiable data for a drawn round', async () => {
+      const round = await GameService.createRound();
+      const { invoice } = await GameService.placeBets('verifier', [{ digit: 2, amount: 10 }]);
+      await GameService.confirmPayment(invoice.invoiceId, 'tx-verify');
+      await GameService.closeRound(round._id.toString());
+      await GameService.drawWinner(round._id.toString());
+
+      const verification = await GameService.getRoundVerification(round._id.toString());
+
+      expect(verification!.verified).toBe(true);
+      expect(verification!.bets).toHaveLength(1);
+      expect(verification!.betsDigest).toBe(
+        FairnessUtils.computeBetsDigest(verification!.bets)
+      );
+      expect(verification!.serverSeedHash).toBe(round.serverSeedHash);
+    });
+  });
+
+  describe('closeRound client seeds', () => {
+    it('should store digest of paid bets client seeds', async () => {
+      const round = await GameService.createRound();
+      const { invoice } = await GameService.placeBets('mixer', [{ digit: 1, amount: 10 }], 'abc');
+      await GameService.confirmPayment(invoice.invoiceId, 'tx-mix');
+
+      const closed = await GameService.closeRound(round._id.toString());
+
+      expect(closed.clientSeedsDigest).toBe(
+        FairnessUtils.computeClientSeedsDigest([{ invoiceId: invoice.invoiceId, clientSeed: 'abc' }])
+      );
+    });
+  });
+
+  describe('closeRound bet commitment', () => {
+    it('should store Merkle root of paid bets', async () => {
+      const round = await GameService.createRound();
+      const { invoice } = await GameService.placeBets('merkle', [{ digit: 4, amount: 20 }]);
+      await GameService.confirmPayment(invoice.invoiceId, 'tx-merkle');
+      await GameService.placeBets('unpaid', [{ digit: 5, amount: 10 }]);
+
+      const closed = await GameService.closeRound(round._id.toString());
+
+      expect(closed.betsMerkleRoot).toBe(
+        MerkleUtils.computeRoot([
+          { invoiceId: invoice.invoiceId, userNametag: 'merkle', bets: [{ digit: 4, amount: 20 }] },
+        ])
+      );
+    });
+  });
+
   describe('drawWinner', () => {
     it('should draw winning digit', async () => {
       const round = await GameService.createRound();
@@ -250,6 +341,44 @@ describe('GameService', () => {
       expect(drawn.drawTime).toBeDefined();
     });
 
+    it('should derive winning digit from the revealed server seed', async () => {
+      const round = await GameService.createRound();
+      await GameService.closeRound(round._id.toString());
+
+      const drawn = await GameService.drawWinner(round._id.toString());
+      const revealed = await Round.findById(round._id).select('+serverSeed');
+
+      expect(FairnessUtils.verifySeed(revealed!.serverSeed!, round.serverSeedHash!)).toBe(true);
+      expect(drawn.winningDigit).toBe(
+        FairnessUtils.deriveWinningDigit({
+          serverSeed: revealed!.serverSeed!,
+          roundNumber: round.roundNumber,
+          betsDigest: revealed!.betsDigest,
+          clientSeedsDigest: revealed!.clientSeedsDigest,
+          version: 3,
+        })
+      );
+    });
+
+    it('should record the randomness source that produced the digit', async () => {
+      const round = await GameService.createRound();
+      await GameService.closeRound(round._id.toString());
+
+      const drawn = await GameService.drawWinner(round._id.toString());
+
+      expect(drawn.randomnessSource).toBe('commit-reveal');
+    });
+
+    it('should fall back to local randomness for rounds without a commitment', async () => {
+      const round = await Round.create({ roundNumber: 1, status: 'closed' });
+
+      const drawn = await GameService.drawWinner(round._id.toString());
+
+      expect(drawn.randomnessSource).toBe('local');
+      expect(drawn.winningDigit).toBeGreaterThanOrEqual(0);
+      expect(drawn.winningDigit).toBeLessThanOrEqual(9);
+    });
+
     it('should calculate winnings for winners (pari-mutuel pool)', async () => {
       const round = await GameService.createRound();
 
@@ -260,7 +389,7 @@ describe('GameService', () => {
       await GameService.closeRound(round._id.toString());
 
       // Mock winning digit to 5
-      vi.spyOn(GameService, 'generateWinningDigit').mockReturnValueOnce(5);
+      forceWinningDigit(5);
 
       await GameService.drawWinner(round._id.toString());
 
@@ -280,7 +409,7 @@ describe('GameService', () => {
       await GameService.closeRound(round._id.toString());
 
       // Mock winning digit to 7 (not 3)
-      vi.spyOn(GameService, 'generateWinningDigit').mockReturnValueOnce(7);
+      forceWinningDigit(7);
 
       await GameService.drawWinner(round._id.toString());
 
@@ -298,6 +427,638 @@ describe('GameService', () => {
     });
   });
 
+  describe('game types', () => {
+    afterEach(() => {
+      config.gameType = 'pick-1';
+    });
+
+    it('should open rounds with the configured game type', async () => {
+      config.gameType = 'pick-2';
+
+      const round = await GameService.createRound();
+
+      expect(round.gameType).toBe('pick-2');
+    });
+
+    it('should default to pick-1', async () => {
+      const round = await GameService.createRound();
+
+      expect(round.gameType).toBe('pick-1');
+    });
+
+    it('should accept two-digit numbers in a pick-2 round', async () => {
+      config.gameType = 'pick-2';
+
+      const { bet } = await GameService.placeBets('pair', [{ digit: 42, amount: 10 }]);
+
+      expect(bet.bets[0].digit).toBe(42);
+    });
+
+    it('should reject numbers outside the pick-2 range', async () => {
+      config.gameType = 'pick-2';
+
+      await expect(GameService.placeBets('pair', [{ digit: 100, amount: 10 }])).rejects.toThrow(
+        'Number must be between 00 and 99'
+      );
+    });
+
+    it('should reject numbers outside the pick-3 range', async () => {
+      config.gameType = 'pick-3';
+
+      await expect(GameService.placeBets('triple', [{ digit: 1000, amount: 10 }])).rejects.toThrow(
+        'Number must be between 000 and 999'
+      );
+    });
+
+    it('should draw a pick-3 number from the committed seed', async () => {
+      config.gameType = 'pick-3';
+      const round = await GameService.createRound();
+      await GameService.closeRound(round._id.toString());
+
+      const drawn = await GameService.drawWinner(round._id.toString());
+      const revealed = await Round.findById(round._id).select('+serverSeed');
+
+      expect(drawn.winningDigit).toBe(
+        FairnessUtils.deriveWinningDigit({
+          serverSeed: revealed!.serverSeed!,
+          roundNumber: round.roundNumber,
+          betsDigest: revealed!.betsDigest,
+          clientSeedsDigest: revealed!.clientSeedsDigest,
+          version: 3,
+          range: 1000,
+        })
+      );
+      expect((await GameService.getRoundVerification(round._id.toString()))!.verified).toBe(true);
+    });
+
+    it('should settle pick-2 rounds pari-mutuel on the exact number', async () => {
+      config.gameType = 'pick-2';
+      const round = await GameService.createRound();
+
+      const a = await GameService.placeBets('exact', [{ digit: 37, amount: 30 }]);
+      await GameService.confirmPayment(a.invoice.invoiceId, 'tx-exact');
+      const b = await GameService.placeBets('near', [{ digit: 73, amount: 70 }]);
+      await GameService.confirmPayment(b.invoice.invoiceId, 'tx-near');
+
+      await GameService.closeRound(round._id.toString());
+      forceWinningDigit(37);
+      await GameService.drawWinner(round._id.toString());
+
+      // Pool 100, 5% fee, sole winner takes 95
+      expect((await Bet.findOne({ userNametag: 'exact' }))!.winnings).toBe(95);
+      expect((await Bet.findOne({ userNametag: 'near' }))!.winnings).toBe(0);
+    });
+  });
+
+  describe('group bets', () => {
+    afterEach(() => {
+      config.settlementMode = 'pari-mutuel';
+    });
+
+    it('should store group bets with the numbers they cover', async () => {
+      await GameService.createRound();
+
+      const { bet } = await GameService.placeBets('grouper', [
+        { betType: 'high', amount: 10 },
+        { betType: 'set', digits: [8, 1, 8], amount: 5 },
+      ]);
+
+      expect(bet.bets[0].digits).toEqual([5, 6, 7, 8, 9]);
+      expect(bet.bets[1].digits).toEqual([1, 8]);
+      expect(bet.totalAmount).toBe(15);
+    });
+
+    it('should reject unknown bet types and invalid sets', async () => {
+      await GameService.createRound();
+
+      await expect(
+        GameService.placeBets('grouper', [{ betType: 'prime' as never, amount: 10 }])
+      ).rejects.toThrow('Unknown bet type: prime');
+      await expect(
+        GameService.placeBets('grouper', [{ betType: 'set', digits: [4], amount: 10 }])
+      ).rejects.toThrow('Set must contain 2 to 9 distinct numbers in range');
+    });
+
+    it('should settle group bets in their own pari-mutuel pool', async () => {
+      const round = await GameService.createRound();
+
+      const a = await GameService.placeBets('odd-fan', [{ betType: 'odd', amount: 20 }]);
+      await GameService.confirmPayment(a.invoice.invoiceId, 'tx-odd');
+      const b = await GameService.placeBets('picker', [{ digit: 3, amount: 10 }]);
+      await GameService.confirmPayment(b.invoice.invoiceId, 'tx-picker');
+      const c = await GameService.placeBets('even-fan', [{ betType: 'even', amount: 30 }]);
+      await GameService.confirmPayment(c.invoice.invoiceId, 'tx-even');
+
+      await GameService.closeRound(round._id.toString());
+      forceWinningDigit(3);
+      await GameService.drawWinner(round._id.toString());
+
+      // Number pool 10 -> 9.5 after 5% fee, group pool 50 -> 47.5 to the only winning group
+      const settled = await Round.findById(round._id);
+      expect((await Bet.findOne({ userNametag: 'picker' }))!.winnings).toBe(9.5);
+      expect((await Bet.findOne({ userNametag: 'odd-fan' }))!.winnings).toBe(47.5);
+      expect((await Bet.findOne({ userNametag: 'even-fan' }))!.winnings).toBe(0);
+      expect(settled!.totalPayout).toBe(57);
+      expect(settled!.houseFee).toBe(3);
+    });
+
+    it('should weight group pool claims by the numbers each group covers', async () => {
+      const round = await GameService.createRound();
+
+      const a = await GameService.placeBets('wide', [{ betType: 'low', amount: 10 }]);
+      await GameService.confirmPayment(a.invoice.invoiceId, 'tx-wide');
+      const b = await GameService.placeBets('narrow', [
+        { betType: 'set', digits: [1, 2], amount: 10 },
+      ]);
+      await GameService.confirmPayment(b.invoice.invoiceId, 'tx-narrow');
+
+      await GameService.closeRound(round._id.toString());
+      forceWinningDigit(2);
+      await GameService.drawWinner(round._id.toString());
+
+      // Claims: low 10 x 10/5 = 20, set 10 x 10/2 = 50 -> pool 19 split 20:50
+      expect((await Bet.findOne({ userNametag: 'wide' }))!.winnings).toBe(5.4286);
+      expect((await Bet.findOne({ userNametag: 'narrow' }))!.winnings).toBe(13.5714);
+    });
+
+    it('should pay group bets at fixed odds spread over their numbers', async () => {
+      config.settlementMode = 'fixed-odds';
+      const round = await GameService.createRound();
+
+      const a = await GameService.placeBets('odd-fan', [{ betType: 'odd', amount: 10 }]);
+      await GameService.confirmPayment(a.invoice.invoiceId, 'tx-odd');
+
+      await GameService.closeRound(round._id.toString());
+      forceWinningDigit(7);
+      await GameService.drawWinner(round._id.toString());
+
+      // 9x over 5 numbers = 1.8x
+      expect((await Bet.findOne({ userNametag: 'odd-fan' }))!.winnings).toBe(18);
+    });
+  });
+
+  describe('jackpot rollover', () => {
+    afterEach(() => {
+      config.jackpotRollover = false;
+      config.jackpotCap = 0;
+      config.jackpotFeePercent = 0;
+    });
+
+    // Settle a round where nobody picks the winning digit (stakes on 1 and 2, draw 5)
+    async function settleWithoutWinners(): Promise<string> {
+      const round = await GameService.createRound();
+      const a = await GameService.placeBets('one', [{ digit: 1, amount: 10 }]);
+      await GameService.confirmPayment(a.invoice.invoiceId, 'tx-one');
+      const b = await GameService.placeBets('two', [{ digit: 2, amount: 10 }]);
+      await GameService.confirmPayment(b.invoice.invoiceId, 'tx-two');
+      await GameService.closeRound(round._id.toString());
+      forceWinningDigit(5);
+      await GameService.drawWinner(round._id.toString());
+      return round._id.toString();
+    }
+
+    it('should sweep an unwon pool to commission when rollover is off', async () => {
+      const roundId = await settleWithoutWinners();
+
+      const settled = await Round.findById(roundId);
+      expect(settled!.houseFee).toBe(20);
+      expect(settled!.jackpotRolledOver).toBe(0);
+      expect((await GameService.createRound()).jackpot).toBe(0);
+    });
+
+    it('should carry an unwon pool into the next round as a jackpot', async () => {
+      config.jackpotRollover = true;
+      const roundId = await settleWithoutWinners();
+
+      const next = await GameService.createRound();
+      const source = await Round.findById(roundId);
+
+      expect(source!.houseFee).toBe(0);
+      expect(source!.jackpotRolledOver).toBe(20);
+      expect(source!.jackpotClaimedBy).toBe(next.roundNumber);
+      expect(next.jackpot).toBe(20);
+      expect(next.totalPool).toBe(20);
+      expect(next.jackpotSourceRound).toBe(source!.roundNumber);
+    });
+
+    it('should keep the fee fraction and anything above the cap as commission', async () => {
+      config.jackpotRollover = true;
+      config.jackpotFeePercent = 10;
+      config.jackpotCap = 15;
+      const roundId = await settleWithoutWinners();
+
+      // Pool 20: 2 fee, 18 capped to 15, 5 to commission
+      const source = await Round.findById(roundId);
+      expect(source!.jackpotRolledOver).toBe(15);
+      expect(source!.houseFee).toBe(5);
+    });
+
+    it('should credit a next round that is already open', async () => {
+      config.jackpotRollover = true;
+      const round = await GameService.createRound();
+      const a = await GameService.placeBets('early', [{ digit: 1, amount: 10 }]);
+      await GameService.confirmPayment(a.invoice.invoiceId, 'tx-early');
+      await GameService.closeRound(round._id.toString());
+      const next = await GameService.createRound();
+
+      forceWinningDigit(5);
+      await GameService.drawWinner(round._id.toString());
+
+      const credited = await Round.findById(next._id);
+      expect(credited!.jackpot).toBe(10);
+      expect(credited!.totalPool).toBe(10);
+    });
+
+    it('should pay the jackpot to the next round winners', async () => {
+      config.jackpotRollover = true;
+      await settleWithoutWinners();
+      const next = await GameService.createRound();
+
+      const c = await GameService.placeBets('lucky', [{ digit: 3, amount: 10 }]);
+      await GameService.confirmPayment(c.invoice.invoiceId, 'tx-lucky');
+      await GameService.closeRound(next._id.toString());
+      forceWinningDigit(3);
+      await GameService.drawWinner(next._id.toString());
+
+      // Pool 20 jackpot + 10 stake, 5% fee on the stake only -> 0.5 fee, 29.5 won
+      expect((await Bet.findOne({ userNametag: 'lucky' }))!.winnings).toBe(29.5);
+      expect((await Round.findById(next._id))!.houseFee).toBe(0.5);
+    });
+
+    it('should take the rollover fee only from new stakes', async () => {
+      config.jackpotRollover = true;
+      config.jackpotFeePercent = 10;
+      const firstId = await settleWithoutWinners();
+      const next = await GameService.createRound();
+
+      const c = await GameService.placeBets('three', [{ digit: 3, amount: 10 }]);
+      await GameService.confirmPayment(c.invoice.invoiceId, 'tx-three');
+      await GameService.closeRound(next._id.toString());
+      forceWinningDigit(5);
+      await GameService.drawWinner(next._id.toString());
+      const third = await GameService.createRound();
+
+      // First rollover: 20 stakes, 2 fee -> 18 carried
+      const first = await Round.findById(firstId);
+      expect(first!.jackpotRolledOver).toBe(18);
+      expect(first!.houseFee).toBe(2);
+      // Second rollover: 18 jackpot + 10 stake, fee on the stake only -> 27 carried
+      const second = await Round.findById(next._id);
+      expect(second!.jackpotRolledOver).toBe(27);
+      expect(second!.houseFee).toBe(1);
+      expect(third.jackpot).toBe(27);
+    });
+  });
+
+  describe('channels', () => {
+    beforeEach(() => {
+      config.channels = 'quick:300:2:5,hourly:3600';
+    });
+
+    afterEach(() => {
+      config.channels = '';
+    });
+
+    it('should keep an independent open round and numbering per channel', async () => {
+      const quick1 = await GameService.getCurrentRound('quick');
+      const hourly1 = await GameService.getCurrentRound('hourly');
+      await GameService.closeRound(quick1._id.toString());
+      const quick2 = await GameService.getCurrentRound('quick');
+
+      expect(quick1._id.toString()).not.toBe(hourly1._id.toString());
+      expect(hourly1.roundNumber).toBe(1);
+      expect(quick2.roundNumber).toBe(2);
+      expect((await GameService.getCurrentRound('hourly'))._id.toString()).toBe(
+        hourly1._id.toString()
+      );
+    });
+
+    it('should store the channel and its house fee on the round', async () => {
+      const round = await GameService.createRound('quick');
+
+      expect(round.channel).toBe('quick');
+      expect(round.houseFeePercent).toBe(2);
+    });
+
+    it('should treat the first channel as the default', async () => {
+      const round = await GameService.getCurrentRound();
+
+      expect(round.channel).toBe('quick');
+    });
+
+    it('should enforce the channel minimum bet', async () => {
+      await expect(
+        GameService.placeBets('alice', [{ digit: 1, amount: 4 }], undefined, 'quick')
+      ).rejects.toThrow('Minimum bet is 5 UCT');
+
+      const result = await GameService.placeBets(
+        'alice',
+        [{ digit: 1, amount: 4 }],
+        undefined,
+        'hourly'
+      );
+      expect(result.bet.totalAmount).toBe(4);
+    });
+
+    it('should settle with the channel house fee', async () => {
+      const round = await GameService.createRound('quick');
+      const a = await GameService.placeBets('alice', [{ digit: 3, amount: 100 }], undefined, 'quick');
+      await GameService.confirmPayment(a.invoice.invoiceId, 'tx-alice');
+      await GameService.closeRound(round._id.toString());
+      forceWinningDigit(3);
+      await GameService.drawWinner(round._id.toString());
+
+      expect((await Round.findById(round._id))!.houseFee).toBe(2);
+    });
+
+    it('should roll a jackpot only into the same channel', async () => {
+      config.jackpotRollover = true;
+      const round = await GameService.createRound('quick');
+      const a = await GameService.placeBets('one', [{ digit: 1, amount: 10 }], undefined, 'quick');
+      await GameService.confirmPayment(a.invoice.invoiceId, 'tx-one');
+      await GameService.closeRound(round._id.toString());
+      forceWinningDigit(5);
+      await GameService.drawWinner(round._id.toString());
+
+      const hourly = await GameService.createRound('hourly');
+      const quick = await GameService.createRound('quick');
+      config.jackpotRollover = false;
+
+      expect(hourly.jackpot).toBe(0);
+      expect(quick.jackpot).toBe(10);
+    });
+  });
+
+  describe('pre-booked bets', () => {
+    afterEach(() => {
+      config.prebookMaxRoundsAhead = 24;
+      config.prebookHorizonSeconds = 604800;
+      vi.mocked(sphereService.sendTokens).mockClear();
+    });
+
+    // Close the open round and open the next one, binding its bookings
+    async function openNextRound(): Promise<string> {
+      const round = await GameService.getCurrentRound();
+      await GameService.closeRound(round._id.toString());
+      const next = await GameService.getCurrentRound();
+      await GameService.bindPrebookedBets(next);
+      await GameService.refundStalePrebookedBets(next);
+      return next._id.toString();
+    }
+
+    it('should hold a paid booking without a round', async () => {
+      await GameService.createRound();
+      const { bet, invoice } = await GameService.placeBets(
+        'alice',
+        [{ digit: 4, amount: 10 }],
+        undefined,
+        undefined,
+        3
+      );
+
+      const result = await GameService.confirmPayment(invoice.invoiceId, 'tx-book');
+
+      expect(bet.roundId).toBeNull();
+      expect(bet.roundNumber).toBe(3);
+      expect(result.accepted).toBe(true);
+      expect(result.bet.paymentStatus).toBe('paid');
+      expect(result.bet.roundId).toBeNull();
+    });
+
+    it('should bind the booking when its round opens', async () => {
+      await GameService.createRound();
+      const { invoice } = await GameService.placeBets(
+        'alice',
+        [{ digit: 4, amount: 10 }],
+        undefined,
+        undefined,
+        3
+      );
+      await GameService.confirmPayment(invoice.invoiceId, 'tx-book');
+
+      await openNextRound();
+      expect((await Bet.findOne({ invoiceId: invoice.invoiceId }))!.roundId).toBeNull();
+
+      const roundId = await openNextRound();
+      const bound = await Bet.findOne({ invoiceId: invoice.invoiceId });
+      expect(bound!.roundId!.toString()).toBe(roundId);
+      expect((await Round.findById(roundId))!.totalPool).toBe(10);
+    });
+
+    it('should join the round directly when paid after it opened', async () => {
+      await GameService.createRound();
+      const { invoice } = await GameService.placeBets(
+        'alice',
+        [{ digit: 4, amount: 10 }],
+        undefined,
+        undefined,
+        2
+      );
+      const round = await GameService.getCurrentRound();
+      await GameService.closeRound(round._id.toString());
+      const next = await GameService.getCurrentRound();
+
+      const result = await GameService.confirmPayment(invoice.invoiceId, 'tx-late');
+
+      expect(result.accepted).toBe(true);
+      expect(result.bet.roundId!.toString()).toBe(next._id.toString());
+      expect((await Round.findById(next._id))!.totalPool).toBe(10);
+    });
+
+    it('should reject past rounds and rounds beyond the booking limit', async () => {
+      config.prebookMaxRoundsAhead = 2;
+      await GameService.createRound();
+      await GameService.createRound();
+
+      await expect(
+        GameService.placeBets('alice', [{ digit: 4, amount: 10 }], undefined, undefined, 1)
+      ).rejects.toThrow('Round #1 is no longer open for betting');
+      await expect(
+        GameService.placeBets('alice', [{ digit: 4, amount: 10 }], undefined, undefined, 5)
+      ).rejects.toThrow('Bets can be booked at most 2 rounds ahead');
+    });
+
+    it('should refund bookings that waited past the horizon', async () => {
+      await GameService.createRound();
+      const { invoice } = await GameService.placeBets(
+        'alice',
+        [{ digit: 4, amount: 10 }],
+        undefined,
+        undefined,
+        5
+      );
+      await GameService.confirmPayment(invoice.invoiceId, 'tx-book');
+      config.prebookHorizonSeconds = 0;
+
+      await openNextRound();
+
+      const refunded = await Bet.findOne({ invoiceId: invoice.invoiceId });
+      expect(refunded!.paymentStatus).toBe('refunded');
+      expect(refunded!.refundReason).toBe('Round #5 did not open within the booking horizon');
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'alice',
+        10,
+        config.coinId,
+        expect.any(String)
+      );
+    });
+  });
+
+  describe('stake limits', () => {
+    afterEach(() => {
+      config.maxBetAmount = 0;
+      config.maxUserStakePerRound = 0;
+      config.maxDigitPoolShare = 0;
+      config.digitShareMinPool = 100;
+    });
+
+    it('should reject bet items above the maximum bet', async () => {
+      config.maxBetAmount = 50;
+
+      await expect(GameService.placeBets('alice', [{ digit: 1, amount: 51 }])).rejects.toThrow(
+        'Maximum bet is 50 UCT'
+      );
+    });
+
+    it('should cap a player total per round including pending bets', async () => {
+      config.maxUserStakePerRound = 100;
+      await GameService.placeBets('alice', [{ digit: 1, amount: 80 }]);
+
+      await expect(GameService.placeBets('alice', [{ digit: 2, amount: 30 }])).rejects.toThrow(
+        'Stake limit reached: at most 100 UCT per player per round'
+      );
+      await expect(GameService.placeBets('bob', [{ digit: 2, amount: 30 }])).resolves.toBeDefined();
+    });
+
+    it('should refund a payment that arrives after the limit was reached', async () => {
+      const first = await GameService.placeBets('alice', [{ digit: 1, amount: 80 }]);
+      const second = await GameService.placeBets('alice', [{ digit: 2, amount: 30 }]);
+      config.maxUserStakePerRound = 100;
+      await GameService.confirmPayment(second.invoice.invoiceId, 'tx-second');
+
+      const result = await GameService.confirmPayment(first.invoice.invoiceId, 'tx-first');
+
+      expect(result.accepted).toBe(false);
+      expect(result.refundReason).toBe('Stake limit reached: at most 100 UCT per player per round');
+      expect(result.bet.paymentStatus).toBe('refunded');
+      expect((await GameService.getCurrentRound()).totalPool).toBe(30);
+    });
+
+    it('should refuse to concentrate the pool on one number', async () => {
+      config.maxDigitPoolShare = 50;
+      const a = await GameService.placeBets('alice', [{ digit: 1, amount: 60 }]);
+      await GameService.confirmPayment(a.invoice.invoiceId, 'tx-a');
+      const b = await GameService.placeBets('bob', [{ digit: 2, amount: 60 }]);
+      await GameService.confirmPayment(b.invoice.invoiceId, 'tx-b');
+
+      await expect(GameService.placeBets('carol', [{ digit: 1, amount: 40 }])).rejects.toThrow(
+        'Digit limit reached: #1 would hold more than 50% of the pool'
+      );
+    });
+  });
+
+  describe('fixed-odds settlement', () => {
+    afterEach(() => {
+      config.settlementMode = 'pari-mutuel';
+      config.fixedOddsMultiplier = 0;
+      config.gameType = 'pick-1';
+    });
+
+    it('should store the settlement mode and game type multiplier on the round', async () => {
+      config.settlementMode = 'fixed-odds';
+      config.gameType = 'pick-2';
+
+      const round = await GameService.createRound();
+
+      expect(round.settlementMode).toBe('fixed-odds');
+      expect(round.payoutMultiplier).toBe(90);
+    });
+
+    it('should prefer the configured multiplier', async () => {
+      config.settlementMode = 'fixed-odds';
+      config.fixedOddsMultiplier = 8.5;
+
+      const round = await GameService.createRound();
+
+      expect(round.payoutMultiplier).toBe(8.5);
+    });
+
+    it('should keep pari-mutuel rounds without a multiplier', async () => {
+      const round = await GameService.createRound();
+
+      expect(round.settlementMode).toBe('pari-mutuel');
+      expect(round.payoutMultiplier).toBeNull();
+    });
+
+    it('should pay winners the fixed multiplier and charge the house the difference', async () => {
+      config.settlementMode = 'fixed-odds';
+      const round = await GameService.createRound();
+
+      const a = await GameService.placeBets('lucky', [{ digit: 4, amount: 20 }]);
+      await GameService.confirmPayment(a.invoice.invoiceId, 'tx-lucky');
+      const b = await GameService.placeBets('unlucky', [{ digit: 6, amount: 30 }]);
+      await GameService.confirmPayment(b.invoice.invoiceId, 'tx-unlucky');
+
+      await GameService.closeRound(round._id.toString());
+      forceWinningDigit(4);
+      await GameService.drawWinner(round._id.toString());
+
+      // Pool 50, winner paid 20 x 9 = 180, house covers 130
+      const settled = await Round.findById(round._id);
+      expect((await Bet.findOne({ userNametag: 'lucky' }))!.winnings).toBe(180);
+      expect((await Bet.findOne({ userNametag: 'unlucky' }))!.winnings).toBe(0);
+      expect(settled!.totalPayout).toBe(180);
+      expect(settled!.houseFee).toBe(-130);
+    });
+
+    it('should settle history under the mode each round ran with', async () => {
+      config.settlementMode = 'fixed-odds';
+      const round = await GameService.createRound();
+      const a = await GameService.placeBets('early', [{ digit: 2, amount: 10 }]);
+      await GameService.confirmPayment(a.invoice.invoiceId, 'tx-early');
+      await GameService.closeRound(round._id.toString());
+
+      // Switching modes mid-round does not change how this round pays
+      config.settlementMode = 'pari-mutuel';
+      forceWinningDigit(2);
+      await GameService.drawWinner(round._id.toString());
+
+      expect((await Bet.findOne({ userNametag: 'early' }))!.winnings).toBe(90);
+    });
+
+    it('should reject bets whose worst-case payout exceeds the bankroll', async () => {
+      config.settlementMode = 'fixed-odds';
+      await GameService.createRound();
+      vi.mocked(sphereService.getBalance).mockResolvedValueOnce(100);
+
+      // 12 x 9 = 108 > 100
+      await expect(GameService.placeBets('whale', [{ digit: 1, amount: 12 }])).rejects.toThrow(
+        'Bet exceeds house bankroll limit for this round'
+      );
+    });
+
+    it('should count pending stakes on the same number towards exposure', async () => {
+      config.settlementMode = 'fixed-odds';
+      await GameService.createRound();
+      await GameService.placeBets('first', [{ digit: 3, amount: 10 }]);
+      vi.mocked(sphereService.getBalance).mockResolvedValueOnce(150);
+
+      // Stakes on 3 total 20, 20 x 9 = 180 > 150
+      await expect(GameService.placeBets('second', [{ digit: 3, amount: 10 }])).rejects.toThrow(
+        'Bet exceeds house bankroll limit for this round'
+      );
+    });
+
+    it('should not check the bankroll for pari-mutuel rounds', async () => {
+      await GameService.createRound();
+      vi.mocked(sphereService.getBalance).mockClear();
+
+      await GameService.placeBets('pool', [{ digit: 1, amount: 1000 }]);
+
+      expect(sphereService.getBalance).not.toHaveBeenCalled();
+    });
+  });
+
   describe('processPayouts', () => {
     it('should process payouts for winners', async () => {
       const round = await GameService.createRound();
@@ -306,7 +1067,7 @@ describe('GameService', () => {
       await GameService.confirmPayment(invoice.invoiceId, 'tx-pw');
 
       await GameService.closeRound(round._id.toString());
-      vi.spyOn(GameService, 'generateWinningDigit').mockReturnValueOnce(8);
+      forceWinningDigit(8);
       await GameService.drawWinner(round._id.toString());
 
       const result = await GameService.processPayouts(round._id.toString());
@@ -325,7 +1086,7 @@ describe('GameService', () => {
       await GameService.confirmPayment(invoice.invoiceId, 'tx-complete');
 
       await GameService.closeRound(round._id.toString());
-      vi.spyOn(GameService, 'generateWinningDigit').mockReturnValueOnce(0);
+      forceWinningDigit(0);
       await GameService.drawWinner(round._id.toString());
       await GameService.processPayouts(round._id.toString());
 
@@ -340,7 +1101,7 @@ describe('GameService', () => {
       await GameService.confirmPayment(invoice.invoiceId, 'tx-nw');
 
       await GameService.closeRound(round._id.toString());
-      vi.spyOn(GameService, 'generateWinningDigit').mockReturnValueOnce(9); // Different digit
+      forceWinningDigit(9); // Different digit
       await GameService.drawWinner(round._id.toString());
 
       const result = await GameService.processPayouts(round._id.toString());
@@ -438,4 +1199,150 @@ describe('GameService', () => {
       expect(bets[0].userNametag).toBe('paid-user');
     });
   });
+
+  describe('invoice expiry', () => {
+    async function lapse(invoiceId: string): Promise<void> {
+      await Bet.updateOne({ invoiceId }, { $set: { expiresAt: new Date(Date.now() - 1000) } });
+    }
+
+    it('should record the invoice expiry on the bet', async () => {
+      const result = await GameService.placeBets('alice', [{ digit: 1, amount: 10 }]);
+
+      expect(result.bet.expiresAt).toBeInstanceOf(Date);
+      expect(result.bet.expiredAt).toBeNull();
+    });
+
+    it('should expire unpaid bets past their invoice expiry', async () => {
+      const lapsed = await GameService.placeBets('alice', [{ digit: 1, amount: 10 }]);
+      const open = await GameService.placeBets('bob', [{ digit: 2, amount: 10 }]);
+      await lapse(lapsed.invoice.invoiceId);
+
+      expect(await GameService.expireUnpaidBets()).toBe(1);
+
+      const stored = await Bet.findOne({ invoiceId: lapsed.invoice.invoiceId });
+      expect(stored!.paymentStatus).toBe('expired');
+      expect(stored!.expiredAt).toBeInstanceOf(Date);
+      expect((await Bet.findOne({ invoiceId: open.invoice.invoiceId }))!.paymentStatus).toBe(
+        'pending'
+      );
+    });
+
+    it('should free the stake limit held by an expired bet', async () => {
+      config.maxUserStakePerRound = 100;
+      try {
+        const first = await GameService.placeBets('alice', [{ digit: 1, amount: 80 }]);
+        await lapse(first.invoice.invoiceId);
+        await GameService.expireUnpaidBets();
+
+        await expect(
+          GameService.placeBets('alice', [{ digit: 2, amount: 80 }])
+        ).resolves.toBeDefined();
+      } finally {
+        config.maxUserStakePerRound = 0;
+      }
+    });
+
+    it('should refund a payment for an expired invoice', async () => {
+      const result = await GameService.placeBets('alice', [{ digit: 1, amount: 10 }]);
+      await lapse(result.invoice.invoiceId);
+      await GameService.expireUnpaidBets();
+
+      const late = await GameService.confirmPayment(result.invoice.invoiceId, 'tx-late');
+
+      expect(late.accepted).toBe(false);
+      expect(late.refundReason).toBe('Invoice expired');
+      expect(late.bet.paymentStatus).toBe('refunded');
+      expect(late.bet.expiredAt).toBeInstanceOf(Date);
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'alice',
+        10,
+        config.coinId,
+        expect.any(String)
+      );
+      expect((await GameService.getCurrentRound()).totalPool).toBe(0);
+    });
+
+    it('should refund a late payment the sweeper has not reached yet', async () => {
+      const result = await GameService.placeBets('alice', [{ digit: 1, amount: 10 }]);
+      await lapse(result.invoice.invoiceId);
+
+      const late = await GameService.confirmPayment(result.invoice.invoiceId, 'tx-late');
+
+      expect(late.accepted).toBe(false);
+      expect(late.refundReason).toBe('Invoice expired');
+    });
+  });
+
+  describe('commission withdrawal', () => {
+    const key = 'commission-withdrawal:UCT:interrupted';
+
+    beforeEach(async () => {
+      await Commission.deleteMany({});
+      await OutgoingTransfer.deleteMany({});
+      await GameService.addCommission(20);
+      config.developerNametag = 'dev';
+    });
+
+    afterEach(() => {
+      config.developerNametag = '';
+    });
+
+    it('should let a failed withdrawal be retried with a different amount', async () => {
+      vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('relay down'));
+
+      const failed = await GameService.withdrawCommission(15);
+      expect(failed).toEqual({ success: false, amount: 0, error: 'relay down' });
+
+      const retried = await GameService.withdrawCommission(12);
+      expect(retried.success).toBe(true);
+      expect(retried.amount).toBe(12);
+      expect(sphereService.sendTokens).toHaveBeenLastCalledWith(
+        'dev',
+        12,
+        config.coinId,
+        expect.any(String)
+      );
+
+      const balance = await GameService.getCommissionBalance();
+      expect(balance.totalWithdrawn).toBe(12);
+      expect(balance.available).toBe(8);
+    });
+
+    it('should book a withdrawal that went out before it was recorded', async () => {
+      await Commission.updateOne({}, { $set: { pendingWithdrawal: key } });
+      await OutgoingTransfer.create({
+        idempotencyKey: key,
+        purpose: 'commission_withdrawal',
+        toNametag: 'dev',
+        amount: 5,
+        coinId: config.coinId,
+        status: 'sent',
+        transferId: 'tx-interrupted',
+      });
+
+      const result = await GameService.withdrawCommission();
+
+      expect(result.amount).toBe(15);
+      const balance = await GameService.getCommissionBalance();
+      expect(balance.totalWithdrawn).toBe(20);
+      expect(balance.available).toBe(0);
+    });
+
+    it('should refuse to withdraw while the previous withdrawal is in doubt', async () => {
+      await Commission.updateOne({}, { $set: { pendingWithdrawal: key } });
+      await OutgoingTransfer.create({
+        idempotencyKey: key,
+        purpose: 'commission_withdrawal',
+        toNametag: 'dev',
+        amount: 5,
+        status: 'sending',
+      });
+
+      const result = await GameService.withdrawCommission(5);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('outcome is unknown');
+      expect((await GameService.getCommissionBalance()).totalWithdrawn).toBe(0);
+    });
+  });
 });
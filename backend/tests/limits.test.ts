@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { LimitUtils, StakeLimits } from '../src/utils/limits.js';
+
+const none: StakeLimits = {
+  maxBetAmount: 0,
+  maxUserStakePerRound: 0,
+  maxDigitPoolShare: 0,
+  digitShareMinPool: 0,
+};
+
+describe('LimitUtils', () => {
+  describe('checkBetAmount', () => {
+    it('should allow any stake without a limit', () => {
+      expect(LimitUtils.checkBetAmount({ digit: 1, amount: 1e9 }, none)).toBeNull();
+    });
+
+    it('should reject stakes above the maximum bet', () => {
+      const limits = { ...none, maxBetAmount: 100 };
+
+      expect(LimitUtils.checkBetAmount({ digit: 1, amount: 100 }, limits)).toBeNull();
+      expect(LimitUtils.checkBetAmount({ digit: 1, amount: 101 }, limits)).toBe(
+        'Maximum bet is 100 UCT'
+      );
+    });
+  });
+
+  describe('checkRound', () => {
+    it('should cap the total stake per player per round', () => {
+      const limits = { ...none, maxUserStakePerRound: 50 };
+      const existing = { userStake: 40, items: [{ digit: 1, amount: 40 }] };
+
+      expect(LimitUtils.checkRound(existing, [{ digit: 2, amount: 10 }], limits)).toBeNull();
+      expect(LimitUtils.checkRound(existing, [{ digit: 2, amount: 11 }], limits)).toBe(
+        'Stake limit reached: at most 50 UCT per player per round'
+      );
+    });
+
+    it('should cap the pool share of a single number', () => {
+      const limits = { ...none, maxDigitPoolShare: 50, digitShareMinPool: 100 };
+      const existing = {
+        userStake: 0,
+        items: [
+          { digit: 1, amount: 50 },
+          { digit: 2, amount: 50 },
+        ],
+      };
+
+      // 7 would hold 60 of 160
+      expect(LimitUtils.checkRound(existing, [{ digit: 7, amount: 60 }], limits)).toBeNull();
+      // 1 would hold 110 of 160
+      expect(LimitUtils.checkRound(existing, [{ digit: 1, amount: 60 }], limits)).toBe(
+        'Digit limit reached: #1 would hold more than 50% of the pool'
+      );
+    });
+
+    it('should not enforce the pool share below the minimum pool', () => {
+      const limits = { ...none, maxDigitPoolShare: 50, digitShareMinPool: 100 };
+
+      expect(
+        LimitUtils.checkRound({ userStake: 0, items: [] }, [{ digit: 1, amount: 99 }], limits)
+      ).toBeNull();
+    });
+
+    it('should spread group stakes over the covered numbers', () => {
+      const limits = { ...none, maxDigitPoolShare: 25, digitShareMinPool: 0 };
+
+      // 100 on odd puts 20 on each of 1, 3, 5, 7, 9
+      expect(
+        LimitUtils.checkRound(
+          { userStake: 0, items: [] },
+          [{ betType: 'odd', digits: [1, 3, 5, 7, 9], amount: 100 }],
+          limits
+        )
+      ).toBeNull();
+    });
+  });
+});
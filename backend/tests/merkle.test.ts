@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { MerkleUtils, MerkleBetEntry } from '../src/utils/merkle.js';
+
+function makeEntries(count: number): MerkleBetEntry[] {
+  return Array.from({ length: count }, (_, i) => ({
+    invoiceId: `inv-${i.toString().padStart(2, '0')}`,
+    userNametag: `player${i}`,
+    bets: [{ digit: i % 10, amount: i + 1 }],
+  }));
+}
+
+describe('MerkleUtils', () => {
+  describe('hashLeaf', () => {
+    it('should hash 0x00 followed by the canonical JSON', () => {
+      const entry = { invoiceId: 'inv-a', userNametag: 'alice', bets: [{ digit: 1, amount: 5 }] };
+      const expected = crypto
+        .createHash('sha256')
+        .update(Buffer.concat([Buffer.from([0x00]), Buffer.from('["inv-a","alice",[[1,5]]]')]))
+        .digest('hex');
+      expect(MerkleUtils.hashLeaf(entry)).toBe(expected);
+    });
+  });
+
+  describe('computeRoot', () => {
+    it('should hash empty input for an empty set', () => {
+      expect(MerkleUtils.computeRoot([])).toBe(crypto.createHash('sha256').digest('hex'));
+    });
+
+    it('should be the leaf hash for a single bet', () => {
+      const [entry] = makeEntries(1);
+      expect(MerkleUtils.computeRoot([entry])).toBe(MerkleUtils.hashLeaf(entry));
+    });
+
+    it('should combine two leaves in invoiceId order', () => {
+      const [a, b] = makeEntries(2);
+      expect(MerkleUtils.computeRoot([b, a])).toBe(
+        MerkleUtils.hashNode(MerkleUtils.hashLeaf(a), MerkleUtils.hashLeaf(b))
+      );
+    });
+
+    it('should promote an odd node to the next level', () => {
+      const [a, b, c] = makeEntries(3);
+      expect(MerkleUtils.computeRoot([a, b, c])).toBe(
+        MerkleUtils.hashNode(
+          MerkleUtils.hashNode(MerkleUtils.hashLeaf(a), MerkleUtils.hashLeaf(b)),
+          MerkleUtils.hashLeaf(c)
+        )
+      );
+    });
+
+    it('should change when a bet is altered or dropped', () => {
+      const entries = makeEntries(4);
+      const root = MerkleUtils.computeRoot(entries);
+      const altered = [...entries];
+      altered[2] = { ...altered[2], bets: [{ digit: 9, amount: 100 }] };
+
+      expect(MerkleUtils.computeRoot(altered)).not.toBe(root);
+      expect(MerkleUtils.computeRoot(entries.slice(1))).not.toBe(root);
+    });
+  });
+
+  describe('getProof / verifyProof', () => {
+    it('should verify every bet for sets of different sizes', () => {
+      for (const size of [1, 2, 3, 5, 8, 13]) {
+        const entries = makeEntries(size);
+        const root = MerkleUtils.computeRoot(entries);
+        for (const entry of entries) {
+          const proof = MerkleUtils.getProof(entries, entry.invoiceId)!;
+          expect(proof.leaf).toBe(MerkleUtils.hashLeaf(entry));
+          expect(MerkleUtils.verifyProof(proof.leaf, proof.siblings, root)).toBe(true);
+        }
+      }
+    });
+
+    it('should return null for a bet not in the set', () => {
+      expect(MerkleUtils.getProof(makeEntries(3), 'missing')).toBeNull();
+    });
+
+    it('should reject a proof for an altered bet', () => {
+      const entries = makeEntries(5);
+      const root = MerkleUtils.computeRoot(entries);
+      const proof = MerkleUtils.getProof(entries, entries[2].invoiceId)!;
+      const alteredLeaf = MerkleUtils.hashLeaf({ ...entries[2], bets: [{ digit: 0, amount: 1 }] });
+
+      expect(MerkleUtils.verifyProof(alteredLeaf, proof.siblings, root)).toBe(false);
+    });
+  });
+});
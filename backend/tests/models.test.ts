@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 import mongoose from 'mongoose';
-import { Round, Bet, IRound, IBet } from '../src/models/game.model.js';
+import { Round, Bet, PaymentRequest, IRound, IBet } from '../src/models/game.model.js';
 
 describe('Models', () => {
   beforeAll(async () => {
@@ -8,6 +8,7 @@ describe('Models', () => {
     // Ensure indexes are created
     await Round.createIndexes();
     await Bet.createIndexes();
+    await PaymentRequest.createIndexes();
   });
 
   afterAll(async () => {
@@ -18,6 +19,7 @@ describe('Models', () => {
   beforeEach(async () => {
     await Round.deleteMany({});
     await Bet.deleteMany({});
+    await PaymentRequest.deleteMany({});
   });
 
   // ==================== ROUND MODEL ====================
@@ -60,6 +62,13 @@ describe('Models', () => {
       await expect(Round.create({ roundNumber: 1 })).rejects.toThrow();
     });
 
+    it('should number rounds independently per channel', async () => {
+      await Round.create({ channel: 'quick', roundNumber: 1 });
+
+      await expect(Round.create({ channel: 'hourly', roundNumber: 1 })).resolves.toBeDefined();
+      await expect(Round.create({ channel: 'quick', roundNumber: 1 })).rejects.toThrow();
+    });
+
     it('should validate status enum', async () => {
       const round = new Round({
         roundNumber: 3,
@@ -290,6 +299,37 @@ describe('Models', () => {
     });
   });
 
+  // ==================== PAYMENT REQUEST MODEL ====================
+  describe('PaymentRequest Model', () => {
+    it('should store an outstanding payment request', async () => {
+      const expiresAt = new Date(Date.now() + 120000);
+      await PaymentRequest.create({
+        requestId: 'req-1',
+        invoiceId: 'inv-1',
+        userNametag: 'alice',
+        amount: 50,
+        expiresAt,
+      });
+
+      const stored = await PaymentRequest.findOne({ confirmed: false, expiresAt: { $gt: new Date() } });
+      expect(stored!.invoiceId).toBe('inv-1');
+      expect(stored!.expiresAt.getTime()).toBe(expiresAt.getTime());
+    });
+
+    it('should enforce unique requestId', async () => {
+      const request = {
+        requestId: 'req-dup',
+        invoiceId: 'inv-dup',
+        userNametag: 'alice',
+        amount: 50,
+        expiresAt: new Date(Date.now() + 120000),
+      };
+      await PaymentRequest.create(request);
+
+      await expect(PaymentRequest.create(request)).rejects.toThrow();
+    });
+  });
+
   // ==================== MODEL RELATIONSHIPS ====================
   describe('Model Relationships', () => {
     it('should find bets by round', async () => {
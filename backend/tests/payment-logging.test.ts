@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
 import mongoose from 'mongoose';
 
 // Mock sphereService with sentAmounts support
@@ -21,11 +21,14 @@ vi.mock('../src/services/index.js', () => ({
       transactionCount: amount > 5 ? 2 : 1, // Simulate split for amounts > 5
       sentAmounts: amount > 5 ? [5, amount - 5] : [amount], // Simulate split amounts
     })),
+    findSentTransfer: vi.fn().mockResolvedValue(null),
   },
 }));
 
 import { GameService } from '../src/services/game.service.js';
-import { Round, Bet, PaymentLog } from '../src/models/game.model.js';
+import { sphereService } from '../src/services/index.js';
+import { Round, Bet, PaymentLog, OutgoingTransfer } from '../src/models/game.model.js';
+import { config } from '../src/env.js';
 
 describe('Payment Logging', () => {
   beforeAll(async () => {
@@ -175,4 +178,197 @@ describe('Payment Logging', () => {
       expect(log!.metadata.roundNumber).toBe(round.roundNumber);
     });
   });
+
+  describe('Overpayment and underpayment', () => {
+    beforeEach(() => {
+      vi.mocked(sphereService.sendTokens).mockClear();
+    });
+
+    it('should refund the excess over the invoice as change', async () => {
+      const { invoice } = await GameService.placeBets('ivan', [{ digit: 4, amount: 10 }]);
+
+      const result = await GameService.confirmPayment(invoice.invoiceId, 'tx-over', 1, [12.5]);
+
+      expect(result.accepted).toBe(true);
+      expect(result.bet.receivedAmount).toBe(12.5);
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'ivan',
+        2.5,
+        config.coinId,
+        expect.any(String)
+      );
+      const change = await PaymentLog.findOne({ purpose: 'overpayment_change' });
+      expect(change!.type).toBe('outgoing');
+      expect(change!.amount).toBe(2.5);
+      expect(change!.metadata.paymentTxId).toBe('tx-over');
+      expect((await GameService.getCurrentRound()).totalPool).toBe(10);
+    });
+
+    it('should refund everything received when an overpayment is rejected', async () => {
+      const round = await GameService.createRound();
+      const { invoice } = await GameService.placeBets('judy', [{ digit: 4, amount: 10 }]);
+      await GameService.closeRound(round._id.toString());
+
+      await GameService.confirmPayment(invoice.invoiceId, 'tx-late-over', 1, [15]);
+
+      expect(sphereService.sendTokens).toHaveBeenCalledTimes(1);
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'judy',
+        15,
+        config.coinId,
+        expect.any(String)
+      );
+    });
+
+    it('should hold an underpayment until the invoice is paid in full', async () => {
+      const { invoice } = await GameService.placeBets('kate', [{ digit: 4, amount: 10 }]);
+
+      const kept = await GameService.recordPartialPayment(invoice.invoiceId, 'tx-part', 4, 1, [4]);
+
+      expect(kept).toBe(true);
+      expect(sphereService.sendTokens).not.toHaveBeenCalled();
+      expect((await Bet.findOne({ invoiceId: invoice.invoiceId }))!.receivedAmount).toBe(4);
+      const partial = await PaymentLog.findOne({ purpose: 'partial_payment' });
+      expect(partial!.amount).toBe(4);
+      expect(partial!.metadata.kept).toBe(true);
+
+      // The remaining 6 completes the invoice
+      const result = await GameService.confirmPayment(invoice.invoiceId, 'tx-rest', 2, [4, 6]);
+
+      expect(result.accepted).toBe(true);
+      const payment = await PaymentLog.findOne({ txId: 'tx-rest' });
+      expect(payment!.amount).toBe(6);
+      expect(sphereService.sendTokens).not.toHaveBeenCalled();
+    });
+
+    it('should refund an underpayment in full under the refund policy', async () => {
+      config.underpaymentPolicy = 'refund';
+      try {
+        const { invoice } = await GameService.placeBets('liam', [{ digit: 4, amount: 10 }]);
+
+        const kept = await GameService.recordPartialPayment(invoice.invoiceId, 'tx-short', 3);
+
+        expect(kept).toBe(false);
+        expect(sphereService.sendTokens).toHaveBeenCalledWith(
+          'liam',
+          3,
+          config.coinId,
+          expect.any(String)
+        );
+        expect(await PaymentLog.countDocuments({ purpose: 'underpayment_refund' })).toBe(1);
+        expect((await Bet.findOne({ invoiceId: invoice.invoiceId }))!.receivedAmount).toBe(0);
+      } finally {
+        config.underpaymentPolicy = 'topup';
+      }
+    });
+
+    it('should refund held partial payments when the invoice expires', async () => {
+      const { invoice } = await GameService.placeBets('mia', [{ digit: 4, amount: 10 }]);
+      await GameService.recordPartialPayment(invoice.invoiceId, 'tx-part', 4);
+      await Bet.updateOne(
+        { invoiceId: invoice.invoiceId },
+        { $set: { expiresAt: new Date(Date.now() - 1000) } }
+      );
+
+      expect(await GameService.expireUnpaidBets()).toBe(1);
+
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'mia',
+        4,
+        config.coinId,
+        expect.any(String)
+      );
+      expect((await Bet.findOne({ invoiceId: invoice.invoiceId }))!.paymentStatus).toBe('expired');
+    });
+  });
+
+  describe('Refund retries', () => {
+    // A bet whose payment arrives after its round closed, so it is rejected and refunded
+    async function rejectLatePayment(nametag: string): Promise<string> {
+      const round = await GameService.createRound();
+      const { invoice } = await GameService.placeBets(nametag, [{ digit: 4, amount: 10 }]);
+      await GameService.closeRound(round._id.toString());
+      await GameService.confirmPayment(invoice.invoiceId, `tx-${nametag}`, 1, [10]);
+      return invoice.invoiceId;
+    }
+
+    beforeEach(() => {
+      vi.mocked(sphereService.sendTokens).mockClear();
+    });
+
+    afterEach(() => {
+      config.refundMaxAttempts = 5;
+    });
+
+    it('should confirm a refund once it is sent', async () => {
+      const invoiceId = await rejectLatePayment('nina');
+
+      const bet = await Bet.findOne({ invoiceId });
+      expect(bet!.paymentStatus).toBe('refunded');
+      expect(bet!.refundStatus).toBe('confirmed');
+      expect(bet!.refundAmount).toBe(10);
+      expect(bet!.refundTxId).toBeDefined();
+      expect(await GameService.getStuckRefunds()).toHaveLength(0);
+    });
+
+    it('should keep a failed refund pending and retry it after the backoff', async () => {
+      vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('relay down'));
+      const invoiceId = await rejectLatePayment('omar');
+
+      let bet = await Bet.findOne({ invoiceId });
+      expect(bet!.refundStatus).toBe('pending');
+      expect(bet!.refundTxId).toBeNull();
+      expect(bet!.refundAttempts).toBe(1);
+      expect(bet!.refundLastError).toBe('relay down');
+      expect(await GameService.getStuckRefunds('pending')).toHaveLength(1);
+
+      // Not due yet
+      expect(await GameService.retryRefunds()).toEqual({ sent: 0, failed: 0 });
+
+      const later = new Date(bet!.refundNextAttemptAt!.getTime() + 1000);
+      expect(await GameService.retryRefunds(later)).toEqual({ sent: 1, failed: 0 });
+
+      bet = await Bet.findOne({ invoiceId });
+      expect(bet!.refundStatus).toBe('confirmed');
+      expect(bet!.refundTxId).toBeDefined();
+      expect(await PaymentLog.countDocuments({ purpose: 'refund' })).toBe(1);
+    });
+
+    it('should mark a refund failed after the maximum attempts and allow a manual retry', async () => {
+      config.refundMaxAttempts = 1;
+      vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('relay down'));
+      const invoiceId = await rejectLatePayment('pia');
+
+      const bet = await Bet.findOne({ invoiceId });
+      expect(bet!.refundStatus).toBe('failed');
+      expect(await GameService.getStuckRefunds('failed')).toHaveLength(1);
+
+      const retried = await GameService.retryRefund(bet!._id.toString());
+
+      expect(retried.refundStatus).toBe('confirmed');
+      await expect(GameService.retryRefund(bet!._id.toString())).rejects.toThrow(
+        'Refund is confirmed, only failed refunds can be retried'
+      );
+    });
+
+    it('should settle a refund interrupted mid-transfer from the wallet history', async () => {
+      const invoiceId = await rejectLatePayment('quinn');
+      const bet = await Bet.findOne({ invoiceId });
+      await Bet.updateOne({ _id: bet!._id }, { $set: { refundStatus: 'sent', refundTxId: null } });
+      await OutgoingTransfer.updateOne(
+        { idempotencyKey: `refund:${bet!._id}` },
+        { $set: { status: 'sending', transferId: null } }
+      );
+      vi.mocked(sphereService.findSentTransfer).mockResolvedValueOnce({
+        transferId: 'refund-in-history',
+      });
+
+      const result = await GameService.recoverInterruptedRefunds();
+
+      expect(result).toEqual({ confirmed: 1, requeued: 0, inDoubt: 0 });
+      const recovered = await Bet.findById(bet!._id);
+      expect(recovered!.refundStatus).toBe('confirmed');
+      expect(recovered!.refundTxId).toBe('refund-in-history');
+    });
+  });
 });
@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import mongoose from 'mongoose';
+import { vi } from 'vitest';
+
+// Mock sphereService before importing the services
+vi.mock('../src/services/index.js', () => ({
+  sphereService: {
+    sendTokens: vi.fn().mockImplementation(async (toNametag: string, amount: number) => ({
+      transferId: `transfer-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      toNametag,
+      amount,
+      status: 'confirmed',
+      createdAt: new Date(),
+      transactionCount: 1,
+      sentAmounts: [amount],
+    })),
+    findSentTransfer: vi.fn().mockResolvedValue(null),
+  },
+}));
+
+import { PayoutQueueService } from '../src/services/payout-queue.service.js';
+import { sphereService } from '../src/services/index.js';
+import {
+  Round,
+  Bet,
+  PayoutJob,
+  PaymentLog,
+  OutgoingTransfer,
+  IRound,
+} from '../src/models/game.model.js';
+import { config } from '../src/env.js';
+
+// A drawn round with one winning bet waiting to be paid
+async function createWinningRound(): Promise<IRound> {
+  const round = await Round.create({
+    roundNumber: 1,
+    status: 'paying',
+    startTime: new Date(),
+    winningDigit: 3,
+    totalPool: 50,
+  });
+  await Bet.create({
+    roundId: round._id,
+    roundNumber: 1,
+    userNametag: 'alice',
+    bets: [{ digit: 3, amount: 50 }],
+    totalAmount: 50,
+    invoiceId: 'inv-winner',
+    paymentStatus: 'paid',
+    winnings: 95,
+    payoutStatus: 'pending',
+  });
+  return round as IRound;
+}
+
+describe('PayoutQueueService', () => {
+  beforeAll(async () => {
+    await mongoose.connect('mongodb://localhost:27017/lottery-test-payout-queue');
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  });
+
+  beforeEach(async () => {
+    await Round.deleteMany({});
+    await Bet.deleteMany({});
+    await PayoutJob.deleteMany({});
+    await PaymentLog.deleteMany({});
+    await OutgoingTransfer.deleteMany({});
+    vi.mocked(sphereService.sendTokens).mockClear();
+  });
+
+  afterEach(() => {
+    config.payoutMaxAttempts = 5;
+  });
+
+  it('should pay queued jobs and complete the round', async () => {
+    const round = await createWinningRound();
+
+    expect(await PayoutQueueService.enqueueRound(round)).toBe(1);
+    const result = await PayoutQueueService.processDue();
+
+    expect(result).toEqual({ processed: 1, failed: 0 });
+    expect(sphereService.sendTokens).toHaveBeenCalledWith(
+      'alice',
+      95,
+      config.coinId,
+      expect.any(String)
+    );
+    const job = await PayoutJob.findOne({ roundId: round._id });
+    expect(job!.status).toBe('done');
+    expect(job!.txId).toBeDefined();
+    expect((await Bet.findOne({ invoiceId: 'inv-winner' }))!.payoutStatus).toBe('confirmed');
+    expect((await Round.findById(round._id))!.status).toBe('completed');
+    expect(await PaymentLog.countDocuments({ purpose: 'payout' })).toBe(1);
+  });
+
+  it('should not enqueue a bet twice', async () => {
+    const round = await createWinningRound();
+
+    await PayoutQueueService.enqueueRound(round);
+    expect(await PayoutQueueService.enqueueRound(round)).toBe(0);
+    expect(await PayoutJob.countDocuments()).toBe(1);
+  });
+
+  it('should enqueue and pay a paying round that has no jobs', async () => {
+    const round = await createWinningRound();
+
+    expect(await PayoutQueueService.enqueuePaying()).toBe(1);
+    expect(await PayoutQueueService.enqueuePaying()).toBe(0);
+    expect(await PayoutQueueService.processDue()).toEqual({ processed: 1, failed: 0 });
+    expect((await Round.findById(round._id))!.status).toBe('completed');
+  });
+
+  it('should complete a paying round with no winning bets', async () => {
+    const round = await Round.create({
+      roundNumber: 2,
+      status: 'paying',
+      startTime: new Date(),
+      winningDigit: 3,
+      totalPool: 0,
+    });
+
+    expect(await PayoutQueueService.enqueuePaying()).toBe(0);
+    expect((await Round.findById(round._id))!.status).toBe('completed');
+  });
+
+  it('should retry a failed payout after a backoff', async () => {
+    const round = await createWinningRound();
+    await PayoutQueueService.enqueueRound(round);
+    vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('relay down'));
+
+    const first = await PayoutQueueService.processDue();
+
+    expect(first).toEqual({ processed: 0, failed: 1 });
+    const job = await PayoutJob.findOne({ roundId: round._id });
+    expect(job!.status).toBe('queued');
+    expect(job!.attempts).toBe(1);
+    expect(job!.lastError).toBe('relay down');
+    expect(job!.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+    expect((await Bet.findOne({ invoiceId: 'inv-winner' }))!.payoutStatus).toBe('pending');
+    expect((await Round.findById(round._id))!.status).toBe('paying');
+
+    // Not due yet
+    expect(await PayoutQueueService.processDue()).toEqual({ processed: 0, failed: 0 });
+
+    await PayoutJob.updateOne({ _id: job!._id }, { $set: { nextAttemptAt: new Date() } });
+    expect(await PayoutQueueService.processDue()).toEqual({ processed: 1, failed: 0 });
+    expect((await Round.findById(round._id))!.status).toBe('completed');
+  });
+
+  it('should dead-letter a job after the maximum attempts', async () => {
+    config.payoutMaxAttempts = 1;
+    const round = await createWinningRound();
+    await PayoutQueueService.enqueueRound(round);
+    vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('relay down'));
+
+    await PayoutQueueService.processDue();
+
+    expect((await PayoutQueueService.list('dead')).length).toBe(1);
+    expect((await Bet.findOne({ invoiceId: 'inv-winner' }))!.payoutStatus).toBe('failed');
+    expect((await Round.findById(round._id))!.status).toBe('paying');
+  });
+
+  it('should requeue a dead job and pay it', async () => {
+    config.payoutMaxAttempts = 1;
+    const round = await createWinningRound();
+    await PayoutQueueService.enqueueRound(round);
+    vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('relay down'));
+    await PayoutQueueService.processDue();
+    const [dead] = await PayoutQueueService.list('dead');
+
+    const requeued = await PayoutQueueService.requeue(dead._id.toString());
+
+    expect(requeued.status).toBe('queued');
+    expect(requeued.attempts).toBe(0);
+    expect((await Round.findById(round._id))!.status).toBe('paying');
+    expect(await PayoutQueueService.processDue()).toEqual({ processed: 1, failed: 0 });
+    expect((await Bet.findOne({ invoiceId: 'inv-winner' }))!.payoutStatus).toBe('confirmed');
+    expect((await Round.findById(round._id))!.status).toBe('completed');
+  });
+
+  it('should only requeue dead jobs', async () => {
+    const round = await createWinningRound();
+    await PayoutQueueService.enqueueRound(round);
+    const job = await PayoutJob.findOne({ roundId: round._id });
+
+    await expect(PayoutQueueService.requeue(job!._id.toString())).rejects.toThrow(
+      'Payout job is queued, only dead jobs can be requeued'
+    );
+    await expect(PayoutQueueService.requeue('000000000000000000000000')).rejects.toThrow(
+      'Payout job not found'
+    );
+  });
+
+  it('should double the backoff up to the maximum', () => {
+    expect(PayoutQueueService.backoffMs(1)).toBe(config.payoutRetryBaseSeconds * 1000);
+    expect(PayoutQueueService.backoffMs(2)).toBe(config.payoutRetryBaseSeconds * 2000);
+    expect(PayoutQueueService.backoffMs(50)).toBe(config.payoutRetryMaxSeconds * 1000);
+  });
+
+  describe('recoverInterrupted', () => {
+    // A job left in processing, as if the process stopped during its attempt
+    async function interruptedJob(): Promise<IRound> {
+      const round = await createWinningRound();
+      await PayoutQueueService.enqueueRound(round);
+      await PayoutJob.updateOne({ roundId: round._id }, { $set: { status: 'processing' } });
+      await Bet.updateOne({ invoiceId: 'inv-winner' }, { $set: { payoutStatus: 'sent' } });
+      return round;
+    }
+
+    it('should complete a payout that went out without sending it again', async () => {
+      const round = await interruptedJob();
+      const bet = await Bet.findOne({ invoiceId: 'inv-winner' });
+      await OutgoingTransfer.create({
+        idempotencyKey: `payout:${bet!._id}`,
+        purpose: 'payout',
+        toNametag: 'alice',
+        amount: 95,
+        status: 'confirmed',
+        transferId: 'transfer-before-crash',
+        transactionCount: 1,
+        sentAmounts: [95],
+      });
+
+      const result = await PayoutQueueService.recoverInterrupted();
+
+      expect(result).toEqual({ completed: 1, requeued: 0, inDoubt: 0 });
+      expect(sphereService.sendTokens).not.toHaveBeenCalled();
+      const recovered = await Bet.findById(bet!._id);
+      expect(recovered!.payoutStatus).toBe('confirmed');
+      expect(recovered!.payoutTxId).toBe('transfer-before-crash');
+      expect(await PaymentLog.countDocuments({ txId: 'transfer-before-crash' })).toBe(1);
+      expect((await Round.findById(round._id))!.status).toBe('completed');
+    });
+
+    it('should requeue a payout that never started', async () => {
+      const round = await interruptedJob();
+
+      const result = await PayoutQueueService.recoverInterrupted();
+
+      expect(result).toEqual({ completed: 0, requeued: 1, inDoubt: 0 });
+      expect((await Bet.findOne({ invoiceId: 'inv-winner' }))!.payoutStatus).toBe('pending');
+      expect((await Round.findById(round._id))!.status).toBe('paying');
+      expect(await PayoutQueueService.processDue()).toEqual({ processed: 1, failed: 0 });
+    });
+
+    it('should complete a payout the wallet history shows went out', async () => {
+      const round = await interruptedJob();
+      const bet = await Bet.findOne({ invoiceId: 'inv-winner' });
+      await OutgoingTransfer.create({
+        idempotencyKey: `payout:${bet!._id}`,
+        purpose: 'payout',
+        toNametag: 'alice',
+        amount: 95,
+        status: 'sending',
+      });
+      vi.mocked(sphereService.findSentTransfer).mockResolvedValueOnce({
+        transferId: 'transfer-in-history',
+      });
+
+      const result = await PayoutQueueService.recoverInterrupted();
+
+      expect(result).toEqual({ completed: 1, requeued: 0, inDoubt: 0 });
+      expect(sphereService.findSentTransfer).toHaveBeenCalledWith(`payout:${bet!._id}`);
+      expect(sphereService.sendTokens).not.toHaveBeenCalled();
+      expect((await Bet.findById(bet!._id))!.payoutTxId).toBe('transfer-in-history');
+      expect((await Round.findById(round._id))!.status).toBe('completed');
+    });
+
+    it('should requeue a payout the wallet history shows never went out', async () => {
+      await interruptedJob();
+      const bet = await Bet.findOne({ invoiceId: 'inv-winner' });
+      await OutgoingTransfer.create({
+        idempotencyKey: `payout:${bet!._id}`,
+        purpose: 'payout',
+        toNametag: 'alice',
+        amount: 95,
+        status: 'sending',
+      });
+
+      const result = await PayoutQueueService.recoverInterrupted();
+
+      expect(result).toEqual({ completed: 0, requeued: 1, inDoubt: 0 });
+      expect(await PayoutQueueService.processDue()).toEqual({ processed: 1, failed: 0 });
+      expect(sphereService.sendTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dead-letter a payout whose outcome is unknown', async () => {
+      await interruptedJob();
+      const bet = await Bet.findOne({ invoiceId: 'inv-winner' });
+      await OutgoingTransfer.create({
+        idempotencyKey: `payout:${bet!._id}`,
+        purpose: 'payout',
+        toNametag: 'alice',
+        amount: 95,
+        status: 'sending',
+      });
+      vi.mocked(sphereService.findSentTransfer).mockRejectedValueOnce(new Error('offline'));
+
+      const result = await PayoutQueueService.recoverInterrupted();
+
+      expect(result).toEqual({ completed: 0, requeued: 0, inDoubt: 1 });
+      expect(sphereService.sendTokens).not.toHaveBeenCalled();
+      const [dead] = await PayoutQueueService.list('dead');
+      expect(dead.lastError).toContain('outcome unknown');
+
+      // The operator checked the wallet - requeueing releases the transfer for resending
+      await PayoutQueueService.requeue(dead._id.toString());
+      expect(await PayoutQueueService.processDue()).toEqual({ processed: 1, failed: 0 });
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'alice',
+        95,
+        config.coinId,
+        expect.any(String)
+      );
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { vi } from 'vitest';
+import { PlayWalletService } from '../src/services/play-wallet.service.js';
+import { Bet, PlayAccount } from '../src/models/game.model.js';
+
+function createWallet(): PlayWalletService {
+  return new PlayWalletService({
+    nametag: 'house',
+    startingBalance: 100,
+    houseBankroll: 10000,
+    paymentTimeoutSeconds: 120,
+  });
+}
+
+describe('PlayWalletService', () => {
+  beforeAll(async () => {
+    await mongoose.connect('mongodb://localhost:27017/lottery-test-play-wallet');
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  });
+
+  beforeEach(async () => {
+    await PlayAccount.deleteMany({});
+    await Bet.deleteMany({});
+  });
+
+  it('should open the house and player accounts with their grants', async () => {
+    const wallet = createWallet();
+    await wallet.initialize();
+
+    expect(await wallet.getBalance()).toBe(10000);
+    expect(await wallet.getPlayerBalance('alice')).toBe(100);
+    expect((await wallet.validateNametag('alice')).valid).toBe(true);
+  });
+
+  it('should debit the stake and confirm payment once the bet is stored', async () => {
+    const wallet = createWallet();
+    await wallet.initialize();
+    const callback = vi.fn();
+    wallet.setPaymentConfirmedCallback(callback);
+
+    const invoice = await wallet.createInvoice('alice', 30, [{ digit: 3, amount: 30 }], 1);
+    expect(await wallet.getPlayerBalance('alice')).toBe(70);
+    expect(await wallet.getBalance()).toBe(10030);
+
+    await Bet.create({
+      roundId: new mongoose.Types.ObjectId(),
+      roundNumber: 1,
+      userNametag: 'alice',
+      bets: [{ digit: 3, amount: 30 }],
+      totalAmount: 30,
+      invoiceId: invoice.invoiceId,
+    });
+
+    await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+    expect(callback.mock.calls[0][0]).toMatchObject({
+      invoiceId: invoice.invoiceId,
+      totalAmount: 30,
+      receivedAmounts: [30],
+    });
+  });
+
+  it('should reject bets above the play balance', async () => {
+    const wallet = createWallet();
+    await wallet.initialize();
+
+    await expect(wallet.createInvoice('alice', 150, [], 1)).rejects.toThrow(
+      'Insufficient play balance'
+    );
+    expect(await wallet.getPlayerBalance('alice')).toBe(100);
+  });
+
+  it('should credit payouts to the play balance', async () => {
+    const wallet = createWallet();
+    await wallet.initialize();
+
+    const transfer = await wallet.sendTokens('alice', 50);
+
+    expect(transfer.status).toBe('confirmed');
+    expect(await wallet.getPlayerBalance('alice')).toBe(150);
+    expect(await wallet.getBalance()).toBe(9950);
+  });
+
+  it('should only top up a low balance', async () => {
+    const wallet = createWallet();
+    await wallet.initialize();
+
+    await expect(wallet.topUp('alice')).rejects.toThrow('Top-up is only available below 100');
+
+    await wallet.createInvoice('alice', 80, [], 1);
+    expect(await wallet.topUp('alice')).toBe(100);
+  });
+});
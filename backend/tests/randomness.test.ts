@@ -0,0 +1,221 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import crypto from 'crypto';
+import { IRound } from '../src/models/game.model.js';
+import { FairnessUtils } from '../src/utils/fairness.js';
+import {
+  RandomnessService,
+  LocalRandomnessSource,
+  CommitRevealRandomnessSource,
+  SeededRandomnessSource,
+  BeaconRandomnessSource,
+  LocalBeaconClient,
+  BeaconClient,
+} from '../src/services/randomness.service.js';
+
+function makeRound(fields: Partial<IRound>): IRound {
+  return {
+    roundNumber: 1,
+    serverSeed: null,
+    serverSeedHash: null,
+    betsDigest: null,
+    clientSeedsDigest: null,
+    fairnessVersion: null,
+    ...fields,
+  } as IRound;
+}
+
+describe('Randomness sources', () => {
+  afterEach(() => {
+    RandomnessService.setConfiguredSource(null);
+  });
+
+  describe('LocalRandomnessSource', () => {
+    it('should publish no commitment', () => {
+      expect(new LocalRandomnessSource().commit()).toEqual({
+        serverSeed: null,
+        serverSeedHash: null,
+        fairnessVersion: null,
+      });
+    });
+
+    it('should draw a digit between 0 and 9', async () => {
+      const source = new LocalRandomnessSource();
+      for (let i = 0; i < 100; i++) {
+        const { digit, proof } = await source.draw(makeRound({}));
+        expect(Number.isInteger(digit)).toBe(true);
+        expect(digit).toBeGreaterThanOrEqual(0);
+        expect(digit).toBeLessThanOrEqual(9);
+        expect(proof).toBeNull();
+      }
+    });
+  });
+
+  describe('game type ranges', () => {
+    it('should draw within the range of the round game type', async () => {
+      const sources = [
+        new LocalRandomnessSource(),
+        new SeededRandomnessSource('seed'),
+        new BeaconRandomnessSource(new LocalBeaconClient()),
+      ];
+      for (const source of sources) {
+        for (let i = 0; i < 50; i++) {
+          const { digit } = await source.draw(makeRound({ roundNumber: i, gameType: 'pick-3' }));
+          expect(digit).toBeGreaterThanOrEqual(0);
+          expect(digit).toBeLessThan(1000);
+        }
+      }
+    });
+
+    it('should derive commit-reveal numbers with the game type range', async () => {
+      const source = new CommitRevealRandomnessSource();
+      const commitment = source.commit();
+      const round = makeRound({ ...commitment, roundNumber: 2, gameType: 'pick-2' });
+
+      const { digit } = await source.draw(round);
+
+      expect(digit).toBe(
+        FairnessUtils.deriveWinningDigit({
+          serverSeed: commitment.serverSeed!,
+          roundNumber: 2,
+          betsDigest: null,
+          clientSeedsDigest: null,
+          version: 3,
+          range: 100,
+        })
+      );
+    });
+  });
+
+  describe('CommitRevealRandomnessSource', () => {
+    it('should commit to a hashed seed', () => {
+      const commitment = new CommitRevealRandomnessSource().commit();
+      expect(FairnessUtils.verifySeed(commitment.serverSeed!, commitment.serverSeedHash!)).toBe(
+        true
+      );
+      expect(commitment.fairnessVersion).toBe(3);
+    });
+
+    it('should derive the digit from the committed seed', async () => {
+      const source = new CommitRevealRandomnessSource();
+      const commitment = source.commit();
+      const round = makeRound({
+        ...commitment,
+        roundNumber: 5,
+        betsDigest: 'abc',
+        clientSeedsDigest: 'def',
+      });
+
+      const { digit } = await source.draw(round);
+
+      expect(digit).toBe(
+        FairnessUtils.deriveWinningDigit({
+          serverSeed: commitment.serverSeed!,
+          roundNumber: 5,
+          betsDigest: 'abc',
+          clientSeedsDigest: 'def',
+          version: 3,
+        })
+      );
+    });
+
+    it('should refuse rounds without a committed seed', async () => {
+      await expect(new CommitRevealRandomnessSource().draw(makeRound({}))).rejects.toThrow(
+        'has no committed server seed'
+      );
+    });
+  });
+
+  describe('SeededRandomnessSource', () => {
+    it('should be deterministic for the same seed and round', async () => {
+      const a = await new SeededRandomnessSource('seed').draw(makeRound({ roundNumber: 3 }));
+      const b = await new SeededRandomnessSource('seed').draw(makeRound({ roundNumber: 3 }));
+      expect(a.digit).toBe(b.digit);
+    });
+
+    it('should match HMAC-SHA256 of the round number', async () => {
+      const digest = crypto.createHmac('sha256', 'seed').update('3').digest('hex');
+      const { digit } = await new SeededRandomnessSource('seed').draw(
+        makeRound({ roundNumber: 3 })
+      );
+      expect(digit).toBe(FairnessUtils.digestToOutcome(digest, 10));
+    });
+
+    it('should mix the channel into the seed derivation', async () => {
+      const digest = crypto.createHmac('sha256', 'seed').update('quick:3').digest('hex');
+      const { digit } = await new SeededRandomnessSource('seed').draw(
+        makeRound({ roundNumber: 3, channel: 'quick', gameType: 'pick-3' })
+      );
+      expect(digit).toBe(FairnessUtils.digestToOutcome(digest, 1000));
+
+      const digits = await Promise.all(
+        ['quick', 'hourly', 'daily'].map(async (channel) => {
+          const draw = await new SeededRandomnessSource('seed').draw(
+            makeRound({ roundNumber: 3, channel, gameType: 'pick-3' })
+          );
+          return draw.digit;
+        })
+      );
+      expect(new Set(digits).size).toBeGreaterThan(1);
+    });
+  });
+
+  describe('BeaconRandomnessSource', () => {
+    it('should derive the digit from the beacon value and record it', async () => {
+      const client: BeaconClient = {
+        name: 'test-beacon',
+        getRandomness: async () => ({ beaconRound: '42', randomness: 'ff00' }),
+      };
+      const { digit, proof } = await new BeaconRandomnessSource(client).draw(
+        makeRound({ roundNumber: 9 })
+      );
+
+      const digest = crypto.createHash('sha256').update('ff00:9').digest('hex');
+      expect(digit).toBe(FairnessUtils.digestToOutcome(digest, 10));
+      expect(proof).toEqual({ beacon: 'test-beacon', beaconRound: '42', randomness: 'ff00' });
+    });
+
+    it('should work with the local stand-in beacon', async () => {
+      const { digit, proof } = await new BeaconRandomnessSource(new LocalBeaconClient()).draw(
+        makeRound({ roundNumber: 1 })
+      );
+      expect(digit).toBeGreaterThanOrEqual(0);
+      expect(digit).toBeLessThanOrEqual(9);
+      expect(proof!.beacon).toBe('local-beacon');
+    });
+  });
+
+  describe('RandomnessService', () => {
+    it('should create sources by name', () => {
+      expect(RandomnessService.create('local').name).toBe('local');
+      expect(RandomnessService.create('commit-reveal').name).toBe('commit-reveal');
+      expect(RandomnessService.create('seeded').name).toBe('seeded');
+      expect(RandomnessService.create('beacon').name).toBe('beacon');
+    });
+
+    it('should reject unknown sources', () => {
+      expect(() => RandomnessService.create('dice' as never)).toThrow(
+        'Unknown randomness source: dice'
+      );
+    });
+
+    it('should default to commit-reveal', () => {
+      expect(RandomnessService.getConfiguredSource().name).toBe('commit-reveal');
+    });
+
+    it('should honour a published commitment regardless of config', () => {
+      RandomnessService.setConfiguredSource(new SeededRandomnessSource('x'));
+      expect(RandomnessService.resolveForRound(makeRound({ serverSeed: 'abc' })).name).toBe(
+        'commit-reveal'
+      );
+    });
+
+    it('should use the configured source for rounds without a commitment', () => {
+      RandomnessService.setConfiguredSource(new SeededRandomnessSource('x'));
+      expect(RandomnessService.resolveForRound(makeRound({})).name).toBe('seeded');
+    });
+
+    it('should fall back to local when commit-reveal has no commitment', () => {
+      expect(RandomnessService.resolveForRound(makeRound({})).name).toBe('local');
+    });
+  });
+});
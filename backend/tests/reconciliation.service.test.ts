@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import mongoose from 'mongoose';
+import { vi } from 'vitest';
+
+// Mock sphereService before importing the services
+vi.mock('../src/services/index.js', () => ({
+  sphereService: {
+    getBalance: vi.fn().mockResolvedValue(0),
+  },
+}));
+
+import { ReconciliationService } from '../src/services/reconciliation.service.js';
+import { sphereService } from '../src/services/index.js';
+import {
+  Round,
+  Bet,
+  Commission,
+  PaymentLog,
+  PayoutJob,
+  Subscription,
+} from '../src/models/game.model.js';
+import { config } from '../src/env.js';
+
+const USDU_ID = 'b'.repeat(64);
+
+describe('ReconciliationService', () => {
+  beforeAll(async () => {
+    await mongoose.connect('mongodb://localhost:27017/lottery-test-reconciliation');
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  });
+
+  beforeEach(async () => {
+    await Round.deleteMany({});
+    await Bet.deleteMany({});
+    await Commission.deleteMany({});
+    await PaymentLog.deleteMany({});
+    await PayoutJob.deleteMany({});
+    await Subscription.deleteMany({});
+
+    // An open round holding 20, a settled round owing 9 in winnings, and 1 of commission
+    await Round.create({ roundNumber: 2, status: 'open', startTime: new Date(), totalPool: 20 });
+    const settled = await Round.create({
+      roundNumber: 1,
+      status: 'paying',
+      startTime: new Date(),
+      winningDigit: 3,
+      totalPool: 10,
+    });
+    await Bet.create({
+      roundId: settled._id,
+      roundNumber: 1,
+      userNametag: 'alice',
+      bets: [{ digit: 3, amount: 10 }],
+      totalAmount: 10,
+      invoiceId: 'inv-winner',
+      paymentStatus: 'paid',
+      winnings: 9,
+      payoutStatus: 'pending',
+    });
+    await Commission.create({ totalAccumulated: 1, totalWithdrawn: 0 });
+  });
+
+  afterEach(() => {
+    config.coins = '';
+  });
+
+  it('should report no drift when the wallet covers its liabilities exactly', async () => {
+    vi.mocked(sphereService.getBalance).mockResolvedValueOnce(30);
+
+    const report = await ReconciliationService.run();
+
+    expect(report.liabilities.openPools).toBe(20);
+    expect(report.liabilities.pendingPayouts).toBe(9);
+    expect(report.liabilities.commissionAvailable).toBe(1);
+    expect(report.liabilities.total).toBe(30);
+    expect(report.drift).toBe(0);
+    expect(report.status).toBe('ok');
+    expect(report.warnings).toEqual([]);
+  });
+
+  it('should flag a shortfall', async () => {
+    vi.mocked(sphereService.getBalance).mockResolvedValueOnce(25);
+
+    const report = await ReconciliationService.run();
+
+    expect(report.drift).toBe(-5);
+    expect(report.status).toBe('shortfall');
+    expect(report.warnings[0]).toContain('5 UCT less');
+  });
+
+  it('should report a surplus', async () => {
+    vi.mocked(sphereService.getBalance).mockResolvedValueOnce(100);
+
+    const report = await ReconciliationService.run();
+
+    expect(report.drift).toBe(70);
+    expect(report.status).toBe('surplus');
+  });
+
+  it('should count pending refunds and unplaced subscription rounds', async () => {
+    await Bet.create({
+      channel: 'default',
+      roundId: null,
+      roundNumber: 5,
+      userNametag: 'bob',
+      bets: [{ digit: 1, amount: 4 }],
+      totalAmount: 4,
+      invoiceId: 'inv-refund',
+      paymentStatus: 'refunded',
+      refundStatus: 'failed',
+      refundAmount: 4,
+    });
+    await Subscription.create({
+      userNametag: 'carol',
+      channel: 'default',
+      bets: [{ digit: 2, amount: 2 }],
+      rounds: 5,
+      roundsPlaced: 2,
+      amountPerRound: 2,
+      totalAmount: 10,
+      invoiceId: 'inv-sub',
+      status: 'active',
+    });
+    vi.mocked(sphereService.getBalance).mockResolvedValueOnce(40);
+
+    const report = await ReconciliationService.run();
+
+    expect(report.liabilities.pendingRefunds).toBe(4);
+    expect(report.liabilities.subscriptionFunds).toBe(6);
+    expect(report.liabilities.total).toBe(40);
+    expect(report.status).toBe('ok');
+  });
+
+  it('should warn about payouts interrupted mid-transfer', async () => {
+    await Bet.updateOne({ invoiceId: 'inv-winner' }, { $set: { payoutStatus: 'sent' } });
+    vi.mocked(sphereService.getBalance).mockResolvedValueOnce(21);
+
+    const report = await ReconciliationService.run();
+
+    expect(report.inFlight.payouts).toBe(9);
+    expect(report.status).toBe('shortfall');
+    expect(report.warnings.some((w) => w.includes('never confirmed'))).toBe(true);
+  });
+
+  it('should total the payment ledger', async () => {
+    await PaymentLog.create([
+      { type: 'incoming', amount: 10, txId: 'tx-in', purpose: 'bet_payment' },
+      { type: 'outgoing', amount: 3, txId: 'tx-out', purpose: 'payout' },
+    ]);
+    vi.mocked(sphereService.getBalance).mockResolvedValueOnce(30);
+
+    const report = await ReconciliationService.run();
+
+    expect(report.ledger).toEqual({ incoming: 10, outgoing: 3, net: 7 });
+  });
+
+  it('should reconcile each coin against its own balance', async () => {
+    config.coins = `UCT:${config.coinId},USDU:${USDU_ID}:6`;
+    await Round.create({
+      channel: 'stable',
+      coinId: USDU_ID,
+      roundNumber: 1,
+      status: 'open',
+      startTime: new Date(),
+      totalPool: 50,
+    });
+    vi.mocked(sphereService.getBalance).mockResolvedValueOnce(50);
+
+    const report = await ReconciliationService.run('USDU');
+
+    expect(sphereService.getBalance).toHaveBeenLastCalledWith(USDU_ID);
+    expect(report.coin).toBe('USDU');
+    expect(report.liabilities.openPools).toBe(50);
+    expect(report.liabilities.pendingPayouts).toBe(0);
+    expect(report.liabilities.commissionAvailable).toBe(0);
+    expect(report.status).toBe('ok');
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
 import mongoose from 'mongoose';
 import { vi } from 'vitest';
 
@@ -26,6 +26,7 @@ vi.mock('../src/services/index.js', () => ({
 import { RoundScheduler } from '../src/services/round-scheduler.service.js';
 import { GameService } from '../src/services/game.service.js';
 import { Round, Bet } from '../src/models/game.model.js';
+import { config } from '../src/env.js';
 
 describe('RoundScheduler', () => {
   beforeAll(async () => {
@@ -52,6 +53,11 @@ describe('RoundScheduler', () => {
       const scheduler = new RoundScheduler(60);
       expect(scheduler.isRunning()).toBe(false);
     });
+
+    it('should drive the default channel unless one is given', () => {
+      expect(new RoundScheduler(60).getChannel()).toBe('default');
+      expect(new RoundScheduler(60, 'quick').getChannel()).toBe('quick');
+    });
   });
 
   describe('start', () => {
@@ -143,4 +149,24 @@ describe('RoundScheduler', () => {
       expect(closedRound!.status).toBe('completed');
     }, 10000);
   });
+
+  describe('channels', () => {
+    afterEach(() => {
+      config.channels = '';
+    });
+
+    it('should only close rounds of its own channel', async () => {
+      config.channels = 'quick:1,hourly:3600';
+      const quick = await GameService.createRound('quick');
+      const hourly = await GameService.createRound('hourly');
+
+      const scheduler = new RoundScheduler(1, 'quick');
+      await scheduler.start();
+      await new Promise((r) => setTimeout(r, 1500));
+      scheduler.stop();
+
+      expect((await Round.findById(quick._id))!.status).toBe('completed');
+      expect((await Round.findById(hourly._id))!.status).toBe('open');
+    }, 10000);
+  });
 });
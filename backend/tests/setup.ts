@@ -2,6 +2,7 @@ import express, { Application } from 'express';
 import cors from 'cors';
 import mongoose from 'mongoose';
 import gameRoutes from '../src/routes/game.routes.js';
+import adminRoutes from '../src/routes/admin.routes.js';
 
 // Set mock mode for tests
 process.env.MOCK_MODE = 'true';
@@ -14,6 +15,7 @@ export async function createTestApp(): Promise<Application> {
   app.use(express.json());
 
   app.use('/api/game', gameRoutes);
+  app.use('/api/admin', adminRoutes);
 
   app.get('/health', (_req, res) => {
     res.json({ status: 'ok' });
@@ -0,0 +1,467 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import mongoose from 'mongoose';
+import { vi } from 'vitest';
+
+// The Sphere SDK is replaced by a fake wallet that resolves every nametag and accepts every
+// payment request; incoming transfers are fed to the service by the tests
+const sdk = vi.hoisted(() => ({ init: vi.fn() }));
+vi.mock('@unicitylabs/sphere-sdk', () => ({ Sphere: { init: sdk.init } }));
+vi.mock('@unicitylabs/sphere-sdk/impl/nodejs', () => ({ createNodeProviders: vi.fn(() => ({})) }));
+
+// Refunds of late payments go out through the (mocked) game wallet
+vi.mock('../src/services/index.js', () => ({
+  sphereService: {
+    sendTokens: vi.fn().mockImplementation(async (toNametag: string, amount: number) => ({
+      transferId: `transfer-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      toNametag,
+      amount,
+      status: 'confirmed',
+      createdAt: new Date(),
+      transactionCount: 1,
+      sentAmounts: [amount],
+    })),
+  },
+}));
+
+import { SphereService, SphereConfig, PaymentInfo } from '../src/services/sphere.service.js';
+import { GameService } from '../src/services/game.service.js';
+import { sphereService } from '../src/services/index.js';
+import {
+  Bet,
+  OutgoingTransfer,
+  PaymentLog,
+  PaymentRequest,
+  Round,
+} from '../src/models/game.model.js';
+import { CurrencyUtils } from '../src/utils/currency.js';
+import { config } from '../src/env.js';
+
+let requestCount = 0;
+
+// Nametags with a real (compressed) pubkey; any other resolves to `pubkey-<nametag>`
+const PUBKEYS: Record<string, string> = { bob: `02${'ab'.repeat(32)}` };
+
+function createFakeSphere() {
+  return {
+    on: vi.fn(),
+    getNametag: () => 'test-agent',
+    identity: { address: 'agent-address', publicKey: 'agent-pubkey' },
+    getTransport: () => ({
+      resolveNametag: async (nametag: string) => PUBKEYS[nametag] ?? `pubkey-${nametag}`,
+    }),
+    payments: {
+      getNametag: () => null,
+      onPaymentRequestResponse: vi.fn(() => () => {}),
+      sendPaymentRequest: vi.fn(async () => {
+        requestCount++;
+        return { success: true, requestId: `req-${requestCount}`, eventId: `evt-${requestCount}` };
+      }),
+    },
+    destroy: vi.fn(),
+  };
+}
+
+async function createService(settings: Partial<SphereConfig> = {}): Promise<SphereService> {
+  sdk.init.mockResolvedValueOnce({ sphere: createFakeSphere(), created: false });
+  const service = new SphereService({
+    dataDir: './data',
+    nametag: 'test-agent',
+    coinId: config.coinId,
+    paymentTimeoutSeconds: 120,
+    latePaymentGraceSeconds: 3600,
+    ...settings,
+  });
+  await service.initialize();
+  return service;
+}
+
+// An incoming transfer event as the SDK reports it
+function transferEvent(
+  id: string,
+  amount: number,
+  sender = 'alice',
+  overrides: Record<string, unknown> = {}
+) {
+  return {
+    id,
+    senderPubkey: PUBKEYS[sender] ?? `pubkey-${sender}`,
+    senderNametag: sender,
+    memo: null,
+    tokens: [{ coinId: config.coinId, amount: CurrencyUtils.toSmallestUnit(amount).toString() }],
+    ...overrides,
+  };
+}
+
+describe('SphereService', () => {
+  let services: SphereService[] = [];
+
+  beforeAll(async () => {
+    await mongoose.connect('mongodb://localhost:27017/lottery-test-sphere');
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  });
+
+  beforeEach(async () => {
+    await PaymentRequest.deleteMany({});
+    await Round.deleteMany({});
+    await Bet.deleteMany({});
+    await PaymentLog.deleteMany({});
+    await OutgoingTransfer.deleteMany({});
+    vi.mocked(sphereService.sendTokens).mockClear();
+  });
+
+  afterEach(() => {
+    services.forEach((service) => service.disconnect());
+    services = [];
+  });
+
+  async function start(settings: Partial<SphereConfig> = {}): Promise<SphereService> {
+    const service = await createService(settings);
+    services.push(service);
+    return service;
+  }
+
+  describe('late payments', () => {
+    it('should match a transfer after the invoice expired so the bet refunds it', async () => {
+      const service = await start({ paymentTimeoutSeconds: 0 });
+      const round = await Round.create({ roundNumber: 1, status: 'open', startTime: new Date() });
+      const invoice = await service.createInvoice('alice', 5, [{ digit: 5, amount: 5 }], 1);
+      await Bet.create({
+        roundId: round._id,
+        roundNumber: 1,
+        userNametag: 'alice',
+        bets: [{ digit: 5, amount: 5 }],
+        totalAmount: 5,
+        invoiceId: invoice.invoiceId,
+        expiresAt: invoice.expiresAt,
+      });
+
+      let confirmation: Promise<unknown> | null = null;
+      service.setPaymentConfirmedCallback((info: PaymentInfo) => {
+        confirmation = GameService.confirmPayment(
+          info.invoiceId,
+          info.txId,
+          info.tokenCount,
+          info.receivedAmounts
+        );
+      });
+      const unmatched = vi.fn();
+      service.setUnmatchedTransferCallback(unmatched);
+
+      await service['handleIncomingTransfer'](transferEvent('tx-late', 5));
+      await confirmation;
+
+      expect(unmatched).not.toHaveBeenCalled();
+      const bet = await Bet.findOne({ invoiceId: invoice.invoiceId });
+      expect(bet!.paymentStatus).toBe('refunded');
+      expect(bet!.refundReason).toBe('Invoice expired');
+      expect(bet!.refundStatus).toBe('confirmed');
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'alice',
+        5,
+        config.coinId,
+        expect.any(String)
+      );
+    });
+
+    it('should report a transfer as unmatched once the grace window is over', async () => {
+      const service = await start({ paymentTimeoutSeconds: 0, latePaymentGraceSeconds: 0 });
+      await service.createInvoice('alice', 5, [{ digit: 5, amount: 5 }], 1);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      const confirmed = vi.fn();
+      const unmatched = vi.fn();
+      service.setPaymentConfirmedCallback(confirmed);
+      service.setUnmatchedTransferCallback(unmatched);
+
+      await service['handleIncomingTransfer'](transferEvent('tx-too-late', 5));
+
+      expect(confirmed).not.toHaveBeenCalled();
+      expect(unmatched).toHaveBeenCalledWith(
+        expect.objectContaining({ txId: 'tx-too-late', amount: 5, senderNametag: 'alice' })
+      );
+    });
+
+    it('should prefer an unexpired request over a lapsed one for the same amount', async () => {
+      const service = await start({ paymentTimeoutSeconds: 0 });
+      const lapsed = await service.createInvoice('alice', 5, [{ digit: 5, amount: 5 }], 1);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      service['config'].paymentTimeoutSeconds = 120;
+      const live = await service.createInvoice('alice', 5, [{ digit: 6, amount: 5 }], 1);
+
+      const confirmed = vi.fn();
+      service.setPaymentConfirmedCallback(confirmed);
+
+      await service['handleIncomingTransfer'](transferEvent('tx-live', 5));
+
+      expect(confirmed).toHaveBeenCalledTimes(1);
+      expect(confirmed).toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceId: live.invoiceId, txId: 'tx-live' })
+      );
+      expect(confirmed).not.toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceId: lapsed.invoiceId })
+      );
+    });
+  });
+
+  describe('transfer matching', () => {
+    it('should identify the sender by pubkey alone', async () => {
+      const service = await start();
+      const invoice = await service.createInvoice('alice', 5, [{ digit: 5, amount: 5 }], 1);
+      const confirmed = vi.fn();
+      service.setPaymentConfirmedCallback(confirmed);
+
+      await service['handleIncomingTransfer'](
+        transferEvent('tx-pubkey', 5, 'alice', { senderNametag: null })
+      );
+
+      expect(confirmed).toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceId: invoice.invoiceId, txId: 'tx-pubkey' })
+      );
+    });
+
+    it('should compare pubkeys regardless of prefix and case', async () => {
+      const service = await start();
+      const invoice = await service.createInvoice('bob', 5, [{ digit: 5, amount: 5 }], 1);
+      const confirmed = vi.fn();
+      service.setPaymentConfirmedCallback(confirmed);
+
+      await service['handleIncomingTransfer'](
+        transferEvent('tx-encoded', 5, 'bob', {
+          senderPubkey: `0x${'AB'.repeat(32)}`,
+          senderNametag: null,
+        })
+      );
+
+      expect(confirmed).toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceId: invoice.invoiceId, txId: 'tx-encoded' })
+      );
+    });
+
+    it('should fall back to the nametag when the pubkeys differ', async () => {
+      const service = await start();
+      const invoice = await service.createInvoice('alice', 5, [{ digit: 5, amount: 5 }], 1);
+      const confirmed = vi.fn();
+      service.setPaymentConfirmedCallback(confirmed);
+
+      await service['handleIncomingTransfer'](
+        transferEvent('tx-nametag', 5, 'alice', {
+          senderPubkey: 'another-pubkey',
+          senderNametag: '@Alice',
+        })
+      );
+
+      expect(confirmed).toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceId: invoice.invoiceId, txId: 'tx-nametag' })
+      );
+    });
+
+    it('should pick the request the memo references', async () => {
+      const service = await start();
+      await service.createInvoice('alice', 5, [{ digit: 5, amount: 5 }], 1);
+      const referenced = await service.createInvoice('alice', 5, [{ digit: 6, amount: 5 }], 1);
+      const confirmed = vi.fn();
+      service.setPaymentConfirmedCallback(confirmed);
+
+      await service['handleIncomingTransfer'](
+        transferEvent('tx-memo', 5, 'alice', { memo: `Payment for ${referenced.invoiceId}` })
+      );
+
+      expect(confirmed).toHaveBeenCalledTimes(1);
+      expect(confirmed).toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceId: referenced.invoiceId })
+      );
+    });
+
+    it('should prefer the request the amount pays exactly', async () => {
+      const service = await start();
+      await service.createInvoice('alice', 5, [{ digit: 5, amount: 5 }], 1);
+      const exact = await service.createInvoice('alice', 10, [{ digit: 6, amount: 10 }], 1);
+      const confirmed = vi.fn();
+      service.setPaymentConfirmedCallback(confirmed);
+
+      await service['handleIncomingTransfer'](transferEvent('tx-exact', 10));
+
+      expect(confirmed).toHaveBeenCalledTimes(1);
+      expect(confirmed).toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceId: exact.invoiceId, totalAmount: 10 })
+      );
+    });
+
+    it('should hold a smaller transfer as a partial payment until the rest arrives', async () => {
+      const service = await start();
+      const invoice = await service.createInvoice('alice', 10, [{ digit: 5, amount: 10 }], 1);
+      const confirmed = vi.fn();
+      const partial = vi.fn().mockResolvedValue(true);
+      service.setPaymentConfirmedCallback(confirmed);
+      service.setPartialPaymentCallback(partial);
+
+      await service['handleIncomingTransfer'](transferEvent('tx-part', 4));
+
+      expect(partial).toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceId: invoice.invoiceId, txId: 'tx-part', amount: 4 })
+      );
+      expect(confirmed).not.toHaveBeenCalled();
+      const request = await PaymentRequest.findOne({ invoiceId: invoice.invoiceId });
+      expect(request!.receivedAmount).toBe(4);
+
+      await service['handleIncomingTransfer'](transferEvent('tx-rest', 6));
+
+      expect(confirmed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoiceId: invoice.invoiceId,
+          txId: 'tx-rest',
+          receivedAmounts: [4, 6],
+        })
+      );
+    });
+
+    it('should drop the transfer behind a request a paid response confirmed', async () => {
+      const service = await start();
+      const invoice = await service.createInvoice('alice', 5, [{ digit: 5, amount: 5 }], 1);
+      const requestId = (await PaymentRequest.findOne({ invoiceId: invoice.invoiceId }))!.requestId;
+      const confirmed = vi.fn();
+      const unmatched = vi.fn();
+      service.setPaymentConfirmedCallback(confirmed);
+      service.setUnmatchedTransferCallback(unmatched);
+
+      service['handlePaymentRequestResponse']({
+        requestId,
+        responseType: 'paid',
+        transferId: 'tx-paid',
+      });
+
+      expect(confirmed).toHaveBeenCalledTimes(1);
+      expect(confirmed).toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceId: invoice.invoiceId, txId: 'tx-paid' })
+      );
+      expect(service['pendingPayments'].get(requestId)).toMatchObject({
+        confirmed: true,
+        paidTransferId: 'tx-paid',
+      });
+
+      await service['handleIncomingTransfer'](transferEvent('tx-paid', 5));
+
+      expect(confirmed).toHaveBeenCalledTimes(1);
+      expect(unmatched).not.toHaveBeenCalled();
+      expect(service['pendingPayments'].has(requestId)).toBe(false);
+    });
+
+    it('should report a transfer from a sender with no pending request as unmatched', async () => {
+      const service = await start();
+      await service.createInvoice('alice', 5, [{ digit: 5, amount: 5 }], 1);
+      const confirmed = vi.fn();
+      const unmatched = vi.fn();
+      service.setPaymentConfirmedCallback(confirmed);
+      service.setUnmatchedTransferCallback(unmatched);
+
+      await service['handleIncomingTransfer'](
+        transferEvent('tx-stranger', 5, 'carol', { memo: 'hello' })
+      );
+
+      expect(confirmed).not.toHaveBeenCalled();
+      expect(unmatched).toHaveBeenCalledWith({
+        txId: 'tx-stranger',
+        senderPubkey: 'pubkey-carol',
+        senderNametag: 'carol',
+        amount: 5,
+        coinId: config.coinId,
+        tokenCount: 1,
+        receivedAmounts: [5],
+        memo: 'hello',
+      });
+    });
+  });
+
+  describe('restart', () => {
+    const requestIdOf = async (invoiceId: string): Promise<string> =>
+      (await PaymentRequest.findOne({ invoiceId }))!.requestId;
+
+    it('should restore pending requests and match transfers against them', async () => {
+      const before = await start();
+      const invoice = await before.createInvoice('alice', 10, [{ digit: 5, amount: 10 }], 1);
+      before.setPartialPaymentCallback(vi.fn().mockResolvedValue(true));
+      await before['handleIncomingTransfer'](transferEvent('tx-before', 4));
+      before.disconnect();
+
+      const after = await start();
+      const restored = after['pendingPayments'].get(await requestIdOf(invoice.invoiceId));
+      expect(restored).toMatchObject({
+        invoiceId: invoice.invoiceId,
+        userNametag: 'alice',
+        userPubkey: 'pubkey-alice',
+        amount: 10,
+        receivedAmount: 4,
+        receivedAmounts: [4],
+        confirmed: false,
+      });
+
+      const confirmed = vi.fn();
+      after.setPaymentConfirmedCallback(confirmed);
+      await after['handleIncomingTransfer'](transferEvent('tx-after', 6));
+
+      expect(confirmed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoiceId: invoice.invoiceId,
+          txId: 'tx-after',
+          receivedAmounts: [4, 6],
+        })
+      );
+    });
+
+    it('should not restore forgotten requests', async () => {
+      const before = await start({ paymentTimeoutSeconds: 0, latePaymentGraceSeconds: 0 });
+      const forgotten = await before.createInvoice('alice', 5, [{ digit: 5, amount: 5 }], 1);
+      before.disconnect();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      const after = await start();
+
+      expect(after['pendingPayments'].has(await requestIdOf(forgotten.invoiceId))).toBe(false);
+    });
+
+    it('should restore paid requests still waiting for their transfer', async () => {
+      const before = await start();
+      const paid = await before.createInvoice('alice', 5, [{ digit: 6, amount: 5 }], 1);
+      await PaymentRequest.updateOne(
+        { invoiceId: paid.invoiceId },
+        { confirmed: true, paidTransferId: 'tx-paid' }
+      );
+      before.disconnect();
+
+      const after = await start();
+      const requestId = await requestIdOf(paid.invoiceId);
+      expect(after['pendingPayments'].get(requestId)).toMatchObject({
+        confirmed: true,
+        paidTransferId: 'tx-paid',
+      });
+
+      const confirmed = vi.fn();
+      const unmatched = vi.fn();
+      after.setPaymentConfirmedCallback(confirmed);
+      after.setUnmatchedTransferCallback(unmatched);
+      await after['handleIncomingTransfer'](transferEvent('tx-paid', 5));
+
+      expect(confirmed).not.toHaveBeenCalled();
+      expect(unmatched).not.toHaveBeenCalled();
+    });
+
+    it('should forget restored requests once their grace window is over', async () => {
+      const before = await start({ paymentTimeoutSeconds: 0, latePaymentGraceSeconds: 0.1 });
+      const invoice = await before.createInvoice('alice', 5, [{ digit: 5, amount: 5 }], 1);
+      before.disconnect();
+
+      const requestId = await requestIdOf(invoice.invoiceId);
+
+      const after = await start();
+      expect(after['pendingPayments'].has(requestId)).toBe(true);
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(after['pendingPayments'].has(requestId)).toBe(false);
+    });
+  });
+});
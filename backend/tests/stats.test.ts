@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { StatsUtils } from '../src/utils/stats.js';
+
+function draws(digits: number[]) {
+  return digits.map((winningDigit, i) => ({ roundNumber: i + 1, winningDigit }));
+}
+
+describe('StatsUtils', () => {
+  describe('chiSquare', () => {
+    it('should be zero for a perfectly uniform distribution', () => {
+      expect(StatsUtils.chiSquare(new Array(10).fill(5))).toBe(0);
+    });
+
+    it('should be zero with no observations', () => {
+      expect(StatsUtils.chiSquare(new Array(10).fill(0))).toBe(0);
+    });
+
+    it('should sum squared deviations over expected', () => {
+      // total 20, expected 2 each: (20-2)^2/2 + 9 * (0-2)^2/2 = 162 + 18
+      expect(StatsUtils.chiSquare([20, 0, 0, 0, 0, 0, 0, 0, 0, 0])).toBe(180);
+    });
+  });
+
+  describe('criticalValue', () => {
+    it('should approximate the 5% critical value for 9 degrees of freedom', () => {
+      expect(StatsUtils.criticalValue(9)).toBeCloseTo(16.919, 1);
+    });
+
+    it('should approximate the 5% critical value for 99 degrees of freedom', () => {
+      expect(StatsUtils.criticalValue(99)).toBeCloseTo(123.225, 0);
+    });
+  });
+
+  describe('computeDrawStats', () => {
+    it('should return empty stats with no draws', () => {
+      const stats = StatsUtils.computeDrawStats([]);
+
+      expect(stats.totalDraws).toBe(0);
+      expect(stats.firstRound).toBeNull();
+      expect(stats.currentStreak).toBeNull();
+      expect(stats.digits).toHaveLength(10);
+      expect(stats.digits.every((d) => d.count === 0 && d.lastSeenRound === null)).toBe(true);
+      expect(stats.chiSquare.consistentWithUniform).toBe(true);
+    });
+
+    it('should count frequency and last seen round per digit', () => {
+      const stats = StatsUtils.computeDrawStats(draws([3, 7, 3, 1]));
+
+      expect(stats.totalDraws).toBe(4);
+      expect(stats.digits[3]).toMatchObject({
+        count: 2,
+        frequency: 0.5,
+        expectedCount: 0.4,
+        lastSeenRound: 3,
+        roundsSinceSeen: 1,
+      });
+      expect(stats.digits[1].roundsSinceSeen).toBe(0);
+      expect(stats.digits[9].lastSeenRound).toBeNull();
+    });
+
+    it('should not depend on input order', () => {
+      const ordered = draws([2, 2, 5, 2]);
+      expect(StatsUtils.computeDrawStats([...ordered].reverse())).toEqual(
+        StatsUtils.computeDrawStats(ordered)
+      );
+    });
+
+    it('should track current and longest streaks', () => {
+      const stats = StatsUtils.computeDrawStats(draws([4, 4, 4, 1, 6, 6]));
+
+      expect(stats.longestStreak).toEqual({ digit: 4, length: 3, endRound: 3 });
+      expect(stats.currentStreak).toEqual({ digit: 6, length: 2, endRound: 6 });
+      expect(stats.digits[4].longestStreak).toBe(3);
+      expect(stats.digits[1].longestStreak).toBe(1);
+      expect(stats.digits[0].longestStreak).toBe(0);
+    });
+
+    it('should flag a heavily skewed distribution', () => {
+      const stats = StatsUtils.computeDrawStats(draws(new Array(50).fill(8)));
+
+      expect(stats.chiSquare.statistic).toBeGreaterThan(stats.chiSquare.criticalValue);
+      expect(stats.chiSquare.degreesOfFreedom).toBe(9);
+      expect(stats.chiSquare.consistentWithUniform).toBe(false);
+    });
+
+    it('should cover every number of a wider range', () => {
+      const stats = StatsUtils.computeDrawStats(draws([42, 7, 42]), 100);
+
+      expect(stats.digits).toHaveLength(100);
+      expect(stats.digits[42].count).toBe(2);
+      expect(stats.chiSquare.degreesOfFreedom).toBe(99);
+    });
+  });
+});
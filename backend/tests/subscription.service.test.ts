@@ -0,0 +1,393 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import mongoose from 'mongoose';
+import { vi } from 'vitest';
+
+// Mock sphereService before importing the services
+vi.mock('../src/services/index.js', () => ({
+  sphereService: {
+    createInvoice: vi.fn().mockImplementation(async (_userNametag: string, amount: number) => ({
+      invoiceId: `invoice-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      amount,
+      recipientNametag: 'test-agent',
+      status: 'pending',
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 120000),
+    })),
+    sendTokens: vi.fn().mockImplementation(async (toNametag: string, amount: number) => ({
+      transferId: `transfer-${Date.now()}`,
+      toNametag,
+      amount,
+      status: 'confirmed',
+      createdAt: new Date(),
+      transactionCount: 1,
+      sentAmounts: [amount],
+    })),
+    findSentTransfer: vi.fn().mockResolvedValue(null),
+    getBalance: vi.fn().mockResolvedValue(10000),
+  },
+}));
+
+import { SubscriptionService } from '../src/services/subscription.service.js';
+import { GameService } from '../src/services/game.service.js';
+import { sphereService } from '../src/services/index.js';
+import { Round, Bet, Subscription, PaymentLog } from '../src/models/game.model.js';
+import { config } from '../src/env.js';
+
+// Finish the open round and open the next one
+async function nextRound(): Promise<void> {
+  const round = await GameService.getCurrentRound();
+  await GameService.closeRound(round._id.toString());
+  const next = await GameService.getCurrentRound();
+  await SubscriptionService.placeForRound(next);
+}
+
+describe('SubscriptionService', () => {
+  beforeAll(async () => {
+    await mongoose.connect('mongodb://localhost:27017/lottery-test-subscription-service');
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  });
+
+  beforeEach(async () => {
+    await Round.deleteMany({});
+    await Bet.deleteMany({});
+    await Subscription.deleteMany({});
+    await PaymentLog.deleteMany({});
+    vi.mocked(sphereService.sendTokens).mockClear();
+  });
+
+  describe('subscribe', () => {
+    it('should invoice the pattern for every round', async () => {
+      const result = await SubscriptionService.subscribe(
+        'alice',
+        [
+          { digit: 3, amount: 10 },
+          { betType: 'odd', amount: 5 },
+        ],
+        4
+      );
+
+      expect(result.invoice.amount).toBe(60);
+      expect(result.subscription.amountPerRound).toBe(15);
+      expect(result.subscription.status).toBe('pending');
+      expect(result.subscription.bets[1].digits).toEqual([1, 3, 5, 7, 9]);
+    });
+
+    it('should reject an invalid number of rounds', async () => {
+      await expect(
+        SubscriptionService.subscribe('alice', [{ digit: 3, amount: 10 }], 0)
+      ).rejects.toThrow('Rounds must be between 1 and 100');
+      await expect(
+        SubscriptionService.subscribe('alice', [{ digit: 3, amount: 10 }], 1.5)
+      ).rejects.toThrow('Rounds must be between 1 and 100');
+    });
+
+    it('should validate the bet pattern', async () => {
+      await expect(
+        SubscriptionService.subscribe('alice', [{ digit: 12, amount: 10 }], 3)
+      ).rejects.toThrow('Digit must be between 0 and 9');
+    });
+  });
+
+  describe('confirmPayment', () => {
+    it('should return null for invoices that are not subscriptions', async () => {
+      expect(await SubscriptionService.confirmPayment('unknown', 'tx')).toBeNull();
+    });
+
+    it('should activate and place a paid bet in the open round', async () => {
+      const { invoice } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        3
+      );
+
+      const result = await SubscriptionService.confirmPayment(invoice.invoiceId, 'tx-sub');
+
+      expect(result!.accepted).toBe(true);
+      expect(result!.subscription.status).toBe('active');
+      expect(result!.subscription.roundsPlaced).toBe(1);
+
+      const round = await GameService.getCurrentRound();
+      const bets = await Bet.find({ roundId: round._id });
+      expect(bets).toHaveLength(1);
+      expect(bets[0].paymentStatus).toBe('paid');
+      expect(bets[0].subscriptionId!.toString()).toBe(result!.subscription._id.toString());
+      expect(round.totalPool).toBe(10);
+    });
+
+    it('should send back change when more than the invoice was paid', async () => {
+      const { invoice } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        3
+      );
+
+      const result = await SubscriptionService.confirmPayment(invoice.invoiceId, 'tx-sub', [30, 5]);
+
+      expect(result!.accepted).toBe(true);
+      expect(sphereService.sendTokens).toHaveBeenCalledTimes(1);
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'alice',
+        5,
+        config.coinId,
+        expect.any(String)
+      );
+      const change = await PaymentLog.findOne({ purpose: 'overpayment_change' });
+      expect(change!.amount).toBe(5);
+      expect(change!.metadata).toMatchObject({ paymentTxId: 'tx-sub', receivedAmount: 35 });
+    });
+  });
+
+  describe('placeForRound', () => {
+    it('should place one bet per round until the subscription completes', async () => {
+      const { invoice } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        2
+      );
+      await SubscriptionService.confirmPayment(invoice.invoiceId, 'tx-sub');
+
+      await nextRound();
+      await nextRound();
+
+      const subscription = await Subscription.findOne({ invoiceId: invoice.invoiceId });
+      expect(subscription!.roundsPlaced).toBe(2);
+      expect(subscription!.status).toBe('completed');
+      expect(await Bet.countDocuments({ subscriptionId: subscription!._id })).toBe(2);
+    });
+
+    it('should not place the same round twice', async () => {
+      const { invoice } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        5
+      );
+      await SubscriptionService.confirmPayment(invoice.invoiceId, 'tx-sub');
+
+      const round = await GameService.getCurrentRound();
+      expect(await SubscriptionService.placeForRound(round)).toBe(0);
+
+      expect(await Bet.countDocuments({ roundId: round._id })).toBe(1);
+    });
+
+    it('should skip unpaid subscriptions', async () => {
+      await SubscriptionService.subscribe('alice', [{ digit: 3, amount: 10 }], 2);
+
+      const round = await GameService.getCurrentRound();
+      expect(await SubscriptionService.placeForRound(round)).toBe(0);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should refund the rounds that were not placed', async () => {
+      const { invoice, subscription } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        5
+      );
+      await SubscriptionService.confirmPayment(invoice.invoiceId, 'tx-sub');
+      await nextRound();
+
+      const cancelled = await SubscriptionService.cancel(subscription._id.toString());
+
+      expect(cancelled.status).toBe('cancelled');
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'alice',
+        30,
+        config.coinId,
+        expect.any(String)
+      );
+      const stored = await Subscription.findById(subscription._id);
+      expect(stored!.refundedAmount).toBe(30);
+      expect(stored!.refundStatus).toBe('confirmed');
+      expect(stored!.refundTxId).toBeDefined();
+      expect(await PaymentLog.countDocuments({ purpose: 'refund' })).toBe(1);
+    });
+
+    it('should not refund an unpaid subscription', async () => {
+      const { subscription } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        5
+      );
+
+      await SubscriptionService.cancel(subscription._id.toString());
+
+      expect(sphereService.sendTokens).not.toHaveBeenCalled();
+    });
+
+    it('should refund everything received for a subscription cancelled before paying', async () => {
+      const { invoice, subscription } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        5
+      );
+      await SubscriptionService.cancel(subscription._id.toString());
+
+      await SubscriptionService.confirmPayment(invoice.invoiceId, 'tx-late', [50, 2]);
+
+      expect(sphereService.sendTokens).toHaveBeenCalledTimes(1);
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'alice',
+        52,
+        config.coinId,
+        expect.any(String)
+      );
+    });
+
+    it('should refund a payment for a subscription cancelled before paying', async () => {
+      const { invoice, subscription } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        5
+      );
+      await SubscriptionService.cancel(subscription._id.toString());
+
+      const result = await SubscriptionService.confirmPayment(invoice.invoiceId, 'tx-late');
+
+      expect(result!.accepted).toBe(false);
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'alice',
+        50,
+        config.coinId,
+        expect.any(String)
+      );
+    });
+
+    it('should let the holder of the cancel token cancel', async () => {
+      const { subscription, cancelToken } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        5
+      );
+
+      const cancelled = await SubscriptionService.cancelWithToken(
+        subscription._id.toString(),
+        cancelToken
+      );
+
+      expect(cancelled.status).toBe('cancelled');
+      expect(cancelled.cancelReason).toBe('Cancelled by player');
+    });
+
+    it('should not cancel with a wrong or missing cancel token', async () => {
+      const { subscription } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        5
+      );
+      await Subscription.create({
+        userNametag: 'alice',
+        channel: subscription.channel,
+        bets: [{ digit: 3, amount: 10 }],
+        rounds: 2,
+        amountPerRound: 10,
+        totalAmount: 20,
+        invoiceId: 'inv-without-token',
+      });
+      const legacy = await Subscription.findOne({ invoiceId: 'inv-without-token' });
+
+      await expect(
+        SubscriptionService.cancelWithToken(subscription._id.toString(), 'alice')
+      ).rejects.toThrow('Subscription not found');
+      await expect(
+        SubscriptionService.cancelWithToken(legacy!._id.toString(), 'alice')
+      ).rejects.toThrow('Subscription not found');
+      expect((await Subscription.findById(subscription._id))!.status).toBe('pending');
+    });
+
+    it('should keep the cancel token hash out of reads', async () => {
+      const { subscription } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        5
+      );
+
+      expect(subscription.toJSON()).not.toHaveProperty('cancelTokenHash');
+      const [listed] = await SubscriptionService.getUserSubscriptions('alice');
+      expect(listed.toJSON()).not.toHaveProperty('cancelTokenHash');
+    });
+
+    it('should reject cancelling twice', async () => {
+      const { subscription } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        5
+      );
+      await SubscriptionService.cancel(subscription._id.toString());
+
+      await expect(SubscriptionService.cancel(subscription._id.toString())).rejects.toThrow(
+        'Subscription is already cancelled'
+      );
+    });
+  });
+
+  describe('refund retries', () => {
+    // A paid subscription cancelled after its first round, leaving 40 to refund
+    async function cancelAfterFirstRound(): Promise<string> {
+      const { invoice, subscription } = await SubscriptionService.subscribe(
+        'alice',
+        [{ digit: 3, amount: 10 }],
+        5
+      );
+      await SubscriptionService.confirmPayment(invoice.invoiceId, 'tx-sub');
+      await SubscriptionService.cancel(subscription._id.toString());
+      return subscription._id.toString();
+    }
+
+    afterEach(() => {
+      config.refundMaxAttempts = 5;
+    });
+
+    it('should keep a failed refund pending and retry it after the backoff', async () => {
+      vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('relay down'));
+      const subscriptionId = await cancelAfterFirstRound();
+
+      let subscription = await Subscription.findById(subscriptionId);
+      expect(subscription!.refundStatus).toBe('pending');
+      expect(subscription!.refundedAmount).toBe(40);
+      expect(subscription!.refundTxId).toBeNull();
+      expect(subscription!.refundAttempts).toBe(1);
+      expect(subscription!.refundLastError).toBe('relay down');
+      expect(await SubscriptionService.getStuckRefunds('pending')).toHaveLength(1);
+
+      // Not due yet
+      expect(await SubscriptionService.retryRefunds()).toEqual({ sent: 0, failed: 0 });
+
+      const later = new Date(subscription!.refundNextAttemptAt!.getTime() + 1000);
+      expect(await SubscriptionService.retryRefunds(later)).toEqual({ sent: 1, failed: 0 });
+
+      subscription = await Subscription.findById(subscriptionId);
+      expect(subscription!.refundStatus).toBe('confirmed');
+      expect(subscription!.refundTxId).toBeDefined();
+      expect(await PaymentLog.countDocuments({ purpose: 'refund' })).toBe(1);
+    });
+
+    it('should mark a refund failed after the maximum attempts and allow a manual retry', async () => {
+      config.refundMaxAttempts = 1;
+      vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('relay down'));
+      const subscriptionId = await cancelAfterFirstRound();
+
+      const subscription = await Subscription.findById(subscriptionId);
+      expect(subscription!.refundStatus).toBe('failed');
+      expect(subscription!.refundNextAttemptAt).toBeNull();
+      expect(await SubscriptionService.getStuckRefunds('failed')).toHaveLength(1);
+
+      const retried = await SubscriptionService.retryRefund(subscriptionId);
+
+      expect(retried.refundStatus).toBe('confirmed');
+      expect(sphereService.sendTokens).toHaveBeenLastCalledWith(
+        'alice',
+        40,
+        config.coinId,
+        expect.any(String)
+      );
+      await expect(SubscriptionService.retryRefund(subscriptionId)).rejects.toThrow(
+        'Refund is confirmed, only failed refunds can be retried'
+      );
+    });
+  });
+});
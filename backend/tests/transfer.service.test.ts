@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { vi } from 'vitest';
+
+// Mock sphereService before importing the services
+vi.mock('../src/services/index.js', () => ({
+  sphereService: {
+    sendTokens: vi.fn().mockImplementation(async (toNametag: string, amount: number) => ({
+      transferId: `transfer-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      toNametag,
+      amount,
+      status: 'confirmed',
+      createdAt: new Date(),
+      transactionCount: 1,
+      sentAmounts: [amount],
+    })),
+    findSentTransfer: vi.fn().mockResolvedValue(null),
+  },
+}));
+
+import { TransferService } from '../src/services/transfer.service.js';
+import { sphereService } from '../src/services/index.js';
+import { OutgoingTransfer } from '../src/models/game.model.js';
+import { config } from '../src/env.js';
+
+describe('TransferService', () => {
+  beforeAll(async () => {
+    await mongoose.connect('mongodb://localhost:27017/lottery-test-transfer');
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  });
+
+  beforeEach(async () => {
+    await OutgoingTransfer.deleteMany({});
+    vi.mocked(sphereService.sendTokens).mockClear();
+    vi.mocked(sphereService.findSentTransfer).mockClear();
+  });
+
+  it('should send a key only once', async () => {
+    const first = await TransferService.send('payout:1', 'payout', 'alice', 5);
+    const second = await TransferService.send('payout:1', 'payout', 'alice', 5);
+
+    expect(sphereService.sendTokens).toHaveBeenCalledTimes(1);
+    expect(second.transferId).toBe(first.transferId);
+    const record = await TransferService.find('payout:1');
+    expect(record!.status).toBe('confirmed');
+    expect(record!.sentAmounts).toEqual([5]);
+  });
+
+  it('should send a failed transfer again once the wallet history shows it never went out', async () => {
+    vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('relay down'));
+
+    await expect(TransferService.send('refund:1', 'refund', 'bob', 3)).rejects.toThrow(
+      'relay down'
+    );
+    const failed = await TransferService.find('refund:1');
+    expect(failed!.status).toBe('sending');
+    expect(failed!.lastError).toBe('relay down');
+
+    await TransferService.send('refund:1', 'refund', 'bob', 3);
+
+    expect(sphereService.findSentTransfer).toHaveBeenCalledWith('refund:1');
+    const record = await TransferService.find('refund:1');
+    expect(record!.status).toBe('confirmed');
+    expect(record!.attempts).toBe(2);
+    expect(sphereService.sendTokens).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not send a failed transfer again when the wallet history shows it went out', async () => {
+    vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('connection reset'));
+    await expect(TransferService.send('payout:3', 'payout', 'erin', 6)).rejects.toThrow(
+      'connection reset'
+    );
+    vi.mocked(sphereService.findSentTransfer).mockResolvedValueOnce({
+      transferId: 'transfer-after-error',
+    });
+
+    const transfer = await TransferService.send('payout:3', 'payout', 'erin', 6);
+
+    expect(transfer.transferId).toBe('transfer-after-error');
+    expect(sphereService.sendTokens).toHaveBeenCalledTimes(1);
+    expect((await TransferService.find('payout:3'))!.status).toBe('sent');
+  });
+
+  it('should keep a failed transfer in doubt while the history cannot be read', async () => {
+    vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('relay down'));
+    await expect(TransferService.send('refund:4', 'refund', 'bob', 3)).rejects.toThrow(
+      'relay down'
+    );
+    vi.mocked(sphereService.findSentTransfer).mockRejectedValueOnce(new Error('offline'));
+
+    await expect(TransferService.send('refund:4', 'refund', 'bob', 3)).rejects.toThrow(
+      'outcome is unknown'
+    );
+    expect(sphereService.sendTokens).toHaveBeenCalledTimes(1);
+    expect(await TransferService.inDoubt()).toHaveLength(1);
+  });
+
+  it('should refuse a transfer whose outcome is unknown until it is released', async () => {
+    await OutgoingTransfer.create({
+      idempotencyKey: 'payout:2',
+      purpose: 'payout',
+      toNametag: 'carol',
+      amount: 7,
+      status: 'sending',
+    });
+
+    await expect(TransferService.send('payout:2', 'payout', 'carol', 7)).rejects.toThrow(
+      'outcome is unknown'
+    );
+    expect(sphereService.sendTokens).not.toHaveBeenCalled();
+    expect(await TransferService.inDoubt()).toHaveLength(1);
+
+    expect(await TransferService.release('payout:2')).toBe(true);
+    await TransferService.send('payout:2', 'payout', 'carol', 7);
+
+    expect(sphereService.sendTokens).toHaveBeenCalledWith('carol', 7, config.coinId, 'payout:2');
+  });
+
+  it('should reject a key reused for a different transfer', async () => {
+    await TransferService.send('commission-withdrawal:0', 'commission_withdrawal', 'dev', 10);
+
+    await expect(
+      TransferService.send('commission-withdrawal:0', 'commission_withdrawal', 'dev', 12)
+    ).rejects.toThrow('already used for another transfer');
+  });
+
+  describe('resolve', () => {
+    beforeEach(async () => {
+      await OutgoingTransfer.create({
+        idempotencyKey: 'refund:3',
+        purpose: 'refund',
+        toNametag: 'dave',
+        amount: 4,
+        status: 'sending',
+      });
+    });
+
+    it('should mark a transfer found in the wallet history as sent', async () => {
+      vi.mocked(sphereService.findSentTransfer).mockResolvedValueOnce({
+        transferId: 'transfer-in-history',
+      });
+
+      const record = await TransferService.resolve('refund:3');
+
+      expect(sphereService.findSentTransfer).toHaveBeenCalledWith('refund:3');
+      expect(record!.status).toBe('sent');
+      expect(record!.transferId).toBe('transfer-in-history');
+      expect(await TransferService.send('refund:3', 'refund', 'dave', 4)).toMatchObject({
+        transferId: 'transfer-in-history',
+      });
+      expect(sphereService.sendTokens).not.toHaveBeenCalled();
+    });
+
+    it('should mark a transfer missing from the wallet history as failed', async () => {
+      const record = await TransferService.resolve('refund:3');
+
+      expect(record!.status).toBe('failed');
+      await TransferService.send('refund:3', 'refund', 'dave', 4);
+      expect(sphereService.sendTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave a transfer in doubt when the history cannot be read', async () => {
+      vi.mocked(sphereService.findSentTransfer).mockRejectedValueOnce(new Error('offline'));
+
+      const record = await TransferService.resolve('refund:3');
+
+      expect(record!.status).toBe('sending');
+      expect(await TransferService.inDoubt()).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import mongoose from 'mongoose';
+import { vi } from 'vitest';
+
+// Mock sphereService before importing the services
+vi.mock('../src/services/index.js', () => ({
+  sphereService: {
+    createInvoice: vi.fn().mockImplementation(async (_userNametag: string, amount: number) => ({
+      invoiceId: `invoice-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      amount,
+      recipientNametag: 'test-agent',
+      status: 'pending',
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 120000),
+    })),
+    sendTokens: vi.fn().mockImplementation(async (toNametag: string, amount: number) => ({
+      transferId: `transfer-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      toNametag,
+      amount,
+      status: 'confirmed',
+      createdAt: new Date(),
+      transactionCount: 1,
+      sentAmounts: [amount],
+    })),
+    findSentTransfer: vi.fn().mockResolvedValue(null),
+  },
+}));
+
+import { UnmatchedTransferService } from '../src/services/unmatched-transfer.service.js';
+import { GameService } from '../src/services/game.service.js';
+import { sphereService } from '../src/services/index.js';
+import {
+  Bet,
+  Commission,
+  OutgoingTransfer,
+  PaymentLog,
+  Round,
+  UnmatchedTransfer,
+} from '../src/models/game.model.js';
+import { config } from '../src/env.js';
+
+const transfer = {
+  txId: 'tx-stray',
+  senderPubkey: 'pubkey-alice',
+  senderNametag: 'alice',
+  amount: 7,
+  coinId: config.coinId,
+  tokenCount: 1,
+  receivedAmounts: [7],
+  memo: null,
+};
+
+describe('UnmatchedTransferService', () => {
+  beforeAll(async () => {
+    await mongoose.connect('mongodb://localhost:27017/lottery-test-unmatched');
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  });
+
+  beforeEach(async () => {
+    await UnmatchedTransfer.deleteMany({});
+    await Round.deleteMany({});
+    await Bet.deleteMany({});
+    await Commission.deleteMany({});
+    await OutgoingTransfer.deleteMany({});
+    await PaymentLog.deleteMany({});
+    vi.mocked(sphereService.sendTokens).mockClear();
+  });
+
+  afterEach(() => {
+    config.unmatchedTransferPolicy = 'hold';
+    config.coins = '';
+  });
+
+  it('should hold an unmatched transfer for review', async () => {
+    const stored = (await UnmatchedTransferService.record(transfer))!;
+
+    expect(stored.status).toBe('pending');
+    expect(stored.senderNametag).toBe('alice');
+    expect(sphereService.sendTokens).not.toHaveBeenCalled();
+    const log = await PaymentLog.findOne({ txId: 'tx-stray' });
+    expect(log!.purpose).toBe('unmatched_transfer');
+    expect(log!.type).toBe('incoming');
+  });
+
+  it('should record a transfer only once', async () => {
+    await UnmatchedTransferService.record(transfer);
+    await UnmatchedTransferService.record(transfer);
+
+    expect(await UnmatchedTransfer.countDocuments()).toBe(1);
+    expect(await PaymentLog.countDocuments()).toBe(1);
+  });
+
+  it('should skip a transfer a bet payment already booked', async () => {
+    config.unmatchedTransferPolicy = 'refund';
+    await GameService.logPayment({
+      type: 'incoming',
+      amount: 7,
+      fromNametag: 'alice',
+      toNametag: config.agentNametag,
+      txId: 'tx-stray',
+      purpose: 'bet_payment',
+    });
+
+    const stored = await UnmatchedTransferService.record(transfer);
+
+    expect(stored).toBeNull();
+    expect(await UnmatchedTransfer.countDocuments()).toBe(0);
+    expect(await PaymentLog.countDocuments({ purpose: 'unmatched_transfer' })).toBe(0);
+    expect(sphereService.sendTokens).not.toHaveBeenCalled();
+  });
+
+  it('should not send back a transfer booked after it was stored', async () => {
+    const stored = (await UnmatchedTransferService.record(transfer))!;
+    await GameService.logPayment({
+      type: 'incoming',
+      amount: 7,
+      fromNametag: 'alice',
+      toNametag: config.agentNametag,
+      txId: 'tx-stray',
+      purpose: 'bet_payment',
+    });
+
+    await expect(UnmatchedTransferService.refund(stored._id.toString())).rejects.toThrow(
+      'already booked as bet_payment'
+    );
+    expect(sphereService.sendTokens).not.toHaveBeenCalled();
+    expect((await UnmatchedTransfer.findById(stored._id))!.status).toBe('pending');
+  });
+
+  it('should refund the sender under the refund policy', async () => {
+    config.unmatchedTransferPolicy = 'refund';
+
+    const stored = (await UnmatchedTransferService.record(transfer))!;
+
+    expect(stored.status).toBe('refunded');
+    expect(stored.refundTxId).toBeDefined();
+    expect(sphereService.sendTokens).toHaveBeenCalledWith(
+      'alice',
+      7,
+      config.coinId,
+      expect.any(String)
+    );
+    expect(await PaymentLog.countDocuments({ purpose: 'unmatched_refund' })).toBe(1);
+  });
+
+  it('should keep a transfer from an unknown sender even under the refund policy', async () => {
+    config.unmatchedTransferPolicy = 'refund';
+
+    const stored = (await UnmatchedTransferService.record({
+      ...transfer,
+      txId: 'tx-anonymous',
+      senderNametag: null,
+    }))!;
+
+    expect(stored.status).toBe('pending');
+    expect(sphereService.sendTokens).not.toHaveBeenCalled();
+    expect(await UnmatchedTransferService.list('pending')).toHaveLength(1);
+  });
+
+  it('should keep the transfer pending when the refund fails', async () => {
+    vi.mocked(sphereService.sendTokens).mockRejectedValueOnce(new Error('relay down'));
+    const stored = (await UnmatchedTransferService.record(transfer))!;
+
+    const result = await UnmatchedTransferService.refund(stored._id.toString());
+
+    expect(result.status).toBe('pending');
+    expect(result.lastError).toBe('relay down');
+  });
+
+  it('should send a transfer back only once when refunds race', async () => {
+    const stored = (await UnmatchedTransferService.record(transfer))!;
+
+    const results = await Promise.allSettled([
+      UnmatchedTransferService.refund(stored._id.toString()),
+      UnmatchedTransferService.refund(stored._id.toString()),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter((r) => r.status === 'rejected')).toHaveLength(1);
+    expect(sphereService.sendTokens).toHaveBeenCalledTimes(1);
+    expect((await UnmatchedTransfer.findById(stored._id))!.status).toBe('refunded');
+  });
+
+  it('should not refund a transfer that is already being refunded', async () => {
+    const stored = (await UnmatchedTransferService.record(transfer))!;
+    await UnmatchedTransfer.updateOne({ _id: stored._id }, { $set: { status: 'refunding' } });
+
+    await expect(UnmatchedTransferService.refund(stored._id.toString())).rejects.toThrow(
+      'Unmatched transfer is already refunding'
+    );
+    await expect(UnmatchedTransferService.writeOff(stored._id.toString())).rejects.toThrow(
+      'Unmatched transfer is already refunding'
+    );
+    expect(sphereService.sendTokens).not.toHaveBeenCalled();
+  });
+
+  describe('resolution', () => {
+    it('should attach a held transfer to a bet as its payment', async () => {
+      const { bet } = await GameService.placeBets('alice', [{ digit: 5, amount: 7 }]);
+      const stored = (await UnmatchedTransferService.record(transfer))!;
+
+      const result = await UnmatchedTransferService.attach(
+        stored._id.toString(),
+        bet._id.toString(),
+        'memo was missing'
+      );
+
+      expect(result.status).toBe('attached');
+      expect(result.betId!.toString()).toBe(bet._id.toString());
+      expect(result.resolvedAt).toBeDefined();
+      const paid = await Bet.findById(bet._id);
+      expect(paid!.paymentStatus).toBe('paid');
+      expect(paid!.paymentTxId).toBe('tx-stray');
+      const log = await PaymentLog.findOne({ purpose: 'unmatched_attached' });
+      expect(log!.relatedBetId!.toString()).toBe(bet._id.toString());
+      expect(log!.metadata.note).toBe('memo was missing');
+    });
+
+    it('should hold a transfer that does not cover the bet as a partial payment', async () => {
+      const { bet } = await GameService.placeBets('alice', [{ digit: 5, amount: 10 }]);
+      const stored = (await UnmatchedTransferService.record(transfer))!;
+
+      await UnmatchedTransferService.attach(stored._id.toString(), bet._id.toString());
+
+      const pending = await Bet.findById(bet._id);
+      expect(pending!.paymentStatus).toBe('pending');
+      expect(pending!.receivedAmount).toBe(7);
+    });
+
+    it('should leave the transfer in the inbox when the bet is unknown', async () => {
+      const stored = (await UnmatchedTransferService.record(transfer))!;
+
+      await expect(
+        UnmatchedTransferService.attach(
+          stored._id.toString(),
+          new mongoose.Types.ObjectId().toString()
+        )
+      ).rejects.toThrow('Bet not found');
+
+      const unchanged = await UnmatchedTransfer.findById(stored._id);
+      expect(unchanged!.status).toBe('pending');
+    });
+
+    it('should not attach a transfer in another coin than the bet', async () => {
+      config.coins = `UCT:${config.coinId},USDU:${'b'.repeat(64)}:6`;
+      const { bet } = await GameService.placeBets('alice', [{ digit: 5, amount: 7 }]);
+      const stored = (await UnmatchedTransferService.record({
+        ...transfer,
+        coinId: 'b'.repeat(64),
+      }))!;
+
+      await expect(
+        UnmatchedTransferService.attach(stored._id.toString(), bet._id.toString())
+      ).rejects.toThrow('Transfer is in USDU, the bet in UCT');
+
+      const unchanged = await UnmatchedTransfer.findById(stored._id);
+      expect(unchanged!.status).toBe('pending');
+    });
+
+    it('should write a held transfer off to commission', async () => {
+      const stored = (await UnmatchedTransferService.record(transfer))!;
+
+      const result = await UnmatchedTransferService.writeOff(stored._id.toString(), 'no claim');
+
+      expect(result.status).toBe('written_off');
+      expect(result.note).toBe('no claim');
+      const commission = await Commission.findOne();
+      expect(commission!.totalAccumulated).toBe(7);
+      expect(await PaymentLog.countDocuments({ purpose: 'unmatched_write_off' })).toBe(1);
+    });
+
+    it('should refund to a nametag given by the operator', async () => {
+      const stored = (await UnmatchedTransferService.record({
+        ...transfer,
+        txId: 'tx-anonymous',
+        senderNametag: null,
+      }))!;
+
+      await expect(UnmatchedTransferService.refund(stored._id.toString())).rejects.toThrow(
+        'Sender nametag unknown'
+      );
+      const result = await UnmatchedTransferService.refund(stored._id.toString(), '@bob');
+
+      expect(result.status).toBe('refunded');
+      expect(sphereService.sendTokens).toHaveBeenCalledWith(
+        'bob',
+        7,
+        config.coinId,
+        expect.any(String)
+      );
+    });
+
+    it('should resolve a transfer only once', async () => {
+      const stored = (await UnmatchedTransferService.record(transfer))!;
+      await UnmatchedTransferService.writeOff(stored._id.toString());
+
+      await expect(UnmatchedTransferService.writeOff(stored._id.toString())).rejects.toThrow(
+        'Unmatched transfer is already written_off'
+      );
+      await expect(UnmatchedTransferService.refund(stored._id.toString())).rejects.toThrow(
+        'Unmatched transfer is already written_off'
+      );
+      expect(sphereService.sendTokens).not.toHaveBeenCalled();
+    });
+  });
+});
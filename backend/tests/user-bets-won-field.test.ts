@@ -29,10 +29,8 @@ vi.mock('../src/services/index.js', () => ({
     initialize: vi.fn(),
     getNametag: vi.fn().mockReturnValue('test-agent'),
   },
-  roundScheduler: {
-    start: vi.fn(),
-    stop: vi.fn(),
-  },
+  roundSchedulers: new Map(),
+  playWallet: null,
   initializeServices: vi.fn(),
 }));
 
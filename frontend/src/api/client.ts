@@ -9,39 +9,89 @@ export const api = axios.create({
 });
 
 // Types
+export type RandomnessSource = 'local' | 'commit-reveal' | 'seeded' | 'beacon';
+export type GameType = 'pick-1' | 'pick-2' | 'pick-3';
+export type SettlementMode = 'pari-mutuel' | 'fixed-odds';
+
 export interface Round {
   _id: string;
+  // Channel the round belongs to (null = default channel)
+  channel: string | null;
+  houseFeePercent: number | null;
+  // Coin the round is played in (null = default coin), and its symbol
+  coinId: string | null;
+  coin?: string;
   roundNumber: number;
   status: 'open' | 'closed' | 'drawing' | 'paying' | 'completed';
+  gameType: GameType;
+  // Fixed-odds rounds pay stake x payoutMultiplier instead of sharing the pool
+  settlementMode: SettlementMode;
+  payoutMultiplier: number | null;
   winningDigit: number | null;
   totalPool: number;
   totalPayout: number;
   houseFee: number;
+  // Unwon pool rolled in from an earlier round (already part of totalPool)
+  jackpot: number;
+  jackpotSourceRound: number | null;
+  jackpotRolledOver: number;
   startTime: string;
   endTime: string | null;
   drawTime: string | null;
+  // Provably fair: hash is published when the round opens, seed is revealed after the draw
+  serverSeedHash: string | null;
+  serverSeed?: string | null;
+  betsDigest: string | null;
+  clientSeedsDigest: string | null;
+  fairnessVersion: number | null;
+  betsMerkleRoot: string | null;
+  randomnessSource: RandomnessSource | null;
   roundDurationSeconds?: number;
+  minBet?: number;
+  // Free-play mode: bets use play money instead of coins
+  playMode?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export type BetType = 'number' | 'odd' | 'even' | 'low' | 'high' | 'set';
+
+// Single-number bets carry digit, group bets the numbers they cover in digits
 export interface BetItem {
-  digit: number;
+  betType?: BetType;
+  digit?: number;
+  digits?: number[];
   amount: number;
 }
 
 export interface Bet {
   _id: string;
-  roundId: string | Round;
+  // Null while a bet pre-booked for a future roundNumber waits for its round
+  roundId: string | Round | null;
   roundNumber: number;
+  channel: string | null;
+  // Coin the bet was paid in (null = default coin), and its symbol
+  coinId: string | null;
+  coin?: string;
   userNametag: string;
   bets: BetItem[];
   totalAmount: number;
   invoiceId: string;
+  // Set when the bet was placed by an auto-bet subscription
+  subscriptionId: string | null;
+  clientSeed: string | null;
   paymentStatus: 'pending' | 'paid' | 'expired' | 'failed' | 'refunded';
+  // Invoice deadline, and when an unpaid bet was marked expired
+  expiresAt: string | null;
+  expiredAt: string | null;
+  // Partial payments held towards the invoice
+  receivedAmount: number;
   paymentTxId: string | null;
   refundTxId: string | null;
   refundReason: string | null;
+  // Refund lifecycle: pending/sent until the transfer is confirmed, failed after retries ran out
+  refundStatus: 'none' | 'pending' | 'sent' | 'confirmed' | 'failed';
+  refundAmount: number;
   winnings: number;
   payoutStatus: 'none' | 'pending' | 'sent' | 'confirmed' | 'failed';
   payoutTxId: string | null;
@@ -51,36 +101,168 @@ export interface Bet {
   won: boolean | null;
 }
 
+// Play-money balance in free-play mode
+export interface PlayBalance {
+  nametag: string;
+  balance: number;
+}
+
+// Auto-bet subscription: one payment places the same bets in each of the next `rounds` rounds
+export interface Subscription {
+  _id: string;
+  userNametag: string;
+  channel: string;
+  bets: BetItem[];
+  rounds: number;
+  roundsPlaced: number;
+  amountPerRound: number;
+  totalAmount: number;
+  invoiceId: string;
+  status: 'pending' | 'active' | 'completed' | 'cancelled';
+  paymentTxId: string | null;
+  refundedAmount: number;
+  refundTxId: string | null;
+  refundStatus: 'none' | 'pending' | 'sent' | 'confirmed' | 'failed';
+  cancelReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Paid bet as it enters the bet-set digest
+export interface VerificationBet {
+  invoiceId: string;
+  userNametag: string;
+  bets: BetItem[];
+  clientSeed: string | null;
+}
+
+// Everything needed to recompute a drawn round's winning digit
+export interface RoundVerification {
+  roundId: string;
+  roundNumber: number;
+  status: Round['status'];
+  gameType: GameType;
+  winningDigit: number;
+  serverSeedHash: string | null;
+  serverSeed: string | null;
+  betsDigest: string | null;
+  clientSeedsDigest: string | null;
+  fairnessVersion: number | null;
+  randomnessSource: RandomnessSource | null;
+  randomnessProof: Record<string, unknown> | null;
+  bets: VerificationBet[];
+  verified: boolean;
+}
+
+export interface BetInclusionProof {
+  roundId: string;
+  roundNumber: number;
+  invoiceId: string;
+  userNametag: string;
+  bets: { digit: number; amount: number }[];
+  leaf: string;
+  index: number;
+  siblings: { position: 'left' | 'right'; hash: string }[];
+  betsMerkleRoot: string;
+  verified: boolean;
+}
+
+export interface DigitStats {
+  digit: number;
+  count: number;
+  frequency: number;
+  expectedCount: number;
+  lastSeenRound: number | null;
+  roundsSinceSeen: number | null;
+  longestStreak: number;
+}
+
+export interface DrawStreak {
+  digit: number;
+  length: number;
+  endRound: number;
+}
+
+export interface DrawStats {
+  totalDraws: number;
+  firstRound: number | null;
+  lastRound: number | null;
+  digits: DigitStats[];
+  currentStreak: DrawStreak | null;
+  longestStreak: DrawStreak | null;
+  chiSquare: {
+    statistic: number;
+    degreesOfFreedom: number;
+    criticalValue: number;
+    consistentWithUniform: boolean;
+  };
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data: T;
   error?: string;
 }
 
+// Round-scoped endpoints live under the configured channel
+const gamePath = config.channel ? `/game/${config.channel}` : '/game';
+
 // API functions
 export const gameApi = {
-  getCurrentRound: () => api.get<ApiResponse<Round>>('/game/round'),
+  getCurrentRound: () => api.get<ApiResponse<Round>>(`${gamePath}/round`),
 
-  getPreviousRound: () => api.get<ApiResponse<Round | null>>('/game/round/previous'),
+  getPreviousRound: () => api.get<ApiResponse<Round | null>>(`${gamePath}/round/previous`),
 
   validateNametag: (nametag: string) =>
     api.get<ApiResponse<{ nametag: string; pubkey: string }>>(`/game/validate/${nametag}`),
 
-  placeBets: (userNametag: string, bets: BetItem[]) =>
+  placeBets: (userNametag: string, bets: BetItem[], clientSeed?: string, roundNumber?: number) =>
     api.post<ApiResponse<{ bet: Bet; invoice: { invoiceId: string; amount: number } }>>(
-      '/game/bet',
-      { userNametag, bets }
+      `${gamePath}/bet`,
+      { userNametag, bets, clientSeed, roundNumber }
     ),
 
+  subscribe: (userNametag: string, bets: BetItem[], rounds: number) =>
+    api.post<
+      ApiResponse<{
+        subscription: Subscription;
+        invoice: { invoiceId: string; amount: number };
+        cancelToken: string;
+      }>
+    >(`${gamePath}/subscriptions`, { userNametag, bets, rounds }),
+
+  getUserSubscriptions: (userNametag: string) =>
+    api.get<ApiResponse<Subscription[]>>(`/game/subscriptions/${userNametag}`),
+
+  cancelSubscription: (subscriptionId: string, cancelToken: string) =>
+    api.post<ApiResponse<Subscription>>(`/game/subscriptions/${subscriptionId}/cancel`, {
+      cancelToken,
+    }),
+
+  getPlayBalance: (nametag: string) =>
+    api.get<ApiResponse<PlayBalance>>(`/game/play/${nametag}`),
+
+  topUpPlayBalance: (nametag: string) =>
+    api.post<ApiResponse<PlayBalance>>(`/game/play/${nametag}/topup`),
+
   getRoundHistory: (limit = 10) =>
-    api.get<ApiResponse<Round[]>>('/game/history', { params: { limit } }),
+    api.get<ApiResponse<Round[]>>(`${gamePath}/history`, { params: { limit } }),
+
+  getDrawStats: (gameType?: GameType, limit?: number) =>
+    api.get<ApiResponse<DrawStats>>(`${gamePath}/stats/draws`, { params: { gameType, limit } }),
 
   getUserBets: (userNametag: string, limit = 20) =>
     api.get<ApiResponse<Bet[]>>(`/game/bets/${userNametag}`, { params: { limit } }),
 
   getRoundBets: (roundId: string) =>
-    api.get<ApiResponse<Bet[]>>(`/game/round/${roundId}/bets`),
+    api.get<ApiResponse<Bet[]>>(`${gamePath}/round/${roundId}/bets`),
+
+  getRoundVerification: (roundId: string) =>
+    api.get<ApiResponse<RoundVerification>>(`${gamePath}/round/${roundId}/verify`),
+
+  getBetInclusionProof: (roundId: string, invoiceId: string) =>
+    api.get<ApiResponse<BetInclusionProof>>(`${gamePath}/round/${roundId}/proof/${invoiceId}`),
 
   getUserBetsInCurrentRound: (nametag: string) =>
-    api.get<ApiResponse<Bet[]>>(`/game/round/current/bets/${nametag}`),
+    api.get<ApiResponse<Bet[]>>(`${gamePath}/round/current/bets/${nametag}`),
 };
@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { gameApi, type BetItem } from './client';
+import { gameApi, type BetItem, type GameType } from './client';
 import { config } from '../config';
 
 // Query keys
@@ -7,9 +7,13 @@ export const queryKeys = {
   currentRound: ['currentRound'] as const,
   previousRound: ['previousRound'] as const,
   roundHistory: (limit?: number) => ['roundHistory', limit] as const,
+  drawStats: (gameType?: GameType, limit?: number) => ['drawStats', gameType, limit] as const,
   userBets: (nametag: string, limit?: number) => ['userBets', nametag, limit] as const,
   userBetsInCurrentRound: (nametag: string) => ['userBetsInCurrentRound', nametag] as const,
   roundBets: (roundId: string) => ['roundBets', roundId] as const,
+  roundVerification: (roundId: string) => ['roundVerification', roundId] as const,
+  userSubscriptions: (nametag: string) => ['userSubscriptions', nametag] as const,
+  playBalance: (nametag: string) => ['playBalance', nametag] as const,
 };
 
 // Current round hook
@@ -51,6 +55,19 @@ export function useRoundHistory(limit = 20) {
   });
 }
 
+// Winning number statistics hook (per game type)
+export function useDrawStats(gameType?: GameType, limit?: number) {
+  return useQuery({
+    queryKey: queryKeys.drawStats(gameType, limit),
+    queryFn: async () => {
+      const response = await gameApi.getDrawStats(gameType, limit);
+      return response.data.data;
+    },
+    refetchInterval: config.refetchHistory,
+    staleTime: config.refetchHistory,
+  });
+}
+
 // User bets hook
 export function useUserBets(nametag: string | undefined, limit = 50) {
   return useQuery({
@@ -77,6 +94,19 @@ export function useRoundBets(roundId: string | undefined) {
   });
 }
 
+// Round verification hook (drawn rounds never change, so no refetching)
+export function useRoundVerification(roundId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.roundVerification(roundId ?? ''),
+    queryFn: async () => {
+      const response = await gameApi.getRoundVerification(roundId!);
+      return response.data.data;
+    },
+    enabled: !!roundId,
+    staleTime: Infinity,
+  });
+}
+
 // User bets in current round hook
 export function useUserBetsInCurrentRound(nametag: string | undefined) {
   return useQuery({
@@ -106,8 +136,18 @@ export function usePlaceBets() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ userNametag, bets }: { userNametag: string; bets: BetItem[] }) => {
-      const response = await gameApi.placeBets(userNametag, bets);
+    mutationFn: async ({
+      userNametag,
+      bets,
+      clientSeed,
+      roundNumber,
+    }: {
+      userNametag: string;
+      bets: BetItem[];
+      clientSeed?: string;
+      roundNumber?: number;
+    }) => {
+      const response = await gameApi.placeBets(userNametag, bets, clientSeed, roundNumber);
       return response.data.data;
     },
     onSuccess: (_data, variables) => {
@@ -119,6 +159,104 @@ export function usePlaceBets() {
   });
 }
 
+// User auto-bet subscriptions hook
+export function useUserSubscriptions(nametag: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.userSubscriptions(nametag ?? ''),
+    queryFn: async () => {
+      const response = await gameApi.getUserSubscriptions(nametag!);
+      return response.data.data;
+    },
+    enabled: !!nametag,
+    refetchInterval: config.refetchCurrentRound,
+    staleTime: config.staleTime,
+  });
+}
+
+// Cancel tokens of the subscriptions started in this browser, by subscription ID - the server
+// returns a subscription's token only once, and cancelling requires it
+const CANCEL_TOKENS_KEY = 'lottery_subscription_cancel_tokens';
+
+function loadCancelTokens(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(CANCEL_TOKENS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveCancelToken(subscriptionId: string, cancelToken: string | null): void {
+  const tokens = loadCancelTokens();
+  if (cancelToken) {
+    tokens[subscriptionId] = cancelToken;
+  } else {
+    delete tokens[subscriptionId];
+  }
+  try {
+    localStorage.setItem(CANCEL_TOKENS_KEY, JSON.stringify(tokens));
+  } catch {
+    // Storage unavailable - the subscription just cannot be stopped from this browser
+  }
+}
+
+// Whether a subscription can be cancelled from this browser
+export function canCancelSubscription(subscriptionId: string): boolean {
+  return subscriptionId in loadCancelTokens();
+}
+
+// Subscribe to auto-bets mutation hook
+export function useSubscribe() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      userNametag,
+      bets,
+      rounds,
+    }: {
+      userNametag: string;
+      bets: BetItem[];
+      rounds: number;
+    }) => {
+      const response = await gameApi.subscribe(userNametag, bets, rounds);
+      return response.data.data;
+    },
+    onSuccess: (data, variables) => {
+      saveCancelToken(data.subscription._id, data.cancelToken);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.userSubscriptions(variables.userNametag),
+      });
+    },
+  });
+}
+
+// Cancel subscription mutation hook (unplaced rounds are refunded)
+export function useCancelSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      subscriptionId,
+    }: {
+      subscriptionId: string;
+      userNametag: string;
+    }) => {
+      const cancelToken = loadCancelTokens()[subscriptionId];
+      if (!cancelToken) {
+        throw new Error('This auto-bet can only be stopped from the browser that started it');
+      }
+      const response = await gameApi.cancelSubscription(subscriptionId, cancelToken);
+      return response.data.data;
+    },
+    onSuccess: (_data, variables) => {
+      saveCancelToken(variables.subscriptionId, null);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.userSubscriptions(variables.userNametag),
+      });
+    },
+  });
+}
+
 // Invalidate all queries (useful after round ends)
 export function useInvalidateRoundData() {
   const queryClient = useQueryClient();
@@ -127,5 +265,35 @@ export function useInvalidateRoundData() {
     queryClient.invalidateQueries({ queryKey: queryKeys.currentRound });
     queryClient.invalidateQueries({ queryKey: queryKeys.previousRound });
     queryClient.invalidateQueries({ queryKey: queryKeys.roundHistory() });
+    queryClient.invalidateQueries({ queryKey: queryKeys.drawStats() });
   };
 }
+
+// Play-money balance hook (free-play mode only)
+export function usePlayBalance(nametag: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.playBalance(nametag ?? ''),
+    queryFn: async () => {
+      const response = await gameApi.getPlayBalance(nametag!);
+      return response.data.data;
+    },
+    enabled: !!nametag,
+    refetchInterval: config.refetchCurrentRound,
+    staleTime: config.staleTime,
+  });
+}
+
+// Top up a low play-money balance
+export function useTopUpPlayBalance() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (nametag: string) => {
+      const response = await gameApi.topUpPlayBalance(nametag);
+      return response.data.data;
+    },
+    onSuccess: (_data, nametag) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.playBalance(nametag) });
+    },
+  });
+}
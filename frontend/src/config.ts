@@ -4,6 +4,8 @@
 export const config = {
   // API
   apiUrl: import.meta.env.VITE_API_URL || '/api',
+  // Lottery channel to play (empty = the backend's default channel)
+  channel: import.meta.env.VITE_CHANNEL || '',
 
   // App Info
   appName: import.meta.env.VITE_APP_NAME || 'SINGLE DIGIT',
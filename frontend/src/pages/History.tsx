@@ -87,16 +87,16 @@ export function History() {
                     <div className="flex items-center gap-4 text-sm">
                       <div>
                         <span className="text-gray-500">Pool:</span>{' '}
-                        <span className="text-[#ffd700] font-semibold">{round.totalPool} {config.tokenSymbol}</span>
+                        <span className="text-[#ffd700] font-semibold">{round.totalPool} {round.coin ?? config.tokenSymbol}</span>
                       </div>
                       <div>
                         <span className="text-gray-500">Paid:</span>{' '}
-                        <span className="text-green-400 font-semibold">{round.totalPayout} {config.tokenSymbol}</span>
+                        <span className="text-green-400 font-semibold">{round.totalPayout} {round.coin ?? config.tokenSymbol}</span>
                       </div>
                       {round.houseFee > 0 && (
                         <div>
                           <span className="text-gray-500">Fee:</span>{' '}
-                          <span className="text-gray-400">{round.houseFee} {config.tokenSymbol}</span>
+                          <span className="text-gray-400">{round.houseFee} {round.coin ?? config.tokenSymbol}</span>
                         </div>
                       )}
                     </div>
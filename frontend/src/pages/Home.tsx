@@ -1,14 +1,29 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import type { ChangeEvent } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import { HelpCircle, BarChart2, Dices, Target, Lightbulb, Check, X } from 'lucide-react';
+import { HelpCircle, BarChart2, Dices, Target, Lightbulb, Check, X, ShieldCheck } from 'lucide-react';
 import { gameApi } from '../api/client';
 import type { BetItem, Round } from '../api/client';
-import { useCurrentRound, usePreviousRound, useRoundHistory, usePlaceBets, useUserBetsInCurrentRound, useUserBets } from '../api/hooks';
+import { useCurrentRound, usePreviousRound, useRoundHistory, usePlaceBets, useUserBetsInCurrentRound, useUserBets, useRoundVerification, useDrawStats, useSubscribe, useUserSubscriptions, useCancelSubscription, canCancelSubscription, usePlayBalance, useTopUpPlayBalance } from '../api/hooks';
 import { config } from '../config';
+import { verifyRound, generateClientSeed, MAX_CLIENT_SEED_LENGTH } from '../utils/fairness';
+import type { VerificationResult } from '../utils/fairness';
+import { getGameType, formatNumber } from '../utils/gameType';
+import {
+  PRESET_GROUP_BETS,
+  GROUP_BET_COLOR,
+  isGroupBet,
+  coveredNumbers,
+  betCovers,
+  groupBetLabel,
+  betItemLabel,
+  parseSetInput,
+} from '../utils/betType';
 import './lottery.css';
 
 type BetsState = Record<number, string>;
+// Group bet amounts keyed by 'odd' | 'even' | 'low' | 'high' or 'set:1,2,3'
+type GroupBetsState = Record<string, string>;
 
 const NAMETAG_KEY = 'lottery_nametag';
 
@@ -33,26 +48,152 @@ const DIGIT_COLORS = [
   '#f472b6', '#fb923c', '#60a5fa', '#c084fc', '#34d399'
 ] as const;
 
+// Multi-digit numbers take the color of their last digit
+function numberColor(value: number): string {
+  return DIGIT_COLORS[value % 10];
+}
+
+function betItemColor(item: BetItem): string {
+  return isGroupBet(item) ? GROUP_BET_COLOR : numberColor(item.digit ?? 0);
+}
+
+// Slip key of a group bet back to the item sent to the server (amount filled in by the caller)
+function groupKeyToItem(key: string, amount: number): BetItem {
+  if (key.startsWith('set:')) {
+    return { betType: 'set', digits: key.slice(4).split(',').map(Number), amount };
+  }
+  return { betType: key as BetItem['betType'], amount };
+}
+
 function formatTime(seconds: number): string {
   const m = Math.floor(seconds / 60);
   const s = seconds % 60;
   return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
 }
 
+function shortHash(value: string | null): string {
+  if (!value) return '-';
+  return value.length > 20 ? `${value.slice(0, 10)}…${value.slice(-8)}` : value;
+}
+
+// Recomputes a drawn round's winning digit in the browser from the revealed seed
+function RoundVerifier({ roundId }: { roundId: string }) {
+  const { data, isLoading, error } = useRoundVerification(roundId);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+
+  useEffect(() => {
+    if (!data) return;
+    let cancelled = false;
+    verifyRound(data).then(r => {
+      if (!cancelled) setResult(r);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [data]);
+
+  if (isLoading) {
+    return <div className="text-gray-500 text-xs font-rajdhani py-2">Loading verification data...</div>;
+  }
+
+  if (error || !data) {
+    const axiosError = error as { response?: { data?: { error?: string } } } | null;
+    return (
+      <div className="text-[#ff6b6b] text-xs font-rajdhani py-2">
+        {axiosError?.response?.data?.error || 'Verification data unavailable'}
+      </div>
+    );
+  }
+
+  if (data.randomnessSource !== 'commit-reveal') {
+    return (
+      <div className="mt-2 px-4 py-3 rounded-xl bg-black/30 border border-white/5 font-rajdhani text-xs text-center text-gray-500">
+        Drawn with the <span className="text-gray-300">{data.randomnessSource ?? 'legacy'}</span> randomness
+        source. No seed commitment was published for this round.
+      </div>
+    );
+  }
+
+  const seedCount = data.bets.filter(b => b.clientSeed).length;
+  const rows: { label: string; value: string; ok?: boolean }[] = [
+    { label: 'Source', value: data.randomnessSource },
+    { label: 'Seed commitment', value: shortHash(data.serverSeedHash) },
+    { label: 'Revealed seed', value: shortHash(data.serverSeed), ok: result?.seedMatchesCommitment },
+    {
+      label: 'Bet-set digest',
+      value: `${shortHash(data.betsDigest)} (${data.bets.length} bet${data.bets.length === 1 ? '' : 's'})`,
+      ok: (data.fairnessVersion ?? 0) >= 2 ? result?.betsDigestMatches : undefined,
+    },
+    ...((data.fairnessVersion ?? 0) >= 3
+      ? [
+          {
+            label: 'Client seeds',
+            value: `${shortHash(data.clientSeedsDigest)} (${seedCount} seed${seedCount === 1 ? '' : 's'})`,
+            ok: result?.clientSeedsDigestMatches,
+          },
+        ]
+      : []),
+    { label: 'Algorithm', value: data.fairnessVersion !== null ? `v${data.fairnessVersion}` : 'none' },
+    {
+      label: data.gameType === 'pick-1' ? 'Recomputed digit' : 'Recomputed number',
+      value: result?.recomputedDigit !== null && result?.recomputedDigit !== undefined ? formatNumber(result.recomputedDigit, data.gameType) : '-',
+      ok: result?.digitMatches,
+    },
+  ];
+
+  return (
+    <div className="mt-2 px-4 py-3 rounded-xl bg-black/30 border border-white/5 font-rajdhani text-xs">
+      <div className="space-y-1">
+        {rows.map(row => (
+          <div key={row.label} className="flex items-center justify-between gap-3">
+            <span className="text-gray-500 uppercase tracking-wider">{row.label}</span>
+            <span className="flex items-center gap-1.5 font-mono text-gray-300 truncate">
+              {row.value}
+              {row.ok === true && <Check size={12} className="text-[#00ff88] shrink-0" />}
+              {row.ok === false && <X size={12} className="text-[#ff6b6b] shrink-0" />}
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 text-center">
+        {!result ? (
+          <span className="text-gray-500">Verifying...</span>
+        ) : result.passed ? (
+          <span className="text-[#00ff88] font-bold tracking-widest">✓ PASS: DRAW MATCHES COMMITMENT</span>
+        ) : (
+          <span className="text-[#ff6b6b] font-bold tracking-widest">✗ FAIL: DRAW COULD NOT BE VERIFIED</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function Home() {
-  const [bets, setBets] = useState<BetsState>({0:'',1:'',2:'',3:'',4:'',5:'',6:'',7:'',8:'',9:''});
+  const [bets, setBets] = useState<BetsState>({});
+  const [pickNumber, setPickNumber] = useState('');
+  const [pickAmount, setPickAmount] = useState('');
+  const [groupBets, setGroupBets] = useState<GroupBetsState>({});
+  const [setInput, setSetInput] = useState('');
+  const [setAmount, setSetAmount] = useState('');
   const [userNametag, setUserNametag] = useState(loadNametag);
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
   const [nametagStatus, setNametagStatus] = useState<'idle' | 'checking' | 'valid' | 'invalid'>('idle');
   const [nametagError, setNametagError] = useState<string | null>(null);
   const [showConnectModal, setShowConnectModal] = useState(false);
   const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [verifyRoundId, setVerifyRoundId] = useState<string | null>(null);
   const [showMyBetsModal, setShowMyBetsModal] = useState(false);
   const [showHowToPlayModal, setShowHowToPlayModal] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [paymentStep, setPaymentStep] = useState<'confirm' | 'awaiting' | 'paid' | 'failed'>('confirm');
   const [pendingBetItems, setPendingBetItems] = useState<BetItem[]>([]);
+  const [clientSeed, setClientSeed] = useState('');
   const [pendingBetId, setPendingBetId] = useState<string | null>(null);
+  // Auto-bet: repeat the slip for this many rounds with a single payment
+  const [repeatRounds, setRepeatRounds] = useState('1');
+  const [pendingSubscriptionId, setPendingSubscriptionId] = useState<string | null>(null);
+  // Pre-booking: a future round number to hold the bet for (empty = current round)
+  const [bookRound, setBookRound] = useState('');
   const [paymentError, setPaymentError] = useState<string | null>(null);
   const [roundResult, setRoundResult] = useState<{ show: boolean; won: boolean } | null>(null);
   const [isSpinning, setIsSpinning] = useState(false);
@@ -71,6 +212,12 @@ export function Home() {
 
   // Queries using custom hooks
   const { data: round, isLoading } = useCurrentRound();
+  // Current round's game type decides the bet grid and number format
+  const gameType = round?.gameType ?? 'pick-1';
+  const { digits: numberDigits, range: numberRange, label: gameLabel } = getGameType(gameType);
+  // Coin the current round's channel plays in
+  const tokenSymbol = round?.coin ?? config.tokenSymbol;
+  const fixedOddsMultiplier = round?.settlementMode === 'fixed-odds' ? round.payoutMultiplier : null;
   const { data: previousRound } = usePreviousRound();
   const { data: historyRounds } = useRoundHistory(config.historyLimit);
   const { data: myCurrentRoundBets } = useUserBetsInCurrentRound(
@@ -90,6 +237,18 @@ export function Home() {
 
   // Mutation using custom hook
   const placeBetMutation = usePlaceBets();
+  const subscribeMutation = useSubscribe();
+  const cancelSubscriptionMutation = useCancelSubscription();
+  const { data: mySubscriptions } = useUserSubscriptions(
+    nametagStatus === 'valid' ? userNametag : undefined
+  );
+  const activeSubscriptions = (mySubscriptions || []).filter(s => s.status === 'active');
+  // Free-play mode: stakes and payouts move play money
+  const isPlayMode = round?.playMode === true;
+  const { data: playBalance } = usePlayBalance(
+    isPlayMode && nametagStatus === 'valid' ? userNametag : undefined
+  );
+  const topUpMutation = useTopUpPlayBalance();
 
   // Create a map of roundNumber -> win result (true = won, false = lost, undefined = didn't play)
   const roundResultsMap = new Map<number, boolean>();
@@ -101,10 +260,21 @@ export function Home() {
     }
   }
 
+  // Hot/cold digits across all completed rounds
+  const { data: drawStats } = useDrawStats(gameType);
+  const hotDigits = drawStats && drawStats.totalDraws > 0
+    ? [...drawStats.digits].sort((a, b) => b.count - a.count || a.digit - b.digit).slice(0, 3)
+    : [];
+  const coldDigits = drawStats && drawStats.totalDraws > 0
+    ? [...drawStats.digits]
+      .sort((a, b) => (b.roundsSinceSeen ?? Infinity) - (a.roundsSinceSeen ?? Infinity) || a.digit - b.digit)
+      .slice(0, 3)
+    : [];
+
   // Get winning history with round numbers for result lookup
   const allHistoryWithRounds = historyRounds
     ?.filter(r => r.winningDigit !== null)
-    .map(r => ({ digit: r.winningDigit as number, roundNumber: r.roundNumber })) || [];
+    .map(r => ({ digit: r.winningDigit as number, roundNumber: r.roundNumber, gameType: r.gameType })) || [];
 
   // While spinning, don't show the latest winner in history (it will appear after animation)
   const winningHistoryWithRounds = isSpinning
@@ -115,8 +285,11 @@ export function Home() {
   useEffect(() => {
     if (myCurrentRoundBets && myCurrentRoundBets.length > 0) {
       const aggregated = myCurrentRoundBets.reduce<Record<number, number>>((acc, bet) => {
+        // Group bets count towards every number they cover
         bet.bets.forEach(b => {
-          acc[b.digit] = (acc[b.digit] || 0) + b.amount;
+          coveredNumbers(b).forEach(n => {
+            acc[n] = (acc[n] || 0) + b.amount;
+          });
         });
         return acc;
       }, {});
@@ -148,16 +321,24 @@ export function Home() {
     prevRoundNumberRef.current = round.roundNumber;
   }, [round?.roundNumber, queryClient]);
 
-  // Spinning effect - runs random digits while isSpinning is true
+  // Spinning effect - runs random numbers while isSpinning is true
   useEffect(() => {
     if (!isSpinning) return;
 
     const spinInterval = setInterval(() => {
-      setSpinningDigit(Math.floor(Math.random() * 10));
+      setSpinningDigit(Math.floor(Math.random() * numberRange));
     }, 100);
 
     return () => clearInterval(spinInterval);
-  }, [isSpinning]);
+  }, [isSpinning, numberRange]);
+
+  // Numbers picked for a different game type no longer fit the grid
+  useEffect(() => {
+    setBets({});
+    setGroupBets({});
+    setPickNumber('');
+    setSetInput('');
+  }, [gameType]);
 
   // Landing effect - lands on winning digit when we have it AND min 2 seconds have passed
   useEffect(() => {
@@ -202,6 +383,7 @@ export function Home() {
       // Refetch all data after round ends
       queryClient.refetchQueries({ queryKey: ['currentRound'] });
       queryClient.refetchQueries({ queryKey: ['roundHistory'] });
+      queryClient.refetchQueries({ queryKey: ['drawStats'] });
       queryClient.refetchQueries({ queryKey: ['userBetsCurrentRound'] });
       queryClient.refetchQueries({ queryKey: ['userBets'] });
 
@@ -265,7 +447,9 @@ export function Home() {
               pendingBet.paymentStatus === 'expired'
                 ? 'Payment expired. Please try again.'
                 : pendingBet.paymentStatus === 'refunded'
-                ? 'Round closed. Payment refunded to your wallet.'
+                ? pendingBet.refundStatus === 'confirmed'
+                  ? 'Round closed. Payment refunded to your wallet.'
+                  : 'Round closed. Your payment is being refunded.'
                 : 'Payment failed. Please try again.'
             );
           }
@@ -286,6 +470,54 @@ export function Home() {
     return () => clearInterval(pollInterval);
   }, [pendingBetId, paymentStep, userNametag, queryClient]);
 
+  // Poll for auto-bet subscription payment
+  useEffect(() => {
+    if (!pendingSubscriptionId || paymentStep !== 'awaiting') return;
+
+    let pollCount = 0;
+    const maxPolls = 60; // 60 polls * 2 seconds = 2 minutes timeout
+
+    const pollInterval = setInterval(async () => {
+      pollCount++;
+
+      try {
+        const response = await gameApi.getUserSubscriptions(userNametag);
+        const subscription = response.data.data.find(s => s._id === pendingSubscriptionId);
+
+        if (subscription && subscription.status !== 'pending') {
+          clearInterval(pollInterval);
+          if (subscription.status === 'cancelled') {
+            setPaymentStep('failed');
+            setPaymentError(subscription.cancelReason || 'Auto-bet cancelled.');
+          } else {
+            setPaymentStep('paid');
+            queryClient.invalidateQueries({ queryKey: ['userBetsCurrentRound'] });
+            queryClient.invalidateQueries({ queryKey: ['currentRound'] });
+            queryClient.invalidateQueries({ queryKey: ['userSubscriptions'] });
+            setTimeout(() => {
+              setShowPaymentModal(false);
+              setPendingBetItems([]);
+              setPendingSubscriptionId(null);
+              setRepeatRounds('1');
+              setBookRound('');
+              setPaymentStep('confirm');
+            }, 1500);
+          }
+        }
+      } catch {
+        // Ignore polling errors, continue trying
+      }
+
+      if (pollCount >= maxPolls) {
+        clearInterval(pollInterval);
+        setPaymentStep('failed');
+        setPaymentError('Payment timeout. Check your wallet and try again.');
+      }
+    }, 2000);
+
+    return () => clearInterval(pollInterval);
+  }, [pendingSubscriptionId, paymentStep, userNametag, queryClient]);
+
   // Polling for previousRound when waiting for draw result
   useEffect(() => {
     // Only poll while spinning (waiting for result)
@@ -382,8 +614,54 @@ export function Home() {
     }
   };
 
+  // Multi-digit games: add the picked number and amount to the bet slip
+  const handleAddPick = (): void => {
+    const digit = parseInt(pickNumber, 10);
+    const amount = parseInt(pickAmount, 10);
+    if (isNaN(digit) || digit < 0 || digit >= numberRange || isNaN(amount) || amount <= 0) return;
+
+    setBets(prev => ({ ...prev, [digit]: String((parseInt(prev[digit], 10) || 0) + amount) }));
+    setPickNumber('');
+  };
+
+  const handleRandomPick = (): void => {
+    setPickNumber(formatNumber(Math.floor(Math.random() * numberRange), gameType));
+  };
+
+  const handleRemovePick = (digit: number): void => {
+    setBets(prev => {
+      const next = { ...prev };
+      delete next[digit];
+      return next;
+    });
+  };
+
+  const handleGroupInputChange = (key: string, value: string): void => {
+    if (value === '' || /^\d{0,5}$/.test(value)) {
+      setGroupBets(prev => ({ ...prev, [key]: value }));
+    }
+  };
+
+  const handleAddSet = (): void => {
+    const customSet = parseSetInput(setInput, numberRange);
+    const amount = parseInt(setAmount, 10);
+    if (!customSet || customSet.length < 2 || customSet.length >= numberRange || isNaN(amount) || amount <= 0) return;
+    const key = `set:${customSet.join(',')}`;
+    setGroupBets(prev => ({ ...prev, [key]: String((parseInt(prev[key], 10) || 0) + amount) }));
+    setSetInput('');
+  };
+
+  const handleRemoveGroup = (key: string): void => {
+    setGroupBets(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
   const handleClearAll = (): void => {
-    setBets({0:'',1:'',2:'',3:'',4:'',5:'',6:'',7:'',8:'',9:''});
+    setBets({});
+    setGroupBets({});
   };
 
   const handlePlaceBet = (): void => {
@@ -393,16 +671,25 @@ export function Home() {
     }
 
     const betItems: BetItem[] = [];
-    for (let d = 0; d < 10; d++) {
-      const val = parseInt(bets[d], 10);
+    for (const [key, value] of Object.entries(bets)) {
+      const digit = Number(key);
+      const val = parseInt(value, 10);
+      if (digit < numberRange && !isNaN(val) && val > 0) {
+        betItems.push({ digit, amount: val });
+      }
+    }
+    betItems.sort((a, b) => (a.digit ?? 0) - (b.digit ?? 0));
+    for (const [key, value] of Object.entries(groupBets)) {
+      const val = parseInt(value, 10);
       if (!isNaN(val) && val > 0) {
-        betItems.push({ digit: d, amount: val });
+        betItems.push(groupKeyToItem(key, val));
       }
     }
 
     if (betItems.length > 0) {
       // Show confirmation modal instead of placing bet directly
       setPendingBetItems(betItems);
+      setClientSeed(generateClientSeed());
       setPaymentStep('confirm');
       setShowPaymentModal(true);
     }
@@ -414,14 +701,39 @@ export function Home() {
     setPaymentStep('awaiting');
     setPaymentError(null);
 
+    if (pendingRounds > 1) {
+      subscribeMutation.mutate(
+        { userNametag, bets: pendingBetItems, rounds: pendingRounds },
+        {
+          onSuccess: (data) => {
+            setPendingSubscriptionId(data.subscription._id);
+            setBets({});
+            setGroupBets({});
+          },
+          onError: (error: unknown) => {
+            const axiosError = error as { response?: { data?: { error?: string } }; message?: string };
+            setPaymentStep('failed');
+            setPaymentError(axiosError?.response?.data?.error || axiosError?.message || 'Unknown error');
+          },
+        }
+      );
+      return;
+    }
+
     placeBetMutation.mutate(
-      { userNametag, bets: pendingBetItems },
+      {
+        userNametag,
+        bets: pendingBetItems,
+        clientSeed: clientSeed || undefined,
+        roundNumber: isBookingAhead ? bookedRoundNumber : undefined,
+      },
       {
         onSuccess: (data) => {
           // Store the bet ID for polling
           setPendingBetId(data.bet._id);
           // Clear the input fields
-          setBets({0:'',1:'',2:'',3:'',4:'',5:'',6:'',7:'',8:'',9:''});
+          setBets({});
+          setGroupBets({});
           // The polling effect will handle closing the modal when payment is confirmed
         },
         onError: (error: unknown) => {
@@ -439,10 +751,29 @@ export function Home() {
     setShowPaymentModal(false);
     setPendingBetItems([]);
     setPendingBetId(null);
+    setPendingSubscriptionId(null);
+    setRepeatRounds('1');
+    setBookRound('');
     setPaymentStep('confirm');
     setPaymentError(null);
   };
 
+  const handleBookRoundChange = (value: string): void => {
+    if (value === '' || /^\d{0,7}$/.test(value)) {
+      setBookRound(value);
+    }
+  };
+
+  const handleRepeatRoundsChange = (value: string): void => {
+    if (value === '' || /^\d{0,3}$/.test(value)) {
+      setRepeatRounds(value);
+    }
+  };
+
+  const handleCancelSubscription = (subscriptionId: string): void => {
+    cancelSubscriptionMutation.mutate({ subscriptionId, userNametag });
+  };
+
   const handleConnect = (): void => {
     setShowConnectModal(true);
   };
@@ -461,27 +792,59 @@ export function Home() {
     setNametagError(null);
   };
 
-  const currentBet = Object.values(bets).reduce((sum, val) => {
+  // Bet slip total for one round, and what the confirm modal will charge
+  const bookedRoundNumber = parseInt(bookRound, 10);
+  const isBookingAhead = !!round && !isNaN(bookedRoundNumber) && bookedRoundNumber > round.roundNumber;
+  const pendingRounds = isBookingAhead ? 1 : Math.max(1, parseInt(repeatRounds, 10) || 1);
+  const pendingTotal = pendingBetItems.reduce((sum, item) => sum + item.amount, 0) * pendingRounds;
+
+  const currentBet = [...Object.values(bets), ...Object.values(groupBets)].reduce((sum, val) => {
     const num = parseInt(val, 10);
     return sum + ((!isNaN(num) && num > 0) ? num : 0);
   }, 0);
 
-  // Aggregate bets from database for current round
+  // Aggregate bets from database for current round (single numbers per number, group bets listed)
   const myBetsAggregated = (myCurrentRoundBets || []).reduce<Record<number, number>>((acc, bet) => {
-    bet.bets.forEach(b => {
-      acc[b.digit] = (acc[b.digit] || 0) + b.amount;
+    bet.bets.filter(b => !isGroupBet(b)).forEach(b => {
+      acc[b.digit!] = (acc[b.digit!] || 0) + b.amount;
     });
     return acc;
   }, {});
-  const totalMyBets = Object.values(myBetsAggregated).reduce((sum, val) => sum + val, 0);
+  const myGroupBets = (myCurrentRoundBets || []).flatMap(bet => bet.bets.filter(isGroupBet));
+  const totalMyBets =
+    Object.values(myBetsAggregated).reduce((sum, val) => sum + val, 0) +
+    myGroupBets.reduce((sum, b) => sum + b.amount, 0);
+
+  // Custom sets on the bet slip
+  const slipSets = Object.keys(groupBets).filter(key => key.startsWith('set:') && parseInt(groupBets[key], 10) > 0);
 
   const isRoundOpen = round?.status === 'open';
   const canPlaceBet = currentBet > 0 && isRoundOpen && !placeBetMutation.isPending;
+  const canAddPick = isRoundOpen && pickNumber !== '' && parseInt(pickAmount, 10) > 0;
+
+  // Custom set: numbers typed as "1, 2, 3" plus an amount, added to the slip
+  const customSet = parseSetInput(setInput, numberRange);
+  const canAddSet =
+    isRoundOpen && customSet !== null && customSet.length >= 2 && customSet.length < numberRange && parseInt(setAmount, 10) > 0;
+
+  // Numbers on the multi-digit bet slip, in ascending order
+  const slipNumbers = Object.keys(bets)
+    .map(Number)
+    .filter(digit => parseInt(bets[digit], 10) > 0)
+    .sort((a, b) => a - b);
+
+  // Pick-1 shows every digit, multi-digit games only the numbers bet on
+  const myBetNumbers = numberDigits === 1
+    ? [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]
+    : Object.keys(myBetsAggregated).map(Number).sort((a, b) => a - b);
 
   // Show spinning digit during animation, otherwise show winning digit
   const actualWinningDigit = previousRound?.winningDigit ?? null;
   const displayDigit = isSpinning ? spinningDigit : actualWinningDigit;
-  const displayColor = displayDigit !== null ? DIGIT_COLORS[displayDigit] : '#00ff88';
+  // While spinning we draw the current round, afterwards we show the previous round's number
+  const displayGameType = isSpinning ? gameType : previousRound?.gameType;
+  const displayDigits = getGameType(displayGameType).digits;
+  const displayColor = displayDigit !== null ? numberColor(displayDigit) : '#00ff88';
   const showResult = actualWinningDigit !== null;
 
   return (
@@ -542,13 +905,13 @@ export function Home() {
                 key={i}
                 className="rounded-full flex items-center justify-center text-white font-bold font-orbitron relative shrink-0"
                 style={{
-                  width: i === 0 ? 32 : 26,
+                  width: (i === 0 ? 32 : 26) + (getGameType(item.gameType).digits - 1) * 8,
                   height: i === 0 ? 32 : 26,
-                  background: DIGIT_COLORS[item.digit],
+                  background: numberColor(item.digit),
                   fontSize: i === 0 ? 14 : 12,
                   opacity: 1 - i * 0.06,
                   boxShadow: i === 0
-                    ? `0 0 15px ${DIGIT_COLORS[item.digit]}88`
+                    ? `0 0 15px ${numberColor(item.digit)}88`
                     : played
                       ? isWin
                         ? '0 0 8px #00ff88'
@@ -562,7 +925,7 @@ export function Home() {
                   outlineOffset: '2px'
                 }}
               >
-                {item.digit}
+                {formatNumber(item.digit, item.gameType)}
                 {i === 0 && (
                   <div className="absolute -top-1 -right-1 bg-white text-black text-[6px] font-bold px-0.5 py-0.5 rounded font-rajdhani leading-none">
                     NEW
@@ -584,6 +947,43 @@ export function Home() {
             <span className="text-gray-600 text-xs font-rajdhani">No history yet</span>
           )}
         </div>
+        {drawStats && hotDigits.length > 0 && (
+          <div
+            className="flex items-center gap-1.5 md:gap-2 pl-2 md:pl-4 border-l border-[#00ff8822]"
+            title={`χ² ${drawStats.chiSquare.statistic.toFixed(2)} (df ${drawStats.chiSquare.degreesOfFreedom}) over ${drawStats.totalDraws} draws - ${
+              drawStats.chiSquare.consistentWithUniform ? 'consistent with' : 'deviates from'
+            } a uniform draw`}
+          >
+            <span className="text-[#ff8844] text-[10px] md:text-xs tracking-widest font-rajdhani font-semibold">HOT</span>
+            {hotDigits.map(d => (
+              <div
+                key={`hot-${d.digit}`}
+                className="rounded-full flex items-center justify-center text-white font-bold font-orbitron relative shrink-0"
+                style={{ width: 22 + (numberDigits - 1) * 7, height: 22, fontSize: 11, background: numberColor(d.digit) }}
+                title={`${formatNumber(d.digit, gameType)}: ${d.count} wins (${(d.frequency * 100).toFixed(1)}%)`}
+              >
+                {formatNumber(d.digit, gameType)}
+                <span className="absolute -bottom-1.5 -right-1.5 bg-black/80 text-[#ff8844] text-[7px] font-rajdhani leading-none px-0.5 rounded">
+                  {d.count}
+                </span>
+              </div>
+            ))}
+            <span className="text-[#44aaff] text-[10px] md:text-xs tracking-widest font-rajdhani font-semibold ml-1">COLD</span>
+            {coldDigits.map(d => (
+              <div
+                key={`cold-${d.digit}`}
+                className="rounded-full flex items-center justify-center text-white font-bold font-orbitron relative shrink-0 opacity-70"
+                style={{ width: 22 + (numberDigits - 1) * 7, height: 22, fontSize: 11, background: numberColor(d.digit) }}
+                title={d.lastSeenRound !== null ? `${formatNumber(d.digit, gameType)}: last won round #${d.lastSeenRound}` : `${formatNumber(d.digit, gameType)}: never won`}
+              >
+                {formatNumber(d.digit, gameType)}
+                <span className="absolute -bottom-1.5 -right-1.5 bg-black/80 text-[#44aaff] text-[7px] font-rajdhani leading-none px-0.5 rounded">
+                  {d.roundsSinceSeen ?? '-'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Main Content */}
@@ -595,8 +995,18 @@ export function Home() {
           ) : round ? (
             <>
               <div className="text-gray-500 text-sm tracking-[3px] mb-1 font-rajdhani">
-                ROUND #{round.roundNumber} • {round.status.toUpperCase()} • POOL: {round.totalPool} {config.tokenSymbol}
+                ROUND #{round.roundNumber} • {round.status.toUpperCase()} • POOL: {round.totalPool} {tokenSymbol}
               </div>
+              {round.jackpot > 0 && (
+                <div
+                  className="inline-block mb-1 px-3 py-0.5 rounded-full text-xs font-bold font-orbitron tracking-widest text-[#ffd700]"
+                  style={{ background: '#ffd70015', border: '1px solid #ffd70055', textShadow: '0 0 10px #ffd70066' }}
+                  title={round.jackpotSourceRound !== null ? `Unwon pool rolled over from round #${round.jackpotSourceRound}` : undefined}
+                >
+                  JACKPOT {round.jackpot} {tokenSymbol}
+                  {round.jackpotSourceRound !== null && ` • FROM #${round.jackpotSourceRound}`}
+                </div>
+              )}
               {isRoundOpen && timeRemaining !== null && !isWaitingForDraw && !isSpinning && (
                 <div className="text-5xl font-extrabold text-[#00ff88] drop-shadow-[0_0_40px_#00ff8866]">
                   {formatTime(timeRemaining)}
@@ -638,13 +1048,13 @@ export function Home() {
               style={{ border: `1px solid ${showResult ? displayColor + '22' : '#00ff8822'}` }}
             />
             <span
-              className="text-[70px] md:text-[90px] font-black font-orbitron"
+              className={`${displayDigits === 1 ? 'text-[70px] md:text-[90px]' : displayDigits === 2 ? 'text-[52px] md:text-[64px]' : 'text-[38px] md:text-[46px]'} font-black font-orbitron`}
               style={{
                 color: showResult ? displayColor : '#00ff88',
                 textShadow: `0 0 40px ${showResult ? displayColor : '#00ff88'}`
               }}
             >
-              {displayDigit !== null ? displayDigit : '?'}
+              {displayDigit !== null ? formatNumber(displayDigit, displayGameType) : '?'}
             </span>
           </div>
           {showResult && (
@@ -672,7 +1082,10 @@ export function Home() {
         {/* Betting Area */}
         <div className="bg-linear-to-br from-[#0f0f1a] to-[#1a1a2e] border border-white/5 rounded-2xl p-3 md:p-5 mb-2">
           <div className="flex justify-between items-center mb-4">
-            <span className="text-gray-500 text-sm tracking-widest font-rajdhani">PLACE YOUR BETS</span>
+            <span className="text-gray-500 text-sm tracking-widest font-rajdhani">
+              PLACE YOUR BETS{numberDigits > 1 && ` • ${gameLabel}`}
+              {fixedOddsMultiplier !== null && ` • PAYS ${fixedOddsMultiplier}x`}
+            </span>
             {currentBet > 0 && (
               <button
                 onClick={handleClearAll}
@@ -683,46 +1096,223 @@ export function Home() {
             )}
           </div>
 
-          {/* Mobile: 2 rows of 5 digits, Desktop: single row of 10 */}
-          <div className="grid grid-cols-5 md:grid-cols-10 gap-2 md:gap-2 mb-4">
-            {[0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map(digit => {
-              const betVal = bets[digit];
-              const hasBet = parseInt(betVal, 10) > 0;
-              return (
-                <div key={digit}>
-                  <div
-                    className="flex flex-col items-center rounded-2xl md:rounded-3xl py-2 md:py-2 px-1 md:px-1 pb-2 cursor-pointer"
-                    onClick={() => inputRefs.current[digit]?.focus()}
-                    style={{
-                      background: hasBet ? `${DIGIT_COLORS[digit]}22` : '#15151f',
-                      border: `2px solid ${hasBet ? DIGIT_COLORS[digit] : '#222'}`
-                    }}
-                  >
+          {/* Pick-1 - mobile: 2 rows of 5 digits, desktop: single row of 10 */}
+          {numberDigits === 1 ? (
+            <div className="grid grid-cols-5 md:grid-cols-10 gap-2 md:gap-2 mb-4">
+              {[0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map(digit => {
+                const betVal = bets[digit];
+                const hasBet = parseInt(betVal, 10) > 0;
+                return (
+                  <div key={digit}>
                     <div
-                      className="w-9 h-9 md:w-10 md:h-10 rounded-full flex items-center justify-center text-white font-bold text-base md:text-lg font-orbitron mb-1.5"
+                      className="flex flex-col items-center rounded-2xl md:rounded-3xl py-2 md:py-2 px-1 md:px-1 pb-2 cursor-pointer"
+                      onClick={() => inputRefs.current[digit]?.focus()}
                       style={{
-                        background: DIGIT_COLORS[digit],
-                        boxShadow: `0 4px 12px ${DIGIT_COLORS[digit]}44`
+                        background: hasBet ? `${numberColor(digit)}22` : '#15151f',
+                        border: `2px solid ${hasBet ? numberColor(digit) : '#222'}`
                       }}
                     >
-                      {digit}
+                      <div
+                        className="w-9 h-9 md:w-10 md:h-10 rounded-full flex items-center justify-center text-white font-bold text-base md:text-lg font-orbitron mb-1.5"
+                        style={{
+                          background: numberColor(digit),
+                          boxShadow: `0 4px 12px ${numberColor(digit)}44`
+                        }}
+                      >
+                        {digit}
+                      </div>
+                      <input
+                        ref={el => { inputRefs.current[digit] = el; }}
+                        type="text"
+                        inputMode="numeric"
+                        pattern="[0-9]*"
+                        value={betVal ?? ''}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) => handleInputChange(digit, e.target.value)}
+                        placeholder="0"
+                        disabled={!isRoundOpen}
+                        className="w-full py-2 md:py-1.5 px-1 bg-transparent border-0 border-t border-[#333] text-sm md:text-sm font-bold text-center outline-none font-rajdhani placeholder:text-gray-700"
+                        style={{ color: hasBet ? numberColor(digit) : '#666' }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="mb-4">
+              {/* Multi-digit games: pick a number and an amount, then add it to the bet slip */}
+              <div className="flex items-stretch gap-2">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  value={pickNumber}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                    if (new RegExp(`^\\d{0,${numberDigits}}$`).test(e.target.value)) setPickNumber(e.target.value);
+                  }}
+                  placeholder={'0'.repeat(numberDigits)}
+                  disabled={!isRoundOpen}
+                  className="w-20 md:w-24 py-2 px-2 bg-[#15151f] border-2 border-[#222] rounded-xl text-lg font-bold text-center outline-none font-orbitron tracking-[4px] text-white placeholder:text-gray-700 focus:border-[#00ff8866]"
+                />
+                <button
+                  onClick={handleRandomPick}
+                  disabled={!isRoundOpen}
+                  title="Random number"
+                  className="px-3 bg-white/5 border border-white/10 rounded-xl text-gray-400 hover:bg-white/10 hover:text-white transition-all"
+                >
+                  <Dices size={16} />
+                </button>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  value={pickAmount}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                    if (/^\d{0,5}$/.test(e.target.value)) setPickAmount(e.target.value);
+                  }}
+                  placeholder={`Amount (${tokenSymbol})`}
+                  disabled={!isRoundOpen}
+                  className="flex-1 min-w-0 py-2 px-3 bg-[#15151f] border-2 border-[#222] rounded-xl text-sm font-bold outline-none font-rajdhani text-white placeholder:text-gray-700 focus:border-[#00ff8866]"
+                />
+                <button
+                  onClick={handleAddPick}
+                  disabled={!canAddPick}
+                  className={`px-4 rounded-xl text-xs font-bold font-orbitron tracking-widest ${
+                    canAddPick
+                      ? 'bg-[#00ff88]/15 border border-[#00ff88]/50 text-[#00ff88] cursor-pointer hover:bg-[#00ff88]/25'
+                      : 'bg-[#222] border border-[#333] text-gray-600 cursor-not-allowed'
+                  }`}
+                >
+                  ADD
+                </button>
+              </div>
+              {slipNumbers.length > 0 ? (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {slipNumbers.map(digit => (
+                    <div
+                      key={digit}
+                      className="flex items-center gap-2 pl-1 pr-2 py-1 rounded-full"
+                      style={{ background: `${numberColor(digit)}22`, border: `1px solid ${numberColor(digit)}66` }}
+                    >
+                      <div
+                        className="min-w-7 h-7 px-1 rounded-full flex items-center justify-center text-white font-bold text-xs font-orbitron"
+                        style={{ background: numberColor(digit) }}
+                      >
+                        {formatNumber(digit, gameType)}
+                      </div>
+                      <span className="text-sm font-semibold font-rajdhani" style={{ color: numberColor(digit) }}>
+                        {bets[digit]}
+                      </span>
+                      <button
+                        onClick={() => handleRemovePick(digit)}
+                        className="text-gray-500 hover:text-[#ff6b6b] transition-colors"
+                        title="Remove"
+                      >
+                        <X size={12} />
+                      </button>
                     </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-gray-600 text-xs text-center mt-3 font-rajdhani">
+                  Pick a {numberDigits}-digit number ({formatNumber(0, gameType)}-{formatNumber(numberRange - 1, gameType)}) and add it to your slip
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Group bets - odd/even/low/high presets and custom sets, settled in their own pool */}
+          <div className="mb-4">
+            <div className="text-gray-600 text-xs tracking-widest font-rajdhani mb-2">GROUP BETS</div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {PRESET_GROUP_BETS.map(key => {
+                const betVal = groupBets[key];
+                const hasBet = parseInt(betVal, 10) > 0;
+                return (
+                  <div
+                    key={key}
+                    className="flex items-center gap-2 rounded-xl pl-3 pr-1 py-1"
+                    style={{
+                      background: hasBet ? `${GROUP_BET_COLOR}22` : '#15151f',
+                      border: `2px solid ${hasBet ? GROUP_BET_COLOR : '#222'}`
+                    }}
+                  >
+                    <span className="flex-1 text-xs font-bold font-orbitron tracking-wide" style={{ color: hasBet ? GROUP_BET_COLOR : '#888' }}>
+                      {groupBetLabel(key, gameType)}
+                    </span>
                     <input
-                      ref={el => { inputRefs.current[digit] = el; }}
                       type="text"
                       inputMode="numeric"
                       pattern="[0-9]*"
-                      value={betVal}
-                      onChange={(e: ChangeEvent<HTMLInputElement>) => handleInputChange(digit, e.target.value)}
+                      value={betVal ?? ''}
+                      onChange={(e: ChangeEvent<HTMLInputElement>) => handleGroupInputChange(key, e.target.value)}
                       placeholder="0"
                       disabled={!isRoundOpen}
-                      className="w-full py-2 md:py-1.5 px-1 bg-transparent border-0 border-t border-[#333] text-sm md:text-sm font-bold text-center outline-none font-rajdhani placeholder:text-gray-700"
-                      style={{ color: hasBet ? DIGIT_COLORS[digit] : '#666' }}
+                      className="w-14 py-1.5 px-1 bg-transparent border-0 border-l border-[#333] text-sm font-bold text-center outline-none font-rajdhani placeholder:text-gray-700"
+                      style={{ color: hasBet ? GROUP_BET_COLOR : '#666' }}
                     />
                   </div>
-                </div>
-              );
-            })}
+                );
+              })}
+            </div>
+            <div className="flex items-stretch gap-2 mt-2">
+              <input
+                type="text"
+                value={setInput}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                  if (/^[\d,\s]*$/.test(e.target.value)) setSetInput(e.target.value);
+                }}
+                placeholder={`Custom set, e.g. ${[1, 2, 3].map(n => formatNumber(n, gameType)).join(', ')}`}
+                disabled={!isRoundOpen}
+                className="flex-1 min-w-0 py-2 px-3 bg-[#15151f] border-2 border-[#222] rounded-xl text-sm font-bold outline-none font-rajdhani text-white placeholder:text-gray-700 focus:border-[#a78bfa66]"
+              />
+              <input
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                value={setAmount}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                  if (/^\d{0,5}$/.test(e.target.value)) setSetAmount(e.target.value);
+                }}
+                placeholder={tokenSymbol}
+                disabled={!isRoundOpen}
+                className="w-20 py-2 px-3 bg-[#15151f] border-2 border-[#222] rounded-xl text-sm font-bold outline-none font-rajdhani text-white placeholder:text-gray-700 focus:border-[#a78bfa66]"
+              />
+              <button
+                onClick={handleAddSet}
+                disabled={!canAddSet}
+                className={`px-4 rounded-xl text-xs font-bold font-orbitron tracking-widest ${
+                  canAddSet
+                    ? 'bg-[#a78bfa]/15 border border-[#a78bfa]/50 text-[#a78bfa] cursor-pointer hover:bg-[#a78bfa]/25'
+                    : 'bg-[#222] border border-[#333] text-gray-600 cursor-not-allowed'
+                }`}
+              >
+                ADD
+              </button>
+            </div>
+            {slipSets.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {slipSets.map(key => (
+                  <div
+                    key={key}
+                    className="flex items-center gap-2 pl-3 pr-2 py-1 rounded-full"
+                    style={{ background: `${GROUP_BET_COLOR}22`, border: `1px solid ${GROUP_BET_COLOR}66` }}
+                  >
+                    <span className="text-xs font-bold font-orbitron" style={{ color: GROUP_BET_COLOR }}>
+                      {betItemLabel(groupKeyToItem(key, 0), gameType)}
+                    </span>
+                    <span className="text-sm font-semibold font-rajdhani text-white">{groupBets[key]}</span>
+                    <button
+                      onClick={() => handleRemoveGroup(key)}
+                      className="text-gray-500 hover:text-[#ff6b6b] transition-colors"
+                      title="Remove"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           <div className="flex items-center justify-center">
@@ -738,7 +1328,7 @@ export function Home() {
               {placeBetMutation.isPending
                 ? 'SENDING...'
                 : currentBet > 0
-                  ? `BET ${currentBet} ${config.tokenSymbol}`
+                  ? `BET ${currentBet} ${tokenSymbol}`
                   : 'PLACE BET'
               }
             </button>
@@ -758,14 +1348,14 @@ export function Home() {
                   textShadow: totalMyBets > 0 ? '0 0 10px #ffd70044' : 'none'
                 }}
               >
-                {totalMyBets} <span className="text-xs text-gray-400">{config.tokenSymbol}</span>
+                {totalMyBets} <span className="text-xs text-gray-400">{tokenSymbol}</span>
               </span>
             </div>
           </div>
 
           {totalMyBets > 0 ? (
             <div className="grid grid-cols-5 md:grid-cols-10 gap-2">
-              {[0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map(digit => {
+              {myBetNumbers.map(digit => {
                 const total = myBetsAggregated[digit] || 0;
                 return (
                   <div
@@ -774,19 +1364,19 @@ export function Home() {
                     style={{ opacity: total > 0 ? 1 : 0.3 }}
                   >
                     <div
-                      className="w-9 h-9 md:w-8 md:h-8 mx-auto mb-1 rounded-full flex items-center justify-center font-bold text-sm md:text-[13px] font-orbitron"
+                      className="min-w-9 h-9 md:min-w-8 md:h-8 px-1 w-fit mx-auto mb-1 rounded-full flex items-center justify-center font-bold text-sm md:text-[13px] font-orbitron"
                       style={{
-                        background: total > 0 ? DIGIT_COLORS[digit] : '#1a1a2e',
+                        background: total > 0 ? numberColor(digit) : '#1a1a2e',
                         color: total > 0 ? '#fff' : '#444',
-                        boxShadow: total > 0 ? `0 0 10px ${DIGIT_COLORS[digit]}66` : 'none',
+                        boxShadow: total > 0 ? `0 0 10px ${numberColor(digit)}66` : 'none',
                         border: total > 0 ? 'none' : '1px solid #333'
                       }}
                     >
-                      {digit}
+                      {formatNumber(digit, gameType)}
                     </div>
                     <div
                       className="text-sm md:text-xs font-bold font-rajdhani"
-                      style={{ color: total > 0 ? DIGIT_COLORS[digit] : '#333' }}
+                      style={{ color: total > 0 ? numberColor(digit) : '#333' }}
                     >
                       {total > 0 ? total : '-'}
                     </div>
@@ -794,7 +1384,55 @@ export function Home() {
                 );
               })}
             </div>
-          ) : nametagStatus === 'valid' ? (
+          ) : null}
+
+          {myGroupBets.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {myGroupBets.map((b, i) => (
+                <div
+                  key={i}
+                  className="flex items-center gap-2 px-3 py-1 rounded-full"
+                  style={{ background: `${GROUP_BET_COLOR}22`, border: `1px solid ${GROUP_BET_COLOR}66` }}
+                >
+                  <span className="text-xs font-bold font-orbitron" style={{ color: GROUP_BET_COLOR }}>
+                    {betItemLabel(b, gameType)}
+                  </span>
+                  <span className="text-sm font-semibold font-rajdhani text-white">{b.amount}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {activeSubscriptions.length > 0 && (
+            <div className="flex flex-col gap-2 mt-3">
+              {activeSubscriptions.map(s => (
+                <div
+                  key={s._id}
+                  className="flex items-center justify-between gap-2 px-3 py-1.5 rounded-xl bg-[#00ff88]/5 border border-[#00ff88]/20"
+                >
+                  <span className="text-xs font-bold font-orbitron text-[#00ff88]">AUTO</span>
+                  <span className="flex-1 text-sm font-rajdhani text-gray-300 truncate">
+                    {s.bets.map(b => `${betItemLabel(b, gameType)}:${b.amount}`).join(' ')}
+                  </span>
+                  <span className="text-xs font-rajdhani text-gray-500">
+                    {s.roundsPlaced}/{s.rounds}
+                  </span>
+                  {canCancelSubscription(s._id) && (
+                    <button
+                      onClick={() => handleCancelSubscription(s._id)}
+                      disabled={cancelSubscriptionMutation.isPending}
+                      className="text-[10px] font-bold font-orbitron tracking-widest text-gray-500 hover:text-[#ff6b6b] transition-colors"
+                      title="Stop and refund unplaced rounds"
+                    >
+                      STOP
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {totalMyBets > 0 || activeSubscriptions.length > 0 ? null : nametagStatus === 'valid' ? (
             <div className="text-gray-600 text-sm text-center py-3 font-rajdhani">
               No bets placed yet
             </div>
@@ -832,7 +1470,18 @@ export function Home() {
           )}
         </div>
         <div className="text-gray-600 text-[10px] sm:text-xs md:text-sm font-rajdhani shrink-0 ml-2">
-          <span className="text-[#ffd700]">{config.tokenName}</span> <span className="hidden sm:inline">• 18+</span>
+          {isPlayMode ? (
+            <button
+              onClick={() => userNametag && topUpMutation.mutate(userNametag)}
+              title="Play money - click to top up a low balance"
+              className="text-[#00ff88] hover:text-white transition-colors"
+            >
+              PLAY MONEY{playBalance ? ` ${playBalance.balance}` : ''}
+            </button>
+          ) : (
+            <span className="text-[#ffd700]">{config.tokenName}</span>
+          )}{' '}
+          <span className="hidden sm:inline">• 18+</span>
         </div>
       </footer>
 
@@ -1071,54 +1720,69 @@ export function Home() {
               ) : (
                 <div className="space-y-2">
                   {allHistoryRounds.map((r, index) => (
-                    <div
-                      key={r._id}
-                      className="flex items-center gap-4 px-4 py-3 rounded-xl relative group"
-                      style={{
-                        background: index === 0 ? 'linear-gradient(135deg, #00ff8808 0%, transparent 100%)' : 'rgba(255,255,255,0.02)',
-                        border: index === 0 ? '1px solid #00ff8833' : '1px solid transparent'
-                      }}
-                    >
-                      {/* Round number */}
-                      <div className="flex flex-col items-center w-12 shrink-0">
-                        <span className="text-[10px] text-gray-600 font-rajdhani uppercase tracking-wider">Round</span>
-                        <span className="text-base text-gray-400 font-orbitron font-bold">
-                          {r.roundNumber}
-                        </span>
-                      </div>
+                    <div key={r._id}>
+                      <div
+                        className="flex items-center gap-4 px-4 py-3 rounded-xl relative group"
+                        style={{
+                          background: index === 0 ? 'linear-gradient(135deg, #00ff8808 0%, transparent 100%)' : 'rgba(255,255,255,0.02)',
+                          border: index === 0 ? '1px solid #00ff8833' : '1px solid transparent'
+                        }}
+                      >
+                        {/* Round number */}
+                        <div className="flex flex-col items-center w-12 shrink-0">
+                          <span className="text-[10px] text-gray-600 font-rajdhani uppercase tracking-wider">Round</span>
+                          <span className="text-base text-gray-400 font-orbitron font-bold">
+                            {r.roundNumber}
+                          </span>
+                        </div>
 
-                      {/* Divider */}
-                      <div className="w-px h-8 bg-gradient-to-b from-transparent via-gray-700 to-transparent" />
+                        {/* Divider */}
+                        <div className="w-px h-8 bg-gradient-to-b from-transparent via-gray-700 to-transparent" />
+
+                        {/* Winning digit - larger and more prominent */}
+                        <div className="flex flex-col items-center">
+                          <span className="text-[10px] text-gray-600 font-rajdhani uppercase tracking-wider mb-1">Winner</span>
+                          {r.winningDigit !== null ? (
+                            <div
+                              className="min-w-10 h-10 px-1.5 rounded-full flex items-center justify-center text-white font-bold text-lg font-orbitron"
+                              style={{
+                                background: `linear-gradient(135deg, ${numberColor(r.winningDigit)} 0%, ${numberColor(r.winningDigit)}cc 100%)`,
+                                boxShadow: `0 0 20px ${numberColor(r.winningDigit)}66, inset 0 1px 0 rgba(255,255,255,0.3)`
+                              }}
+                            >
+                              {formatNumber(r.winningDigit, r.gameType)}
+                            </div>
+                          ) : (
+                            <div className="w-10 h-10 rounded-full bg-gray-800 flex items-center justify-center text-gray-500 font-bold text-lg font-orbitron border border-gray-700">?</div>
+                          )}
+                        </div>
 
-                      {/* Winning digit - larger and more prominent */}
-                      <div className="flex flex-col items-center">
-                        <span className="text-[10px] text-gray-600 font-rajdhani uppercase tracking-wider mb-1">Winner</span>
-                        {r.winningDigit !== null ? (
-                          <div
-                            className="w-10 h-10 rounded-full flex items-center justify-center text-white font-bold text-lg font-orbitron"
-                            style={{
-                              background: `linear-gradient(135deg, ${DIGIT_COLORS[r.winningDigit]} 0%, ${DIGIT_COLORS[r.winningDigit]}cc 100%)`,
-                              boxShadow: `0 0 20px ${DIGIT_COLORS[r.winningDigit]}66, inset 0 1px 0 rgba(255,255,255,0.3)`
-                            }}
-                          >
-                            {r.winningDigit}
-                          </div>
-                        ) : (
-                          <div className="w-10 h-10 rounded-full bg-gray-800 flex items-center justify-center text-gray-500 font-bold text-lg font-orbitron border border-gray-700">?</div>
-                        )}
-                      </div>
+                        {/* Spacer */}
+                        <div className="flex-1" />
 
-                      {/* Spacer */}
-                      <div className="flex-1" />
+                        {/* Pool */}
+                        <div className="text-right">
+                          <span className="text-[10px] text-gray-600 font-rajdhani uppercase tracking-wider block">Prize Pool</span>
+                          <span className="text-lg font-orbitron font-bold text-[#00ff88]" style={{ textShadow: '0 0 10px #00ff8844' }}>
+                            {r.totalPool}
+                          </span>
+                          <span className="text-xs text-gray-500 font-rajdhani ml-1">{r.coin ?? tokenSymbol}</span>
+                        </div>
 
-                      {/* Pool */}
-                      <div className="text-right">
-                        <span className="text-[10px] text-gray-600 font-rajdhani uppercase tracking-wider block">Prize Pool</span>
-                        <span className="text-lg font-orbitron font-bold text-[#00ff88]" style={{ textShadow: '0 0 10px #00ff8844' }}>
-                          {r.totalPool}
-                        </span>
-                        <span className="text-xs text-gray-500 font-rajdhani ml-1">{config.tokenSymbol}</span>
+                        {/* Verify toggle */}
+                        <button
+                          onClick={() => setVerifyRoundId(verifyRoundId === r._id ? null : r._id)}
+                          className={`w-8 h-8 flex items-center justify-center rounded-lg border transition-colors ${
+                            verifyRoundId === r._id
+                              ? 'text-[#00ff88] border-[#00ff8866] bg-[#00ff8811]'
+                              : 'text-gray-500 border-white/10 hover:text-white hover:border-white/20'
+                          }`}
+                          title="Verify this draw"
+                        >
+                          <ShieldCheck size={16} />
+                        </button>
                       </div>
+                      {verifyRoundId === r._id && <RoundVerifier roundId={r._id} />}
                     </div>
                   ))}
                 </div>
@@ -1188,8 +1852,8 @@ export function Home() {
                 <div className="space-y-2">
                   {userBetsHistory.map((bet, index) => {
                     const roundInfo = typeof bet.roundId === 'object' && bet.roundId !== null
-                      ? { roundNumber: (bet.roundId as Round).roundNumber, winningDigit: (bet.roundId as Round).winningDigit }
-                      : { roundNumber: bet.roundNumber, winningDigit: null };
+                      ? { roundNumber: (bet.roundId as Round).roundNumber, winningDigit: (bet.roundId as Round).winningDigit, gameType: (bet.roundId as Round).gameType }
+                      : { roundNumber: bet.roundNumber, winningDigit: null, gameType: undefined };
                     const isWinner = bet.won === true;
                     const isLoser = bet.won === false;
 
@@ -1231,18 +1895,19 @@ export function Home() {
                         {/* Bet digits */}
                         <div className="flex gap-1">
                           {bet.bets.map((b, i) => {
-                            const isWinningDigit = roundInfo.winningDigit === b.digit;
+                            const isWinningDigit = betCovers(b, roundInfo.winningDigit);
+                            const color = betItemColor(b);
                             return (
                               <div
                                 key={i}
-                                className="w-8 h-8 rounded-full flex items-center justify-center text-white font-bold text-xs font-orbitron"
+                                className="min-w-8 h-8 px-1 rounded-full flex items-center justify-center text-white font-bold text-xs font-orbitron"
                                 style={{
-                                  background: `linear-gradient(135deg, ${DIGIT_COLORS[b.digit]} 0%, ${DIGIT_COLORS[b.digit]}cc 100%)`,
+                                  background: `linear-gradient(135deg, ${color} 0%, ${color}cc 100%)`,
                                   opacity: isWinner ? (isWinningDigit ? 1 : 0.3) : 0.85,
-                                  boxShadow: isWinningDigit ? `0 0 12px ${DIGIT_COLORS[b.digit]}66, inset 0 1px 0 rgba(255,255,255,0.3)` : 'inset 0 1px 0 rgba(255,255,255,0.2)'
+                                  boxShadow: isWinningDigit ? `0 0 12px ${color}66, inset 0 1px 0 rgba(255,255,255,0.3)` : 'inset 0 1px 0 rgba(255,255,255,0.2)'
                                 }}
                               >
-                                {b.digit}
+                                {betItemLabel(b, roundInfo.gameType)}
                               </div>
                             );
                           })}
@@ -1256,12 +1921,12 @@ export function Home() {
                           {isWinner ? (
                             <span className="text-lg font-orbitron font-bold text-[#00ff88]" style={{ textShadow: '0 0 10px #00ff8844' }}>
                               +{bet.winnings}
-                              <span className="text-xs text-gray-500 font-rajdhani ml-1">{config.tokenSymbol}</span>
+                              <span className="text-xs text-gray-500 font-rajdhani ml-1">{bet.coin ?? tokenSymbol}</span>
                             </span>
                           ) : (
                             <span className="text-lg font-orbitron font-bold text-gray-400">
                               {bet.totalAmount}
-                              <span className="text-xs text-gray-500 font-rajdhani ml-1">{config.tokenSymbol}</span>
+                              <span className="text-xs text-gray-500 font-rajdhani ml-1">{bet.coin ?? tokenSymbol}</span>
                             </span>
                           )}
                         </div>
@@ -1356,11 +2021,14 @@ export function Home() {
                   <h3 className="text-base font-bold text-white font-rajdhani">Place Your Bets</h3>
                 </div>
                 <p className="text-sm text-gray-400 font-rajdhani ml-11">
-                  Choose any digit from 0-9 and enter your bet amount. You can bet on multiple digits in a single round.
+                  {numberDigits === 1
+                    ? 'Choose any digit from 0-9 and enter your bet amount. You can bet on multiple digits in a single round.'
+                    : `This round is ${gameLabel}: choose any number from ${formatNumber(0, gameType)} to ${formatNumber(numberRange - 1, gameType)}, enter your bet amount and add it to your slip. You can bet on multiple numbers in a single round.`}
+                  {' '}Group bets (odd, even, low, high or a custom set) cover several numbers and share their own pool, so narrower groups pay more.
                 </p>
                 <div className="ml-11 mt-2 flex gap-1.5">
                   {[0,1,2,3,4,5,6,7,8,9].map(d => (
-                    <div key={d} className="w-7 h-7 rounded-full flex items-center justify-center text-white text-sm font-bold font-orbitron" style={{ background: DIGIT_COLORS[d] }}>{d}</div>
+                    <div key={d} className="w-7 h-7 rounded-full flex items-center justify-center text-white text-sm font-bold font-orbitron" style={{ background: numberColor(d) }}>{d}</div>
                   ))}
                 </div>
               </div>
@@ -1394,7 +2062,9 @@ export function Home() {
                   <h3 className="text-base font-bold text-white font-rajdhani">Collect Winnings</h3>
                 </div>
                 <p className="text-sm text-gray-400 font-rajdhani ml-11">
-                  If your digit wins, you share the pool with other winners! Winnings are sent automatically to your wallet.
+                  {fixedOddsMultiplier !== null
+                    ? `This round runs at fixed odds: if your number wins, you get ${fixedOddsMultiplier}x your bet on it. Winnings are sent automatically to your wallet.`
+                    : 'If your digit wins, you share the pool with other winners! Winnings are sent automatically to your wallet.'}
                 </p>
               </div>
 
@@ -1415,7 +2085,7 @@ export function Home() {
                   The more you bet on the winning digit, the larger your share of the pot!
                 </p>
                 <div className="mt-4 flex items-center gap-3 text-sm font-rajdhani flex-wrap">
-                  <span className="text-[#ffd700] font-semibold">100 {config.tokenSymbol} pool</span>
+                  <span className="text-[#ffd700] font-semibold">100 {tokenSymbol} pool</span>
                   <span className="text-gray-600">→</span>
                   <span className="text-white">Your bet: 10</span>
                   <span className="text-gray-600">→</span>
@@ -1487,7 +2157,11 @@ export function Home() {
                       CONFIRM BET
                     </h2>
                     <p className="text-xs text-gray-500 font-rajdhani mt-1">
-                      Round #{round?.roundNumber}
+                      {isBookingAhead
+                        ? `Booked for round #${bookedRoundNumber}`
+                        : pendingRounds > 1
+                          ? `${pendingRounds} rounds from #${round?.roundNumber}`
+                          : `Round #${round?.roundNumber}`}
                     </p>
                   </div>
 
@@ -1499,17 +2173,17 @@ export function Home() {
                           key={i}
                           className="flex items-center gap-2 px-3 py-1.5 rounded-full"
                           style={{
-                            background: `${DIGIT_COLORS[item.digit]}22`,
-                            border: `1px solid ${DIGIT_COLORS[item.digit]}66`
+                            background: `${betItemColor(item)}22`,
+                            border: `1px solid ${betItemColor(item)}66`
                           }}
                         >
                           <div
-                            className="w-6 h-6 rounded-full flex items-center justify-center text-white font-bold text-xs font-orbitron"
-                            style={{ background: DIGIT_COLORS[item.digit] }}
+                            className="min-w-6 h-6 px-1 rounded-full flex items-center justify-center text-white font-bold text-xs font-orbitron"
+                            style={{ background: betItemColor(item) }}
                           >
-                            {item.digit}
+                            {betItemLabel(item, gameType)}
                           </div>
-                          <span className="text-sm font-semibold font-rajdhani" style={{ color: DIGIT_COLORS[item.digit] }}>
+                          <span className="text-sm font-semibold font-rajdhani" style={{ color: betItemColor(item) }}>
                             {item.amount}
                           </span>
                         </div>
@@ -1524,12 +2198,70 @@ export function Home() {
                         border: '1px solid #ffd70033'
                       }}
                     >
-                      <span className="text-gray-400 text-sm font-rajdhani">Total: </span>
+                      <span className="text-gray-400 text-sm font-rajdhani">
+                        {pendingRounds > 1 ? `Total for ${pendingRounds} rounds: ` : 'Total: '}
+                      </span>
                       <span className="text-2xl font-bold font-orbitron text-[#ffd700]" style={{ textShadow: '0 0 20px #ffd70044' }}>
-                        {pendingBetItems.reduce((sum, item) => sum + item.amount, 0)}
+                        {pendingTotal}
                       </span>
-                      <span className="text-sm text-gray-400 font-rajdhani ml-1">{config.tokenSymbol}</span>
+                      <span className="text-sm text-gray-400 font-rajdhani ml-1">{tokenSymbol}</span>
                     </div>
+
+                    {/* Pre-booking - hold the bet for a future round */}
+                    <div className="mt-4">
+                      <label className="block text-[10px] text-gray-500 font-rajdhani tracking-widest mb-1.5">
+                        PLAY IN ROUND #
+                      </label>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={bookRound}
+                        placeholder={round ? String(round.roundNumber) : ''}
+                        onChange={(e) => handleBookRoundChange(e.target.value)}
+                        className="w-full bg-[#0a0a0f] rounded-lg px-3 py-2 text-xs font-mono text-gray-300 border border-[#222] outline-none focus:border-[#00ff8866] placeholder:text-gray-700"
+                      />
+                      <p className="text-[10px] text-gray-600 font-rajdhani mt-1">
+                        Book a later round if you can't be online - the bet joins when that round opens.
+                      </p>
+                    </div>
+
+                    {/* Auto-bet - the same bets in each of the next rounds, paid once */}
+                    {!isBookingAhead && (
+                      <div className="mt-4">
+                        <label className="block text-[10px] text-gray-500 font-rajdhani tracking-widest mb-1.5">
+                          REPEAT FOR ROUNDS
+                        </label>
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          value={repeatRounds}
+                          onChange={(e) => handleRepeatRoundsChange(e.target.value)}
+                          className="w-full bg-[#0a0a0f] rounded-lg px-3 py-2 text-xs font-mono text-gray-300 border border-[#222] outline-none focus:border-[#00ff8866]"
+                        />
+                        <p className="text-[10px] text-gray-600 font-rajdhani mt-1">
+                          Placed automatically as each round opens. Stop anytime to get unplaced rounds refunded.
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Client seed - player entropy mixed into the draw */}
+                    {pendingRounds === 1 && (
+                      <div className="mt-4">
+                        <label className="block text-[10px] text-gray-500 font-rajdhani tracking-widest mb-1.5">
+                          CLIENT SEED (OPTIONAL)
+                        </label>
+                        <input
+                          type="text"
+                          value={clientSeed}
+                          maxLength={MAX_CLIENT_SEED_LENGTH}
+                          onChange={(e) => setClientSeed(e.target.value)}
+                          className="w-full bg-[#0a0a0f] rounded-lg px-3 py-2 text-xs font-mono text-gray-300 border border-[#222] outline-none focus:border-[#00ff8866]"
+                        />
+                        <p className="text-[10px] text-gray-600 font-rajdhani mt-1">
+                          Mixed into the draw so the result can't be chosen by the house alone.
+                        </p>
+                      </div>
+                    )}
                   </div>
 
                   {/* Buttons */}
@@ -1591,9 +2323,9 @@ export function Home() {
                     <div className="mt-4 pt-4 border-t border-white/5">
                       <span className="text-gray-500 text-sm font-rajdhani">Amount: </span>
                       <span className="text-lg font-bold font-orbitron text-[#ffd700]">
-                        {pendingBetItems.reduce((sum, item) => sum + item.amount, 0)}
+                        {pendingTotal}
                       </span>
-                      <span className="text-sm text-gray-400 font-rajdhani ml-1">{config.tokenSymbol}</span>
+                      <span className="text-sm text-gray-400 font-rajdhani ml-1">{tokenSymbol}</span>
                     </div>
                   </div>
                 </>
@@ -1622,9 +2354,9 @@ export function Home() {
                     <div className="mt-4 pt-4 border-t border-white/5">
                       <span className="text-gray-500 text-sm font-rajdhani">Bet Amount: </span>
                       <span className="text-lg font-bold font-orbitron text-[#00ff88]">
-                        {pendingBetItems.reduce((sum, item) => sum + item.amount, 0)}
+                        {pendingTotal}
                       </span>
-                      <span className="text-sm text-gray-400 font-rajdhani ml-1">{config.tokenSymbol}</span>
+                      <span className="text-sm text-gray-400 font-rajdhani ml-1">{tokenSymbol}</span>
                     </div>
                   </div>
                 </>
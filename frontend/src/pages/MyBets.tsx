@@ -1,7 +1,8 @@
 import { Link, useParams } from 'react-router-dom';
 import { useUserBets } from '../api/hooks';
-import type { Bet, Round } from '../api/client';
+import type { Bet, GameType, Round } from '../api/client';
 import { config } from '../config';
+import { isGroupBet, betCovers, betItemLabel, GROUP_BET_COLOR } from '../utils/betType';
 
 const DIGIT_COLORS = [
   '#ff6b6b', '#ffd700', '#00ff88', '#4ecdc4', '#a855f7',
@@ -45,12 +46,14 @@ export function MyBets() {
   const { data: bets, isLoading } = useUserBets(nametag, 100);
 
   // Helper to get round info from populated roundId
-  const getRoundInfo = (bet: Bet): { roundNumber: number; winningDigit: number | null } | null => {
+  const getRoundInfo = (
+    bet: Bet
+  ): { roundNumber: number; winningDigit: number | null; gameType: GameType | null } | null => {
     if (typeof bet.roundId === 'object' && bet.roundId !== null) {
       const round = bet.roundId as Round;
-      return { roundNumber: round.roundNumber, winningDigit: round.winningDigit };
+      return { roundNumber: round.roundNumber, winningDigit: round.winningDigit, gameType: round.gameType };
     }
-    return bet.roundNumber ? { roundNumber: bet.roundNumber, winningDigit: null } : null;
+    return bet.roundNumber ? { roundNumber: bet.roundNumber, winningDigit: null, gameType: null } : null;
   };
 
   return (
@@ -137,12 +140,12 @@ export function MyBets() {
                     <div className="text-right">
                       <div className="text-sm">
                         <span className="text-gray-400">Bet:</span>{' '}
-                        <span className="text-[#ffd700] font-semibold">{bet.totalAmount} {config.tokenSymbol}</span>
+                        <span className="text-[#ffd700] font-semibold">{bet.totalAmount} {bet.coin ?? config.tokenSymbol}</span>
                       </div>
                       {isWinner && (
                         <div className="text-sm">
                           <span className="text-gray-400">Won:</span>{' '}
-                          <span className="text-green-400 font-bold">+{bet.winnings} {config.tokenSymbol}</span>
+                          <span className="text-green-400 font-bold">+{bet.winnings} {bet.coin ?? config.tokenSymbol}</span>
                         </div>
                       )}
                       {bet.paymentStatus === 'refunded' && bet.refundReason && (
@@ -156,7 +159,8 @@ export function MyBets() {
                   {/* Bet Digits */}
                   <div className="flex gap-2 flex-wrap">
                     {bet.bets.map((b, i) => {
-                      const isWinningDigit = roundInfo?.winningDigit === b.digit;
+                      const isWinningDigit = betCovers(b, roundInfo?.winningDigit);
+                      const color = isGroupBet(b) ? GROUP_BET_COLOR : DIGIT_COLORS[b.digit ?? 0];
                       return (
                         <div
                           key={i}
@@ -164,18 +168,18 @@ export function MyBets() {
                             isWinningDigit ? 'ring-2 ring-green-400' : ''
                           }`}
                           style={{
-                            background: `${DIGIT_COLORS[b.digit]}22`,
-                            border: `1px solid ${DIGIT_COLORS[b.digit]}66`
+                            background: `${color}22`,
+                            border: `1px solid ${color}66`
                           }}
                         >
                           <span
-                            className="w-6 h-6 rounded-full flex items-center justify-center text-white font-bold text-xs"
-                            style={{ background: DIGIT_COLORS[b.digit] }}
+                            className="min-w-6 h-6 px-1 rounded-full flex items-center justify-center text-white font-bold text-xs"
+                            style={{ background: color }}
                           >
-                            {b.digit}
+                            {isGroupBet(b) ? betItemLabel(b, roundInfo?.gameType) : b.digit}
                           </span>
-                          <span className="text-sm font-medium" style={{ color: DIGIT_COLORS[b.digit] }}>
-                            {b.amount} {config.tokenSymbol}
+                          <span className="text-sm font-medium" style={{ color }}>
+                            {b.amount} {bet.coin ?? config.tokenSymbol}
                           </span>
                           {isWinningDigit && (
                             <span className="text-green-400 text-xs font-bold">WIN</span>
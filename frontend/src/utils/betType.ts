@@ -0,0 +1,57 @@
+// Bet types mirror backend/src/utils/bet-type.ts.
+// Group bets cover several numbers; the server resolves odd/even/low/high against the round's range.
+import type { BetItem, BetType, GameType } from '../api/client';
+import { formatNumber, getGameType } from './gameType';
+
+export type PresetGroupBet = 'odd' | 'even' | 'low' | 'high';
+
+export const PRESET_GROUP_BETS: PresetGroupBet[] = ['odd', 'even', 'low', 'high'];
+
+// Group bets are not tied to a single number, so they share one accent color
+export const GROUP_BET_COLOR = '#a78bfa';
+
+export function isGroupBet(item: BetItem): boolean {
+  return !!item.betType && item.betType !== 'number';
+}
+
+export function coveredNumbers(item: BetItem): number[] {
+  return isGroupBet(item) ? (item.digits ?? []) : [item.digit ?? 0];
+}
+
+export function betCovers(item: BetItem, value: number | null | undefined): boolean {
+  return value !== null && value !== undefined && coveredNumbers(item).includes(value);
+}
+
+export function groupBetLabel(betType: Exclude<BetType, 'number'>, gameType: GameType | null | undefined): string {
+  const { range } = getGameType(gameType);
+  const half = range / 2;
+  switch (betType) {
+    case 'low':
+      return `LOW ${formatNumber(0, gameType)}-${formatNumber(half - 1, gameType)}`;
+    case 'high':
+      return `HIGH ${formatNumber(half, gameType)}-${formatNumber(range - 1, gameType)}`;
+    case 'set':
+      return 'SET';
+    default:
+      return betType.toUpperCase();
+  }
+}
+
+// e.g. "07", "ODD", "{01,02,03}"
+export function betItemLabel(item: BetItem, gameType: GameType | null | undefined): string {
+  if (!isGroupBet(item)) {
+    return formatNumber(item.digit ?? 0, gameType);
+  }
+  if (item.betType === 'set') {
+    return `{${(item.digits ?? []).map(n => formatNumber(n, gameType)).join(',')}}`;
+  }
+  return groupBetLabel(item.betType as Exclude<BetType, 'number'>, gameType);
+}
+
+// Distinct numbers of a custom set typed as "1, 2, 3", or null if any entry is out of range
+export function parseSetInput(value: string, range: number): number[] | null {
+  const parts = value.split(/[\s,]+/).filter(Boolean);
+  const numbers = parts.map(p => (/^\d+$/.test(p) ? parseInt(p, 10) : NaN));
+  if (numbers.some(n => isNaN(n) || n >= range)) return null;
+  return [...new Set(numbers)].sort((a, b) => a - b);
+}
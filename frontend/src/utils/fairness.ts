@@ -0,0 +1,119 @@
+// Browser-side provably fair verification.
+// Mirrors backend/src/utils/fairness.ts so players can recompute a draw without trusting the server.
+import type { RoundVerification, VerificationBet } from '../api/client';
+import { getGameType } from './gameType';
+import { isGroupBet } from './betType';
+
+export const MAX_CLIENT_SEED_LENGTH = 64;
+
+export interface VerificationResult {
+  seedMatchesCommitment: boolean;
+  betsDigestMatches: boolean;
+  clientSeedsDigestMatches: boolean;
+  recomputedDigit: number | null;
+  digitMatches: boolean;
+  passed: boolean;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(data)));
+}
+
+async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+}
+
+// Unbiased integer in [0, range) via rejection sampling over 32-bit words
+async function digestToOutcome(digestHex: string, range: number): Promise<number> {
+  const limit = 2 ** 32 - (2 ** 32 % range);
+  for (let i = 0; i + 8 <= digestHex.length; i += 8) {
+    const value = parseInt(digestHex.slice(i, i + 8), 16);
+    if (value < limit) {
+      return value % range;
+    }
+  }
+  return digestToOutcome(await sha256Hex(digestHex), range);
+}
+
+export async function computeBetsDigest(entries: VerificationBet[]): Promise<string> {
+  const canonical = [...entries]
+    .sort((a, b) => (a.invoiceId < b.invoiceId ? -1 : a.invoiceId > b.invoiceId ? 1 : 0))
+    // Group bets enter as [betType, digits, amount], single numbers as [digit, amount]
+    .map(e => [
+      e.invoiceId,
+      e.userNametag,
+      e.bets.map(b => (isGroupBet(b) ? [b.betType, b.digits ?? [], b.amount] : [b.digit, b.amount])),
+    ]);
+  return sha256Hex(JSON.stringify(canonical));
+}
+
+export async function computeClientSeedsDigest(entries: VerificationBet[]): Promise<string> {
+  const canonical = entries
+    .filter(e => !!e.clientSeed)
+    .sort((a, b) => (a.invoiceId < b.invoiceId ? -1 : a.invoiceId > b.invoiceId ? 1 : 0))
+    .map(e => [e.invoiceId, e.clientSeed]);
+  return sha256Hex(JSON.stringify(canonical));
+}
+
+// Random client seed suggested to players (16 bytes, hex)
+export function generateClientSeed(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+}
+
+function buildMessage(data: RoundVerification): string {
+  if ((data.fairnessVersion ?? 0) >= 3) {
+    return `${data.roundNumber}:${data.betsDigest ?? ''}:${data.clientSeedsDigest ?? ''}`;
+  }
+  if ((data.fairnessVersion ?? 0) >= 2) {
+    return `${data.roundNumber}:${data.betsDigest ?? ''}`;
+  }
+  return data.roundNumber.toString();
+}
+
+export async function verifyRound(data: RoundVerification): Promise<VerificationResult> {
+  if (!data.serverSeed || !data.serverSeedHash || data.fairnessVersion === null) {
+    return {
+      seedMatchesCommitment: false,
+      betsDigestMatches: false,
+      clientSeedsDigestMatches: false,
+      recomputedDigit: null,
+      digitMatches: false,
+      passed: false,
+    };
+  }
+
+  const seedMatchesCommitment = (await sha256Hex(data.serverSeed)) === data.serverSeedHash.toLowerCase();
+  const betsDigestMatches =
+    data.fairnessVersion < 2 || (await computeBetsDigest(data.bets)) === data.betsDigest;
+  const clientSeedsDigestMatches =
+    data.fairnessVersion < 3 || (await computeClientSeedsDigest(data.bets)) === data.clientSeedsDigest;
+  const digest = await hmacSha256Hex(data.serverSeed, buildMessage(data));
+  const recomputedDigit = await digestToOutcome(digest, getGameType(data.gameType).range);
+  const digitMatches = recomputedDigit === data.winningDigit;
+
+  return {
+    seedMatchesCommitment,
+    betsDigestMatches,
+    clientSeedsDigestMatches,
+    recomputedDigit,
+    digitMatches,
+    passed: seedMatchesCommitment && betsDigestMatches && clientSeedsDigestMatches && digitMatches,
+  };
+}
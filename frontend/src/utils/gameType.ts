@@ -0,0 +1,18 @@
+// Game types mirror backend/src/utils/game-type.ts.
+// Picked and winning numbers are plain integers in [0, range), shown zero-padded.
+import type { GameType } from '../api/client';
+
+export const GAME_TYPES: Record<GameType, { digits: number; range: number; label: string }> = {
+  'pick-1': { digits: 1, range: 10, label: 'PICK 1' },
+  'pick-2': { digits: 2, range: 100, label: 'PICK 2' },
+  'pick-3': { digits: 3, range: 1000, label: 'PICK 3' },
+};
+
+// Rounds from before game types existed are pick-1
+export function getGameType(gameType: GameType | null | undefined) {
+  return GAME_TYPES[gameType ?? 'pick-1'];
+}
+
+export function formatNumber(value: number, gameType: GameType | null | undefined): string {
+  return value.toString().padStart(getGameType(gameType).digits, '0');
+}